@@ -0,0 +1,18 @@
+/**
+ * Jest Configuration
+ *
+ * Unit tests live in tests/, mirroring src/features. Models are
+ * mocked (no database needed).
+ */
+
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  clearMocks: true
+};
@@ -0,0 +1,197 @@
+/**
+ * Account Controller
+ */
+
+import { Request, Response } from 'express';
+import * as accountService from './account.service';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Accounts (with current balances)
+ *
+ * Route: GET /api/accounts?includeArchived=false
+ */
+export const getAccounts = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const includeArchived = req.query.includeArchived === 'true';
+
+  const accounts = await accountService.getAccounts(userId, includeArchived);
+
+  return sendSuccess(res, accounts);
+};
+
+/**
+ * Get Single Account
+ *
+ * Route: GET /api/accounts/:id
+ */
+export const getAccountById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const account = await accountService.getAccountById(userId, req.params.id);
+
+  return sendSuccess(res, account);
+};
+
+/**
+ * Create Account
+ *
+ * Route: POST /api/accounts
+ */
+export const createAccount = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const account = await accountService.createAccount(userId, req.body);
+
+  return sendSuccess(
+    res,
+    account,
+    'Account created successfully',
+    201
+  );
+};
+
+/**
+ * Update Account
+ *
+ * Route: PUT /api/accounts/:id
+ */
+export const updateAccount = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const account = await accountService.updateAccount(userId, req.params.id, req.body);
+
+  return sendSuccess(res, account, 'Account updated successfully');
+};
+
+/**
+ * Delete Account (only without transactions; archive otherwise)
+ *
+ * Route: DELETE /api/accounts/:id
+ */
+export const deleteAccount = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await accountService.deleteAccount(userId, req.params.id);
+
+  return sendSuccess(res, null, 'Account deleted successfully');
+};
+
+/**
+ * Get Transfers
+ *
+ * Route: GET /api/accounts/transfers?accountId=&startDate=&endDate=&page=1&limit=20
+ */
+export const getTransfers = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await accountService.getTransfers(userId, {
+    accountId: req.query.accountId as string | undefined,
+    startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+    endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+    page: parseInt(req.query.page as string) || 1,
+    limit: parseInt(req.query.limit as string) || 20
+  });
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Transfer Between Accounts
+ *
+ * Route: POST /api/accounts/transfers
+ * Body: { fromAccountId, toAccountId, amount, toAmount?, date?, note? }
+ */
+export const createTransfer = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const transfer = await accountService.createTransfer(userId, req.body);
+
+  return sendSuccess(
+    res,
+    transfer,
+    'Transfer recorded successfully',
+    201
+  );
+};
+
+/**
+ * Delete Transfer
+ *
+ * Route: DELETE /api/accounts/transfers/:transferId
+ */
+export const deleteTransfer = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await accountService.deleteTransfer(userId, req.params.transferId);
+
+  return sendSuccess(res, null, 'Transfer deleted successfully');
+};
+
+/**
+ * Get Daily Balance History
+ *
+ * Route: GET /api/accounts/:id/history?days=30
+ */
+export const getBalanceHistory = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const days = parseInt(req.query.days as string) || undefined;
+
+  const history = await accountService.getBalanceHistory(userId, req.params.id, days);
+
+  return sendSuccess(res, history);
+};
+
+/**
+ * Reconcile Against a Statement
+ *
+ * Route: POST /api/accounts/:id/reconcile
+ * Body: { statementBalance, date?, note? }
+ */
+export const reconcileAccount = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const reconciliation = await accountService.reconcileAccount(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    reconciliation,
+    reconciliation.difference === 0
+      ? 'Balance matches the statement'
+      : 'Balance differs from the statement',
+    201
+  );
+};
+
+/**
+ * Get Reconciliations
+ *
+ * Route: GET /api/accounts/:id/reconciliations
+ */
+export const getReconciliations = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const reconciliations = await accountService.getReconciliations(userId, req.params.id);
+
+  return sendSuccess(res, reconciliations);
+};
@@ -0,0 +1,294 @@
+/**
+ * Account Models
+ *
+ * Purpose: Where the money actually is ("bKash", "DBBL card",
+ * "Cash wallet")
+ *
+ * Models:
+ * 1. Account - opening balance in its own currency
+ * 2. Transfer - money moved between two of the user's accounts
+ *    (not spending, not income)
+ * 3. Reconciliation - a statement balance checked against the
+ *    balance we computed
+ *
+ * Balances are never stored: opening balance + income − expenses
+ * + refunds ± transfers, counting transactions from the opening
+ * date on.
+ * Expenses / income linked to an account are in its currency.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export const ACCOUNT_TYPES = ['cash', 'card', 'mobile_banking', 'bank', 'other'] as const;
+
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+/**
+ * Account Interface
+ */
+export interface IAccount extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  openingDate: Date;
+  icon?: string;
+  color?: string;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Transfer Interface
+ */
+export interface ITransfer extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  fromAccountId: mongoose.Types.ObjectId;
+  toAccountId: mongoose.Types.ObjectId;
+  amount: number;          // Leaves fromAccount (its currency)
+  toAmount: number;        // Arrives in toAccount (its currency)
+  date: Date;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Reconciliation Interface
+ */
+export interface IReconciliation extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  accountId: mongoose.Types.ObjectId;
+  date: Date;              // Statement date (balance at the end of it)
+  statementBalance: number;
+  balance: number;         // Computed balance at that date
+  difference: number;      // statementBalance − balance
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const toJSONOptions = {
+  virtuals: true,
+  transform: function(_doc: any, ret: any) {
+    const result = ret as any;
+    delete result.__v;
+    return result;
+  }
+};
+
+/**
+ * Account Schema
+ */
+const AccountSchema = new Schema<IAccount>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Account name is required'],
+      trim: true,
+      maxlength: [50, 'Account name cannot exceed 50 characters']
+    },
+
+    type: {
+      type: String,
+      enum: ACCOUNT_TYPES,
+      default: 'cash'
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true
+    },
+
+    // Can be negative (credit card debt, overdraft)
+    openingBalance: {
+      type: Number,
+      default: 0
+    },
+
+    // Transactions before this date don't affect the balance
+    openingDate: {
+      type: Date,
+      default: Date.now
+    },
+
+    icon: {
+      type: String,
+      default: 'account-balance-wallet'
+    },
+
+    color: {
+      type: String,
+      default: '#2980B9'
+    },
+
+    // Archived accounts keep their history but take no new transactions
+    isArchived: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+/**
+ * Indexes
+ * - One account per name per user (case-insensitive)
+ */
+AccountSchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+/**
+ * Transfer Schema
+ */
+const TransferSchema = new Schema<ITransfer>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    fromAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true
+    },
+
+    toAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    // Differs from amount only between currencies
+    toAmount: {
+      type: Number,
+      required: true,
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    date: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+/**
+ * Indexes
+ * - Transfers out of / into an account over time (balances, history)
+ */
+TransferSchema.index({ userId: 1, fromAccountId: 1, date: -1 });
+TransferSchema.index({ userId: 1, toAccountId: 1, date: -1 });
+
+TransferSchema.virtual('fromAccount', {
+  ref: 'Account',
+  localField: 'fromAccountId',
+  foreignField: '_id',
+  justOne: true
+});
+
+TransferSchema.virtual('toAccount', {
+  ref: 'Account',
+  localField: 'toAccountId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Reconciliation Schema
+ */
+const ReconciliationSchema = new Schema<IReconciliation>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true
+    },
+
+    date: {
+      type: Date,
+      required: true
+    },
+
+    statementBalance: {
+      type: Number,
+      required: true
+    },
+
+    balance: {
+      type: Number,
+      required: true
+    },
+
+    difference: {
+      type: Number,
+      required: true
+    },
+
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+/**
+ * Indexes
+ * - Account's reconciliations, latest statement first
+ */
+ReconciliationSchema.index({ accountId: 1, date: -1 });
+
+export const Transfer = mongoose.model<ITransfer>('Transfer', TransferSchema);
+export const Reconciliation = mongoose.model<IReconciliation>('Reconciliation', ReconciliationSchema);
+
+const Account = mongoose.model<IAccount>('Account', AccountSchema);
+
+export default Account;
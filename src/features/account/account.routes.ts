@@ -0,0 +1,100 @@
+/**
+ * Account Routes
+ *
+ * Purpose: Accounts / wallets, transfers and reconciliation
+ */
+
+import { Router } from 'express';
+import * as accountController from './account.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createAccountSchema,
+  updateAccountSchema,
+  createTransferSchema,
+  reconcileSchema
+} from './account.validator';
+
+const router = Router();
+
+/**
+ * All account routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Accounts with balances
+ */
+router.get(
+  '/',
+  accountController.getAccounts
+);
+
+router.post(
+  '/',
+  validate(createAccountSchema),
+  accountController.createAccount
+);
+
+/**
+ * Transfers
+ * Note: Static routes must be before /:id
+ */
+router.get(
+  '/transfers',
+  accountController.getTransfers
+);
+
+router.post(
+  '/transfers',
+  validate(createTransferSchema),
+  accountController.createTransfer
+);
+
+router.delete(
+  '/transfers/:transferId',
+  accountController.deleteTransfer
+);
+
+/**
+ * Single account
+ */
+router.get(
+  '/:id',
+  accountController.getAccountById
+);
+
+router.put(
+  '/:id',
+  validate(updateAccountSchema),
+  accountController.updateAccount
+);
+
+router.delete(
+  '/:id',
+  accountController.deleteAccount
+);
+
+/**
+ * Daily balance history
+ */
+router.get(
+  '/:id/history',
+  accountController.getBalanceHistory
+);
+
+/**
+ * Statement reconciliation
+ */
+router.post(
+  '/:id/reconcile',
+  validate(reconcileSchema),
+  accountController.reconcileAccount
+);
+
+router.get(
+  '/:id/reconciliations',
+  accountController.getReconciliations
+);
+
+export default router;
@@ -0,0 +1,649 @@
+/**
+ * Account Service
+ *
+ * Purpose: Accounts / wallets with balances, transfers between them
+ * and statement reconciliation
+ *
+ * Key Concepts:
+ * 1. Balance = opening balance + income − expenses + refunds
+ *    − transfers out + transfers in, from the opening date on
+ *    (computed, never stored)
+ * 2. Amounts are in the account's currency: expenses and income use
+ *    their original amount, transfers their amount / toAmount
+ * 3. Transfers are neither spending nor income, so they never show
+ *    up in expense or income totals
+ * 4. Balance history is per day in the user's timezone
+ */
+
+import mongoose from 'mongoose';
+import Account, {
+  IAccount,
+  ITransfer,
+  IReconciliation,
+  AccountType,
+  Transfer,
+  Reconciliation
+} from './account.model';
+import Expense from '../expense/expense.model';
+import Income from '../income/income.model';
+import Refund from '../refund/refund.model';
+import { getUserBaseCurrency, convertAmount } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import { NotFoundError, BadRequestError, ConflictError } from '../../shared/utils/error.util';
+import { escapeRegex } from '../../shared/utils/text.util';
+import { startOfDay, endOfDay, formatDateKey } from '../../shared/utils/date.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Create Account DTO
+ */
+export interface CreateAccountDTO {
+  name: string;
+  type?: AccountType;
+  currency?: string;           // Default: user's base currency
+  openingBalance?: number;
+  openingDate?: Date;          // Default: start of today
+  icon?: string;
+  color?: string;
+}
+
+/**
+ * Update Account DTO
+ */
+export interface UpdateAccountDTO extends Partial<CreateAccountDTO> {
+  isArchived?: boolean;
+}
+
+/**
+ * Create Transfer DTO
+ */
+export interface CreateTransferDTO {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;              // In the source account's currency
+  toAmount?: number;           // Received (other currency); default: converted
+  date?: Date;
+  note?: string;
+}
+
+/**
+ * Transfer Filters
+ */
+export interface TransferFilters {
+  accountId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Reconcile DTO
+ */
+export interface ReconcileDTO {
+  statementBalance: number;
+  date?: Date;                 // Statement date (default: today)
+  note?: string;
+}
+
+/**
+ * Balance on One Day
+ */
+export interface BalancePoint {
+  date: string;                // YYYY-MM-DD (user's timezone)
+  inflow: number;
+  outflow: number;
+  balance: number;             // At the end of the day
+}
+
+/**
+ * Payment method recorded on expenses / income from an account
+ * (keeps the old paymentMethod filters and stats meaningful)
+ */
+export const ACCOUNT_PAYMENT_METHODS: Record<AccountType, string> = {
+  cash: 'cash',
+  card: 'card',
+  mobile_banking: 'mobile_banking',
+  bank: 'bank_transfer',
+  other: 'other'
+};
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 366;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Money In / Out of an Account (optionally per day)
+ */
+interface Movement {
+  accountId: string;
+  day: string;
+  inflow: number;
+  outflow: number;
+}
+
+/**
+ * Sum Movements of Accounts
+ *
+ * Counts transactions from each account's opening date (or `from`,
+ * if later) up to `until`.
+ *
+ * @param byDay - Group per day in this timezone
+ */
+const sumMovements = async (
+  accounts: IAccount[],
+  until: Date,
+  from?: Date,
+  byDay?: string
+): Promise<Movement[]> => {
+  if (accounts.length === 0) {
+    return [];
+  }
+
+  const sources: Array<{ model: mongoose.Model<any>; field: string; amount: any; direction: 'inflow' | 'outflow' }> = [
+    { model: Expense, field: 'accountId', amount: { $ifNull: ['$originalAmount', '$amount'] }, direction: 'outflow' },
+    { model: Income, field: 'accountId', amount: { $ifNull: ['$originalAmount', '$amount'] }, direction: 'inflow' },
+    { model: Refund, field: 'accountId', amount: '$originalAmount', direction: 'inflow' },
+    { model: Transfer, field: 'fromAccountId', amount: '$amount', direction: 'outflow' },
+    { model: Transfer, field: 'toAccountId', amount: '$toAmount', direction: 'inflow' }
+  ];
+
+  const results = await Promise.all(sources.map(source =>
+    source.model.aggregate([
+      {
+        $match: {
+          userId: accounts[0].userId,
+          $or: accounts.map(account => ({
+            [source.field]: account._id,
+            date: {
+              $gte: from && from > account.openingDate ? from : account.openingDate,
+              $lte: until
+            }
+          }))
+        }
+      },
+      {
+        $group: {
+          _id: {
+            accountId: `$${source.field}`,
+            day: byDay ? { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone: byDay } } : ''
+          },
+          total: { $sum: source.amount }
+        }
+      }
+    ]).then(rows => rows.map(row => ({ ...row, direction: source.direction })))
+  ));
+
+  const movements = new Map<string, Movement>();
+
+  results.flat().forEach(row => {
+    const key = `${row._id.accountId}|${row._id.day}`;
+
+    if (!movements.has(key)) {
+      movements.set(key, { accountId: row._id.accountId.toString(), day: row._id.day, inflow: 0, outflow: 0 });
+    }
+
+    movements.get(key)![row.direction as 'inflow' | 'outflow'] += row.total;
+  });
+
+  return Array.from(movements.values());
+};
+
+/**
+ * Balances of Accounts at an Instant
+ *
+ * @returns Balance by account ID
+ */
+const getBalances = async (accounts: IAccount[], at: Date = new Date()): Promise<Map<string, number>> => {
+  const movements = await sumMovements(accounts, at);
+  const balances = new Map(accounts.map(account => [account._id.toString(), account.openingBalance]));
+
+  movements.forEach(movement => {
+    balances.set(movement.accountId, (balances.get(movement.accountId) || 0) + movement.inflow - movement.outflow);
+  });
+
+  balances.forEach((balance, id) => balances.set(id, round(balance)));
+
+  return balances;
+};
+
+/**
+ * Get Account (owned by user)
+ */
+const findUserAccount = async (userId: string, accountId: string): Promise<IAccount> => {
+  const account = await Account.findOne({
+    _id: new mongoose.Types.ObjectId(accountId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!account) {
+    throw new NotFoundError('Account not found');
+  }
+
+  return account;
+};
+
+/**
+ * Ensure Name is Unused (case-insensitive)
+ */
+const ensureUniqueName = async (userId: string, name: string, excludeId?: string): Promise<void> => {
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId),
+    name: { $regex: new RegExp(`^${escapeRegex(name.trim())}$`, 'i') }
+  };
+
+  if (excludeId) {
+    query._id = { $ne: new mongoose.Types.ObjectId(excludeId) };
+  }
+
+  if (await Account.exists(query)) {
+    throw new ConflictError('Account with this name already exists');
+  }
+};
+
+/**
+ * Has Any Transactions or Transfers?
+ */
+const hasTransactions = async (account: IAccount): Promise<boolean> => {
+  const [expense, income, transfer] = await Promise.all([
+    Expense.exists({ accountId: account._id }),
+    Income.exists({ accountId: account._id }),
+    Transfer.exists({ $or: [{ fromAccountId: account._id }, { toAccountId: account._id }] })
+  ]);
+
+  return Boolean(expense || income || transfer);
+};
+
+/**
+ * Resolve Account for a Transaction
+ *
+ * Purpose: Called by expense / income create & update
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @param currency - Transaction currency, if given (must match the account)
+ * @returns Account (active, owned by user)
+ */
+export const resolveTransactionAccount = async (
+  userId: string,
+  accountId: string,
+  currency?: string
+): Promise<IAccount> => {
+  const account = await findUserAccount(userId, accountId);
+
+  if (account.isArchived) {
+    throw new BadRequestError('Account is archived');
+  }
+
+  if (currency && currency !== account.currency) {
+    throw new BadRequestError(`${account.name} is a ${account.currency} account; record the amount in ${account.currency}`);
+  }
+
+  return account;
+};
+
+/**
+ * Check Payment Method of an Account Transaction
+ *
+ * Purpose: Called by expense create, update & bulk update. The method
+ * has to fit the account type (bank accounts can also be paid from by
+ * card; 'other' on either side always fits).
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @param paymentMethod - Payment method being recorded
+ */
+export const checkAccountPaymentMethod = async (
+  userId: string,
+  accountId: string,
+  paymentMethod: string
+): Promise<void> => {
+  const account = await findUserAccount(userId, accountId);
+
+  if (account.type === 'other' || paymentMethod === 'other') {
+    return;
+  }
+
+  const allowed = account.type === 'bank'
+    ? [ACCOUNT_PAYMENT_METHODS.bank, 'card']
+    : [ACCOUNT_PAYMENT_METHODS[account.type]];
+
+  if (!allowed.includes(paymentMethod)) {
+    throw new BadRequestError(`${account.name} is a ${account.type.replace('_', ' ')} account; payment method must be ${allowed.join(' or ')}`);
+  }
+};
+
+/**
+ * Get Accounts with Balances
+ *
+ * @param userId - User ID
+ * @param includeArchived - Include archived accounts
+ * @returns Accounts (by name) with current balance
+ */
+export const getAccounts = async (userId: string, includeArchived: boolean = false) => {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (!includeArchived) {
+    query.isArchived = false;
+  }
+
+  const accounts = await Account.find(query).sort({ name: 1 });
+  const balances = await getBalances(accounts);
+
+  return accounts.map(account => ({
+    ...account.toJSON(),
+    balance: balances.get(account._id.toString()) || 0
+  }));
+};
+
+/**
+ * Get Single Account with Balance
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ */
+export const getAccountById = async (userId: string, accountId: string) => {
+  const account = await findUserAccount(userId, accountId);
+  const balances = await getBalances([account]);
+
+  return {
+    ...account.toJSON(),
+    balance: balances.get(account._id.toString()) || 0
+  };
+};
+
+/**
+ * Create Account
+ *
+ * @param userId - User ID
+ * @param data - Account data
+ */
+export const createAccount = async (userId: string, data: CreateAccountDTO): Promise<IAccount> => {
+  await ensureUniqueName(userId, data.name);
+
+  const [currency, timezone] = await Promise.all([
+    data.currency || getUserBaseCurrency(userId),
+    getUserTimezone(userId)
+  ]);
+
+  return Account.create({
+    ...data,
+    currency,
+    openingDate: data.openingDate || startOfDay(new Date(), timezone),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+};
+
+/**
+ * Update Account
+ *
+ * The currency can only change while the account has no transactions
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @param data - Fields to update
+ */
+export const updateAccount = async (
+  userId: string,
+  accountId: string,
+  data: UpdateAccountDTO
+): Promise<IAccount> => {
+  const account = await findUserAccount(userId, accountId);
+
+  if (data.name && data.name !== account.name) {
+    await ensureUniqueName(userId, data.name, accountId);
+  }
+
+  if (data.currency && data.currency !== account.currency && await hasTransactions(account)) {
+    throw new ConflictError('Cannot change the currency of an account with transactions');
+  }
+
+  account.set(data);
+  await account.save();
+
+  return account;
+};
+
+/**
+ * Delete Account
+ *
+ * Only empty accounts can be deleted; archive the others
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ */
+export const deleteAccount = async (userId: string, accountId: string): Promise<void> => {
+  const account = await findUserAccount(userId, accountId);
+
+  if (await hasTransactions(account)) {
+    throw new ConflictError('Account has transactions; archive it instead');
+  }
+
+  await Reconciliation.deleteMany({ accountId: account._id });
+  await account.deleteOne();
+};
+
+/**
+ * Create Transfer
+ *
+ * @param userId - User ID
+ * @param data - Accounts, amount, optional received amount
+ * @returns Transfer with both accounts populated
+ */
+export const createTransfer = async (userId: string, data: CreateTransferDTO): Promise<ITransfer> => {
+  if (data.fromAccountId === data.toAccountId) {
+    throw new BadRequestError('Cannot transfer to the same account');
+  }
+
+  const [from, to] = await Promise.all([
+    resolveTransactionAccount(userId, data.fromAccountId),
+    resolveTransactionAccount(userId, data.toAccountId)
+  ]);
+
+  const date = data.date || new Date();
+
+  // Same currency: what leaves arrives. Otherwise the amount actually
+  // received, or today's rate when the user doesn't know it.
+  const toAmount = from.currency === to.currency
+    ? data.amount
+    : data.toAmount ?? (await convertAmount(userId, data.amount, from.currency, to.currency, date)).converted;
+
+  const transfer = await Transfer.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    fromAccountId: from._id,
+    toAccountId: to._id,
+    amount: data.amount,
+    toAmount,
+    date,
+    note: data.note
+  });
+
+  await transfer.populate([
+    { path: 'fromAccount', select: 'name currency icon color' },
+    { path: 'toAccount', select: 'name currency icon color' }
+  ]);
+
+  return transfer;
+};
+
+/**
+ * Get Transfers
+ *
+ * @param userId - User ID
+ * @param filters - Account (either side), date range, pagination
+ * @returns Transfers, newest first
+ */
+export const getTransfers = async (
+  userId: string,
+  filters: TransferFilters
+): Promise<PaginatedResponse<ITransfer>> => {
+  const { accountId, startDate, endDate, page = 1, limit = 20 } = filters;
+
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (accountId) {
+    const id = new mongoose.Types.ObjectId(accountId);
+    query.$or = [{ fromAccountId: id }, { toAccountId: id }];
+  }
+
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) query.date.$gte = new Date(startDate);
+    if (endDate) query.date.$lte = new Date(endDate);
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [transfers, total] = await Promise.all([
+    Transfer.find(query)
+      .populate('fromAccount', 'name currency icon color')
+      .populate('toAccount', 'name currency icon color')
+      .sort({ date: -1 })
+      .skip(skip)
+      .limit(limit),
+    Transfer.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: transfers,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Delete Transfer
+ *
+ * @param userId - User ID
+ * @param transferId - Transfer ID
+ */
+export const deleteTransfer = async (userId: string, transferId: string): Promise<void> => {
+  const result = await Transfer.deleteOne({
+    _id: new mongoose.Types.ObjectId(transferId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Transfer not found');
+  }
+};
+
+/**
+ * Get Balance History
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @param days - Days back from today (default 30, max 366; not before the opening date)
+ * @returns End-of-day balance with money in / out for each day
+ */
+export const getBalanceHistory = async (
+  userId: string,
+  accountId: string,
+  days: number = DEFAULT_HISTORY_DAYS
+) => {
+  const account = await findUserAccount(userId, accountId);
+  const timezone = await getUserTimezone(userId);
+  const span = Math.min(Math.max(Math.floor(days) || DEFAULT_HISTORY_DAYS, 1), MAX_HISTORY_DAYS);
+
+  const now = new Date();
+  const openingDay = startOfDay(account.openingDate, timezone);
+  const requested = startOfDay(now, timezone, -(span - 1));
+  const from = requested > openingDay ? requested : openingDay;
+
+  const [before, daily] = await Promise.all([
+    sumMovements([account], new Date(from.getTime() - 1)),
+    sumMovements([account], now, from, timezone)
+  ]);
+
+  const startBalance = before.reduce(
+    (balance, movement) => balance + movement.inflow - movement.outflow,
+    account.openingBalance
+  );
+
+  const byDay = new Map(daily.map(movement => [movement.day, movement]));
+  const history: BalancePoint[] = [];
+  let balance = startBalance;
+
+  for (let day = from; day <= now; day = startOfDay(day, timezone, 1)) {
+    const key = formatDateKey(day, timezone);
+    const movement = byDay.get(key);
+    const inflow = movement?.inflow || 0;
+    const outflow = movement?.outflow || 0;
+
+    balance += inflow - outflow;
+    history.push({ date: key, inflow: round(inflow), outflow: round(outflow), balance: round(balance) });
+  }
+
+  return {
+    accountId: account._id,
+    currency: account.currency,
+    startBalance: round(startBalance),
+    balance: round(balance),
+    history
+  };
+};
+
+/**
+ * Reconcile Account with a Statement
+ *
+ * Records the statement balance next to the balance we computed for
+ * the end of the statement date; `difference` is what's missing
+ * (positive: the statement has more money than recorded).
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @param data - Statement balance, date and note
+ */
+export const reconcileAccount = async (
+  userId: string,
+  accountId: string,
+  data: ReconcileDTO
+): Promise<IReconciliation> => {
+  const account = await findUserAccount(userId, accountId);
+  const timezone = await getUserTimezone(userId);
+
+  const date = data.date ? new Date(data.date) : new Date();
+  const until = endOfDay(date, timezone);
+
+  if (until < account.openingDate) {
+    throw new BadRequestError('Statement date is before the account was opened');
+  }
+
+  const balances = await getBalances([account], until);
+  const balance = balances.get(account._id.toString()) || 0;
+
+  return Reconciliation.create({
+    userId: account.userId,
+    accountId: account._id,
+    date: until,
+    statementBalance: data.statementBalance,
+    balance,
+    difference: round(data.statementBalance - balance),
+    note: data.note
+  });
+};
+
+/**
+ * Get Reconciliations
+ *
+ * @param userId - User ID
+ * @param accountId - Account ID
+ * @returns Reconciliations, latest statement first
+ */
+export const getReconciliations = async (
+  userId: string,
+  accountId: string
+): Promise<IReconciliation[]> => {
+  const account = await findUserAccount(userId, accountId);
+
+  return Reconciliation.find({ accountId: account._id }).sort({ date: -1 });
+};
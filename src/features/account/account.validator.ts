@@ -0,0 +1,101 @@
+/**
+ * Account Validators
+ */
+
+import Joi from 'joi';
+import { ACCOUNT_TYPES } from './account.model';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+/**
+ * Create Account Schema
+ */
+export const createAccountSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': 'Account name cannot exceed 50 characters',
+      'any.required': 'Account name is required'
+    }),
+
+  type: Joi.string()
+    .valid(...ACCOUNT_TYPES)
+    .optional(),
+
+  // Default: user's base currency
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+
+  openingBalance: Joi.number().optional(),
+  openingDate: Joi.date().optional(),
+  icon: Joi.string().optional(),
+
+  color: Joi.string()
+    .pattern(/^#[0-9A-F]{6}$/i)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Color must be a valid hex code (e.g., #FF5733)'
+    })
+});
+
+/**
+ * Update Account Schema
+ */
+export const updateAccountSchema = Joi.object({
+  name: Joi.string().trim().max(50).optional(),
+  type: Joi.string().valid(...ACCOUNT_TYPES).optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional(),
+  openingBalance: Joi.number().optional(),
+  openingDate: Joi.date().optional(),
+  icon: Joi.string().optional(),
+  color: Joi.string().pattern(/^#[0-9A-F]{6}$/i).optional(),
+  isArchived: Joi.boolean().optional()
+}).min(1);
+
+/**
+ * Create Transfer Schema
+ */
+export const createTransferSchema = Joi.object({
+  fromAccountId: objectId.required(),
+  toAccountId: objectId.required(),
+
+  amount: Joi.number()
+    .positive()
+    .precision(2)
+    .required()
+    .messages({
+      'number.positive': 'Amount must be greater than 0',
+      'any.required': 'Amount is required'
+    }),
+
+  // Only between currencies (what actually arrived)
+  toAmount: Joi.number().positive().precision(2).optional(),
+
+  date: Joi.date().optional(),
+  note: Joi.string().trim().max(200).optional().allow('')
+});
+
+/**
+ * Reconcile Schema
+ */
+export const reconcileSchema = Joi.object({
+  statementBalance: Joi.number()
+    .required()
+    .messages({
+      'any.required': 'Statement balance is required'
+    }),
+
+  date: Joi.date().optional(),
+  note: Joi.string().trim().max(200).optional().allow('')
+});
@@ -0,0 +1,70 @@
+/**
+ * Anomaly Controller
+ */
+
+import { Request, Response } from 'express';
+import * as anomalyService from './anomaly.service';
+import { AnomalyStatus, AnomalyType } from './anomaly.model';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Anomalies
+ *
+ * Route: GET /api/anomalies?status=open&type=duplicate&expenseId=&page=1&limit=20
+ */
+export const getAnomalies = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await anomalyService.getAnomalies(userId, {
+    status: req.query.status as AnomalyStatus | undefined,
+    type: req.query.type as AnomalyType | undefined,
+    expenseId: req.query.expenseId as string | undefined,
+    page: parseInt(req.query.page as string) || 1,
+    limit: parseInt(req.query.limit as string) || 20
+  });
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Count Open Anomalies
+ *
+ * Route: GET /api/anomalies/count
+ */
+export const countOpenAnomalies = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const open = await anomalyService.countOpenAnomalies(userId);
+
+  return sendSuccess(res, { open });
+};
+
+/**
+ * Review or Dismiss Anomaly
+ *
+ * Route: PATCH /api/anomalies/:id
+ * Body: { status: 'reviewed' | 'dismissed', note? }
+ */
+export const reviewAnomaly = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const anomaly = await anomalyService.reviewAnomaly(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    anomaly,
+    anomaly.status === 'dismissed' ? 'Anomaly dismissed' : 'Anomaly marked as reviewed'
+  );
+};
@@ -0,0 +1,151 @@
+/**
+ * Anomaly Model
+ *
+ * Purpose: Flags raised on expenses that look unusual
+ *
+ * Types:
+ * 1. amount_outlier - far above what the user normally spends
+ *    in the category (e.g. a 10x grocery bill)
+ * 2. duplicate - same amount charged again within minutes
+ *    (e.g. a card swiped twice)
+ *
+ * One flag per expense per type. The user reviews (confirms it's a
+ * real problem) or dismisses (it's fine) each flag.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AnomalyType = 'amount_outlier' | 'duplicate';
+export type AnomalyStatus = 'open' | 'reviewed' | 'dismissed';
+
+/**
+ * Anomaly Details
+ *
+ * What the expense was compared against (depends on type)
+ */
+export interface IAnomalyDetails {
+  // amount_outlier
+  median?: number;
+  threshold?: number;
+  ratio?: number;
+  sampleSize?: number;
+
+  // duplicate
+  duplicateOfId?: mongoose.Types.ObjectId;
+  minutesApart?: number;
+}
+
+/**
+ * Anomaly Interface
+ */
+export interface IAnomaly extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  expenseId: mongoose.Types.ObjectId;
+  type: AnomalyType;
+  reason: string;
+  score: number;
+  details: IAnomalyDetails;
+  status: AnomalyStatus;
+  reviewedAt?: Date | null;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Anomaly Schema
+ */
+const AnomalySchema = new Schema<IAnomaly>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    expenseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Expense',
+      required: true
+    },
+
+    type: {
+      type: String,
+      enum: ['amount_outlier', 'duplicate'],
+      required: true
+    },
+
+    // Human-readable explanation shown to the user
+    reason: {
+      type: String,
+      required: true
+    },
+
+    // How unusual (outlier: ratio to the median; duplicate: 1)
+    score: {
+      type: Number,
+      default: 1
+    },
+
+    details: {
+      median: Number,
+      threshold: Number,
+      ratio: Number,
+      sampleSize: Number,
+      duplicateOfId: { type: Schema.Types.ObjectId, ref: 'Expense' },
+      minutesApart: Number
+    },
+
+    status: {
+      type: String,
+      enum: ['open', 'reviewed', 'dismissed'],
+      default: 'open'
+    },
+
+    reviewedAt: {
+      type: Date,
+      default: null
+    },
+
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    },
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Indexes
+ * - One flag per expense per type (re-analysis doesn't duplicate)
+ * - Listing open flags, newest first
+ */
+AnomalySchema.index({ expenseId: 1, type: 1 }, { unique: true });
+AnomalySchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+/**
+ * Virtual: expense
+ */
+AnomalySchema.virtual('expense', {
+  ref: 'Expense',
+  localField: 'expenseId',
+  foreignField: '_id',
+  justOne: true
+});
+
+const Anomaly = mongoose.model<IAnomaly>('Anomaly', AnomalySchema);
+
+export default Anomaly;
@@ -0,0 +1,46 @@
+/**
+ * Anomaly Routes
+ *
+ * Purpose: List and review unusual-expense flags
+ */
+
+import { Router } from 'express';
+import * as anomalyController from './anomaly.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import { reviewAnomalySchema } from './anomaly.validator';
+
+const router = Router();
+
+/**
+ * All anomaly routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Get flagged expenses
+ */
+router.get(
+  '/',
+  anomalyController.getAnomalies
+);
+
+/**
+ * Number of open flags (badge)
+ * Note: Static routes must be before /:id
+ */
+router.get(
+  '/count',
+  anomalyController.countOpenAnomalies
+);
+
+/**
+ * Review or dismiss a flag
+ */
+router.patch(
+  '/:id',
+  validate(reviewAnomalySchema),
+  anomalyController.reviewAnomaly
+);
+
+export default router;
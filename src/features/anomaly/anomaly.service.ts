@@ -0,0 +1,359 @@
+/**
+ * Anomaly Service
+ *
+ * Purpose: Spot unusual expenses as they are created and let the
+ * user review or dismiss them
+ *
+ * Checks:
+ * 1. Amount outlier - compared with the category's recent history
+ *    (median and MAD, so a few big purchases don't skew "normal").
+ *    Flagged when the amount is both several times the median and
+ *    far outside the usual spread.
+ * 2. Duplicate - another expense with the same amount, currency and
+ *    payee / description within a few minutes
+ *
+ * Analysis never blocks expense creation: callers run it
+ * fire-and-forget.
+ */
+
+import mongoose from 'mongoose';
+import Anomaly, { IAnomaly, AnomalyStatus, AnomalyType } from './anomaly.model';
+import Expense, { IExpense } from '../expense/expense.model';
+import Category from '../category/category.model';
+import User from '../auth/auth.model';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { sendAnomalyNotification } from '../notification/notification.service';
+import { NotFoundError } from '../../shared/utils/error.util';
+import { normalizeText } from '../../shared/utils/text.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Anomaly Filters
+ */
+export interface AnomalyFilters {
+  status?: AnomalyStatus;
+  type?: AnomalyType;
+  expenseId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Review Anomaly DTO
+ */
+export interface ReviewAnomalyDTO {
+  status: 'reviewed' | 'dismissed';
+  note?: string;
+}
+
+/**
+ * Analyze Options
+ */
+export interface AnalyzeOptions {
+  notify?: boolean;            // Push when something is flagged (default true)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amount outlier
+const HISTORY_DAYS = 180;
+const MIN_HISTORY = 8;         // Too little history → no opinion
+const MIN_RATIO = 3;           // At least 3x the median...
+const MAD_MULTIPLIER = 6;      // ...and 6 robust deviations above it
+const MAD_SCALE = 1.4826;      // MAD → standard deviation (normal data)
+
+// Duplicate
+const DUPLICATE_WINDOW_MINUTES = 10;
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Median of a Sorted Array
+ */
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Flag Candidate
+ */
+type Finding = Pick<IAnomaly, 'type' | 'reason' | 'score' | 'details'>;
+
+/**
+ * Check Amount against Category History
+ *
+ * @returns Finding, or null when the amount is normal (or history is too short)
+ */
+const checkAmountOutlier = async (expense: IExpense): Promise<Finding | null> => {
+  const history = await Expense.find({
+    userId: expense.userId,
+    categoryId: expense.categoryId,
+    _id: { $ne: expense._id },
+    date: { $gte: new Date(expense.date.getTime() - HISTORY_DAYS * DAY_MS), $lte: expense.date }
+  })
+    .select('amount')
+    .lean();
+
+  if (history.length < MIN_HISTORY) {
+    return null;
+  }
+
+  const amounts = history.map(item => item.amount).sort((a, b) => a - b);
+  const typical = median(amounts);
+  const mad = median(amounts.map(amount => Math.abs(amount - typical)).sort((a, b) => a - b));
+
+  const threshold = Math.max(typical * MIN_RATIO, typical + MAD_MULTIPLIER * MAD_SCALE * mad);
+
+  if (typical <= 0 || expense.amount <= threshold) {
+    return null;
+  }
+
+  const [category, currency] = await Promise.all([
+    Category.findById(expense.categoryId).select('name'),
+    getUserBaseCurrency(expense.userId.toString())
+  ]);
+
+  const ratio = expense.amount / typical;
+
+  return {
+    type: 'amount_outlier',
+    reason: `${round(ratio, 1)}x your usual ${category?.name || 'category'} expense ` +
+      `(typically ${typical.toFixed(2)} ${currency})`,
+    score: round(ratio, 1),
+    details: {
+      median: round(typical),
+      threshold: round(threshold),
+      ratio: round(ratio, 2),
+      sampleSize: amounts.length
+    }
+  };
+};
+
+/**
+ * Look for the Same Charge Recorded Twice
+ *
+ * Same amount (in the original currency) within a few minutes, and
+ * the same payee or description
+ *
+ * @returns Finding pointing at the closest earlier-looking twin, or null
+ */
+const checkDuplicate = async (expense: IExpense): Promise<Finding | null> => {
+  const windowMs = DUPLICATE_WINDOW_MINUTES * 60 * 1000;
+
+  const candidates = await Expense.find({
+    userId: expense.userId,
+    _id: { $ne: expense._id },
+    currency: expense.currency,
+    originalAmount: expense.originalAmount ?? expense.amount,
+    date: {
+      $gte: new Date(expense.date.getTime() - windowMs),
+      $lte: new Date(expense.date.getTime() + windowMs)
+    }
+  })
+    .select('description payeeId categoryId date')
+    .lean();
+
+  const description = normalizeText(expense.description);
+
+  const twins = candidates.filter(candidate => {
+    if (expense.payeeId && candidate.payeeId) {
+      return candidate.payeeId.equals(expense.payeeId);
+    }
+
+    if (description || candidate.description) {
+      return normalizeText(candidate.description) === description;
+    }
+
+    // Neither has a description: same category is the best we have
+    return candidate.categoryId.equals(expense.categoryId);
+  });
+
+  if (twins.length === 0) {
+    return null;
+  }
+
+  const closest = twins.reduce((best, candidate) =>
+    Math.abs(candidate.date.getTime() - expense.date.getTime()) <
+      Math.abs(best.date.getTime() - expense.date.getTime()) ? candidate : best
+  );
+
+  const minutesApart = Math.round(Math.abs(closest.date.getTime() - expense.date.getTime()) / 60000);
+
+  return {
+    type: 'duplicate',
+    reason: minutesApart === 0
+      ? 'Possible duplicate: same amount recorded at the same time'
+      : `Possible duplicate: same amount recorded ${minutesApart} min apart`,
+    score: 1,
+    details: {
+      duplicateOfId: closest._id,
+      minutesApart
+    }
+  };
+};
+
+/**
+ * Analyze Expense
+ *
+ * Runs every check and stores a flag for each finding. Re-analyzing
+ * keeps existing flags as they are (a dismissed flag stays dismissed).
+ *
+ * @param expense - Saved expense
+ * @param options - notify: push when something new is flagged
+ * @returns Newly created flags
+ */
+export const analyzeExpense = async (
+  expense: IExpense,
+  options: AnalyzeOptions = {}
+): Promise<IAnomaly[]> => {
+  const findings = (await Promise.all([
+    checkAmountOutlier(expense),
+    checkDuplicate(expense)
+  ])).filter((finding): finding is Finding => finding !== null);
+
+  const created: IAnomaly[] = [];
+
+  for (const finding of findings) {
+    const result = await Anomaly.findOneAndUpdate(
+      { expenseId: expense._id, type: finding.type },
+      {
+        $setOnInsert: {
+          userId: expense.userId,
+          expenseId: expense._id,
+          ...finding
+        }
+      },
+      { upsert: true, new: true, includeResultMetadata: true }
+    );
+
+    if (result.value && !result.lastErrorObject?.updatedExisting) {
+      created.push(result.value);
+    }
+  }
+
+  if (created.length > 0 && options.notify !== false) {
+    const user = await User.findById(expense.userId).select('anomalyAlerts');
+
+    if (user?.anomalyAlerts) {
+      await sendAnomalyNotification(
+        expense.userId.toString(),
+        expense.description || 'Expense',
+        created[0].reason,
+        expense._id.toString()
+      );
+    }
+  }
+
+  return created;
+};
+
+/**
+ * Get Anomalies
+ *
+ * @param userId - User ID
+ * @param filters - Status / type / expense, pagination
+ * @returns Flags newest first, with the expense populated
+ */
+export const getAnomalies = async (
+  userId: string,
+  filters: AnomalyFilters
+): Promise<PaginatedResponse<IAnomaly>> => {
+  const { status, type, expenseId, page = 1, limit = 20 } = filters;
+
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (status) query.status = status;
+  if (type) query.type = type;
+  if (expenseId) query.expenseId = new mongoose.Types.ObjectId(expenseId);
+
+  const skip = (page - 1) * limit;
+
+  const [anomalies, total] = await Promise.all([
+    Anomaly.find(query)
+      .populate({
+        path: 'expense',
+        select: 'description amount currency originalAmount date categoryId payeeId',
+        populate: { path: 'category', select: 'name icon color' }
+      })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    Anomaly.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: anomalies,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Count Open Anomalies (badge)
+ *
+ * @param userId - User ID
+ */
+export const countOpenAnomalies = async (userId: string): Promise<number> => {
+  return Anomaly.countDocuments({
+    userId: new mongoose.Types.ObjectId(userId),
+    status: 'open'
+  });
+};
+
+/**
+ * Review or Dismiss Anomaly
+ *
+ * @param userId - User ID
+ * @param anomalyId - Anomaly ID
+ * @param data - New status and optional note
+ * @returns Updated flag
+ */
+export const reviewAnomaly = async (
+  userId: string,
+  anomalyId: string,
+  data: ReviewAnomalyDTO
+): Promise<IAnomaly> => {
+  const anomaly = await Anomaly.findOneAndUpdate(
+    {
+      _id: new mongoose.Types.ObjectId(anomalyId),
+      userId: new mongoose.Types.ObjectId(userId)
+    },
+    {
+      status: data.status,
+      note: data.note,
+      reviewedAt: new Date()
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!anomaly) {
+    throw new NotFoundError('Anomaly not found');
+  }
+
+  return anomaly;
+};
+
+/**
+ * Delete Flags of Deleted Expenses
+ *
+ * @param expenseIds - Expense IDs
+ * @param session - Optional transaction session
+ */
+export const deleteExpenseAnomalies = async (
+  expenseIds: Array<string | mongoose.Types.ObjectId>,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  await Anomaly.deleteMany(
+    { expenseId: { $in: expenseIds.map(id => new mongoose.Types.ObjectId(id)) } },
+    { session }
+  );
+};
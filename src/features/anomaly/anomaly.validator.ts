@@ -0,0 +1,24 @@
+/**
+ * Anomaly Validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Review Anomaly Schema
+ */
+export const reviewAnomalySchema = Joi.object({
+  status: Joi.string()
+    .valid('reviewed', 'dismissed')
+    .required()
+    .messages({
+      'any.only': 'Status must be reviewed or dismissed',
+      'any.required': 'Status is required'
+    }),
+
+  note: Joi.string()
+    .trim()
+    .max(200)
+    .allow('')
+    .optional()
+});
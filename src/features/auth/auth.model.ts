@@ -4,6 +4,8 @@
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../../shared/utils/date.util';
 
 /**
  * User Interface
@@ -16,7 +18,10 @@ export interface IUser extends Document {
   avatar?: string;
   phoneNumber?: string;
   currency: string;
+  timezone: string;
+  monthStartDay: number;
   monthlyBudget?: number;
+  anomalyAlerts: boolean;
   deviceTokens: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -71,7 +76,26 @@ const UserSchema = new Schema<IUser>(
     currency: {
       type: String,
       default: 'BDT',
-      enum: ['BDT', 'USD', 'EUR', 'INR', 'GBP']
+      enum: SUPPORTED_CURRENCIES
+    },
+    
+    // IANA name; "today" / "this month" are computed in this zone
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: 'Invalid timezone'
+      }
+    },
+    
+    // Day the financial month starts (e.g. 25 = payday);
+    // clamps to the last day of shorter months
+    monthStartDay: {
+      type: Number,
+      default: 1,
+      min: [1, 'Month start day must be between 1 and 31'],
+      max: [31, 'Month start day must be between 1 and 31']
     },
     
     monthlyBudget: {
@@ -80,6 +104,12 @@ const UserSchema = new Schema<IUser>(
       min: [0, 'Budget cannot be negative']
     },
     
+    // Push a notification when a new expense looks unusual
+    anomalyAlerts: {
+      type: Boolean,
+      default: true
+    },
+    
     deviceTokens: {
       type: [String],
       default: []
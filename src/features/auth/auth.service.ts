@@ -14,6 +14,8 @@ import User, { IUser } from './auth.model';
 import { ConflictError, UnauthorizedError, NotFoundError } from '../../shared/utils/error.util';
 import { generateTokenPair, TokenPayload } from '../../shared/utils/jwt.util';
 import * as categoryService from '../category/category.service';
+import * as currencyService from '../currency/currency.service';
+import { DEFAULT_TIMEZONE } from '../../shared/utils/date.util';
 /**
  * Register User DTO (Data Transfer Object)
  * 
@@ -24,6 +26,7 @@ export interface RegisterDTO {
   password: string;
   name: string;
   phoneNumber?: string;
+  timezone?: string;
 }
 
 /**
@@ -46,6 +49,7 @@ export interface AuthResponse {
     name: string;
     avatar?: string;
     currency: string;
+    timezone: string;
   };
   tokens: {
     accessToken: string;
@@ -67,7 +71,7 @@ export interface AuthResponse {
  * @throws ConflictError if email exists
  */
 export const registerUser = async (data: RegisterDTO): Promise<AuthResponse> => {
-  const { email, password, name, phoneNumber } = data;
+  const { email, password, name, phoneNumber, timezone } = data;
   
   // Check if user already exists
   const existingUser = await User.findOne({ email });
@@ -80,7 +84,8 @@ export const registerUser = async (data: RegisterDTO): Promise<AuthResponse> =>
     email,
     password,  // Will be hashed by pre-save hook
     name,
-    phoneNumber
+    phoneNumber,
+    timezone
   });
    // ✅ Create default categories for new user
   try {
@@ -107,7 +112,8 @@ export const registerUser = async (data: RegisterDTO): Promise<AuthResponse> =>
       email: user.email,
       name: user.name,
       avatar: user.avatar,
-      currency: user.currency
+      currency: user.currency,
+      timezone: user.timezone
     },
     tokens
   };
@@ -164,7 +170,8 @@ export const loginUser = async (data: LoginDTO): Promise<AuthResponse> => {
       email: user.email,
       name: user.name,
       avatar: user.avatar,
-      currency: user.currency
+      currency: user.currency,
+      timezone: user.timezone
     },
     tokens
   };
@@ -191,7 +198,10 @@ export const getUserProfile = async (userId: string) => {
     avatar: user.avatar,
     phoneNumber: user.phoneNumber,
     currency: user.currency,
+    timezone: user.timezone,
+    monthStartDay: user.monthStartDay,
     monthlyBudget: user.monthlyBudget,
+    anomalyAlerts: user.anomalyAlerts,
     createdAt: user.createdAt,
     lastLogin: user.lastLogin
   };
@@ -211,7 +221,10 @@ export const updateUserProfile = async (
     phoneNumber: string;
     avatar: string;
     currency: string;
+    timezone: string;
+    monthStartDay: number;
     monthlyBudget: number;
+    anomalyAlerts: boolean;
   }>
 ) => {
   const user = await User.findById(userId);
@@ -220,12 +233,26 @@ export const updateUserProfile = async (
     throw new NotFoundError('User not found');
   }
   
+  // Base currency change: re-convert stored amounts and budgets first
+  // (throws if a rate is missing, leaving everything unchanged)
+  if (data.currency && data.currency !== user.currency) {
+    await currencyService.rebaseUserAmounts(userId, user.currency, data.currency);
+    
+    if (user.monthlyBudget && data.monthlyBudget === undefined) {
+      const rate = await currencyService.getExchangeRate(userId, user.currency, data.currency);
+      user.monthlyBudget = Math.round(user.monthlyBudget * rate * 100) / 100;
+    }
+  }
+  
   // Update only provided fields
   if (data.name) user.name = data.name;
   if (data.phoneNumber !== undefined) user.phoneNumber = data.phoneNumber;
   if (data.avatar !== undefined) user.avatar = data.avatar;
   if (data.currency) user.currency = data.currency;
+  if (data.timezone) user.timezone = data.timezone;
+  if (data.monthStartDay) user.monthStartDay = data.monthStartDay;
   if (data.monthlyBudget !== undefined) user.monthlyBudget = data.monthlyBudget;
+  if (data.anomalyAlerts !== undefined) user.anomalyAlerts = data.anomalyAlerts;
   
   await user.save();
   
@@ -236,7 +263,10 @@ export const updateUserProfile = async (
     avatar: user.avatar,
     phoneNumber: user.phoneNumber,
     currency: user.currency,
-    monthlyBudget: user.monthlyBudget
+    timezone: user.timezone,
+    monthStartDay: user.monthStartDay,
+    monthlyBudget: user.monthlyBudget,
+    anomalyAlerts: user.anomalyAlerts
   };
 };
 
@@ -295,4 +325,33 @@ export const getUserDeviceTokens = async (
   }
   
   return user.deviceTokens;
-};
\ No newline at end of file
+};
+
+/**
+ * Get User Timezone
+ * 
+ * @param userId - User ID
+ * @returns IANA timezone (default: Asia/Dhaka)
+ */
+export const getUserTimezone = async (userId: string): Promise<string> => {
+  const user = await User.findById(userId).select('timezone');
+  
+  return user?.timezone || DEFAULT_TIMEZONE;
+};
+
+/**
+ * Get User Calendar Settings
+ * 
+ * @param userId - User ID
+ * @returns Timezone and the day the financial month starts
+ */
+export const getUserCalendar = async (
+  userId: string
+): Promise<{ timezone: string; monthStartDay: number }> => {
+  const user = await User.findById(userId).select('timezone monthStartDay');
+  
+  return {
+    timezone: user?.timezone || DEFAULT_TIMEZONE,
+    monthStartDay: user?.monthStartDay || 1
+  };
+};
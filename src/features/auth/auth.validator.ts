@@ -12,6 +12,18 @@
  */
 
 import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+import { isValidTimezone } from '../../shared/utils/date.util';
+
+/**
+ * IANA Timezone (e.g. "Asia/Dhaka")
+ */
+const timezone = Joi.string()
+  .trim()
+  .custom((value, helpers) => isValidTimezone(value) ? value : helpers.error('any.invalid'))
+  .messages({
+    'any.invalid': 'Invalid timezone'
+  });
 
 /**
  * Register Validation Schema
@@ -55,7 +67,9 @@ export const registerSchema = Joi.object({
     .optional()
     .messages({
       'string.pattern.base': 'Phone number must be 11 digits'
-    })
+    }),
+  
+  timezone: timezone.optional()
 });
 
 /**
@@ -100,12 +114,27 @@ export const updateProfileSchema = Joi.object({
     .optional(),
   
   currency: Joi.string()
-    .valid('BDT', 'USD', 'EUR', 'INR', 'GBP')
+    .valid(...SUPPORTED_CURRENCIES)
     .optional(),
   
+  timezone: timezone.optional(),
+  
+  monthStartDay: Joi.number()
+    .integer()
+    .min(1)
+    .max(31)
+    .optional()
+    .messages({
+      'number.min': 'Month start day must be between 1 and 31',
+      'number.max': 'Month start day must be between 1 and 31'
+    }),
+  
   monthlyBudget: Joi.number()
     .min(0)
     .allow(null)
+    .optional(),
+  
+  anomalyAlerts: Joi.boolean()
     .optional()
 });
 
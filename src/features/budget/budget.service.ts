@@ -5,16 +5,28 @@
  * 
  * Key Concepts:
  * 1. Budget stored in Category model (monthlyBudget field)
- * 2. Calculate actual spending from Expenses
+ * 2. Calculate actual spending from Expenses (net of refunds)
  * 3. Compare planned vs actual
  * 4. Generate alerts and statistics
+ * 
+ * Budgets can be set at either level of the category tree:
+ * - A top-level category's budget covers its own expenses and its
+ *   subcategories'; a subcategory's budget covers just its own
+ * - Each budget is evaluated on what it covers (same thresholds)
+ * - Subcategory budgets are part of a budgeted parent's, so totals
+ *   count only budgets not inside another one (nothing twice)
  */
 
-import Category from '../category/category.model';
-import Expense from '../expense/expense.model';
+import Category, { ICategory } from '../category/category.model';
+import { ensureBudgetFits } from '../category/category.service';
+import Expense, { NET_AMOUNT } from '../expense/expense.model';
 import { NotFoundError } from '../../shared/utils/error.util';
 import mongoose from 'mongoose';
 import { sendBudgetAlert } from '../notification/notification.service';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getSpendingForecast, ForecastBand } from '../forecast/forecast.service';
+import { getUserCalendar } from '../auth/auth.service';
+import { startOfPeriod, endOfPeriod } from '../../shared/utils/date.util';
 /**
  * Budget Status Interface
  */
@@ -23,90 +35,145 @@ export interface BudgetStatus {
   categoryName: string;
   categoryColor: string;
   categoryIcon: string;
+  parentId: string | null;
+  includesSubcategories: boolean;   // Spent includes subcategories
   budget: number;
   spent: number;
   remaining: number;
   percentage: number;
   status: 'safe' | 'warning' | 'exceeded';
   color: string;
+  forecast?: BudgetForecast;
+}
+
+/**
+ * Projected End-of-Month Spending vs Budget
+ */
+export interface BudgetForecast extends ForecastBand {
+  percentage: number;
+  status: 'safe' | 'warning' | 'exceeded';
 }
 
 /**
  * Overall Budget Summary
  */
 export interface BudgetSummary {
+  currency: string;  // Budgets & spending are in the user's base currency
   totalBudget: number;
   totalSpent: number;
   totalRemaining: number;
   overallPercentage: number;
   categoriesWithBudget: number;
   categoriesOverBudget: number;
+  projectedTotal: number;              // Forecast end-of-month spending (budgeted categories)
+  categoriesProjectedOver: number;
   categories: BudgetStatus[];
 }
 
 /**
  * Get Current Month Date Range
  * 
- * Helper function to get start and end of current month
+ * Helper function to get start and end of the current financial
+ * month (user's start day, e.g. payday on the 25th) in the user's
+ * timezone
  */
-const getCurrentMonthRange = () => {
+const getCurrentMonthRange = async (userId: string) => {
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
   const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+  const startOfMonth = startOfPeriod(now, timezone, monthStartDay);
+  const endOfMonth = endOfPeriod(now, timezone, monthStartDay);
   
   return { startOfMonth, endOfMonth };
 };
 
 /**
- * Calculate Budget Status for Single Category
+ * Budgeted Category and What Its Budget Covers
+ */
+interface BudgetLine {
+  category: ICategory;
+  categoryIds: string[];    // The category + its subcategories (top level)
+  spent: number;
+  counted: boolean;         // In totals (not inside a budgeted parent)
+}
+
+/**
+ * Get Budget Lines for a Date Range
  * 
  * @param userId - User ID
- * @param categoryId - Category ID
- * @returns Budget status with spending details
+ * @param start - Range start
+ * @param end - Range end
+ * @param categoryId - Only this category's budget
  */
-export const getCategoryBudgetStatus = async (
+const getBudgetLines = async (
   userId: string,
-  categoryId: string
-): Promise<BudgetStatus> => {
-  // Find category
-  const category = await Category.findOne({
-    _id: new mongoose.Types.ObjectId(categoryId),
-    userId: new mongoose.Types.ObjectId(userId)
-  });
+  start: Date,
+  end: Date,
+  categoryId?: string
+): Promise<BudgetLine[]> => {
+  const categories = await Category.find({ userId: new mongoose.Types.ObjectId(userId) });
+  const budgetedIds = new Set(
+    categories.filter(category => category.monthlyBudget).map(category => category._id.toString())
+  );
   
-  if (!category) {
-    throw new NotFoundError('Category not found');
-  }
+  const lines = categories
+    .filter(category =>
+      budgetedIds.has(category._id.toString()) &&
+      (!categoryId || category._id.toString() === categoryId)
+    )
+    .map(category => ({
+      category,
+      categoryIds: [
+        category._id.toString(),
+        ...(category.parentId
+          ? []
+          : categories
+              .filter(child => child.parentId?.equals(category._id))
+              .map(child => child._id.toString()))
+      ],
+      counted: !category.parentId || !budgetedIds.has(category.parentId.toString())
+    }));
   
-  if (!category.monthlyBudget) {
-    throw new NotFoundError('Category has no budget set');
+  if (lines.length === 0) {
+    return [];
   }
   
-  // Get current month range
-  const { startOfMonth, endOfMonth } = getCurrentMonthRange();
-  
-  // Calculate total spent this month
-  const expenses = await Expense.aggregate([
+  const spending = await Expense.aggregate([
     {
       $match: {
         userId: new mongoose.Types.ObjectId(userId),
-        categoryId: new mongoose.Types.ObjectId(categoryId),
-        date: {
-          $gte: startOfMonth,
-          $lte: endOfMonth
-        }
+        categoryId: {
+          $in: [...new Set(lines.flatMap(line => line.categoryIds))].map(id => new mongoose.Types.ObjectId(id))
+        },
+        date: { $gte: start, $lte: end }
       }
     },
     {
       $group: {
-        _id: null,
-        total: { $sum: '$amount' }
+        _id: '$categoryId',
+        total: { $sum: NET_AMOUNT }
       }
     }
   ]);
   
-  const spent = expenses[0]?.total || 0;
-  const budget = category.monthlyBudget;
+  // Create spending map for quick lookup
+  const spendingMap = new Map<string, number>(
+    spending.map(item => [item._id.toString(), item.total])
+  );
+  
+  return lines.map(line => ({
+    ...line,
+    spent: Math.round(
+      line.categoryIds.reduce((sum, id) => sum + (spendingMap.get(id) || 0), 0) * 100
+    ) / 100
+  }));
+};
+
+/**
+ * Budget Status of One Line
+ */
+const toBudgetStatus = (line: BudgetLine): BudgetStatus => {
+  const { category, spent } = line;
+  const budget = category.monthlyBudget!;
   const remaining = budget - spent;
   const percentage = budget > 0 ? (spent / budget) * 100 : 0;
   
@@ -124,16 +191,14 @@ export const getCategoryBudgetStatus = async (
     status = 'safe';
     color = '#27AE60';  // Green
   }
-    if (percentage >= 80) {
-    sendBudgetAlert(userId, category.name, percentage).catch(err => {
-      console.error('Failed to send budget alert:', err);
-    });
-  }
+  
   return {
     categoryId: category._id.toString(),
     categoryName: category.name,
     categoryColor: category.color,
     categoryIcon: category.icon,
+    parentId: category.parentId?.toString() ?? null,
+    includesSubcategories: line.categoryIds.length > 1,
     budget,
     spent,
     remaining,
@@ -143,6 +208,84 @@ export const getCategoryBudgetStatus = async (
   };
 };
 
+/**
+ * Get Budgeted Spending for a Date Range
+ * 
+ * Purpose: Budget totals without double counting (dashboard)
+ * 
+ * @param userId - User ID
+ * @param start - Range start
+ * @param end - Range end
+ * @returns Total budget, spent against it, and the categories it covers
+ */
+export const getBudgetedSpending = async (userId: string, start: Date, end: Date) => {
+  const lines = (await getBudgetLines(userId, start, end)).filter(line => line.counted);
+  
+  return {
+    totalBudget: lines.reduce((sum, line) => sum + line.category.monthlyBudget!, 0),
+    totalSpent: Math.round(lines.reduce((sum, line) => sum + line.spent, 0) * 100) / 100,
+    categoryIds: lines.flatMap(line => line.categoryIds)
+  };
+};
+
+/**
+ * Compare Forecast with Budget
+ * 
+ * Same thresholds as the spent-so-far status (80% warning, 100% exceeded)
+ */
+const toBudgetForecast = (budget: number, band: ForecastBand): BudgetForecast => {
+  const percentage = budget > 0 ? (band.projected / budget) * 100 : 0;
+  
+  return {
+    projected: band.projected,
+    low: band.low,
+    high: band.high,
+    percentage: Math.round(percentage * 100) / 100,
+    status: percentage >= 100 ? 'exceeded' : percentage >= 80 ? 'warning' : 'safe'
+  };
+};
+
+/**
+ * Calculate Budget Status for Single Category
+ * 
+ * @param userId - User ID
+ * @param categoryId - Category ID
+ * @returns Budget status with spending details
+ */
+export const getCategoryBudgetStatus = async (
+  userId: string,
+  categoryId: string
+): Promise<BudgetStatus> => {
+  // Find category
+  const category = await Category.findOne({
+    _id: new mongoose.Types.ObjectId(categoryId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+  
+  if (!category) {
+    throw new NotFoundError('Category not found');
+  }
+  
+  if (!category.monthlyBudget) {
+    throw new NotFoundError('Category has no budget set');
+  }
+  
+  // Get current month range
+  const { startOfMonth, endOfMonth } = await getCurrentMonthRange(userId);
+  
+  // Spent this month (including subcategories for a top-level category)
+  const [line] = await getBudgetLines(userId, startOfMonth, endOfMonth, categoryId);
+  const budgetStatus = toBudgetStatus(line);
+  
+  if (budgetStatus.percentage >= 80) {
+    sendBudgetAlert(userId, category.name, budgetStatus.percentage).catch(err => {
+      console.error('Failed to send budget alert:', err);
+    });
+  }
+  
+  return budgetStatus;
+};
+
 /**
  * Get Overall Budget Summary (All Categories)
  * 
@@ -152,106 +295,81 @@ export const getCategoryBudgetStatus = async (
 export const getBudgetSummary = async (
   userId: string
 ): Promise<BudgetSummary> => {
-  // Get all categories with budget
-  const categories = await Category.find({
-    userId: new mongoose.Types.ObjectId(userId),
-    monthlyBudget: { $ne: null, $gt: 0 }
-  });
+  const currency = await getUserBaseCurrency(userId);
+  const { startOfMonth, endOfMonth } = await getCurrentMonthRange(userId);
   
-  if (categories.length === 0) {
+  const lines = await getBudgetLines(userId, startOfMonth, endOfMonth);
+  
+  if (lines.length === 0) {
     return {
+      currency,
       totalBudget: 0,
       totalSpent: 0,
       totalRemaining: 0,
       overallPercentage: 0,
       categoriesWithBudget: 0,
       categoriesOverBudget: 0,
+      projectedTotal: 0,
+      categoriesProjectedOver: 0,
       categories: []
     };
   }
   
-  const { startOfMonth, endOfMonth } = getCurrentMonthRange();
-  
-  // Get spending for all categories in one query (efficient!)
-  const categoryIds = categories.map(cat => cat._id);
-  
-  const spendingByCategory = await Expense.aggregate([
-    {
-      $match: {
-        userId: new mongoose.Types.ObjectId(userId),
-        categoryId: { $in: categoryIds },
-        date: {
-          $gte: startOfMonth,
-          $lte: endOfMonth
-        }
-      }
-    },
-    {
-      $group: {
-        _id: '$categoryId',
-        total: { $sum: '$amount' }
-      }
-    }
-  ]);
+  const forecast = await getSpendingForecast(userId, 1);
   
-  // Create spending map for quick lookup
-  const spendingMap = new Map();
-  spendingByCategory.forEach(item => {
-    spendingMap.set(item._id.toString(), item.total);
-  });
+  const forecastMap = new Map(
+    forecast.currentMonth.categories.map(item => [item.categoryId, item])
+  );
   
-  // Calculate status for each category
-  const categoryStatuses: BudgetStatus[] = categories.map(category => {
-    const spent = spendingMap.get(category._id.toString()) || 0;
-    const budget = category.monthlyBudget!;
-    const remaining = budget - spent;
-    const percentage = budget > 0 ? (spent / budget) * 100 : 0;
-    
-    let status: 'safe' | 'warning' | 'exceeded';
-    let color: string;
+  // Calculate status for each budget; a parent's forecast adds up its
+  // categories' bands
+  const statuses = lines.map(line => {
+    const bands = line.categoryIds
+      .map(id => forecastMap.get(id))
+      .filter((band): band is NonNullable<typeof band> => band !== undefined);
     
-    if (percentage >= 100) {
-      status = 'exceeded';
-      color = '#E74C3C';
-    } else if (percentage >= 80) {
-      status = 'warning';
-      color = '#F39C12';
-    } else {
-      status = 'safe';
-      color = '#27AE60';
-    }
+    const band: ForecastBand = bands.length > 0
+      ? {
+          projected: Math.round(bands.reduce((sum, b) => sum + b.projected, 0) * 100) / 100,
+          low: Math.round(bands.reduce((sum, b) => sum + b.low, 0) * 100) / 100,
+          high: Math.round(bands.reduce((sum, b) => sum + b.high, 0) * 100) / 100
+        }
+      : { projected: line.spent, low: line.spent, high: line.spent };
     
     return {
-      categoryId: category._id.toString(),
-      categoryName: category.name,
-      categoryColor: category.color,
-      categoryIcon: category.icon,
-      budget,
-      spent,
-      remaining,
-      percentage: Math.round(percentage * 100) / 100,
-      status,
-      color
+      line,
+      status: {
+        ...toBudgetStatus(line),
+        forecast: toBudgetForecast(line.category.monthlyBudget!, band)
+      }
     };
   });
   
-  // Calculate totals
-  const totalBudget = categoryStatuses.reduce((sum, cat) => sum + cat.budget, 0);
-  const totalSpent = categoryStatuses.reduce((sum, cat) => sum + cat.spent, 0);
+  const categoryStatuses: BudgetStatus[] = statuses.map(item => item.status);
+  
+  // Calculate totals (budgets inside a budgeted parent are already in it)
+  const counted = statuses.filter(item => item.line.counted).map(item => item.status);
+  const totalBudget = counted.reduce((sum, cat) => sum + cat.budget, 0);
+  const totalSpent = counted.reduce((sum, cat) => sum + cat.spent, 0);
   const totalRemaining = totalBudget - totalSpent;
   const overallPercentage = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
   const categoriesOverBudget = categoryStatuses.filter(cat => cat.status === 'exceeded').length;
+  const projectedTotal = counted.reduce((sum, cat) => sum + (cat.forecast?.projected || 0), 0);
+  const categoriesProjectedOver = categoryStatuses.filter(cat => cat.forecast?.status === 'exceeded').length;
   
   // Sort by percentage (highest first - most concerning)
   categoryStatuses.sort((a, b) => b.percentage - a.percentage);
   
   return {
+    currency,
     totalBudget,
     totalSpent,
     totalRemaining,
     overallPercentage: Math.round(overallPercentage * 100) / 100,
-    categoriesWithBudget: categories.length,
+    categoriesWithBudget: lines.length,
     categoriesOverBudget,
+    projectedTotal: Math.round(projectedTotal * 100) / 100,
+    categoriesProjectedOver,
     categories: categoryStatuses
   };
 };
@@ -278,6 +396,8 @@ export const updateCategoryBudget = async (
     throw new NotFoundError('Category not found');
   }
   
+  await ensureBudgetFits(userId, category._id, category.parentId, budget);
+  
   category.monthlyBudget = budget as number;
   await category.save();
   
@@ -17,7 +17,7 @@ interface AuthRequest extends Request {
  * Create Category
  * 
  * Route: POST /api/categories
- * Body: { name, icon, color, monthlyBudget? }
+ * Body: { name, icon, color, monthlyBudget?, parentId? }
  */
 export const createCategory  = async (req:Request, res:Response): Promise<Response> => {
     const authReq = req as AuthRequest;
@@ -45,6 +45,20 @@ export const getCategories = async (req: Request, res: Response): Promise<Respon
   
   return sendSuccess(res, categories);
 };
+
+/**
+ * Get Category Tree
+ * 
+ * Route: GET /api/categories/tree
+ */
+export const getCategoryTree = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const tree = await categoryService.getCategoryTree(userId);
+  
+  return sendSuccess(res, tree);
+};
 /**
  * Get Single Category
  * 
@@ -63,7 +77,7 @@ export const getCategoryById = async (req: Request, res: Response): Promise<Resp
  * Update Category
  * 
  * Route: PUT /api/categories/:id
- * Body: { name?, icon?, color?, monthlyBudget? }
+ * Body: { name?, icon?, color?, monthlyBudget?, order?, parentId? }
  */
 export const updateCategory = async (req: Request, res: Response): Promise<Response> => {
   const authReq = req as AuthRequest;
@@ -121,13 +135,13 @@ export const deleteCategory = async (req: Request, res: Response): Promise<Respo
  * Reorder Categories
  * 
  * Route: PUT /api/categories/reorder
- * Body: { categories: [{ id, order }] }
+ * Body: { categories: [{ id, order }], parentId? }
  */
 export const reorderCategories = async (req: Request, res: Response): Promise<Response> => {
   const authReq = req as AuthRequest;
   const userId = authReq.user!.userId.toString();
   
-  await categoryService.reorderCategories(userId, req.body.categories);
+  await categoryService.reorderCategories(userId, req.body.categories, req.body.parentId);
   
   return sendSuccess(
     res,
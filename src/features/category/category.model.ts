@@ -4,6 +4,7 @@ export interface ICategory extends Document {
 _id: mongoose.Types.ObjectId;
 userId: mongoose.Types.ObjectId;
 name: string;
+parentId?: mongoose.Types.ObjectId | null;
 icon: string;
 color: string;
 monthlyBudget?: number;
@@ -28,6 +29,12 @@ const CategorySchema = new mongoose.Schema<ICategory>({
         minlength: [2, 'Category name must be at least 2 character'],
         maxlength: [30, 'Category name cannot exceed 30 characters']
     },
+    // Top-level category this one belongs under (one level deep)
+    parentId:{
+        type: mongoose.Types.ObjectId,
+        ref: 'Category',
+        default: null
+    },
     icon:{
         type: String,
         required: [true, 'Category icon is required'],
@@ -72,7 +79,7 @@ const CategorySchema = new mongoose.Schema<ICategory>({
 
 CategorySchema.index({ userId: 1, name: 1 }, { unique: true });
 
-CategorySchema.index({ userId: 1, order: 1 });
+CategorySchema.index({ userId: 1, parentId: 1, order: 1 });
 
 CategorySchema.virtual('totalExpenses', {
     ref: 'Expense',
@@ -10,7 +10,8 @@ import { validate } from '../../shared/middlewares/validate.middleware';
 import { authMiddleware } from '../../shared/middlewares/auth.middleware';
 import {
   createCategorySchema,
-  updateCategorySchema
+  updateCategorySchema,
+  reorderCategoriesSchema
 } from './category.validator';
 
 const router = Router();
@@ -37,12 +38,22 @@ router.get(
   categoryController.getCategories
 );
 
+/**
+ * Get categories as a tree (parents with subcategories)
+ * Note: This must be before /:id route
+ */
+router.get(
+  '/tree',
+  categoryController.getCategoryTree
+);
+
 /**
  * Reorder categories
  * Note: This must be before /:id route
  */
 router.put(
   '/reorder',
+  validate(reorderCategoriesSchema),
   categoryController.reorderCategories
 );
 
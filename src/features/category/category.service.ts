@@ -14,6 +14,7 @@ export  interface CreateCategoryDTO{
     icons: string;
     color: string;
     monthlyBudget: number;    
+    parentId?: string | null;
 } 
 
 /**
@@ -25,6 +26,17 @@ export interface UpdateCategoryDTO {
   color?: string;
   monthlyBudget?: number;
   order?: number;
+  parentId?: string | null;   // Move under another category (null: top level)
+}
+
+/**
+ * Category Spending Roll-up
+ */
+export interface CategoryRollup {
+  category: ICategory;
+  total: number;              // Own + subcategories
+  count: number;
+  subcategories: Array<{ category: ICategory; total: number; count: number }>;
 }
 
 /**
@@ -55,13 +67,123 @@ export const createDefaultCategories = async (userId: string) : Promise<void> =>
     await Category.insertMany(categories);
 
 }
+/**
+ * Resolve Parent Category
+ * 
+ * Categories nest one level deep: the parent must be one of the
+ * user's top-level categories, and a category with subcategories
+ * can't go under another one
+ * 
+ * @param userId - User ID
+ * @param parentId - Parent category ID
+ * @param categoryId - Category being moved (on update)
+ * @returns Parent category
+ */
+const resolveParent = async (
+  userId: string,
+  parentId: string,
+  categoryId?: string
+): Promise<ICategory> => {
+  if (categoryId && parentId === categoryId) {
+    throw new BadRequestError('A category cannot be its own parent');
+  }
+  
+  const parent = await getCategoryById(userId, parentId);
+  
+  if (parent.parentId) {
+    throw new BadRequestError('Subcategories cannot have subcategories of their own');
+  }
+  
+  if (categoryId && await Category.exists({ parentId: new mongoose.Types.ObjectId(categoryId) })) {
+    throw new BadRequestError('A category with subcategories cannot be moved under another category');
+  }
+  
+  return parent;
+};
+
+/**
+ * Next Order Number Among Siblings
+ */
+const nextOrder = async (userId: string, parentId: mongoose.Types.ObjectId | null): Promise<number> => {
+  const last = await Category.findOne({
+    userId: new mongoose.Types.ObjectId(userId),
+    parentId
+  })
+    .sort({ order: -1 })
+    .select('order');
+  
+  return last ? last.order + 1 : 1;
+};
+
+/**
+ * Ensure a Budget Fits the Category Tree
+ * 
+ * Subcategory budgets are part of their parent's budget, so together
+ * they can't exceed it (a parent without a budget leaves them free)
+ * 
+ * @param userId - User ID
+ * @param categoryId - Category ID (null when creating)
+ * @param parentId - Category's parent (null: top level)
+ * @param budget - New monthly budget (null / 0: no budget)
+ */
+export const ensureBudgetFits = async (
+  userId: string,
+  categoryId: mongoose.Types.ObjectId | null,
+  parentId: mongoose.Types.ObjectId | null | undefined,
+  budget: number | null | undefined
+): Promise<void> => {
+  if (!budget) {
+    return;
+  }
+  
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const sumBudgets = (categories: ICategory[]) =>
+    round(categories.reduce((sum, category) => sum + (category.monthlyBudget || 0), 0));
+  
+  if (parentId) {
+    const parent = await getCategoryById(userId, parentId.toString());
+    if (!parent.monthlyBudget) {
+      return;
+    }
+    
+    const siblings = await Category.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      parentId,
+      _id: { $ne: categoryId },
+      monthlyBudget: { $gt: 0 }
+    }).select('monthlyBudget');
+    
+    const total = round(sumBudgets(siblings) + budget);
+    if (total > parent.monthlyBudget) {
+      throw new BadRequestError(
+        `Subcategory budgets (${total}) cannot exceed the ${parent.name} budget of ${parent.monthlyBudget}`
+      );
+    }
+    
+    return;
+  }
+  
+  if (categoryId) {
+    const children = await Category.find({
+      parentId: categoryId,
+      monthlyBudget: { $gt: 0 }
+    }).select('monthlyBudget');
+    
+    const total = sumBudgets(children);
+    if (total > budget) {
+      throw new BadRequestError(`Budget cannot be less than its subcategories' budgets (${total})`);
+    }
+  }
+};
+
 /**
  * Create Custom Category
  * 
  * Flow:
  * 1. Check if category name already exists for this user
- * 2. Get max order number
- * 3. Create category
+ * 2. Check the parent (subcategories) and budget
+ * 3. Get max order number among its siblings
+ * 4. Create category
  * 
  * @param userId - User ID
  * @param data - Category data
@@ -76,15 +198,14 @@ export const createCategory = async (userId:string, data:CreateCategoryDTO): Pro
     if(existing){
         throw new ConflictError('Category name already exists');
     }
-    const maxOrderCategory = await Category.findOne({ userId })
-        .sort({ order: -1 })
-        .select('order')
-    const nextOrder = maxOrderCategory ? maxOrderCategory.order + 1 : 1;
+    const parent = data.parentId ? await resolveParent(userId, data.parentId) : null;
+    await ensureBudgetFits(userId, null, parent?._id, data.monthlyBudget);
 
     const category  = await Category.create({
         ...data,
         userId: new mongoose.Types.ObjectId(userId),
-        order: nextOrder,
+        parentId: parent?._id ?? null,
+        order: await nextOrder(userId, parent?._id ?? null),
         isDefault: false
     });
     return category;
@@ -94,7 +215,8 @@ export const createCategory = async (userId:string, data:CreateCategoryDTO): Pro
 /**
  * Get All Categories for User
  * 
- * Returns categories sorted by order
+ * Returns categories sorted by order, each top-level category
+ * followed by its subcategories
  * 
  * @param userId - User ID
  * @returns Array of categories
@@ -106,8 +228,83 @@ export const getUserCategories = async (userId:string): Promise<ICategory[]> =>
         userId: new mongoose.Types.ObjectId(userId)
 
      }).sort({ order: 1 });
-    return categories;
+    const subcategories = categories.filter(category => category.parentId);
+
+    return categories
+        .filter(category => !category.parentId)
+        .flatMap(parent => [
+            parent,
+            ...subcategories.filter(child => child.parentId!.equals(parent._id))
+        ]);
 }
+
+/**
+ * Get Category Tree
+ * 
+ * @param userId - User ID
+ * @returns Top-level categories, each with its subcategories
+ */
+export const getCategoryTree = async (userId: string) => {
+  const categories = await Category.find({
+    userId: new mongoose.Types.ObjectId(userId)
+  }).sort({ order: 1 });
+  
+  return categories
+    .filter(category => !category.parentId)
+    .map(parent => ({
+      ...parent.toJSON(),
+      subcategories: categories.filter(child => child.parentId?.equals(parent._id))
+    }));
+};
+
+/**
+ * Roll Subcategory Totals Up into Their Parents
+ * 
+ * Purpose: Spending per top-level category (stats, dashboard) where
+ * "Food & Dining" includes Groceries, Restaurants, ...
+ * 
+ * @param userId - User ID
+ * @param totals - Per-category totals ({ _id: categoryId, total, count })
+ * @returns Top-level categories with own + subcategory totals (highest
+ *          first), each with its subcategories' totals
+ */
+export const rollUpCategoryTotals = async (
+  userId: string,
+  totals: Array<{ _id: mongoose.Types.ObjectId; total: number; count?: number }>
+): Promise<CategoryRollup[]> => {
+  const categories = await Category.find({ userId: new mongoose.Types.ObjectId(userId) });
+  const byId = new Map(categories.map(category => [category._id.toString(), category]));
+  
+  const rollups = new Map<string, CategoryRollup>();
+  
+  for (const row of totals) {
+    const category = byId.get(String(row._id));
+    if (!category) {
+      continue;   // Category deleted
+    }
+    
+    const parent = (category.parentId && byId.get(category.parentId.toString())) || category;
+    const key = parent._id.toString();
+    
+    const rollup = rollups.get(key) || { category: parent, total: 0, count: 0, subcategories: [] };
+    rollup.total += row.total;
+    rollup.count += row.count || 0;
+    
+    if (parent !== category) {
+      rollup.subcategories.push({ category, total: row.total, count: row.count || 0 });
+    }
+    
+    rollups.set(key, rollup);
+  }
+  
+  return [...rollups.values()]
+    .map(rollup => ({
+      ...rollup,
+      total: Math.round(rollup.total * 100) / 100,
+      subcategories: rollup.subcategories.sort((a, b) => b.total - a.total)
+    }))
+    .sort((a, b) => b.total - a.total);
+};
 /**
  * Get Single Category
  * 
@@ -159,6 +356,23 @@ export const updateCategory = async (userId:string, categoryId:string, data:Upda
             throw new ConflictError('Category name already exists');
         }
     }
+    let parentId = category.parentId ?? null;
+    if (data.parentId !== undefined && String(data.parentId) !== String(parentId)) {
+        parentId = data.parentId
+            ? (await resolveParent(userId, data.parentId, categoryId))._id
+            : null;
+        category.parentId = parentId;
+
+        // Goes last among its new siblings unless an order is given
+        if (data.order === undefined) category.order = await nextOrder(userId, parentId);
+    }
+    await ensureBudgetFits(
+        userId,
+        category._id,
+        parentId,
+        data.monthlyBudget !== undefined ? data.monthlyBudget : category.monthlyBudget
+    );
+
     if (data.name) category.name = data.name;
     if (data.icon) category.icon = data.icon;
     if (data.color) category.color = data.color;
@@ -198,6 +412,18 @@ export const checkCategoryDeletion = async (
     throw new NotFoundError('Category not found');
   }
   
+  // Subcategories have to be moved or deleted first
+  const subcategoryCount = await Category.countDocuments({ parentId: category._id });
+  
+  if (subcategoryCount > 0) {
+    return {
+      canDelete: false,
+      expenseCount: 0,
+      message: `This category has ${subcategoryCount} subcategories. Move or delete them first.`,
+      requiresConfirmation: false
+    };
+  }
+  
   // Check expense count
   const Expense = mongoose.model('Expense');
   const expenseCount = await Expense.countDocuments({
@@ -243,6 +469,10 @@ export const deleteCategory = async (
     throw new NotFoundError('Category not found');
   }
   
+  if (await Category.exists({ parentId: category._id })) {
+    throw new ConflictError('Category has subcategories; move or delete them first');
+  }
+  
   // Check expenses
   const Expense = mongoose.model('Expense');
   const expenseCount = await Expense.countDocuments({
@@ -273,15 +503,34 @@ export const deleteCategory = async (
 /**
  * Reorder Categories
  * 
- * Purpose: User can drag-drop to reorder categories in UI
+ * Purpose: User can drag-drop to reorder categories in UI. Order is
+ * within a parent: all categories must be top-level, or all
+ * subcategories of `parentId`
  * 
  * @param userId - User ID
  * @param categoryOrders - Array of { id, order }
+ * @param parentId - Parent whose subcategories are reordered (default: top level)
  */
 export const reorderCategories = async (
   userId: string,
-  categoryOrders: Array<{ id: string; order: number }>
+  categoryOrders: Array<{ id: string; order: number }>,
+  parentId: string | null = null
 ): Promise<void> => {
+  const outside = await Category.exists({
+    _id: { $in: categoryOrders.map(item => new mongoose.Types.ObjectId(item.id)) },
+    userId: new mongoose.Types.ObjectId(userId),
+    parentId: { $ne: parentId ? new mongoose.Types.ObjectId(parentId) : null }
+  });
+  
+  if (outside) {
+    throw new BadRequestError(
+      parentId
+        ? 'Only subcategories of the given parent can be reordered together'
+        : 'Only top-level categories can be reordered together; pass parentId for subcategories'
+    );
+  }
+  
+
   // Update orders in bulk
   const bulkOps = categoryOrders.map(item => ({
     updateOne: {
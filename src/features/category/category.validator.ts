@@ -33,6 +33,13 @@ export const createCategorySchema = Joi.object({
     .optional()
     .messages({
       'number.min': 'Budget cannot be negative'
+    }),
+    parentId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Invalid parent category ID'
     })
 });
 
@@ -67,5 +74,44 @@ export const updateCategorySchema = Joi.object({
   order: Joi.number()
     .integer()
     .min(0)
+    .optional(),
+  
+  parentId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
     .optional()
-}).min(1);  
\ No newline at end of file
+    .messages({
+      'string.pattern.base': 'Invalid parent category ID'
+    })
+}).min(1);
+
+/**
+ * Reorder Categories Schema
+ * 
+ * Note: Order is within one parent (omit parentId for top level)
+ */
+export const reorderCategoriesSchema = Joi.object({
+  categories: Joi.array()
+    .items(Joi.object({
+      id: Joi.string()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .required()
+        .messages({
+          'string.pattern.base': 'Invalid category ID'
+        }),
+      order: Joi.number().integer().min(0).required()
+    }))
+    .min(1)
+    .required()
+    .messages({
+      'any.required': 'Categories are required'
+    }),
+  
+  parentId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Invalid parent category ID'
+    })
+});  
\ No newline at end of file
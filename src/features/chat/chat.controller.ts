@@ -64,6 +64,7 @@ export const sendMessage = async (req: Request, res: Response): Promise<Response
  * Get Conversation
  * 
  * Route: GET /api/chat/conversation/:userId?page=1&limit=50
+ *        GET /api/chat/conversation/:userId?cursor=&limit=50
  * 
  * Returns paginated messages between current user and specified user
  */
@@ -74,6 +75,18 @@ export const getConversation = async (req: Request, res: Response): Promise<Resp
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 50;
   
+  // Cursor mode (infinite scroll): ?cursor= for the newest page,
+  // then pagination.nextCursor for older messages
+  if (req.query.cursor !== undefined) {
+    const result = await chatService.getConversationByCursor(
+      currentUserId,
+      otherUserId,
+      req.query.cursor as string,
+      limit
+    );
+    return sendPaginated(res, result);
+  }
+  
   const result = await chatService.getConversation(
     currentUserId,
     otherUserId,
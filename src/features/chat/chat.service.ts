@@ -6,7 +6,8 @@ import Message, { IMessage } from './chat.model';
 import User from '../auth/auth.model';
 import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
 import mongoose from 'mongoose';
-import { PaginatedResponse } from '../../shared/types/common.types';
+import { PaginatedResponse, CursorPaginatedResponse } from '../../shared/types/common.types';
+import { decodeCursor, buildCursorFilter, toCursorPage } from '../../shared/utils/cursor.util';
 
 /**
  * Send Message DTO
@@ -136,6 +137,66 @@ export const getConversation = async (
   };
 };
 
+/**
+ * Get Conversation by Cursor (infinite scroll)
+ * 
+ * Pages walk back in time from the newest message; messages that
+ * arrive while scrolling don't shift older pages.
+ * 
+ * @param userId - Current user ID
+ * @param otherUserId - Other user ID
+ * @param cursor - nextCursor from the previous page (empty for the newest page)
+ * @param limit - Messages per page
+ * @returns Messages (oldest first within the page) and cursor for older ones
+ */
+export const getConversationByCursor = async (
+  userId: string,
+  otherUserId: string,
+  cursor?: string,
+  limit: number = 50
+): Promise<CursorPaginatedResponse<IMessage>> => {
+  const otherUser = await User.findById(otherUserId);
+  
+  if (!otherUser) {
+    throw new NotFoundError('User not found');
+  }
+  
+  const query: any = {
+    $or: [
+      {
+        senderId: new mongoose.Types.ObjectId(userId),
+        receiverId: new mongoose.Types.ObjectId(otherUserId)
+      },
+      {
+        senderId: new mongoose.Types.ObjectId(otherUserId),
+        receiverId: new mongoose.Types.ObjectId(userId)
+      }
+    ]
+  };
+  
+  if (cursor) {
+    query.$and = [buildCursorFilter(decodeCursor(cursor, 'createdAt'), -1)];
+  }
+  
+  const messages = await Message.find(query)
+    .populate('senderInfo', 'name email avatar')
+    .populate('receiverInfo', 'name email avatar')
+    .sort({ createdAt: -1, _id: -1 })  // Newest first
+    .limit(limit + 1)
+    .lean();
+  
+  const page = toCursorPage(messages, limit, 'createdAt');
+  
+  return {
+    data: page.data.reverse() as IMessage[],  // Oldest first in UI
+    pagination: {
+      limit,
+      nextCursor: page.nextCursor,
+      hasNext: page.hasNext
+    }
+  };
+};
+
 /**
  * Get All Conversations
  * 
@@ -0,0 +1,131 @@
+/**
+ * Currency Controller
+ */
+
+import { Request, Response } from 'express';
+import * as currencyService from './currency.service';
+import { SUPPORTED_CURRENCIES } from './currency.model';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { BadRequestError } from '../../shared/utils/error.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Supported Currencies
+ *
+ * Route: GET /api/currency
+ */
+export const getCurrencies = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const baseCurrency = await currencyService.getUserBaseCurrency(userId);
+
+  return sendSuccess(res, {
+    baseCurrency,
+    currencies: SUPPORTED_CURRENCIES
+  });
+};
+
+/**
+ * Get Exchange Rates
+ *
+ * Route: GET /api/currency/rates?from=USD&to=BDT
+ */
+export const getRates = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rates = await currencyService.getRates(userId, {
+    from: req.query.from as string | undefined,
+    to: req.query.to as string | undefined
+  });
+
+  return sendSuccess(res, rates);
+};
+
+/**
+ * Set Exchange Rate
+ *
+ * Route: POST /api/currency/rates
+ * Body: { from, to, rate, date? }
+ */
+export const setRate = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rate = await currencyService.setRate(userId, req.body);
+
+  return sendSuccess(
+    res,
+    rate,
+    'Exchange rate saved successfully'
+  );
+};
+
+/**
+ * Import Exchange Rates
+ *
+ * Route: POST /api/currency/rates/import
+ * Body: { format: 'csv' | 'json', content: string }
+ */
+export const importRates = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await currencyService.importRates(userId, req.body);
+
+  return sendSuccess(
+    res,
+    result,
+    `${result.imported} exchange rate(s) imported`
+  );
+};
+
+/**
+ * Delete Exchange Rate
+ *
+ * Route: DELETE /api/currency/rates/:id
+ */
+export const deleteRate = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const rateId = req.params.id;
+
+  await currencyService.deleteRate(userId, rateId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Exchange rate deleted successfully'
+  );
+};
+
+/**
+ * Convert Amount
+ *
+ * Route: GET /api/currency/convert?amount=10&from=USD&to=BDT&date=2025-01-01
+ */
+export const convertAmount = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const amount = parseFloat(req.query.amount as string);
+  const from = req.query.from as string;
+  const to = req.query.to as string;
+  const date = req.query.date ? new Date(req.query.date as string) : new Date();
+
+  if (isNaN(amount) || !from || !to || isNaN(date.getTime())) {
+    throw new BadRequestError('amount, from and to are required');
+  }
+
+  const result = await currencyService.convertAmount(userId, amount, from, to, date);
+
+  return sendSuccess(res, result);
+};
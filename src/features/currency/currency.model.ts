@@ -0,0 +1,102 @@
+/**
+ * Exchange Rate Model
+ *
+ * Purpose: Locally managed exchange-rate table (per user)
+ *
+ * Features:
+ * 1. Historical rates (one rate per pair per day)
+ * 2. Manual entry or bulk import (CSV / JSON)
+ * 3. Used to convert foreign-currency transactions to the
+ *    user's base currency
+ *
+ * Meaning: 1 unit of `from` = `rate` units of `to`
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Supported Currencies
+ */
+export const SUPPORTED_CURRENCIES = ['BDT', 'USD', 'EUR', 'INR', 'GBP'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+/**
+ * Exchange Rate Interface
+ */
+export interface IExchangeRate extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  date: Date;
+  source: 'manual' | 'import';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Exchange Rate Schema
+ */
+const ExchangeRateSchema = new Schema<IExchangeRate>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    from: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: [true, 'Source currency is required']
+    },
+
+    to: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: [true, 'Target currency is required']
+    },
+
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0.000001, 'Rate must be greater than 0']
+    },
+
+    // Normalized to start of day
+    date: {
+      type: Date,
+      required: true
+    },
+
+    source: {
+      type: String,
+      enum: ['manual', 'import'],
+      default: 'manual'
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+/**
+ * Indexes
+ *
+ * - userId + from + to + date (unique): One rate per pair per day,
+ *   and "latest rate on or before date" lookups
+ */
+ExchangeRateSchema.index({ userId: 1, from: 1, to: 1, date: -1 }, { unique: true });
+
+const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
+
+export default ExchangeRate;
@@ -0,0 +1,63 @@
+/**
+ * Currency Routes
+ */
+
+import { Router } from 'express';
+import * as currencyController from './currency.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  setRateSchema,
+  importRatesSchema
+} from './currency.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * Supported currencies + user's base currency
+ */
+router.get(
+  '/',
+  currencyController.getCurrencies
+);
+
+/**
+ * Convert an amount
+ */
+router.get(
+  '/convert',
+  currencyController.convertAmount
+);
+
+/**
+ * Exchange rate table
+ */
+router.get(
+  '/rates',
+  currencyController.getRates
+);
+
+router.post(
+  '/rates',
+  validate(setRateSchema),
+  currencyController.setRate
+);
+
+/**
+ * Import rates from CSV / JSON file content
+ */
+router.post(
+  '/rates/import',
+  validate(importRatesSchema),
+  currencyController.importRates
+);
+
+router.delete(
+  '/rates/:id',
+  currencyController.deleteRate
+);
+
+export default router;
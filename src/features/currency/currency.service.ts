@@ -0,0 +1,518 @@
+/**
+ * Currency Service
+ *
+ * Purpose: Exchange rates and conversion to the user's base currency
+ *
+ * Key Concepts:
+ * 1. Every transaction keeps its original currency + amount
+ * 2. `amount` is always stored in the user's base currency, so all
+ *    existing aggregations (stats, budgets, dashboard) stay correct
+ * 3. Rate lookup: latest rate on or before the transaction date,
+ *    either direction of the pair, with USD as a cross-rate pivot
+ * 4. Changing the base currency re-converts stored amounts
+ */
+
+import mongoose from 'mongoose';
+import ExchangeRate, { IExchangeRate, CurrencyCode, SUPPORTED_CURRENCIES } from './currency.model';
+import User from '../auth/auth.model';
+import Expense from '../expense/expense.model';
+import Income from '../income/income.model';
+import RecurringSeries from '../recurring/recurring.model';
+import Category from '../category/category.model';
+import { syncUserRefunds } from '../refund/refund.service';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { parseCsvRecords } from '../../shared/utils/csv.util';
+
+/**
+ * Set Rate DTO
+ */
+export interface SetRateDTO {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  date?: Date;
+}
+
+/**
+ * Import Rates DTO
+ */
+export interface ImportRatesDTO {
+  format: 'csv' | 'json';
+  content: string;
+}
+
+/**
+ * Import Result
+ */
+export interface ImportRatesResult {
+  imported: number;
+  skipped: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+/**
+ * Converted Amount
+ */
+export interface ConvertedAmount {
+  amount: number;           // In base currency
+  currency: string;         // Original currency
+  originalAmount: number;   // In original currency
+  exchangeRate: number;     // original → base
+}
+
+/**
+ * Cross-rate pivot when no direct pair exists
+ */
+const PIVOT_CURRENCY = 'USD';
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const isSupportedCurrency = (code: string): code is CurrencyCode => {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code);
+};
+
+/**
+ * Normalize Rate Date
+ *
+ * Rates are stored per (UTC) day
+ */
+export const normalizeRateDate = (date: Date | string): Date => {
+  const d = new Date(date);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+};
+
+/**
+ * Find Pair Rate
+ *
+ * Looks for from→to or to→from (inverted). Prefers the latest rate
+ * on or before the date; falls back to the earliest rate after it.
+ *
+ * @returns Rate or null if the pair is unknown
+ */
+const findPairRate = async (
+  userId: string,
+  from: string,
+  to: string,
+  date: Date
+): Promise<number | null> => {
+  const pairQuery = {
+    userId: new mongoose.Types.ObjectId(userId),
+    $or: [
+      { from, to },
+      { from: to, to: from }
+    ]
+  };
+
+  const rateDate = normalizeRateDate(date);
+
+  let found = await ExchangeRate.findOne({ ...pairQuery, date: { $lte: rateDate } })
+    .sort({ date: -1 })
+    .lean();
+
+  if (!found) {
+    found = await ExchangeRate.findOne({ ...pairQuery, date: { $gt: rateDate } })
+      .sort({ date: 1 })
+      .lean();
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  return found.from === from ? found.rate : 1 / found.rate;
+};
+
+/**
+ * Get Exchange Rate
+ *
+ * @param userId - User ID (rate table owner)
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param date - Transaction date (default: now)
+ * @returns 1 unit of `from` in `to`
+ * @throws BadRequestError if no rate is available
+ */
+export const getExchangeRate = async (
+  userId: string,
+  from: string,
+  to: string,
+  date: Date = new Date()
+): Promise<number> => {
+  if (from === to) {
+    return 1;
+  }
+
+  const direct = await findPairRate(userId, from, to, date);
+
+  if (direct !== null) {
+    return direct;
+  }
+
+  if (from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY) {
+    const [toPivot, fromPivot] = await Promise.all([
+      findPairRate(userId, from, PIVOT_CURRENCY, date),
+      findPairRate(userId, PIVOT_CURRENCY, to, date)
+    ]);
+
+    if (toPivot !== null && fromPivot !== null) {
+      return toPivot * fromPivot;
+    }
+  }
+
+  throw new BadRequestError(`No exchange rate available for ${from} → ${to}`);
+};
+
+/**
+ * Get User Base Currency
+ *
+ * @param userId - User ID
+ * @returns Currency code (default: BDT)
+ */
+export const getUserBaseCurrency = async (userId: string): Promise<string> => {
+  const user = await User.findById(userId).select('currency');
+
+  return user?.currency || 'BDT';
+};
+
+/**
+ * Convert Amount to Base Currency
+ *
+ * Purpose: Called when creating/updating transactions
+ *
+ * @param userId - User ID
+ * @param amount - Amount in original currency
+ * @param currency - Original currency (default: base currency)
+ * @param date - Transaction date (rate date)
+ * @returns Base amount + original values
+ */
+export const toBaseCurrency = async (
+  userId: string,
+  amount: number,
+  currency: string | undefined,
+  date: Date = new Date()
+): Promise<ConvertedAmount> => {
+  const baseCurrency = await getUserBaseCurrency(userId);
+  const originalCurrency = currency || baseCurrency;
+  const exchangeRate = await getExchangeRate(userId, originalCurrency, baseCurrency, date);
+
+  return {
+    amount: roundAmount(amount * exchangeRate),
+    currency: originalCurrency,
+    originalAmount: amount,
+    exchangeRate
+  };
+};
+
+/**
+ * Convert Amount (between any two currencies)
+ *
+ * @param userId - User ID
+ * @param amount - Amount
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param date - Rate date (default: now)
+ */
+export const convertAmount = async (
+  userId: string,
+  amount: number,
+  from: string,
+  to: string,
+  date: Date = new Date()
+) => {
+  const rate = await getExchangeRate(userId, from, to, date);
+
+  return {
+    from,
+    to,
+    amount,
+    rate,
+    converted: roundAmount(amount * rate),
+    date: normalizeRateDate(date)
+  };
+};
+
+/**
+ * Get Exchange Rates
+ *
+ * @param userId - User ID
+ * @param filters - Optional pair filter
+ * @returns Rates (newest first)
+ */
+export const getRates = async (
+  userId: string,
+  filters: { from?: string; to?: string } = {}
+): Promise<IExchangeRate[]> => {
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId)
+  };
+
+  if (filters.from) {
+    query.from = filters.from;
+  }
+
+  if (filters.to) {
+    query.to = filters.to;
+  }
+
+  const rates = await ExchangeRate.find(query)
+    .sort({ date: -1, from: 1, to: 1 })
+    .limit(500);
+
+  return rates;
+};
+
+/**
+ * Set Exchange Rate
+ *
+ * Creates or replaces the rate for a pair on a day
+ *
+ * @param userId - User ID
+ * @param data - Rate data
+ * @returns Saved rate
+ */
+export const setRate = async (
+  userId: string,
+  data: SetRateDTO
+): Promise<IExchangeRate> => {
+  if (data.from === data.to) {
+    throw new BadRequestError('Source and target currency must be different');
+  }
+
+  const rate = await ExchangeRate.findOneAndUpdate(
+    {
+      userId: new mongoose.Types.ObjectId(userId),
+      from: data.from,
+      to: data.to,
+      date: normalizeRateDate(data.date || new Date())
+    },
+    {
+      rate: data.rate,
+      source: 'manual'
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  return rate!;
+};
+
+/**
+ * Delete Exchange Rate
+ *
+ * @param userId - User ID
+ * @param rateId - Rate ID
+ */
+export const deleteRate = async (
+  userId: string,
+  rateId: string
+): Promise<void> => {
+  const result = await ExchangeRate.deleteOne({
+    _id: new mongoose.Types.ObjectId(rateId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Exchange rate not found');
+  }
+};
+
+/**
+ * Parse Import Content into Raw Rows
+ *
+ * CSV: header with date, from, to, rate
+ * JSON: [{ date, from, to, rate }] or { date, base, rates: { USD: 0.0091 } }
+ */
+const parseRateRows = (data: ImportRatesDTO): Array<Record<string, any>> => {
+  if (data.format === 'csv') {
+    return parseCsvRecords(data.content);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data.content);
+  } catch (error) {
+    throw new BadRequestError('Invalid JSON content');
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  if (parsed && parsed.base && parsed.rates && typeof parsed.rates === 'object') {
+    return Object.entries(parsed.rates).map(([to, rate]) => ({
+      date: parsed.date,
+      from: parsed.base,
+      to,
+      rate
+    }));
+  }
+
+  throw new BadRequestError('Unsupported JSON structure');
+};
+
+/**
+ * Import Exchange Rates
+ *
+ * Re-importing the same file is safe (upsert per pair per day).
+ * Invalid rows are reported and skipped; valid rows are saved.
+ *
+ * @param userId - User ID
+ * @param data - Format + file content
+ * @returns Import summary
+ */
+export const importRates = async (
+  userId: string,
+  data: ImportRatesDTO
+): Promise<ImportRatesResult> => {
+  const rows = parseRateRows(data);
+  const errors: ImportRatesResult['errors'] = [];
+  const bulkOps: any[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const from = String(row.from ?? '').trim().toUpperCase();
+    const to = String(row.to ?? '').trim().toUpperCase();
+    const rate = Number(row.rate);
+    const date = new Date(row.date);
+
+    if (!isSupportedCurrency(from) || !isSupportedCurrency(to)) {
+      errors.push({ row: rowNumber, error: `Unsupported currency pair ${from}/${to}` });
+      return;
+    }
+
+    if (from === to) {
+      errors.push({ row: rowNumber, error: 'Source and target currency must be different' });
+      return;
+    }
+
+    if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push({ row: rowNumber, error: 'Rate must be a positive number' });
+      return;
+    }
+
+    if (!row.date || isNaN(date.getTime())) {
+      errors.push({ row: rowNumber, error: 'Invalid date' });
+      return;
+    }
+
+    bulkOps.push({
+      updateOne: {
+        filter: {
+          userId: new mongoose.Types.ObjectId(userId),
+          from,
+          to,
+          date: normalizeRateDate(date)
+        },
+        update: { $set: { rate, source: 'import' } },
+        upsert: true
+      }
+    });
+  });
+
+  let imported = 0;
+
+  if (bulkOps.length > 0) {
+    const result = await ExchangeRate.bulkWrite(bulkOps);
+    imported = result.upsertedCount + result.modifiedCount;
+  }
+
+  return {
+    imported,
+    skipped: rows.length - imported - errors.length,
+    errors
+  };
+};
+
+/**
+ * Rebase User Amounts
+ *
+ * Purpose: Called when the user changes base currency.
+ * Re-converts every stored transaction from its original currency
+ * to the new base. All rates are resolved before anything is written,
+ * so a missing rate aborts without partial updates.
+ *
+ * Transactions created before multi-currency support have no
+ * `currency`; they are treated as being in the old base currency.
+ *
+ * @param userId - User ID
+ * @param oldBase - Previous base currency
+ * @param newBase - New base currency
+ */
+export const rebaseUserAmounts = async (
+  userId: string,
+  oldBase: string,
+  newBase: string
+): Promise<void> => {
+  if (oldBase === newBase) {
+    return;
+  }
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const rateCache = new Map<string, number>();
+
+  const cachedRate = async (from: string, date: Date): Promise<number> => {
+    const key = `${from}:${normalizeRateDate(date).toISOString()}`;
+
+    if (!rateCache.has(key)) {
+      rateCache.set(key, await getExchangeRate(userId, from, newBase, date));
+    }
+
+    return rateCache.get(key)!;
+  };
+
+  const buildOps = async (
+    docs: Array<{ _id: any; amount: number; currency?: string; originalAmount?: number }>,
+    getDate: (doc: any) => Date
+  ) => {
+    const ops: any[] = [];
+
+    for (const doc of docs) {
+      const currency = doc.currency || oldBase;
+      const originalAmount = doc.originalAmount ?? doc.amount;
+      const exchangeRate = await cachedRate(currency, getDate(doc));
+
+      ops.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: {
+            $set: {
+              currency,
+              originalAmount,
+              exchangeRate,
+              amount: roundAmount(originalAmount * exchangeRate)
+            }
+          }
+        }
+      });
+    }
+
+    return ops;
+  };
+
+  const [expenses, incomes, series, categories] = await Promise.all([
+    Expense.find({ userId: userObjectId }).select('amount currency originalAmount date').lean(),
+    Income.find({ userId: userObjectId }).select('amount currency originalAmount date').lean(),
+    RecurringSeries.find({ userId: userObjectId }).select('amount currency originalAmount nextOccurrence').lean(),
+    Category.find({ userId: userObjectId, monthlyBudget: { $gt: 0 } }).select('monthlyBudget').lean()
+  ]);
+
+  const expenseOps = await buildOps(expenses, doc => doc.date);
+  const incomeOps = await buildOps(incomes, doc => doc.date);
+  const seriesOps = await buildOps(series, doc => doc.nextOccurrence);
+
+  // Budgets are converted at today's rate
+  const budgetRate = await getExchangeRate(userId, oldBase, newBase);
+  const categoryOps = categories.map(category => ({
+    updateOne: {
+      filter: { _id: category._id },
+      update: { $set: { monthlyBudget: roundAmount(category.monthlyBudget! * budgetRate) } }
+    }
+  }));
+
+  if (expenseOps.length > 0) await Expense.bulkWrite(expenseOps);
+  if (incomeOps.length > 0) await Income.bulkWrite(incomeOps);
+  if (seriesOps.length > 0) await RecurringSeries.bulkWrite(seriesOps);
+  if (categoryOps.length > 0) await Category.bulkWrite(categoryOps);
+  
+  // Refunds follow their expenses' new base amounts
+  await syncUserRefunds(userId);
+};
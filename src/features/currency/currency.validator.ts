@@ -0,0 +1,61 @@
+/**
+ * Currency Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from './currency.model';
+
+/**
+ * Set Exchange Rate Schema
+ */
+export const setRateSchema = Joi.object({
+  from: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .required()
+    .messages({
+      'any.only': 'Unsupported currency',
+      'any.required': 'Source currency is required'
+    }),
+
+  to: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .invalid(Joi.ref('from'))
+    .required()
+    .messages({
+      'any.only': 'Unsupported currency',
+      'any.invalid': 'Source and target currency must be different',
+      'any.required': 'Target currency is required'
+    }),
+
+  rate: Joi.number()
+    .greater(0)
+    .required()
+    .messages({
+      'number.greater': 'Rate must be greater than 0',
+      'any.required': 'Rate is required'
+    }),
+
+  date: Joi.date()
+    .optional()
+});
+
+/**
+ * Import Exchange Rates Schema
+ */
+export const importRatesSchema = Joi.object({
+  format: Joi.string()
+    .valid('csv', 'json')
+    .required()
+    .messages({
+      'any.only': 'Format must be csv or json',
+      'any.required': 'Format is required'
+    }),
+
+  content: Joi.string()
+    .max(5 * 1024 * 1024)
+    .required()
+    .messages({
+      'string.max': 'File is too large',
+      'any.required': 'File content is required'
+    })
+});
@@ -5,13 +5,25 @@
  */
 
 import mongoose from 'mongoose';
-import Expense from '../expense/expense.model';
-import Category from '../category/category.model';
+import Expense, { NET_AMOUNT } from '../expense/expense.model';
+import { rollUpCategoryTotals } from '../category/category.service';
 import Task from '../task/task.model';
 import SavingsGoal from '../savings/savings.model';
 import Note from '../note/note.model';
 import Bazar from '../bazar/bazar.model';
 import Message from '../chat/chat.model';
+import { getIncomeTotal, getMonthlyCashFlow, calculateSavingsRate } from '../income/income.service';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getSpendingForecast } from '../forecast/forecast.service';
+import { getBudgetedSpending } from '../budget/budget.service';
+import { getUserCalendar } from '../auth/auth.service';
+import {
+  startOfDay as dayStart,
+  endOfDay as dayEnd,
+  startOfPeriod,
+  endOfPeriod,
+  formatDateKey
+} from '../../shared/utils/date.util';
 
 /**
  * Get Dashboard Data
@@ -21,17 +33,20 @@ import Message from '../chat/chat.model';
 export const getDashboardData = async (userId: string) => {
   const userObjectId = new mongoose.Types.ObjectId(userId);
   
-  // Get current month range
+  // All ranges are in the user's timezone
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
+  
+  // Get current (financial) month range
   const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+  const startOfMonth = startOfPeriod(now, timezone, monthStartDay);
+  const endOfMonth = endOfPeriod(now, timezone, monthStartDay);
   
   // Get today range
-  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  const startOfDay = dayStart(now, timezone);
+  const endOfDay = dayEnd(now, timezone);
   
-  // Get last 7 days range
-  const last7Days = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  // Get last 7 days range (today + 6 days before)
+  const last7Days = dayStart(now, timezone, -6);
   
   // ===== FINANCIAL OVERVIEW =====
   
@@ -46,7 +61,7 @@ export const getDashboardData = async (userId: string) => {
     {
       $group: {
         _id: null,
-        total: { $sum: '$amount' },
+        total: { $sum: NET_AMOUNT },
         count: { $sum: 1 }
       }
     }
@@ -55,36 +70,10 @@ export const getDashboardData = async (userId: string) => {
   const totalExpensesThisMonth = monthlyExpenses[0]?.total || 0;
   const expenseCountThisMonth = monthlyExpenses[0]?.count || 0;
   
-  // Budget overview
-  const categories = await Category.find({
-    userId: userObjectId,
-    monthlyBudget: { $exists: true, $ne: null }
-  });
-  
-  let totalBudget = 0;
-  let totalSpent = 0;
-  
-  for (const category of categories) {
-    totalBudget += category.monthlyBudget || 0;
-    
-    const categoryExpenses = await Expense.aggregate([
-      {
-        $match: {
-          userId: userObjectId,
-          categoryId: category._id,
-          date: { $gte: startOfMonth, $lte: endOfMonth }
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          total: { $sum: '$amount' }
-        }
-      }
-    ]);
-    
-    totalSpent += categoryExpenses[0]?.total || 0;
-  }
+  // Budget overview (same totals as the budget summary: subcategory
+  // budgets inside a budgeted parent aren't counted twice)
+  const budgeted = await getBudgetedSpending(userId, startOfMonth, endOfMonth);
+  const { totalBudget, totalSpent } = budgeted;
   
   const budgetPercentage = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
   
@@ -100,8 +89,9 @@ export const getDashboardData = async (userId: string) => {
     ? (totalSavingsCurrent / totalSavingsTarget) * 100 
     : 0;
   
-  // Top spending categories (this month)
-  const topCategories = await Expense.aggregate([
+  // Top spending categories (this month), subcategories rolled up
+  // into their parents
+  const spendingByCategory = await Expense.aggregate([
     {
       $match: {
         userId: userObjectId,
@@ -111,39 +101,23 @@ export const getDashboardData = async (userId: string) => {
     {
       $group: {
         _id: '$categoryId',
-        total: { $sum: '$amount' },
+        total: { $sum: NET_AMOUNT },
         count: { $sum: 1 }
       }
-    },
-    {
-      $sort: { total: -1 }
-    },
-    {
-      $limit: 5
-    },
-    {
-      $lookup: {
-        from: 'categories',
-        localField: '_id',
-        foreignField: '_id',
-        as: 'category'
-      }
-    },
-    {
-      $unwind: '$category'
-    },
-    {
-      $project: {
-        categoryId: '$_id',
-        categoryName: '$category.name',
-        categoryColor: '$category.color',
-        categoryIcon: '$category.icon',
-        totalSpent: '$total',
-        transactionCount: '$count'
-      }
     }
   ]);
   
+  const topCategories = (await rollUpCategoryTotals(userId, spendingByCategory))
+    .slice(0, 5)
+    .map(rollup => ({
+      categoryId: rollup.category._id,
+      categoryName: rollup.category.name,
+      categoryColor: rollup.category.color,
+      categoryIcon: rollup.category.icon,
+      totalSpent: rollup.total,
+      transactionCount: rollup.count
+    }));
+  
   // ===== TASKS OVERVIEW =====
   
   // Tasks due today
@@ -249,9 +223,9 @@ export const getDashboardData = async (userId: string) => {
     {
       $group: {
         _id: {
-          $dateToString: { format: '%Y-%m-%d', date: '$date' }
+          $dateToString: { format: '%Y-%m-%d', date: '$date', timezone }
         },
-        total: { $sum: '$amount' },
+        total: { $sum: NET_AMOUNT },
         count: { $sum: 1 }
       }
     },
@@ -273,8 +247,7 @@ export const getDashboardData = async (userId: string) => {
   const completeTrends = [];
   
   for (let i = 6; i >= 0; i--) {
-    const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = formatDateKey(dayStart(now, timezone, -i), timezone);
     
     completeTrends.push(
       trendMap.get(dateStr) || { date: dateStr, amount: 0, count: 0 }
@@ -293,7 +266,7 @@ export const getDashboardData = async (userId: string) => {
     {
       $group: {
         _id: '$categoryId',
-        total: { $sum: '$amount' }
+        total: { $sum: NET_AMOUNT }
       }
     },
     {
@@ -325,11 +298,29 @@ export const getDashboardData = async (userId: string) => {
     }
   ]);
   
+  // ===== FORECAST =====
+  
+  const forecast = await getSpendingForecast(userId);
+  
+  // Projection for the budgeted categories only (comparable with totalBudget)
+  const budgetedIds = new Set(budgeted.categoryIds);
+  const projectedBudgeted = forecast.currentMonth.categories
+    .filter(item => budgetedIds.has(item.categoryId))
+    .reduce((sum, item) => sum + item.projected, 0);
+  
+  // All amounts are stored in the user's base currency
+  const currency = await getUserBaseCurrency(userId);
+  
   // ===== ASSEMBLE RESPONSE =====
   
   return {
     // Financial Overview
     financial: {
+      currency,
+      period: {
+        startDate: startOfMonth,
+        endDate: endOfMonth
+      },
       totalExpensesThisMonth,
       expenseCountThisMonth,
       totalBudget,
@@ -344,7 +335,24 @@ export const getDashboardData = async (userId: string) => {
         progress: Math.round(savingsProgress * 100) / 100,
         activeGoals: savingsGoals.length
       },
-      topCategories
+      topCategories,
+      forecast: {
+        thisMonth: {
+          projected: forecast.currentMonth.projected,
+          low: forecast.currentMonth.low,
+          high: forecast.currentMonth.high,
+          recurring: forecast.currentMonth.recurring,
+          budgetPercentage: totalBudget > 0
+            ? Math.round((projectedBudgeted / totalBudget) * 10000) / 100
+            : 0
+        },
+        nextMonths: forecast.nextMonths.map(month => ({
+          month: month.month,
+          projected: month.projected,
+          low: month.low,
+          high: month.high
+        }))
+      }
     },
     
     // Tasks Overview
@@ -379,13 +387,18 @@ export const getDashboardData = async (userId: string) => {
 
 /**
  * Get Financial Summary (Quick version for widgets)
+ * 
+ * Includes income, net cash flow and savings rate per month.
+ * This / last month follow the user's financial month; the
+ * `monthly` history stays on calendar months.
  */
 export const getFinancialSummary = async (userId: string) => {
   const userObjectId = new mongoose.Types.ObjectId(userId);
   
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
   const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+  const startOfMonth = startOfPeriod(now, timezone, monthStartDay);
+  const endOfMonth = endOfPeriod(now, timezone, monthStartDay);
   
   // This month expenses
   const thisMonthExpenses = await Expense.aggregate([
@@ -398,14 +411,14 @@ export const getFinancialSummary = async (userId: string) => {
     {
       $group: {
         _id: null,
-        total: { $sum: '$amount' }
+        total: { $sum: NET_AMOUNT }
       }
     }
   ]);
   
   // Last month expenses
-  const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999);
+  const startOfLastMonth = startOfPeriod(now, timezone, monthStartDay, -1);
+  const endOfLastMonth = endOfPeriod(now, timezone, monthStartDay, -1);
   
   const lastMonthExpenses = await Expense.aggregate([
     {
@@ -417,7 +430,7 @@ export const getFinancialSummary = async (userId: string) => {
     {
       $group: {
         _id: null,
-        total: { $sum: '$amount' }
+        total: { $sum: NET_AMOUNT }
       }
     }
   ]);
@@ -429,10 +442,37 @@ export const getFinancialSummary = async (userId: string) => {
     ? ((thisMonth - lastMonth) / lastMonth) * 100 
     : 0;
   
+  // Income side
+  const [incomeThisMonth, incomeLastMonth, monthly] = await Promise.all([
+    getIncomeTotal(userId, startOfMonth, endOfMonth),
+    getIncomeTotal(userId, startOfLastMonth, endOfLastMonth),
+    getMonthlyCashFlow(userId, 6)
+  ]);
+  
   return {
+    currency: await getUserBaseCurrency(userId),
+    period: {
+      startDate: startOfMonth,
+      endDate: endOfMonth,
+      lastStartDate: startOfLastMonth,
+      lastEndDate: endOfLastMonth
+    },
     thisMonth,
     lastMonth,
     change: Math.round(change * 100) / 100,
-    changeType: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'same'
+    changeType: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'same',
+    income: {
+      thisMonth: incomeThisMonth.total,
+      lastMonth: incomeLastMonth.total
+    },
+    net: {
+      thisMonth: incomeThisMonth.total - thisMonth,
+      lastMonth: incomeLastMonth.total - lastMonth
+    },
+    savingsRate: {
+      thisMonth: calculateSavingsRate(incomeThisMonth.total, thisMonth),
+      lastMonth: calculateSavingsRate(incomeLastMonth.total, lastMonth)
+    },
+    monthly
   };
 };
\ No newline at end of file
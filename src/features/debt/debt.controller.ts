@@ -0,0 +1,297 @@
+/**
+ * Debt Controller
+ */
+
+import { Request, Response } from 'express';
+import * as debtService from './debt.service';
+import { DebtDirection } from './debt.model';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Counterparties
+ *
+ * Route: GET /api/debts/counterparties?search=
+ */
+export const getCounterparties = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const counterparties = await debtService.getCounterparties(userId, req.query.search as string | undefined);
+
+  return sendSuccess(res, counterparties);
+};
+
+/**
+ * Create Counterparty
+ *
+ * Route: POST /api/debts/counterparties
+ * Body: { name?, phone?, email?, appUserId?, note? }
+ */
+export const createCounterparty = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const counterparty = await debtService.createCounterparty(userId, req.body);
+
+  return sendSuccess(
+    res,
+    counterparty,
+    'Counterparty created successfully',
+    201
+  );
+};
+
+/**
+ * Update Counterparty
+ *
+ * Route: PUT /api/debts/counterparties/:id
+ */
+export const updateCounterparty = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const counterparty = await debtService.updateCounterparty(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    counterparty,
+    'Counterparty updated successfully'
+  );
+};
+
+/**
+ * Delete Counterparty
+ *
+ * Route: DELETE /api/debts/counterparties/:id
+ */
+export const deleteCounterparty = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await debtService.deleteCounterparty(userId, req.params.id);
+
+  return sendSuccess(
+    res,
+    null,
+    'Counterparty deleted successfully'
+  );
+};
+
+/**
+ * Get Debts
+ *
+ * Route: GET /api/debts?status=open|settled&direction=lent|borrowed&counterpartyId=&page=1&limit=20
+ */
+export const getDebts = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const result = await debtService.getDebts(userId, {
+    status: req.query.status as string | undefined,
+    direction: req.query.direction as DebtDirection | undefined,
+    counterpartyId: req.query.counterpartyId as string | undefined
+  }, page, limit);
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Get Outstanding Balances per Person
+ *
+ * Route: GET /api/debts/balances
+ */
+export const getDebtBalances = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const balances = await debtService.getDebtBalances(userId);
+
+  return sendSuccess(res, balances);
+};
+
+/**
+ * Get Debts Waiting for Your Confirmation
+ *
+ * Route: GET /api/debts/requests
+ */
+export const getDebtRequests = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const requests = await debtService.getDebtRequests(userId);
+
+  return sendSuccess(res, requests);
+};
+
+/**
+ * Get Single Debt
+ *
+ * Route: GET /api/debts/:id
+ */
+export const getDebtById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.getDebtById(userId, req.params.id);
+
+  return sendSuccess(res, debt);
+};
+
+/**
+ * Create Debt
+ *
+ * Route: POST /api/debts
+ * Body: { counterpartyId, direction, amount, currency?, dueDate?, requestConfirmation?, ... }
+ */
+export const createDebt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.createDebt(userId, req.body);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Debt recorded successfully',
+    201
+  );
+};
+
+/**
+ * Update Debt
+ *
+ * Route: PUT /api/debts/:id
+ */
+export const updateDebt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.updateDebt(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Debt updated successfully'
+  );
+};
+
+/**
+ * Delete Debt
+ *
+ * Route: DELETE /api/debts/:id
+ */
+export const deleteDebt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await debtService.deleteDebt(userId, req.params.id);
+
+  return sendSuccess(
+    res,
+    null,
+    'Debt deleted successfully'
+  );
+};
+
+/**
+ * Add Repayment
+ *
+ * Route: POST /api/debts/:id/repayments
+ * Body: { amount, date?, note? }
+ */
+export const addRepayment = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.addRepayment(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Repayment recorded successfully',
+    201
+  );
+};
+
+/**
+ * Delete Repayment
+ *
+ * Route: DELETE /api/debts/:id/repayments/:repaymentId
+ */
+export const deleteRepayment = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.deleteRepayment(userId, req.params.id, req.params.repaymentId);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Repayment deleted successfully'
+  );
+};
+
+/**
+ * Confirm a Debt Recorded About You
+ *
+ * Route: POST /api/debts/:id/confirm
+ */
+export const confirmDebt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.respondToDebt(userId, req.params.id, true);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Debt confirmed'
+  );
+};
+
+/**
+ * Reject a Debt Recorded About You
+ *
+ * Route: POST /api/debts/:id/reject
+ */
+export const rejectDebt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const debt = await debtService.respondToDebt(userId, req.params.id, false);
+
+  return sendSuccess(
+    res,
+    debt,
+    'Debt rejected'
+  );
+};
+
+/**
+ * Send a Reminder to the Counterparty
+ *
+ * Route: POST /api/debts/:id/remind
+ */
+export const remindCounterparty = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await debtService.remindCounterparty(userId, req.params.id);
+
+  return sendSuccess(
+    res,
+    null,
+    'Reminder sent'
+  );
+};
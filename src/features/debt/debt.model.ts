@@ -0,0 +1,316 @@
+/**
+ * Debt Models
+ *
+ * Purpose: Money lent to / borrowed from people outside of split
+ * expenses (a loan to a friend, borrowing from family)
+ *
+ * Models:
+ * 1. Counterparty - the other person: a plain contact, or linked
+ *    to an app user
+ * 2. Debt - one loan in one direction, with partial repayments
+ *
+ * Confirmation handshake (app-user counterparties, optional):
+ * none → pending (they're notified) → confirmed / rejected.
+ * Confirmed debts also show up in the other user's ledger (direction
+ * flipped) and either side can record repayments.
+ *
+ * Outstanding = amount − repaidAmount (repaidAmount is the sum of
+ * repayments, kept in sync by the service).
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export type DebtDirection = 'lent' | 'borrowed';
+export type DebtStatus = 'open' | 'settled';
+export type DebtConfirmation = 'none' | 'pending' | 'confirmed' | 'rejected';
+
+/**
+ * Counterparty Interface
+ */
+export interface ICounterparty extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  phone?: string;
+  email?: string;
+  appUserId?: mongoose.Types.ObjectId | null;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Repayment (embedded)
+ */
+export interface IRepayment {
+  _id: mongoose.Types.ObjectId;
+  amount: number;
+  date: Date;
+  note?: string;
+  recordedBy: mongoose.Types.ObjectId;
+}
+
+/**
+ * Debt Interface
+ */
+export interface IDebt extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;               // Who recorded it
+  counterpartyId: mongoose.Types.ObjectId;
+  counterpartyUserId?: mongoose.Types.ObjectId | null;
+  direction: DebtDirection;                      // From userId's side
+  amount: number;
+  currency: string;
+  description?: string;
+  date: Date;
+  dueDate?: Date | null;
+  repayments: IRepayment[];
+  repaidAmount: number;
+  status: DebtStatus;
+  settledAt?: Date | null;
+  confirmation: DebtConfirmation;
+  respondedAt?: Date | null;
+  reminderDays: number;
+  remindedAt?: Date | null;
+  nudgedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const toJSONOptions = {
+  virtuals: true,
+  transform: function(_doc: any, ret: any) {
+    const result = ret as any;
+    delete result.__v;
+    return result;
+  }
+};
+
+/**
+ * Counterparty Schema
+ */
+const CounterpartySchema = new Schema<ICounterparty>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [60, 'Name cannot exceed 60 characters']
+    },
+
+    phone: {
+      type: String,
+      trim: true,
+      maxlength: [20, 'Phone cannot exceed 20 characters']
+    },
+
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true
+    },
+
+    // Set when the person uses the app (enables confirmation)
+    appUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+/**
+ * Indexes
+ * - One counterparty per name per user (case-insensitive)
+ * - One counterparty per linked app user per user
+ */
+CounterpartySchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+CounterpartySchema.index(
+  { userId: 1, appUserId: 1 },
+  { unique: true, partialFilterExpression: { appUserId: { $type: 'objectId' } } }
+);
+
+/**
+ * Repayment Schema (Embedded)
+ */
+const RepaymentSchema = new Schema<IRepayment>(
+  {
+    amount: { type: Number, required: true, min: 0.01 },
+    date: { type: Date, required: true },
+    note: { type: String, trim: true, maxlength: 200 },
+    recordedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+  }
+);
+
+/**
+ * Debt Schema
+ */
+const DebtSchema = new Schema<IDebt>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    counterpartyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Counterparty',
+      required: true
+    },
+
+    // Copied from the counterparty: lets the other user see the debt
+    counterpartyUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+
+    direction: {
+      type: String,
+      enum: ['lent', 'borrowed'],
+      required: [true, 'Direction is required']
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    date: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+
+    dueDate: {
+      type: Date,
+      default: null
+    },
+
+    repayments: {
+      type: [RepaymentSchema],
+      default: []
+    },
+
+    repaidAmount: {
+      type: Number,
+      default: 0
+    },
+
+    status: {
+      type: String,
+      enum: ['open', 'settled'],
+      default: 'open'
+    },
+
+    settledAt: {
+      type: Date,
+      default: null
+    },
+
+    confirmation: {
+      type: String,
+      enum: ['none', 'pending', 'confirmed', 'rejected'],
+      default: 'none'
+    },
+
+    respondedAt: {
+      type: Date,
+      default: null
+    },
+
+    // Remind this many days before the due date (0 = off)
+    reminderDays: {
+      type: Number,
+      min: 0,
+      max: 30,
+      default: 1
+    },
+
+    // Due-date reminder sent
+    remindedAt: {
+      type: Date,
+      default: null
+    },
+
+    // Last manual reminder sent to the other user
+    nudgedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions,
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Virtual: outstanding
+ */
+DebtSchema.virtual('outstanding').get(function() {
+  return Math.round((this.amount - (this.repaidAmount || 0)) * 100) / 100;
+});
+
+/**
+ * Virtual: counterparty
+ */
+DebtSchema.virtual('counterparty', {
+  ref: 'Counterparty',
+  localField: 'counterpartyId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Indexes
+ * - User's debts by status, latest first
+ * - Per-person ledger
+ * - Debts shared with the counterparty user (requests, their ledger)
+ * - Scheduler: open debts coming due
+ */
+DebtSchema.index({ userId: 1, status: 1, date: -1 });
+DebtSchema.index({ userId: 1, counterpartyId: 1, date: -1 });
+DebtSchema.index({ counterpartyUserId: 1, confirmation: 1, status: 1 });
+DebtSchema.index({ status: 1, dueDate: 1 });
+
+export const Counterparty = mongoose.model<ICounterparty>('Counterparty', CounterpartySchema);
+
+const Debt = mongoose.model<IDebt>('Debt', DebtSchema);
+
+export default Debt;
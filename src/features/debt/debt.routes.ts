@@ -0,0 +1,126 @@
+/**
+ * Debt Routes
+ *
+ * Purpose: Personal loans (lend / borrow) with repayments and reminders
+ */
+
+import { Router } from 'express';
+import * as debtController from './debt.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createCounterpartySchema,
+  updateCounterpartySchema,
+  createDebtSchema,
+  updateDebtSchema,
+  addRepaymentSchema
+} from './debt.validator';
+
+const router = Router();
+
+/**
+ * All debt routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Counterparties (must come before /:id)
+ */
+router.get(
+  '/counterparties',
+  debtController.getCounterparties
+);
+
+router.post(
+  '/counterparties',
+  validate(createCounterpartySchema),
+  debtController.createCounterparty
+);
+
+router.put(
+  '/counterparties/:id',
+  validate(updateCounterpartySchema),
+  debtController.updateCounterparty
+);
+
+router.delete(
+  '/counterparties/:id',
+  debtController.deleteCounterparty
+);
+
+/**
+ * Balances & confirmation requests (must come before /:id)
+ */
+router.get(
+  '/balances',
+  debtController.getDebtBalances
+);
+
+router.get(
+  '/requests',
+  debtController.getDebtRequests
+);
+
+/**
+ * Debts
+ */
+router.get(
+  '/',
+  debtController.getDebts
+);
+
+router.post(
+  '/',
+  validate(createDebtSchema),
+  debtController.createDebt
+);
+
+router.get(
+  '/:id',
+  debtController.getDebtById
+);
+
+router.put(
+  '/:id',
+  validate(updateDebtSchema),
+  debtController.updateDebt
+);
+
+router.delete(
+  '/:id',
+  debtController.deleteDebt
+);
+
+/**
+ * Repayments
+ */
+router.post(
+  '/:id/repayments',
+  validate(addRepaymentSchema),
+  debtController.addRepayment
+);
+
+router.delete(
+  '/:id/repayments/:repaymentId',
+  debtController.deleteRepayment
+);
+
+/**
+ * Confirmation handshake & reminders
+ */
+router.post(
+  '/:id/confirm',
+  debtController.confirmDebt
+);
+
+router.post(
+  '/:id/reject',
+  debtController.rejectDebt
+);
+
+router.post(
+  '/:id/remind',
+  debtController.remindCounterparty
+);
+
+export default router;
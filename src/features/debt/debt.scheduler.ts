@@ -0,0 +1,41 @@
+/**
+ * Debt Scheduler
+ *
+ * Purpose: Remind both sides before a debt's due date
+ */
+
+import { sendDueDebtReminders } from './debt.service';
+
+/**
+ * Send Due-Date Reminders
+ *
+ * Safe to run repeatedly - each due date is reminded once
+ */
+export const checkDebtReminders = async (): Promise<void> => {
+  try {
+    const reminded = await sendDueDebtReminders();
+
+    if (reminded > 0) {
+      console.log(`🤝 Sent ${reminded} debt reminder(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Debt reminder check error:', error);
+  }
+};
+
+/**
+ * Start Debt Reminder Scheduler
+ *
+ * Checks every hour (reminder day starts at midnight in each user's timezone)
+ */
+export const startDebtReminderScheduler = (): void => {
+  console.log('🤝 Debt reminder scheduler started');
+
+  // Run immediately on start (catches up after downtime)
+  checkDebtReminders();
+
+  // Then run every hour
+  setInterval(() => {
+    checkDebtReminders();
+  }, 60 * 60 * 1000);  // 1 hour
+};
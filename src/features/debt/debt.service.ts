@@ -0,0 +1,1127 @@
+/**
+ * Debt Service
+ *
+ * Purpose: Personal loans - who you lent money to, who you borrowed
+ * from, partial repayments and what's still outstanding per person
+ *
+ * Key Concepts:
+ * 1. A debt belongs to the user who recorded it; `direction` is from
+ *    their side (lent: the counterparty owes them)
+ * 2. Repayments can't exceed what's outstanding; reaching zero settles
+ *    the debt, deleting a repayment reopens it
+ * 3. Confirmation (optional, app-user counterparties only): the other
+ *    user confirms or rejects. Confirmed debts appear in their ledger
+ *    and balances too (direction flipped) and either side can record
+ *    repayments. Changing the terms of a confirmed debt asks again.
+ * 4. Balances are per person and currency, never converted
+ *
+ * Sign convention in responses: positive = they owe you
+ */
+
+import mongoose from 'mongoose';
+import Debt, { Counterparty, ICounterparty, IDebt, DebtDirection } from './debt.model';
+import User from '../auth/auth.model';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import {
+  sendDebtRequest,
+  sendDebtResponse,
+  sendDebtRepaymentNotification,
+  sendDebtReminder
+} from '../notification/notification.service';
+import {
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError
+} from '../../shared/utils/error.util';
+import { escapeRegex } from '../../shared/utils/text.util';
+import { startOfDay } from '../../shared/utils/date.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Create Counterparty DTO
+ */
+export interface CreateCounterpartyDTO {
+  name?: string;                  // Default: linked user's name
+  phone?: string;
+  email?: string;
+  appUserId?: string | null;
+  note?: string;
+}
+
+/**
+ * Create Debt DTO
+ */
+export interface CreateDebtDTO {
+  counterpartyId: string;
+  direction: DebtDirection;
+  amount: number;
+  currency?: string;              // Default: base currency
+  description?: string;
+  date?: Date;                    // Default: now
+  dueDate?: Date | null;
+  reminderDays?: number;
+  requestConfirmation?: boolean;  // Ask the linked app user to confirm
+}
+
+/**
+ * Update Debt DTO
+ */
+export interface UpdateDebtDTO extends Partial<CreateDebtDTO> {}
+
+/**
+ * Add Repayment DTO
+ */
+export interface AddRepaymentDTO {
+  amount: number;
+  date?: Date;                    // Default: now
+  note?: string;
+}
+
+/**
+ * Debt Filters
+ */
+export interface DebtFilters {
+  status?: string;
+  direction?: DebtDirection;      // From your side
+  counterpartyId?: string;
+}
+
+/**
+ * Public user info
+ */
+export interface UserSummary {
+  _id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+/**
+ * The other person on a debt
+ */
+export interface DebtPerson {
+  counterpartyId: string | null;  // Your contact (null: not in your contacts)
+  name: string;
+  user: UserSummary | null;       // Linked app user
+}
+
+/**
+ * Balance with one person
+ */
+export interface PersonBalance {
+  person: DebtPerson;
+  currency: string;
+  amount: number;                 // > 0: they owe you, < 0: you owe them
+  debts: number;                  // Open debts
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const toObjectId = (id: string) => new mongoose.Types.ObjectId(id);
+
+const flip = (direction: DebtDirection): DebtDirection =>
+  direction === 'lent' ? 'borrowed' : 'lent';
+
+const REMINDER_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load Public User Info
+ */
+const loadUsers = async (ids: string[]): Promise<Map<string, UserSummary>> => {
+  const unique = [...new Set(ids)];
+  const users = await User.find({ _id: { $in: unique.map(toObjectId) } })
+    .select('name email avatar')
+    .lean();
+
+  return new Map(users.map(user => [
+    user._id.toString(),
+    {
+      _id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar
+    }
+  ]));
+};
+
+/**
+ * Outstanding Amount
+ */
+const outstandingOf = (debt: IDebt): number => roundAmount(debt.amount - (debt.repaidAmount || 0));
+
+/**
+ * Recompute repaidAmount and Status from the Repayments
+ */
+const applyRepayments = (debt: IDebt): void => {
+  debt.repaidAmount = roundAmount(debt.repayments.reduce((sum, item) => sum + item.amount, 0));
+
+  if (outstandingOf(debt) <= 0) {
+    if (debt.status !== 'settled') {
+      debt.status = 'settled';
+      debt.settledAt = new Date();
+    }
+  } else {
+    debt.status = 'open';
+    debt.settledAt = null;
+  }
+};
+
+// ==================== COUNTERPARTIES ====================
+
+/**
+ * Get Counterparty (owned by user)
+ *
+ * @param userId - User ID
+ * @param counterpartyId - Counterparty ID
+ */
+export const getCounterpartyById = async (
+  userId: string,
+  counterpartyId: string
+): Promise<ICounterparty> => {
+  const counterparty = await Counterparty.findOne({
+    _id: toObjectId(counterpartyId),
+    userId: toObjectId(userId)
+  });
+
+  if (!counterparty) {
+    throw new NotFoundError('Counterparty not found');
+  }
+
+  return counterparty;
+};
+
+/**
+ * Ensure Name is Unused (case-insensitive)
+ */
+const ensureUniqueName = async (userId: string, name: string, excludeId?: string): Promise<void> => {
+  const query: any = {
+    userId: toObjectId(userId),
+    name: { $regex: new RegExp(`^${escapeRegex(name.trim())}$`, 'i') }
+  };
+
+  if (excludeId) {
+    query._id = { $ne: toObjectId(excludeId) };
+  }
+
+  if (await Counterparty.exists(query)) {
+    throw new ConflictError('Counterparty with this name already exists');
+  }
+};
+
+/**
+ * Validate a Linked App User
+ *
+ * @returns The user's public info
+ */
+const checkAppUser = async (
+  userId: string,
+  appUserId: string,
+  excludeId?: string
+): Promise<UserSummary> => {
+  if (appUserId === userId) {
+    throw new BadRequestError('You cannot add yourself as a counterparty');
+  }
+
+  const user = (await loadUsers([appUserId])).get(appUserId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const query: any = { userId: toObjectId(userId), appUserId: toObjectId(appUserId) };
+  if (excludeId) {
+    query._id = { $ne: toObjectId(excludeId) };
+  }
+
+  if (await Counterparty.exists(query)) {
+    throw new ConflictError('This user is already one of your counterparties');
+  }
+
+  return user;
+};
+
+/**
+ * Get Counterparties
+ *
+ * @param userId - User ID
+ * @param search - Optional name search
+ */
+export const getCounterparties = async (
+  userId: string,
+  search?: string
+): Promise<ICounterparty[]> => {
+  const query: any = { userId: toObjectId(userId) };
+
+  if (search) {
+    query.name = { $regex: escapeRegex(search.trim()), $options: 'i' };
+  }
+
+  return Counterparty.find(query)
+    .populate('appUserId', 'name email avatar')
+    .collation({ locale: 'en', strength: 2 })
+    .sort({ name: 1 });
+};
+
+/**
+ * Create Counterparty
+ *
+ * @param userId - User ID
+ * @param data - Name, contact details, optional linked app user
+ * @returns Created counterparty
+ */
+export const createCounterparty = async (
+  userId: string,
+  data: CreateCounterpartyDTO
+): Promise<ICounterparty> => {
+  let name = data.name;
+
+  if (data.appUserId) {
+    const user = await checkAppUser(userId, data.appUserId);
+    name = name || user.name;
+  }
+
+  if (!name) {
+    throw new BadRequestError('Name is required');
+  }
+
+  await ensureUniqueName(userId, name);
+
+  return Counterparty.create({
+    ...data,
+    name,
+    userId: toObjectId(userId),
+    appUserId: data.appUserId ? toObjectId(data.appUserId) : null
+  });
+};
+
+/**
+ * Update Counterparty
+ *
+ * The linked app user can't change while debts are waiting for or
+ * have their confirmation
+ *
+ * @param userId - User ID
+ * @param counterpartyId - Counterparty ID
+ * @param data - Fields to update
+ * @returns Updated counterparty
+ */
+export const updateCounterparty = async (
+  userId: string,
+  counterpartyId: string,
+  data: CreateCounterpartyDTO
+): Promise<ICounterparty> => {
+  const counterparty = await getCounterpartyById(userId, counterpartyId);
+
+  if (data.name && data.name.trim().toLowerCase() !== counterparty.name.toLowerCase()) {
+    await ensureUniqueName(userId, data.name, counterpartyId);
+  }
+
+  const linkChanged = data.appUserId !== undefined &&
+    String(data.appUserId ?? null) !== String(counterparty.appUserId ?? null);
+
+  if (linkChanged) {
+    if (data.appUserId) {
+      await checkAppUser(userId, data.appUserId, counterpartyId);
+    }
+
+    const shared = await Debt.exists({
+      counterpartyId: counterparty._id,
+      confirmation: { $in: ['pending', 'confirmed'] }
+    });
+
+    if (shared) {
+      throw new ConflictError('Counterparty has debts shared with the linked user; cannot change the link');
+    }
+  }
+
+  counterparty.set({
+    ...data,
+    ...(data.appUserId !== undefined && {
+      appUserId: data.appUserId ? toObjectId(data.appUserId) : null
+    })
+  });
+  await counterparty.save();
+
+  if (linkChanged) {
+    await Debt.updateMany(
+      { counterpartyId: counterparty._id },
+      { $set: { counterpartyUserId: counterparty.appUserId ?? null, confirmation: 'none', respondedAt: null } }
+    );
+  }
+
+  return counterparty;
+};
+
+/**
+ * Delete Counterparty (only without debts)
+ *
+ * @param userId - User ID
+ * @param counterpartyId - Counterparty ID
+ */
+export const deleteCounterparty = async (
+  userId: string,
+  counterpartyId: string
+): Promise<void> => {
+  const counterparty = await getCounterpartyById(userId, counterpartyId);
+
+  if (await Debt.exists({ counterpartyId: counterparty._id })) {
+    throw new ConflictError('Counterparty has debts; delete them first');
+  }
+
+  await counterparty.deleteOne();
+};
+
+// ==================== DEBTS ====================
+
+/**
+ * Get Debt the User Can See
+ *
+ * Own debts, and confirmed debts where the user is the counterparty
+ */
+const findVisibleDebt = async (userId: string, debtId: string): Promise<IDebt> => {
+  const me = toObjectId(userId);
+
+  const debt = await Debt.findOne({
+    _id: toObjectId(debtId),
+    $or: [
+      { userId: me },
+      { counterpartyUserId: me, confirmation: 'confirmed' }
+    ]
+  });
+
+  if (!debt) {
+    throw new NotFoundError('Debt not found');
+  }
+
+  return debt;
+};
+
+/**
+ * Get Own Debt (recorded by the user)
+ */
+const findOwnDebt = async (userId: string, debtId: string): Promise<IDebt> => {
+  const debt = await findVisibleDebt(userId, debtId);
+
+  if (debt.userId.toString() !== userId) {
+    throw new ForbiddenError('Only the user who recorded the debt can change it');
+  }
+
+  return debt;
+};
+
+/**
+ * Resolve the Other Person on Each Debt
+ *
+ * Own debts: the counterparty. Debts recorded by someone else: that
+ * user, matched to your own contact for them if you have one.
+ *
+ * @returns debtId → person
+ */
+const resolvePeople = async (userId: string, debts: IDebt[]): Promise<Map<string, DebtPerson>> => {
+  const own = debts.filter(debt => debt.userId.toString() === userId);
+  const shared = debts.filter(debt => debt.userId.toString() !== userId);
+
+  const ownerIds = shared.map(debt => debt.userId.toString());
+
+  const [counterparties, contacts] = await Promise.all([
+    Counterparty.find({ _id: { $in: own.map(debt => debt.counterpartyId) } }).lean(),
+    Counterparty.find({
+      userId: toObjectId(userId),
+      appUserId: { $in: ownerIds.map(toObjectId) }
+    }).lean()
+  ]);
+
+  const users = await loadUsers([
+    ...ownerIds,
+    ...counterparties.filter(cp => cp.appUserId).map(cp => cp.appUserId!.toString())
+  ]);
+
+  const byId = new Map(counterparties.map(cp => [cp._id.toString(), cp]));
+  const byUser = new Map(contacts.map(cp => [cp.appUserId!.toString(), cp]));
+
+  const people = new Map<string, DebtPerson>();
+
+  for (const debt of own) {
+    const counterparty = byId.get(debt.counterpartyId.toString());
+    people.set(debt._id.toString(), {
+      counterpartyId: debt.counterpartyId.toString(),
+      name: counterparty?.name || 'Unknown',
+      user: counterparty?.appUserId ? users.get(counterparty.appUserId.toString()) || null : null
+    });
+  }
+
+  for (const debt of shared) {
+    const ownerId = debt.userId.toString();
+    const contact = byUser.get(ownerId);
+    const user = users.get(ownerId) || null;
+    people.set(debt._id.toString(), {
+      counterpartyId: contact?._id.toString() ?? null,
+      name: contact?.name || user?.name || 'Unknown',
+      user
+    });
+  }
+
+  return people;
+};
+
+/**
+ * Debt as Seen by the User
+ *
+ * `role` is owner (recorded it) or counterparty; `direction` is from
+ * the user's side
+ */
+const toView = (userId: string, debt: IDebt, person?: DebtPerson) => {
+  const isOwner = debt.userId.toString() === userId;
+
+  return {
+    ...debt.toJSON(),
+    role: isOwner ? 'owner' : 'counterparty',
+    direction: isOwner ? debt.direction : flip(debt.direction),
+    outstanding: outstandingOf(debt),
+    person: person ?? null
+  };
+};
+
+/**
+ * Views for Several Debts
+ */
+const toViews = async (userId: string, debts: IDebt[]) => {
+  const people = await resolvePeople(userId, debts);
+  return debts.map(debt => toView(userId, debt, people.get(debt._id.toString())));
+};
+
+/**
+ * Ask the Counterparty User to Confirm
+ */
+const requestConfirmation = async (debt: IDebt): Promise<void> => {
+  debt.confirmation = 'pending';
+  debt.respondedAt = null;
+
+  const owner = await User.findById(debt.userId).select('name');
+  sendDebtRequest(
+    debt.counterpartyUserId!.toString(),
+    owner?.name || 'Someone',
+    flip(debt.direction),
+    debt.amount,
+    debt.currency,
+    debt._id.toString()
+  ).catch(err => {
+    console.error('Failed to send debt confirmation request:', err);
+  });
+};
+
+/**
+ * Create Debt
+ *
+ * @param userId - User ID
+ * @param data - Counterparty, direction, amount, dates
+ * @returns Created debt
+ */
+export const createDebt = async (userId: string, data: CreateDebtDTO) => {
+  const counterparty = await getCounterpartyById(userId, data.counterpartyId);
+
+  if (data.requestConfirmation && !counterparty.appUserId) {
+    throw new BadRequestError('Confirmation needs a counterparty linked to an app user');
+  }
+
+  const date = data.date ? new Date(data.date) : new Date();
+
+  if (data.dueDate && new Date(data.dueDate) < date) {
+    throw new BadRequestError('Due date cannot be before the debt date');
+  }
+
+  const debt = new Debt({
+    userId: toObjectId(userId),
+    counterpartyId: counterparty._id,
+    counterpartyUserId: counterparty.appUserId ?? null,
+    direction: data.direction,
+    amount: roundAmount(data.amount),
+    currency: data.currency || await getUserBaseCurrency(userId),
+    description: data.description,
+    date,
+    dueDate: data.dueDate ?? null,
+    reminderDays: data.reminderDays
+  });
+
+  if (data.requestConfirmation) {
+    await requestConfirmation(debt);
+  }
+
+  await debt.save();
+
+  return toView(userId, debt, (await resolvePeople(userId, [debt])).get(debt._id.toString()));
+};
+
+/**
+ * Get Debts
+ *
+ * Own debts and confirmed debts recorded by others about the user
+ *
+ * @param userId - User ID
+ * @param filters - Status, direction (your side), counterparty
+ * @param page - Page number
+ * @param limit - Items per page
+ */
+export const getDebts = async (
+  userId: string,
+  filters: DebtFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<ReturnType<typeof toView>>> => {
+  const me = toObjectId(userId);
+
+  const own: any = { userId: me };
+  let shared: any = { counterpartyUserId: me, confirmation: 'confirmed' };
+
+  if (filters.direction) {
+    own.direction = filters.direction;
+    shared.direction = flip(filters.direction);
+  }
+
+  if (filters.counterpartyId) {
+    const counterparty = await getCounterpartyById(userId, filters.counterpartyId);
+    own.counterpartyId = counterparty._id;
+
+    // Their own records about you count for the same person
+    shared = counterparty.appUserId ? { ...shared, userId: counterparty.appUserId } : null;
+  }
+
+  const query: any = { $or: shared ? [own, shared] : [own] };
+
+  if (filters.status) {
+    query.status = filters.status;
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [debts, total] = await Promise.all([
+    Debt.find(query)
+      .sort({ status: 1, dueDate: 1, date: -1 })
+      .skip(skip)
+      .limit(limit),
+
+    Debt.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: await toViews(userId, debts),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Get Single Debt (with repayments)
+ *
+ * @param userId - User ID
+ * @param debtId - Debt ID
+ */
+export const getDebtById = async (userId: string, debtId: string) => {
+  const debt = await findVisibleDebt(userId, debtId);
+  const [view] = await toViews(userId, [debt]);
+
+  return view;
+};
+
+/**
+ * Update Debt (recorder only)
+ *
+ * Changing amount, currency or direction of a confirmed debt sends it
+ * back for confirmation. A shared debt can't move to another person.
+ *
+ * @param userId - User ID
+ * @param debtId - Debt ID
+ * @param data - Fields to update
+ * @returns Updated debt
+ */
+export const updateDebt = async (userId: string, debtId: string, data: UpdateDebtDTO) => {
+  const debt = await findOwnDebt(userId, debtId);
+  const { requestConfirmation: askAgain, counterpartyId, ...fields } = data;
+
+  if (counterpartyId && counterpartyId !== debt.counterpartyId.toString()) {
+    if (debt.confirmation === 'confirmed') {
+      throw new BadRequestError('Debt is confirmed by the other user; it cannot move to another person');
+    }
+
+    const counterparty = await getCounterpartyById(userId, counterpartyId);
+    debt.counterpartyId = counterparty._id;
+    debt.counterpartyUserId = counterparty.appUserId ?? null;
+    debt.confirmation = 'none';
+    debt.respondedAt = null;
+  }
+
+  if (fields.currency && fields.currency !== debt.currency && debt.repayments.length > 0) {
+    throw new BadRequestError('Debt has repayments; delete them before changing its currency');
+  }
+
+  if (fields.amount !== undefined && roundAmount(fields.amount) < debt.repaidAmount) {
+    throw new BadRequestError(`Amount cannot be less than the ${debt.repaidAmount} ${debt.currency} already repaid`);
+  }
+
+  const termsChanged =
+    (fields.amount !== undefined && roundAmount(fields.amount) !== debt.amount) ||
+    (fields.currency !== undefined && fields.currency !== debt.currency) ||
+    (fields.direction !== undefined && fields.direction !== debt.direction);
+
+  const dueChanged = fields.dueDate !== undefined &&
+    String(fields.dueDate ? new Date(fields.dueDate).getTime() : null) !==
+    String(debt.dueDate ? debt.dueDate.getTime() : null);
+
+  debt.set({
+    ...fields,
+    ...(fields.amount !== undefined && { amount: roundAmount(fields.amount) })
+  });
+
+  if (debt.dueDate && debt.dueDate < debt.date) {
+    throw new BadRequestError('Due date cannot be before the debt date');
+  }
+
+  if (dueChanged) {
+    debt.remindedAt = null;
+  }
+
+  applyRepayments(debt);
+
+  if (askAgain && !debt.counterpartyUserId) {
+    throw new BadRequestError('Confirmation needs a counterparty linked to an app user');
+  }
+
+  if (
+    debt.counterpartyUserId &&
+    (askAgain || (termsChanged && ['pending', 'confirmed'].includes(debt.confirmation)))
+  ) {
+    await requestConfirmation(debt);
+  }
+
+  await debt.save();
+
+  const [view] = await toViews(userId, [debt]);
+  return view;
+};
+
+/**
+ * Delete Debt (recorder only)
+ *
+ * @param userId - User ID
+ * @param debtId - Debt ID
+ */
+export const deleteDebt = async (userId: string, debtId: string): Promise<void> => {
+  const debt = await findOwnDebt(userId, debtId);
+  await debt.deleteOne();
+};
+
+// ==================== REPAYMENTS ====================
+
+/**
+ * Notify the Other Side of a Confirmed Debt
+ */
+const notifyRepayment = async (userId: string, debt: IDebt, amount: number): Promise<void> => {
+  if (debt.confirmation !== 'confirmed' || !debt.counterpartyUserId) {
+    return;
+  }
+
+  const otherId = debt.userId.toString() === userId
+    ? debt.counterpartyUserId.toString()
+    : debt.userId.toString();
+
+  const by = await User.findById(userId).select('name');
+  sendDebtRepaymentNotification(
+    otherId,
+    by?.name || 'Someone',
+    amount,
+    outstandingOf(debt),
+    debt.currency,
+    debt._id.toString()
+  ).catch(err => {
+    console.error('Failed to send repayment notification:', err);
+  });
+};
+
+/**
+ * Add Repayment
+ *
+ * Either side of a confirmed debt can record one
+ *
+ * @param userId - User ID
+ * @param debtId - Debt ID
+ * @param data - Amount (debt currency), date, note
+ * @returns Updated debt
+ */
+export const addRepayment = async (userId: string, debtId: string, data: AddRepaymentDTO) => {
+  const debt = await findVisibleDebt(userId, debtId);
+  const date = data.date ? new Date(data.date) : new Date();
+
+  const timezone = await getUserTimezone(userId);
+  if (date < startOfDay(debt.date, timezone)) {
+    throw new BadRequestError('Repayment cannot be dated before the debt');
+  }
+
+  const outstanding = outstandingOf(debt);
+  const amount = roundAmount(data.amount);
+
+  if (amount > outstanding) {
+    throw new BadRequestError(
+      outstanding > 0
+        ? `Repayment cannot exceed the ${outstanding} ${debt.currency} outstanding`
+        : 'Debt is already fully repaid'
+    );
+  }
+
+  debt.repayments.push({
+    _id: new mongoose.Types.ObjectId(),
+    amount,
+    date,
+    note: data.note,
+    recordedBy: toObjectId(userId)
+  });
+  applyRepayments(debt);
+  await debt.save();
+
+  await notifyRepayment(userId, debt, amount);
+
+  const [view] = await toViews(userId, [debt]);
+  return view;
+};
+
+/**
+ * Delete Repayment (only by whoever recorded it)
+ *
+ * @param userId - User ID
+ * @param debtId - Debt ID
+ * @param repaymentId - Repayment ID
+ * @returns Updated debt
+ */
+export const deleteRepayment = async (userId: string, debtId: string, repaymentId: string) => {
+  const debt = await findVisibleDebt(userId, debtId);
+  const repayment = debt.repayments.find(item => item._id.toString() === repaymentId);
+
+  if (!repayment) {
+    throw new NotFoundError('Repayment not found');
+  }
+
+  if (repayment.recordedBy.toString() !== userId) {
+    throw new ForbiddenError('Only the user who recorded it can delete a repayment');
+  }
+
+  debt.repayments = debt.repayments.filter(item => item._id.toString() !== repaymentId);
+  applyRepayments(debt);
+  await debt.save();
+
+  const [view] = await toViews(userId, [debt]);
+  return view;
+};
+
+// ==================== CONFIRMATION ====================
+
+/**
+ * Get Debts Waiting for the User's Confirmation
+ *
+ * @param userId - User ID
+ */
+export const getDebtRequests = async (userId: string) => {
+  const debts = await Debt.find({
+    counterpartyUserId: toObjectId(userId),
+    confirmation: 'pending'
+  }).sort({ updatedAt: -1 });
+
+  return toViews(userId, debts);
+};
+
+/**
+ * Confirm or Reject a Debt Recorded About the User
+ *
+ * @param userId - Counterparty user ID
+ * @param debtId - Debt ID
+ * @param confirmed - Confirm (true) or reject (false)
+ * @returns Updated debt
+ */
+export const respondToDebt = async (userId: string, debtId: string, confirmed: boolean) => {
+  const debt = await Debt.findOne({
+    _id: toObjectId(debtId),
+    counterpartyUserId: toObjectId(userId),
+    confirmation: 'pending'
+  });
+
+  if (!debt) {
+    throw new NotFoundError('Debt request not found');
+  }
+
+  debt.confirmation = confirmed ? 'confirmed' : 'rejected';
+  debt.respondedAt = new Date();
+  await debt.save();
+
+  const me = await User.findById(userId).select('name');
+  sendDebtResponse(
+    debt.userId.toString(),
+    me?.name || 'Someone',
+    confirmed,
+    debt.amount,
+    debt.currency,
+    debt._id.toString()
+  ).catch(err => {
+    console.error('Failed to send debt response notification:', err);
+  });
+
+  const [view] = await toViews(userId, [debt]);
+  return view;
+};
+
+// ==================== BALANCES ====================
+
+/**
+ * Get Outstanding Balances per Person
+ *
+ * Open debts you recorded plus confirmed ones others recorded about
+ * you. A counterparty linked to an app user and that user's own
+ * records are the same person.
+ *
+ * @param userId - User ID
+ * @returns Per-person balances + totals per currency
+ */
+export const getDebtBalances = async (userId: string) => {
+  const me = toObjectId(userId);
+  const outstanding = { $subtract: ['$amount', { $ifNull: ['$repaidAmount', 0] }] };
+
+  const [own, shared] = await Promise.all([
+    Debt.aggregate([
+      { $match: { userId: me, status: 'open' } },
+      {
+        $group: {
+          _id: { counterpartyId: '$counterpartyId', currency: '$currency' },
+          amount: { $sum: { $cond: [{ $eq: ['$direction', 'lent'] }, outstanding, { $multiply: [outstanding, -1] }] } },
+          debts: { $sum: 1 }
+        }
+      }
+    ]),
+    Debt.aggregate([
+      { $match: { counterpartyUserId: me, confirmation: 'confirmed', status: 'open' } },
+      {
+        $group: {
+          _id: { userId: '$userId', currency: '$currency' },
+          // Their "lent" is what you owe
+          amount: { $sum: { $cond: [{ $eq: ['$direction', 'borrowed'] }, outstanding, { $multiply: [outstanding, -1] }] } },
+          debts: { $sum: 1 }
+        }
+      }
+    ])
+  ]);
+
+  const counterparties = await Counterparty.find({
+    $or: [
+      { _id: { $in: own.map(row => row._id.counterpartyId) } },
+      { userId: me, appUserId: { $in: shared.map(row => row._id.userId) } }
+    ]
+  }).lean();
+
+  const users = await loadUsers([
+    ...shared.map(row => row._id.userId.toString()),
+    ...counterparties.filter(cp => cp.appUserId).map(cp => cp.appUserId!.toString())
+  ]);
+
+  const byId = new Map(counterparties.map(cp => [cp._id.toString(), cp]));
+  const byUser = new Map(
+    counterparties.filter(cp => cp.appUserId).map(cp => [cp.appUserId!.toString(), cp])
+  );
+
+  // person|currency → balance
+  const balances = new Map<string, PersonBalance>();
+
+  const add = (key: string, person: DebtPerson, currency: string, amount: number, debts: number) => {
+    const entry = balances.get(`${key}|${currency}`) || { person, currency, amount: 0, debts: 0 };
+    entry.amount += amount;
+    entry.debts += debts;
+    balances.set(`${key}|${currency}`, entry);
+  };
+
+  for (const row of own) {
+    const counterparty = byId.get(row._id.counterpartyId.toString());
+    const appUserId = counterparty?.appUserId?.toString();
+
+    add(
+      appUserId ? `user:${appUserId}` : `contact:${row._id.counterpartyId}`,
+      {
+        counterpartyId: row._id.counterpartyId.toString(),
+        name: counterparty?.name || 'Unknown',
+        user: appUserId ? users.get(appUserId) || null : null
+      },
+      row._id.currency,
+      row.amount,
+      row.debts
+    );
+  }
+
+  for (const row of shared) {
+    const otherId = row._id.userId.toString();
+    const contact = byUser.get(otherId);
+    const user = users.get(otherId) || null;
+
+    add(
+      `user:${otherId}`,
+      {
+        counterpartyId: contact?._id.toString() ?? null,
+        name: contact?.name || user?.name || 'Unknown',
+        user
+      },
+      row._id.currency,
+      row.amount,
+      row.debts
+    );
+  }
+
+  const result: PersonBalance[] = [];
+  const totals: Record<string, { owedToYou: number; youOwe: number; net: number }> = {};
+
+  for (const entry of balances.values()) {
+    const amount = roundAmount(entry.amount);
+    if (Math.abs(amount) < 0.01) {
+      continue;
+    }
+
+    result.push({ ...entry, amount });
+
+    const total = totals[entry.currency] || { owedToYou: 0, youOwe: 0, net: 0 };
+    if (amount > 0) {
+      total.owedToYou = roundAmount(total.owedToYou + amount);
+    } else {
+      total.youOwe = roundAmount(total.youOwe - amount);
+    }
+    total.net = roundAmount(total.owedToYou - total.youOwe);
+    totals[entry.currency] = total;
+  }
+
+  result.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  return {
+    balances: result,
+    totals
+  };
+};
+
+// ==================== REMINDERS ====================
+
+/**
+ * Remind the Counterparty User Now
+ *
+ * Confirmed debts only, at most once a day
+ *
+ * @param userId - User ID (recorder)
+ * @param debtId - Debt ID
+ */
+export const remindCounterparty = async (userId: string, debtId: string): Promise<void> => {
+  const debt = await findOwnDebt(userId, debtId);
+
+  if (debt.status !== 'open') {
+    throw new BadRequestError('Debt is already settled');
+  }
+
+  if (debt.confirmation !== 'confirmed' || !debt.counterpartyUserId) {
+    throw new BadRequestError('Only debts confirmed by an app user can be sent as reminders');
+  }
+
+  if (debt.nudgedAt && Date.now() - debt.nudgedAt.getTime() < REMINDER_COOLDOWN_MS) {
+    throw new BadRequestError('A reminder was already sent in the last 24 hours');
+  }
+
+  const otherId = debt.counterpartyUserId.toString();
+  const [owner, timezone] = await Promise.all([
+    User.findById(userId).select('name'),
+    getUserTimezone(otherId)
+  ]);
+
+  await sendDebtReminder(
+    otherId,
+    owner?.name || 'Someone',
+    flip(debt.direction),
+    outstandingOf(debt),
+    debt.currency,
+    debt.dueDate ?? null,
+    debt._id.toString(),
+    timezone
+  );
+
+  debt.nudgedAt = new Date();
+  await debt.save();
+};
+
+/**
+ * Send Due-Date Reminders
+ *
+ * Open debts whose reminder day (reminderDays before the due date,
+ * in the recorder's timezone) has come: the recorder is reminded, and
+ * the counterparty user too if they confirmed it. Once per due date.
+ *
+ * @returns Number of debts reminded about
+ */
+export const sendDueDebtReminders = async (): Promise<number> => {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + 31 * 24 * 60 * 60 * 1000);
+
+  const debts = await Debt.find({
+    status: 'open',
+    reminderDays: { $gt: 0 },
+    remindedAt: null,
+    dueDate: { $ne: null, $lte: horizon }
+  });
+
+  let sent = 0;
+
+  for (const debt of debts) {
+    try {
+      const ownerId = debt.userId.toString();
+      const timezone = await getUserTimezone(ownerId);
+
+      if (startOfDay(debt.dueDate!, timezone, -debt.reminderDays) > now) {
+        continue;
+      }
+
+      const counterparty = await Counterparty.findById(debt.counterpartyId).select('name');
+
+      await sendDebtReminder(
+        ownerId,
+        counterparty?.name || 'Someone',
+        debt.direction,
+        outstandingOf(debt),
+        debt.currency,
+        debt.dueDate!,
+        debt._id.toString(),
+        timezone
+      );
+
+      if (debt.confirmation === 'confirmed' && debt.counterpartyUserId) {
+        const otherId = debt.counterpartyUserId.toString();
+        const [owner, otherTimezone] = await Promise.all([
+          User.findById(ownerId).select('name'),
+          getUserTimezone(otherId)
+        ]);
+
+        await sendDebtReminder(
+          otherId,
+          owner?.name || 'Someone',
+          flip(debt.direction),
+          outstandingOf(debt),
+          debt.currency,
+          debt.dueDate!,
+          debt._id.toString(),
+          otherTimezone
+        );
+      }
+
+      debt.remindedAt = now;
+      await debt.save();
+      sent++;
+    } catch (error) {
+      console.error(`❌ Failed to send debt reminder for debt ${debt._id}:`, error);
+    }
+  }
+
+  return sent;
+};
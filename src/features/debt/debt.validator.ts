@@ -0,0 +1,114 @@
+/**
+ * Debt Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+const amount = Joi.number()
+  .positive()
+  .precision(2)
+  .max(100000000)
+  .messages({
+    'number.positive': 'Amount must be greater than 0',
+    'any.required': 'Amount is required'
+  });
+
+/**
+ * Create Counterparty Schema
+ *
+ * Name defaults to the linked user's name
+ */
+export const createCounterpartySchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(60)
+    .when('appUserId', {
+      is: Joi.string().required(),
+      then: Joi.optional(),
+      otherwise: Joi.required()
+    })
+    .messages({
+      'string.max': 'Name cannot exceed 60 characters',
+      'any.required': 'Name is required'
+    }),
+
+  phone: Joi.string().trim().max(20).optional().allow(''),
+  email: Joi.string().email().optional().allow(''),
+  appUserId: objectId.optional().allow(null),
+  note: Joi.string().trim().max(200).optional().allow('')
+});
+
+/**
+ * Update Counterparty Schema
+ */
+export const updateCounterpartySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(60).optional(),
+  phone: Joi.string().trim().max(20).optional().allow(''),
+  email: Joi.string().email().optional().allow(''),
+  appUserId: objectId.optional().allow(null),
+  note: Joi.string().trim().max(200).optional().allow('')
+}).min(1);
+
+/**
+ * Create Debt Schema
+ */
+export const createDebtSchema = Joi.object({
+  counterpartyId: objectId.required().messages({
+    'any.required': 'Counterparty is required'
+  }),
+
+  direction: Joi.string()
+    .valid('lent', 'borrowed')
+    .required()
+    .messages({
+      'any.only': 'Direction must be lent or borrowed',
+      'any.required': 'Direction is required'
+    }),
+
+  amount: amount.required(),
+
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+
+  description: Joi.string().trim().max(200).optional().allow(''),
+  date: Joi.date().optional(),
+  dueDate: Joi.date().optional().allow(null),
+  reminderDays: Joi.number().integer().min(0).max(30).optional(),
+  requestConfirmation: Joi.boolean().optional()
+});
+
+/**
+ * Update Debt Schema
+ */
+export const updateDebtSchema = Joi.object({
+  counterpartyId: objectId.optional(),
+  direction: Joi.string().valid('lent', 'borrowed').optional(),
+  amount: amount.optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional(),
+  description: Joi.string().trim().max(200).optional().allow(''),
+  date: Joi.date().optional(),
+  dueDate: Joi.date().optional().allow(null),
+  reminderDays: Joi.number().integer().min(0).max(30).optional(),
+  requestConfirmation: Joi.boolean().optional()
+}).min(1);
+
+/**
+ * Add Repayment Schema
+ */
+export const addRepaymentSchema = Joi.object({
+  amount: amount.required(),
+  date: Joi.date().optional(),
+  note: Joi.string().trim().max(200).optional().allow('')
+});
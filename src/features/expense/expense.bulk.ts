@@ -0,0 +1,377 @@
+/**
+ * Bulk Expense Operations
+ *
+ * Purpose: Create, recategorize, retag, change payment method of and
+ * delete many expenses in one request (import clean-up, category changes)
+ *
+ * Modes:
+ * 1. Default - every item is handled on its own; the response reports
+ *    success / failure per item
+ * 2. Atomic - all-or-nothing: any failing item rejects the whole request
+ *    (422 with per-item errors) and writes run in a MongoDB transaction
+ *
+ * Items are validated exactly like single-expense requests
+ * (prepareExpense → rules, payee, category ownership).
+ */
+
+import mongoose from 'mongoose';
+import Expense, { IExpense } from './expense.model';
+import Category from '../category/category.model';
+import { CreateExpenseDTO, PreparedExpense, prepareExpense } from './expense.service';
+import { recordRuleHits } from '../rule/rule.service';
+import { deleteExpenseReceipts } from '../receipt/receipt.service';
+import { unlinkExpense } from '../split/split.service';
+import { analyzeExpense, deleteExpenseAnomalies } from '../anomaly/anomaly.service';
+import { deleteExpenseRefunds } from '../refund/refund.service';
+import { unlinkInstallmentExpenses } from '../installment/installment.service';
+import { checkAccountPaymentMethod } from '../account/account.service';
+import { AppError, NotFoundError, ValidationError } from '../../shared/utils/error.util';
+import { runInTransaction } from '../../shared/utils/transaction.util';
+
+/**
+ * Per-item Result
+ */
+export interface BulkItemResult {
+  index: number;
+  id?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Bulk Operation Result
+ */
+export interface BulkResult {
+  atomic: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+/**
+ * Bulk Update DTO
+ */
+export interface BulkUpdateDTO {
+  ids: string[];
+  categoryId?: string;
+  paymentMethod?: string;
+  setTags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  atomic?: boolean;
+}
+
+const MAX_TAGS = 10;  // Per expense, as in expense.validator
+
+/**
+ * Error Message for an Item
+ *
+ * Only our own (operational) errors are shown to the client
+ */
+const itemError = (error: unknown): string => {
+  return error instanceof AppError ? error.message : 'Unexpected error';
+};
+
+const summarize = (atomic: boolean, results: BulkItemResult[]): BulkResult => {
+  const succeeded = results.filter(r => r.success).length;
+
+  return {
+    atomic,
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  };
+};
+
+/**
+ * Reject an Atomic Request
+ *
+ * @throws ValidationError keyed by item index
+ */
+const rejectAtomic = (action: string, results: BulkItemResult[]): never => {
+  const errors: Record<string, string> = {};
+  results
+    .filter(r => !r.success)
+    .forEach(r => { errors[r.index] = r.error || 'Failed'; });
+
+  throw new ValidationError(`No expenses were ${action}`, errors);
+};
+
+/**
+ * Find User's Expenses by ID
+ *
+ * @returns Found expenses and per-id results for the missing ones
+ */
+const findExpenses = async (
+  userId: string,
+  ids: string[]
+): Promise<{ found: IExpense[]; results: BulkItemResult[] }> => {
+  const expenses = await Expense.find({
+    _id: { $in: ids.map(id => new mongoose.Types.ObjectId(id)) },
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  const byId = new Map(expenses.map(expense => [expense._id.toString(), expense]));
+
+  return {
+    found: expenses,
+    results: ids.map((id, index) => byId.has(id)
+      ? { index, id, success: true }
+      : { index, id, success: false, error: 'Expense not found' })
+  };
+};
+
+/**
+ * Bulk Create Expenses
+ *
+ * @param userId - User ID
+ * @param items - Expenses to create (non-recurring)
+ * @param atomic - All-or-nothing
+ * @returns Per-item results (id of each created expense)
+ */
+export const bulkCreateExpenses = async (
+  userId: string,
+  items: CreateExpenseDTO[],
+  atomic: boolean = false
+): Promise<BulkResult> => {
+  const prepared: Array<PreparedExpense | null> = [];
+  const results: BulkItemResult[] = [];
+  const created: IExpense[] = [];
+
+  // Sequential: each item may convert currency / evaluate rules
+  for (const [index, item] of items.entries()) {
+    try {
+      prepared.push(await prepareExpense(userId, item));
+      results.push({ index, success: true });
+    } catch (error) {
+      prepared.push(null);
+      results.push({ index, success: false, error: itemError(error) });
+    }
+  }
+
+  if (atomic) {
+    if (results.some(r => !r.success)) {
+      rejectAtomic('created', results);
+    }
+
+    const inserted = await runInTransaction(session =>
+      Expense.insertMany(prepared.map(p => p!.doc), { session, ordered: true })
+    );
+
+    inserted.forEach((expense, index) => { results[index].id = expense._id.toString(); });
+    created.push(...inserted);
+  } else {
+    for (const [index, item] of prepared.entries()) {
+      if (!item) {
+        continue;
+      }
+
+      try {
+        const expense = await Expense.create(item.doc);
+        results[index].id = expense._id.toString();
+        created.push(expense);
+      } catch (error) {
+        results[index] = { index, success: false, error: itemError(error) };
+      }
+    }
+  }
+
+  const ruleIds = prepared
+    .filter((p, index) => p && results[index].success)
+    .flatMap(p => p!.matchedRuleIds);
+
+  recordRuleHits(ruleIds).catch(err => {
+    console.error('Failed to record rule hits:', err);
+  });
+
+  // Flags are stored but not pushed - one notification per row would be noise
+  (async () => {
+    for (const expense of created) {
+      await analyzeExpense(expense, { notify: false });
+    }
+  })().catch(err => {
+    console.error('Failed to analyze expenses:', err);
+  });
+
+  return summarize(atomic, results);
+};
+
+/**
+ * Bulk Update Expenses
+ *
+ * Recategorize, change payment method and / or retag
+ * (set, or add and remove tags) many expenses
+ *
+ * @param userId - User ID
+ * @param data - Expense IDs and changes
+ * @returns Per-item results
+ */
+export const bulkUpdateExpenses = async (
+  userId: string,
+  data: BulkUpdateDTO
+): Promise<BulkResult> => {
+  const atomic = Boolean(data.atomic);
+
+  // Same ownership check as createExpense / updateExpense
+  if (data.categoryId) {
+    const category = await Category.findOne({
+      _id: new mongoose.Types.ObjectId(data.categoryId),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+  }
+
+  const { found, results } = await findExpenses(userId, data.ids);
+  const indexById = new Map(data.ids.map((id, index) => [id, index]));
+
+  const failItem = (expense: IExpense, error: string) => {
+    const index = indexById.get(expense._id.toString())!;
+    results[index] = { index, id: expense._id.toString(), success: false, error };
+  };
+
+  // Same account check as updateExpense (once per account)
+  if (data.paymentMethod) {
+    const accountIds = new Set(found.flatMap(expense => expense.accountId ? [expense.accountId.toString()] : []));
+
+    for (const accountId of accountIds) {
+      try {
+        await checkAccountPaymentMethod(userId, accountId, data.paymentMethod);
+      } catch (error) {
+        found
+          .filter(expense => expense.accountId?.toString() === accountId)
+          .forEach(expense => failItem(expense, itemError(error)));
+      }
+    }
+  }
+
+  // Merged tags must stay within the limit
+  if (data.addTags?.length) {
+    for (const expense of found) {
+      const merged = new Set([...expense.tags, ...data.addTags]);
+      data.removeTags?.forEach(tag => merged.delete(tag));
+
+      if (merged.size > MAX_TAGS) {
+        failItem(expense, `Maximum ${MAX_TAGS} tags allowed`);
+      }
+    }
+  }
+
+  const valid = found.filter(expense => results[indexById.get(expense._id.toString())!].success);
+
+  if (atomic && valid.length < data.ids.length) {
+    rejectAtomic('updated', results);
+  }
+
+  if (valid.length === 0) {
+    return summarize(atomic, results);
+  }
+
+  // $addToSet and $pull can't touch the same field in one update
+  const updates: any[] = [];
+  const $set: any = {};
+
+  if (data.categoryId) $set.categoryId = new mongoose.Types.ObjectId(data.categoryId);
+  if (data.paymentMethod) $set.paymentMethod = data.paymentMethod;
+  if (data.setTags) $set.tags = data.setTags;
+
+  if (Object.keys($set).length > 0) updates.push({ $set });
+  if (data.addTags?.length) updates.push({ $addToSet: { tags: { $each: data.addTags } } });
+  if (data.removeTags?.length) updates.push({ $pull: { tags: { $in: data.removeTags } } });
+
+  const filter = {
+    _id: { $in: valid.map(expense => expense._id) },
+    userId: new mongoose.Types.ObjectId(userId)
+  };
+
+  if (atomic) {
+    await runInTransaction(async session => {
+      for (const update of updates) {
+        await Expense.updateMany(filter, update, { session });
+      }
+    });
+  } else {
+    for (const update of updates) {
+      await Expense.updateMany(filter, update);
+    }
+  }
+
+  return summarize(atomic, results);
+};
+
+/**
+ * Bulk Delete Expenses
+ *
+ * Refunds, flags, split and installment links are cleaned up like
+ * deleteExpense. In atomic mode that cleanup is part of the transaction;
+ * receipt files are removed after it commits (files can't be rolled back).
+ *
+ * @param userId - User ID
+ * @param ids - Expense IDs
+ * @param atomic - All-or-nothing
+ * @returns Per-item results
+ */
+export const bulkDeleteExpenses = async (
+  userId: string,
+  ids: string[],
+  atomic: boolean = false
+): Promise<BulkResult> => {
+  const { found, results } = await findExpenses(userId, ids);
+
+  if (atomic && found.length < ids.length) {
+    rejectAtomic('deleted', results);
+  }
+
+  const cleanUp = async (expense: IExpense) => {
+    await deleteExpenseReceipts(expense);
+    await unlinkExpense(expense._id.toString());
+    await deleteExpenseAnomalies([expense._id]);
+    await deleteExpenseRefunds([expense._id]);
+    await unlinkInstallmentExpenses([expense._id]);
+  };
+
+  if (atomic) {
+    const expenseIds = found.map(expense => expense._id);
+
+    await runInTransaction(async session => {
+      for (const expenseId of expenseIds) {
+        await unlinkExpense(expenseId.toString(), session);
+      }
+      await deleteExpenseAnomalies(expenseIds, session);
+      await deleteExpenseRefunds(expenseIds, session);
+      await unlinkInstallmentExpenses(expenseIds, session);
+
+      await Expense.deleteMany(
+        { _id: { $in: expenseIds }, userId: new mongoose.Types.ObjectId(userId) },
+        { session }
+      );
+    });
+
+    for (const expense of found) {
+      await deleteExpenseReceipts(expense).catch(err => {
+        console.error(`Failed to delete receipts of expense ${expense._id}:`, err);
+      });
+    }
+  } else {
+    const indexById = new Map(ids.map((id, index) => [id, index]));
+
+    for (const expense of found) {
+      const index = indexById.get(expense._id.toString())!;
+
+      try {
+        await expense.deleteOne();
+      } catch (error) {
+        results[index] = { index, id: expense._id.toString(), success: false, error: itemError(error) };
+        continue;
+      }
+
+      await cleanUp(expense).catch(err => {
+        console.error(`Failed to clean up deleted expense ${expense._id}:`, err);
+      });
+    }
+  }
+
+  return summarize(atomic, results);
+};
@@ -4,7 +4,13 @@
 
 import { Request, Response } from 'express';
 import * as expenseService from './expense.service';
+import { exportExpenses as streamExport, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, ExportFormat } from './expense.export';
+import * as bulkService from './expense.bulk';
+import * as geoService from './expense.geo';
+import * as reportService from './expense.report';
+import * as tagService from './expense.tags';
 import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { BadRequestError } from '../../shared/utils/error.util';
 import { Types } from 'mongoose';
 
 interface AuthRequest extends Request {
@@ -34,12 +40,24 @@ export const createExpense = async (req: Request, res: Response): Promise<Respon
 
 /**
  * Get Expenses (with filters & pagination)
+ * 
+ * Page mode: ?page=1&limit=20
+ * Cursor mode: ?cursor=&limit=20 (see getExpensesByCursor)
  */
 export const getExpenses = async (req: Request, res: Response): Promise<Response> => {
   const authReq = req as AuthRequest;
   const userId = authReq.user!.userId.toString();
   
-  const result = await expenseService.getExpenses(userId, req.query);
+  const { cursor, ...filters } = req.query;
+  
+  // Cursor mode (infinite scroll): ?cursor= for the first page,
+  // then pagination.nextCursor
+  if (cursor !== undefined) {
+    const result = await expenseService.getExpensesByCursor(userId, filters, cursor as string);
+    return sendPaginated(res, result);
+  }
+  
+  const result = await expenseService.getExpenses(userId, filters);
   
   return sendPaginated(res, result);
 };
@@ -114,4 +132,274 @@ export const getDailyExpenses = async (req: Request, res: Response): Promise<Res
   const dailyExpenses = await expenseService.getDailyExpenses(userId, days);
   
   return sendSuccess(res, dailyExpenses);
-};
\ No newline at end of file
+};
+
+/**
+ * Get Expense Report
+ * 
+ * Route: GET /api/expenses/report?startDate=2024-03-01&endDate=2024-03-31&groupBy=week&compare=true
+ * Accepts the same filters as GET /api/expenses (category, payee, tags...)
+ */
+export const getExpenseReport = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const { startDate, endDate, groupBy, compare, ...filters } = req.query;
+  
+  const report = await reportService.getExpenseReport(userId, {
+    startDate: startDate as string | undefined,
+    endDate: endDate as string | undefined,
+    groupBy: groupBy as reportService.ReportGroupBy | undefined,
+    compare: compare === 'true',
+    filters: filters as expenseService.ExpenseFilters
+  });
+  
+  return sendSuccess(res, report);
+};
+
+/**
+ * Get Tags with Usage
+ * 
+ * Route: GET /api/expenses/tags?search=trip
+ */
+export const getExpenseTags = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const tags = await tagService.getExpenseTags(userId, req.query.search as string | undefined);
+  
+  return sendSuccess(res, tags);
+};
+
+/**
+ * Get Spending per Tag over Time
+ * 
+ * Route: GET /api/expenses/tags/spending?tags=trip,work&startDate=2024-01-01&endDate=2024-06-30&groupBy=month
+ * Accepts the same filters as GET /api/expenses
+ */
+export const getTagSpending = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const { tags, startDate, endDate, groupBy, ...filters } = req.query;
+  
+  const spending = await tagService.getTagSpending(userId, {
+    tags: tags ? (Array.isArray(tags) ? tags as string[] : (tags as string).split(',')) : undefined,
+    startDate: startDate as string | undefined,
+    endDate: endDate as string | undefined,
+    groupBy: groupBy as tagService.TagSpendingGroupBy | undefined,
+    filters: filters as expenseService.ExpenseFilters
+  });
+  
+  return sendSuccess(res, spending);
+};
+
+/**
+ * Rename Tag (merges into an existing tag of that name)
+ * 
+ * Route: PUT /api/expenses/tags/:tag
+ * Body: { name }
+ */
+export const renameExpenseTag = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await tagService.renameExpenseTag(userId, req.params.tag, req.body.name);
+  
+  return sendSuccess(res, result, `Tag renamed on ${result.updated} expense(s)`);
+};
+
+/**
+ * Merge Tags
+ * 
+ * Route: POST /api/expenses/tags/merge
+ * Body: { tags, into }
+ */
+export const mergeExpenseTags = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await tagService.mergeExpenseTags(userId, req.body.tags, req.body.into);
+  
+  return sendSuccess(res, result, `Tags merged on ${result.updated} expense(s)`);
+};
+
+/**
+ * Delete Tag from All Expenses
+ * 
+ * Route: DELETE /api/expenses/tags/:tag
+ */
+export const deleteExpenseTag = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await tagService.deleteExpenseTag(userId, req.params.tag);
+  
+  return sendSuccess(res, result, `Tag removed from ${result.updated} expense(s)`);
+};
+
+/**
+ * Export Expenses (streamed file download)
+ * 
+ * Route: GET /api/expenses/export?format=csv|xlsx|json&timezone=Asia/Dhaka
+ * Accepts the same filters as GET /api/expenses
+ */
+export const exportExpenses = async (req: Request, res: Response): Promise<void> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const format = ((req.query.format as string) || 'csv').toLowerCase() as ExportFormat;
+  const { format: _format, timezone, ...filters } = req.query;
+  
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new BadRequestError(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  
+  const fileName = `expenses-${new Date().toISOString().slice(0, 10)}.${format}`;
+  
+  res.status(200);
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  
+  try {
+    await streamExport(userId, res, {
+      format,
+      timezone: timezone as string | undefined,
+      filters: filters as expenseService.ExpenseFilters
+    });
+  } catch (error) {
+    // Nothing sent yet → normal JSON error response
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      throw error;
+    }
+    
+    // Mid-stream failure: cut the download so the file is visibly broken
+    console.error('❌ Expense export failed:', error);
+    res.destroy(error as Error);
+  }
+};
+
+/**
+ * Bulk Create Expenses
+ * 
+ * Route: POST /api/expenses/bulk
+ * Body: { expenses: [...], atomic? }
+ */
+export const bulkCreateExpenses = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await bulkService.bulkCreateExpenses(userId, req.body.expenses, req.body.atomic);
+  
+  return sendSuccess(
+    res,
+    result,
+    `${result.succeeded} of ${result.results.length} expenses created`
+  );
+};
+
+/**
+ * Bulk Update Expenses
+ * 
+ * Route: PATCH /api/expenses/bulk
+ * Body: { ids, categoryId?, paymentMethod?, setTags? | addTags?, removeTags?, atomic? }
+ */
+export const bulkUpdateExpenses = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await bulkService.bulkUpdateExpenses(userId, req.body);
+  
+  return sendSuccess(
+    res,
+    result,
+    `${result.succeeded} of ${result.results.length} expenses updated`
+  );
+};
+
+/**
+ * Bulk Delete Expenses
+ * 
+ * Route: POST /api/expenses/bulk/delete
+ * Body: { ids, atomic? }
+ */
+export const bulkDeleteExpenses = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  
+  const result = await bulkService.bulkDeleteExpenses(userId, req.body.ids, req.body.atomic);
+  
+  return sendSuccess(
+    res,
+    result,
+    `${result.succeeded} of ${result.results.length} expenses deleted`
+  );
+};
+
+/**
+ * Parse Map Viewport & Geo Filters from Query
+ */
+const parseGeoQuery = (req: Request) => ({
+  bounds: {
+    south: parseFloat(req.query.south as string),
+    west: parseFloat(req.query.west as string),
+    north: parseFloat(req.query.north as string),
+    east: parseFloat(req.query.east as string)
+  },
+  filters: {
+    startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+    endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+    categoryId: req.query.categoryId as string | undefined
+  }
+});
+
+/**
+ * Get Expenses Near a Point
+ * 
+ * Route: GET /api/expenses/geo/near?latitude=&longitude=&radius=1000&startDate=&endDate=&categoryId=&limit=
+ */
+export const getExpensesNear = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const { filters } = parseGeoQuery(req);
+  
+  const result = await geoService.getExpensesNear(userId, {
+    ...filters,
+    latitude: parseFloat(req.query.latitude as string),
+    longitude: parseFloat(req.query.longitude as string),
+    radiusMeters: parseInt(req.query.radius as string) || undefined,
+    limit: parseInt(req.query.limit as string) || undefined
+  });
+  
+  return sendSuccess(res, result);
+};
+
+/**
+ * Get Expenses within Map Bounds
+ * 
+ * Route: GET /api/expenses/geo/within?south=&west=&north=&east=&startDate=&endDate=&categoryId=&limit=
+ */
+export const getExpensesWithinBounds = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const { bounds, filters } = parseGeoQuery(req);
+  const limit = parseInt(req.query.limit as string) || undefined;
+  
+  const result = await geoService.getExpensesWithinBounds(userId, bounds, filters, limit);
+  
+  return sendSuccess(res, result);
+};
+
+/**
+ * Get Spending Heatmap
+ * 
+ * Route: GET /api/expenses/geo/heatmap?south=&west=&north=&east=&gridSize=20&startDate=&endDate=&categoryId=
+ */
+export const getSpendingHeatmap = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const { bounds, filters } = parseGeoQuery(req);
+  const gridSize = parseInt(req.query.gridSize as string) || undefined;
+  
+  const result = await geoService.getSpendingHeatmap(userId, bounds, filters, gridSize);
+  
+  return sendSuccess(res, result);
+};
@@ -0,0 +1,313 @@
+/**
+ * Expense Export
+ *
+ * Purpose: Get expenses out for tax time / spreadsheets
+ *
+ * Key Concepts:
+ * 1. Same filters as getExpenses (buildExpenseQuery)
+ * 2. Streams from a MongoDB cursor - never loads the whole history
+ * 3. Category names resolved from a per-user lookup (no populate per row)
+ * 4. Dates rendered in the requested timezone (default: the user's),
+ *    amounts in the user's base currency (original currency kept in
+ *    its own columns)
+ */
+
+import { Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import mongoose from 'mongoose';
+import Expense from './expense.model';
+import Category from '../category/category.model';
+import { ExpenseFilters, buildExpenseQuery } from './expense.service';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import { BadRequestError } from '../../shared/utils/error.util';
+import { toCsvLine } from '../../shared/utils/csv.util';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Export Options
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  timezone?: string;       // IANA name (default: the user's timezone)
+  filters: ExpenseFilters;
+}
+
+/**
+ * Response content type per format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+/**
+ * One exported row
+ */
+interface ExportRow {
+  date: string;              // YYYY-MM-DD in export timezone
+  category: string;
+  description: string;
+  amount: number;            // Base currency
+  currency: string;          // Base currency
+  originalAmount: number;
+  originalCurrency: string;
+  exchangeRate: number;
+  paymentMethod: string;
+  tags: string[];
+  location: string;
+  recurring: boolean;
+}
+
+const COLUMNS: Array<{ header: string; key: keyof ExportRow; width: number }> = [
+  { header: 'Date', key: 'date', width: 12 },
+  { header: 'Category', key: 'category', width: 18 },
+  { header: 'Description', key: 'description', width: 40 },
+  { header: 'Amount', key: 'amount', width: 12 },
+  { header: 'Currency', key: 'currency', width: 10 },
+  { header: 'Original Amount', key: 'originalAmount', width: 16 },
+  { header: 'Original Currency', key: 'originalCurrency', width: 17 },
+  { header: 'Exchange Rate', key: 'exchangeRate', width: 14 },
+  { header: 'Payment Method', key: 'paymentMethod', width: 16 },
+  { header: 'Tags', key: 'tags', width: 24 },
+  { header: 'Location', key: 'location', width: 30 },
+  { header: 'Recurring', key: 'recurring', width: 10 }
+];
+
+/**
+ * Validate Timezone
+ *
+ * @returns Date formatter (YYYY-MM-DD) for the timezone
+ */
+const createDateFormatter = (timezone: string): Intl.DateTimeFormat => {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+  } catch {
+    throw new BadRequestError(`Invalid timezone: ${timezone}`);
+  }
+};
+
+/**
+ * Write with Backpressure
+ *
+ * Waits for 'drain' when the client reads slower than we query
+ */
+const writeChunk = async (stream: Writable, chunk: string): Promise<void> => {
+  if (!stream.write(chunk)) {
+    await Promise.race([once(stream, 'drain'), once(stream, 'close')]);
+  }
+};
+
+/**
+ * Export Source
+ *
+ * Everything that can fail on bad input, resolved before the
+ * first byte is written
+ */
+interface ExportSource {
+  query: any;
+  sort: any;
+  baseCurrency: string;
+  categoryNames: Map<string, string>;
+  timezone: string;
+}
+
+/**
+ * Prepare Export Source
+ *
+ * @throws BadRequestError on invalid filters or timezone
+ */
+const prepareSource = async (
+  userId: string,
+  filters: ExpenseFilters,
+  timezone: string
+): Promise<ExportSource> => {
+  // Fail fast on a bad timezone
+  createDateFormatter(timezone);
+
+  const [query, baseCurrency, categories] = await Promise.all([
+    buildExpenseQuery(userId, filters),
+    getUserBaseCurrency(userId),
+    Category.find({ userId: new mongoose.Types.ObjectId(userId) }).select('name').lean()
+  ]);
+
+  // Exports are chronological; relevance only makes sense for a result page
+  const sortBy = filters.sortBy && filters.sortBy !== 'relevance' ? filters.sortBy : 'date';
+  const sort: any = {};
+  sort[sortBy] = filters.sortOrder === 'asc' ? 1 : -1;
+
+  return {
+    query,
+    sort,
+    baseCurrency,
+    categoryNames: new Map(categories.map(cat => [cat._id.toString(), cat.name])),
+    timezone
+  };
+};
+
+/**
+ * Iterate Export Rows
+ *
+ * Async generator over a lean cursor
+ */
+async function* iterateRows(source: ExportSource): AsyncGenerator<ExportRow> {
+  const { baseCurrency, categoryNames } = source;
+  const formatter = createDateFormatter(source.timezone);
+
+  const cursor = Expense.find(source.query)
+    .sort(source.sort)
+    .select('-receiptImage -recurringConfig -__v')
+    .lean()
+    .cursor({ batchSize: 500 });
+
+  try {
+    for await (const expense of cursor) {
+      yield {
+        date: formatter.format(new Date(expense.date)),
+        category: categoryNames.get(expense.categoryId.toString()) || 'Unknown',
+        description: expense.description || '',
+        amount: expense.amount,
+        currency: baseCurrency,
+        originalAmount: expense.originalAmount ?? expense.amount,
+        originalCurrency: expense.currency || baseCurrency,
+        exchangeRate: expense.exchangeRate ?? 1,
+        paymentMethod: expense.paymentMethod || '',
+        tags: expense.tags || [],
+        location: expense.location?.address || '',
+        recurring: Boolean(expense.recurringSeriesId || expense.isRecurring)
+      };
+    }
+  } finally {
+    await cursor.close();
+  }
+}
+
+/**
+ * Write CSV
+ */
+const writeCsv = async (stream: Writable, rows: AsyncGenerator<ExportRow>): Promise<void> => {
+  // BOM so Excel opens UTF-8 (Bangla descriptions) correctly
+  await writeChunk(stream, '\ufeff' + toCsvLine(COLUMNS.map(col => col.header)));
+
+  for await (const row of rows) {
+    if (stream.destroyed) {
+      break;
+    }
+
+    await writeChunk(stream, toCsvLine(COLUMNS.map(col => {
+      const value = row[col.key];
+      return Array.isArray(value) ? value.join(';') : value;
+    })));
+  }
+};
+
+/**
+ * Write JSON
+ *
+ * { currency, timezone, exportedAt, expenses: [...] }
+ */
+const writeJson = async (
+  stream: Writable,
+  rows: AsyncGenerator<ExportRow>,
+  meta: { currency: string; timezone: string }
+): Promise<void> => {
+  const header = JSON.stringify({ ...meta, exportedAt: new Date().toISOString() });
+
+  // Open the object, leave room for the expenses array
+  await writeChunk(stream, `${header.slice(0, -1)},"expenses":[`);
+
+  let first = true;
+  for await (const row of rows) {
+    if (stream.destroyed) {
+      break;
+    }
+
+    await writeChunk(stream, (first ? '' : ',') + JSON.stringify(row));
+    first = false;
+  }
+
+  await writeChunk(stream, ']}');
+};
+
+/**
+ * Write XLSX
+ *
+ * Streaming workbook writer: each row is committed (flushed) as it arrives
+ */
+const writeXlsx = async (stream: Writable, rows: AsyncGenerator<ExportRow>): Promise<void> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true });
+  const worksheet = workbook.addWorksheet('Expenses', {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  worksheet.columns = COLUMNS.map(col => ({ header: col.header, key: col.key, width: col.width }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getColumn('date').numFmt = 'yyyy-mm-dd';
+  worksheet.getColumn('amount').numFmt = '#,##0.00';
+  worksheet.getColumn('originalAmount').numFmt = '#,##0.00';
+
+  for await (const row of rows) {
+    if (stream.destroyed) {
+      break;
+    }
+
+    worksheet.addRow({
+      ...row,
+      date: new Date(`${row.date}T00:00:00Z`),  // Calendar date, no shift
+      tags: row.tags.join(', '),
+      recurring: row.recurring ? 'Yes' : 'No'
+    }).commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+/**
+ * Export Expenses
+ *
+ * @param userId - User ID
+ * @param stream - Destination (HTTP response)
+ * @param options - Format, timezone and ExpenseFilters
+ */
+export const exportExpenses = async (
+  userId: string,
+  stream: Writable,
+  options: ExportOptions
+): Promise<void> => {
+  const timezone = options.timezone || await getUserTimezone(userId);
+
+  // Before any bytes are sent: errors still become a normal 400
+  const source = await prepareSource(userId, options.filters, timezone);
+  const rows = iterateRows(source);
+
+  switch (options.format) {
+    case 'csv':
+      await writeCsv(stream, rows);
+      break;
+    case 'xlsx':
+      await writeXlsx(stream, rows);
+      break;
+    case 'json':
+      await writeJson(stream, rows, {
+        currency: source.baseCurrency,
+        timezone
+      });
+      break;
+  }
+
+  if (!stream.destroyed && !stream.writableEnded) {
+    stream.end();
+  }
+};
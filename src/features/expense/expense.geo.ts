@@ -0,0 +1,347 @@
+/**
+ * Expense Geo Queries
+ *
+ * Purpose: Put expenses with a location on a map
+ *
+ * Key Concepts:
+ * 1. Expense.geo is a GeoJSON point derived from location
+ *    (2dsphere index: userId + geo)
+ * 2. "Near" uses $geoNear so results come back closest first,
+ *    with their distance
+ * 3. Bounds are a map viewport (south/west/north/east); a viewport
+ *    crossing the antimeridian (west > east) is split in two
+ * 4. Heatmap divides the viewport into a grid and sums spending per cell
+ *    (net of refunds)
+ */
+
+import mongoose from 'mongoose';
+import Expense, { NET_AMOUNT } from './expense.model';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { BadRequestError } from '../../shared/utils/error.util';
+
+/**
+ * Map Viewport
+ */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Shared Geo Filters
+ */
+export interface GeoFilters {
+  startDate?: Date;
+  endDate?: Date;
+  categoryId?: string;
+}
+
+/**
+ * Near Query
+ */
+export interface NearQuery extends GeoFilters {
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  limit?: number;
+}
+
+/**
+ * Heatmap Cell
+ */
+export interface HeatmapCell {
+  bounds: GeoBounds;
+  center: { latitude: number; longitude: number };   // Spending-weighted centroid
+  total: number;
+  count: number;
+}
+
+const DEFAULT_RADIUS = 1000;
+const MAX_RADIUS = 50000;
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+const DEFAULT_GRID = 20;
+const MAX_GRID = 100;
+
+/**
+ * Validate Viewport
+ */
+const checkBounds = (bounds: GeoBounds): void => {
+  const { south, west, north, east } = bounds;
+
+  if ([south, west, north, east].some(value => typeof value !== 'number' || isNaN(value))) {
+    throw new BadRequestError('Bounds require south, west, north and east');
+  }
+
+  if (south < -90 || north > 90 || south >= north) {
+    throw new BadRequestError('Invalid latitude range');
+  }
+
+  if (west < -180 || west > 180 || east < -180 || east > 180 || west === east) {
+    throw new BadRequestError('Invalid longitude range');
+  }
+};
+
+/**
+ * Viewport as GeoJSON Polygon(s)
+ */
+const boxPolygon = (south: number, west: number, north: number, east: number) => ({
+  type: 'Polygon',
+  coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+});
+
+/**
+ * Build $geoWithin Filter for a Viewport
+ */
+const withinBounds = (bounds: GeoBounds): any => {
+  const { south, west, north, east } = bounds;
+
+  if (west < east) {
+    return { geo: { $geoWithin: { $geometry: boxPolygon(south, west, north, east) } } };
+  }
+
+  // Crosses the antimeridian
+  return {
+    $or: [
+      { geo: { $geoWithin: { $geometry: boxPolygon(south, west, north, 180) } } },
+      { geo: { $geoWithin: { $geometry: boxPolygon(south, -180, north, east) } } }
+    ]
+  };
+};
+
+/**
+ * Build Non-geo Filters
+ */
+const buildFilters = (userId: string, filters: GeoFilters): any => {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (filters.startDate || filters.endDate) {
+    query.date = {};
+    if (filters.startDate) query.date.$gte = new Date(filters.startDate);
+    if (filters.endDate) query.date.$lte = new Date(filters.endDate);
+  }
+
+  if (filters.categoryId) {
+    query.categoryId = new mongoose.Types.ObjectId(filters.categoryId);
+  }
+
+  return query;
+};
+
+const clampLimit = (limit?: number): number => {
+  return Math.min(Math.max(Number(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+};
+
+/**
+ * Get Expenses Near a Point
+ *
+ * @param userId - User ID
+ * @param params - Point, radius (default 1km, max 50km), filters, limit
+ * @returns Expenses closest first, each with distanceMeters
+ */
+export const getExpensesNear = async (userId: string, params: NearQuery) => {
+  const { latitude, longitude } = params;
+
+  if (typeof latitude !== 'number' || isNaN(latitude) || latitude < -90 || latitude > 90 ||
+      typeof longitude !== 'number' || isNaN(longitude) || longitude < -180 || longitude > 180) {
+    throw new BadRequestError('Valid latitude and longitude are required');
+  }
+
+  const radius = Math.min(Number(params.radiusMeters) || DEFAULT_RADIUS, MAX_RADIUS);
+  const limit = clampLimit(params.limit);
+
+  const expenses = await Expense.aggregate([
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: [longitude, latitude] },
+        key: 'geo',
+        distanceField: 'distanceMeters',
+        maxDistance: radius,
+        spherical: true,
+        query: buildFilters(userId, params)
+      }
+    },
+    { $limit: limit + 1 },
+    {
+      $lookup: {
+        from: 'categories',
+        localField: 'categoryId',
+        foreignField: '_id',
+        as: 'category',
+        pipeline: [{ $project: { name: 1, icon: 1, color: 1 } }]
+      }
+    },
+    { $unwind: { path: '$category', preserveNullAndEmptyArrays: true } },
+    { $project: { receipts: 0, receiptImage: 0, __v: 0 } }
+  ]);
+
+  const truncated = expenses.length > limit;
+
+  return {
+    center: { latitude, longitude },
+    radiusMeters: radius,
+    truncated,
+    expenses: (truncated ? expenses.slice(0, limit) : expenses).map(expense => ({
+      ...expense,
+      distanceMeters: Math.round(expense.distanceMeters)
+    }))
+  };
+};
+
+/**
+ * Get Expenses within a Map Viewport
+ *
+ * @param userId - User ID
+ * @param bounds - Viewport
+ * @param filters - Date range / category
+ * @param limit - Max expenses (default 200, max 1000)
+ * @returns Newest expenses first; `truncated` when there are more
+ */
+export const getExpensesWithinBounds = async (
+  userId: string,
+  bounds: GeoBounds,
+  filters: GeoFilters,
+  limit?: number
+) => {
+  checkBounds(bounds);
+  const max = clampLimit(limit);
+
+  const expenses = await Expense.find({
+    ...buildFilters(userId, filters),
+    ...withinBounds(bounds)
+  })
+    .populate('category', 'name icon color')
+    .sort({ date: -1 })
+    .limit(max + 1)
+    .select('-receipts -receiptImage')
+    .lean();
+
+  const truncated = expenses.length > max;
+
+  return {
+    bounds,
+    truncated,
+    expenses: truncated ? expenses.slice(0, max) : expenses
+  };
+};
+
+/**
+ * Get Spending Heatmap
+ *
+ * Splits the viewport into gridSize × gridSize cells and returns the
+ * non-empty ones with net spending, count and a spending-weighted
+ * center (so markers sit where the money was spent, not mid-cell).
+ *
+ * @param userId - User ID
+ * @param bounds - Viewport
+ * @param filters - Date range / category
+ * @param gridSize - Cells per side (default 20, max 100)
+ */
+export const getSpendingHeatmap = async (
+  userId: string,
+  bounds: GeoBounds,
+  filters: GeoFilters,
+  gridSize: number = DEFAULT_GRID
+) => {
+  checkBounds(bounds);
+
+  const grid = Math.min(Math.max(Math.floor(Number(gridSize) || DEFAULT_GRID), 1), MAX_GRID);
+  const { south, west, north } = bounds;
+
+  // Width wraps when crossing the antimeridian
+  const lngSpan = bounds.east > west ? bounds.east - west : bounds.east + 360 - west;
+  const cellLng = lngSpan / grid;
+  const cellLat = (north - south) / grid;
+
+  // Longitude shifted so the viewport starts at 0 (handles the wrap)
+  const lng = { $arrayElemAt: ['$geo.coordinates', 0] };
+  const lat = { $arrayElemAt: ['$geo.coordinates', 1] };
+  const offsetLng = {
+    $cond: [{ $lt: [lng, west] }, { $add: [{ $subtract: [lng, west] }, 360] }, { $subtract: [lng, west] }]
+  };
+  const cellIndex = (offset: any, size: number) => ({
+    $min: [{ $floor: { $divide: [offset, size] } }, grid - 1]
+  });
+
+  const [cells, currency] = await Promise.all([
+    Expense.aggregate([
+      { $match: { ...buildFilters(userId, filters), ...withinBounds(bounds) } },
+      {
+        $group: {
+          _id: {
+            x: cellIndex(offsetLng, cellLng),
+            y: cellIndex({ $subtract: [lat, south] }, cellLat)
+          },
+          total: { $sum: NET_AMOUNT },
+          count: { $sum: 1 },
+          // Centers weigh the gross amount (a fully refunded cell nets to 0)
+          weight: { $sum: '$amount' },
+          weightedLng: { $sum: { $multiply: [offsetLng, '$amount'] } },
+          weightedLat: { $sum: { $multiply: [lat, '$amount'] } }
+        }
+      },
+      { $sort: { total: -1 } }
+    ]),
+    getUserBaseCurrency(userId)
+  ]);
+
+  const wrap = (value: number) => (value > 180 ? value - 360 : value);
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+  const result: HeatmapCell[] = cells.map(cell => ({
+    bounds: {
+      south: round(south + cell._id.y * cellLat, 6),
+      west: round(wrap(west + cell._id.x * cellLng), 6),
+      north: round(south + (cell._id.y + 1) * cellLat, 6),
+      east: round(wrap(west + (cell._id.x + 1) * cellLng), 6)
+    },
+    center: {
+      latitude: round(cell.weightedLat / cell.weight, 6),
+      longitude: round(wrap(west + cell.weightedLng / cell.weight), 6)
+    },
+    total: round(cell.total, 2),
+    count: cell.count
+  }));
+
+  return {
+    currency,
+    bounds,
+    gridSize: grid,
+    maxTotal: result.length > 0 ? result[0].total : 0,
+    total: round(result.reduce((sum, cell) => sum + cell.total, 0), 2),
+    cells: result
+  };
+};
+
+/**
+ * Backfill GeoJSON Points
+ *
+ * Purpose: Expenses saved before `geo` existed only have location;
+ * derive the point for them (idempotent, run on startup)
+ *
+ * @returns Number of expenses updated
+ */
+export const backfillGeoPoints = async (): Promise<number> => {
+  const result = await Expense.updateMany(
+    {
+      'location.latitude': { $ne: null },
+      'location.longitude': { $ne: null },
+      geo: { $exists: false }
+    },
+    [
+      {
+        $set: {
+          geo: {
+            type: 'Point',
+            coordinates: ['$location.longitude', '$location.latitude']
+          }
+        }
+      }
+    ],
+    { updatePipeline: true }
+  );
+
+  return result.modifiedCount;
+};
@@ -9,9 +9,52 @@
  * 3. Receipt image storage
  * 4. Location tracking (optional)
  * 5. Tags for better organization
+ * 6. Multi-currency (original currency/amount kept,
+ *    `amount` always in the user's base currency)
+ * 7. Uploaded receipts (images / PDFs in file storage)
+ * 8. Payee (merchant) reference for per-merchant analytics
+ * 9. GeoJSON point (derived from location) for map queries
+ * 10. Refunds (see refund.model): `refundedAmount` is their total,
+ *    spending totals use amount − refundedAmount (NET_AMOUNT)
+ * 11. Installment plans (see installment.model): one expense per
+ *    installment, on its due date
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+/**
+ * Amount after refunds, for aggregation pipelines
+ * 
+ * Use instead of '$amount' wherever spending is totalled, so a
+ * returned purchase stops counting toward categories and budgets
+ */
+export const NET_AMOUNT = { $subtract: ['$amount', { $ifNull: ['$refundedAmount', 0] }] };
+
+/**
+ * Receipt (embedded)
+ * 
+ * Files live in storage (see shared/storage); only keys are stored here
+ */
+export interface IReceipt {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  thumbnailKey?: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+/**
+ * GeoJSON Point
+ * 
+ * Note: coordinates are [longitude, latitude] (GeoJSON order)
+ */
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
 
 /**
  * Expense Interface
@@ -20,26 +63,65 @@ export interface IExpense extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
   categoryId: mongoose.Types.ObjectId;
+  payeeId?: mongoose.Types.ObjectId | null;
+  accountId?: mongoose.Types.ObjectId | null;
   amount: number;
+  currency?: string;
+  originalAmount?: number;
+  exchangeRate?: number;
+  refundedAmount: number;
   description?: string;
   date: Date;
   paymentMethod?: string;
   tags: string[];
   receiptImage?: string;
+  receipts: IReceipt[];
   location?: {
     latitude: number;
     longitude: number;
     address?: string;
   };
+  geo?: IGeoPoint | null;
   isRecurring: boolean;
   recurringConfig?: {
     interval: 'daily' | 'weekly' | 'monthly' | 'yearly';
     endDate?: Date;
   };
+  recurringSeriesId?: mongoose.Types.ObjectId | null;
+  occurrenceDate?: Date | null;
+  installmentPlanId?: mongoose.Types.ObjectId | null;
+  installmentNumber?: number | null;
+  importId?: mongoose.Types.ObjectId | null;
+  externalId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Receipt Schema (Embedded)
+ */
+const ReceiptSchema = new Schema<IReceipt>(
+  {
+    key: { type: String, required: true },
+    thumbnailKey: { type: String, default: null },
+    fileName: { type: String, required: true, maxlength: 255 },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    uploadedAt: { type: Date, default: Date.now }
+  }
+);
+
+/**
+ * GeoJSON Point Schema (Embedded)
+ */
+const GeoPointSchema = new Schema<IGeoPoint>(
+  {
+    type: { type: String, enum: ['Point'], required: true },
+    coordinates: { type: [Number], required: true }
+  },
+  { _id: false }
+);
+
 /**
  * Expense Schema
  */
@@ -59,6 +141,19 @@ const ExpenseSchema = new Schema<IExpense>(
       index: true
     },
     
+    payeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payee',
+      default: null
+    },
+    
+    // Account the money came out of (originalAmount, in its currency)
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      default: null
+    },
+    
     amount: {
       type: Number,
       required: [true, 'Amount is required'],
@@ -66,6 +161,27 @@ const ExpenseSchema = new Schema<IExpense>(
       max: [10000000, 'Amount too large']
     },
     
+    // Original currency & amount (amount above is in base currency)
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    },
+    
+    originalAmount: {
+      type: Number
+    },
+    
+    exchangeRate: {
+      type: Number,
+      default: 1
+    },
+    
+    // Sum of refunds (base currency), kept in sync by refund.service
+    refundedAmount: {
+      type: Number,
+      default: 0
+    },
+    
     description: {
       type: String,
       trim: true,
@@ -90,17 +206,29 @@ const ExpenseSchema = new Schema<IExpense>(
       default: []
     },
     
+    // Legacy: externally hosted receipt URL
     receiptImage: {
       type: String,
       default: null
     },
     
+    receipts: {
+      type: [ReceiptSchema],
+      default: []
+    },
+    
     location: {
       latitude: { type: Number },
       longitude: { type: Number },
       address: { type: String }
     },
     
+    // Derived from location (pre-validate hook) - used by geo queries
+    geo: {
+      type: GeoPointSchema,
+      default: undefined
+    },
+    
     isRecurring: {
       type: Boolean,
       default: false
@@ -112,6 +240,43 @@ const ExpenseSchema = new Schema<IExpense>(
         enum: ['daily', 'weekly', 'monthly', 'yearly']
       },
       endDate: { type: Date }
+    },
+    
+    // Set on expenses generated from (or starting) a recurring series
+    recurringSeriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RecurringSeries',
+      default: null
+    },
+    
+    occurrenceDate: {
+      type: Date,
+      default: null
+    },
+    
+    // Set on expenses posted by an installment plan
+    installmentPlanId: {
+      type: Schema.Types.ObjectId,
+      ref: 'InstallmentPlan',
+      default: null
+    },
+    
+    installmentNumber: {
+      type: Number,
+      default: null
+    },
+    
+    // Set on expenses created by a statement import (rollback by batch)
+    importId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ImportBatch',
+      default: null,
+      index: true
+    },
+    
+    // Bank transaction id (OFX FITID / CSV reference) for duplicate detection
+    externalId: {
+      type: String
     }
   },
   {
@@ -135,10 +300,46 @@ const ExpenseSchema = new Schema<IExpense>(
  * - userId + date: Get user's expenses in date range (most common query)
  * - userId + categoryId: Get all expenses for a category
  * - userId + date (descending): Latest expenses first
+ * - recurringSeriesId + occurrenceDate (unique): One expense per occurrence,
+ *   so re-running the recurring scheduler never double-posts
+ * - installmentPlanId + installmentNumber (unique): Same for installments
+ * - userId + externalId: Skip bank transactions that were already imported
+ * - userId + payeeId + date: Per-payee analytics over a date range
+ * - payeeId: Search "$text OR payee" needs every $or branch indexed
+ * - userId + accountId + date: Account balances and history
+ * - text (description, tags, address): Full-text search, description
+ *   weighted highest
+ * - userId + geo (2dsphere): Nearby / within-bounds / heatmap queries
  */
 ExpenseSchema.index({ userId: 1, date: -1 });
 ExpenseSchema.index({ userId: 1, categoryId: 1 });
 ExpenseSchema.index({ userId: 1, createdAt: -1 });
+ExpenseSchema.index({ userId: 1, externalId: 1 }, { sparse: true });
+ExpenseSchema.index({ userId: 1, payeeId: 1, date: -1 });
+ExpenseSchema.index({ payeeId: 1 });
+ExpenseSchema.index({ userId: 1, accountId: 1, date: -1 });
+ExpenseSchema.index({ userId: 1, geo: '2dsphere' });
+ExpenseSchema.index(
+  { description: 'text', tags: 'text', 'location.address': 'text' },
+  {
+    name: 'expense_text_search',
+    weights: { description: 10, tags: 5, 'location.address': 2 }
+  }
+);
+ExpenseSchema.index(
+  { recurringSeriesId: 1, occurrenceDate: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringSeriesId: { $type: 'objectId' } }
+  }
+);
+ExpenseSchema.index(
+  { installmentPlanId: 1, installmentNumber: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { installmentPlanId: { $type: 'objectId' } }
+  }
+);
 
 /**
  * Virtual: category
@@ -153,6 +354,61 @@ ExpenseSchema.virtual('category', {
   justOne: true  // One-to-one relationship
 });
 
+/**
+ * Virtual: payee
+ */
+ExpenseSchema.virtual('payee', {
+  ref: 'Payee',
+  localField: 'payeeId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Virtual: account
+ */
+ExpenseSchema.virtual('account', {
+  ref: 'Account',
+  localField: 'accountId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Virtual: netAmount
+ * 
+ * What the expense actually cost after refunds (base currency)
+ */
+ExpenseSchema.virtual('netAmount').get(function() {
+  return Math.round((this.amount - (this.refundedAmount || 0)) * 100) / 100;
+});
+
+/**
+ * Virtual: refunds (populate on detail)
+ */
+ExpenseSchema.virtual('refunds', {
+  ref: 'Refund',
+  localField: '_id',
+  foreignField: 'expenseId',
+  options: { sort: { date: 1 } }
+});
+
+/**
+ * Pre-validate Hook
+ * 
+ * Purpose: Keep the GeoJSON point in sync with location
+ * (runs for save and insertMany)
+ */
+ExpenseSchema.pre('validate', function() {
+  if (this.isNew || this.isModified('location')) {
+    const { latitude, longitude } = this.location || ({} as any);
+    
+    this.geo = typeof latitude === 'number' && typeof longitude === 'number'
+      ? { type: 'Point', coordinates: [longitude, latitude] }
+      : undefined;
+  }
+});
+
 /**
  * Pre-save Hook
  * 
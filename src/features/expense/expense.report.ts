@@ -0,0 +1,499 @@
+/**
+ * Expense Reports
+ *
+ * Purpose: Spending over any date range, grouped any way, optionally
+ * compared with the period before it
+ *
+ * Key Concepts:
+ * 1. Ranges are whole days in the user's timezone: "2024-03-01" is
+ *    that calendar day there, not UTC midnight
+ * 2. Time groupings (day / week / month / year) return every bucket in
+ *    the range, empty ones as zero, so charts get a continuous axis.
+ *    Weeks are ISO weeks (Monday first, "2024-W09").
+ * 3. Other groupings (category / payment method / tag / payee) return
+ *    the groups that have spending, largest first
+ * 4. The previous equivalent period is the same number of financial
+ *    months before the range when it covers whole months (March →
+ *    February), otherwise the same number of days right before it
+ * 5. Every group has the same shape (total, count, average, share),
+ *    and the same shape again for the previous period
+ *
+ * Amounts are in the user's base currency, net of refunds. An
+ * expense with several tags counts toward each of them, so tag
+ * shares can add up to more than 100%.
+ */
+
+import mongoose from 'mongoose';
+import Expense, { NET_AMOUNT } from './expense.model';
+import Category from '../category/category.model';
+import Payee from '../payee/payee.model';
+import { ExpenseFilters, buildExpenseQuery } from './expense.service';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getUserCalendar } from '../auth/auth.service';
+import { BadRequestError } from '../../shared/utils/error.util';
+import { getZonedParts, zonedTime, startOfPeriod, periodStartDay } from '../../shared/utils/date.util';
+
+export const REPORT_GROUPS = [
+  'day', 'week', 'month', 'year',
+  'category', 'paymentMethod', 'tag', 'payee'
+] as const;
+
+export type ReportGroupBy = typeof REPORT_GROUPS[number];
+
+/**
+ * Report Options
+ */
+export interface ReportOptions {
+  startDate?: string | Date;   // Default: start of the current financial month
+  endDate?: string | Date;     // Default: end of the current financial month
+  groupBy?: ReportGroupBy;     // Default: day
+  compare?: boolean;           // Include the previous equivalent period
+  filters?: ExpenseFilters;    // Same filters as the list (dates ignored)
+}
+
+/**
+ * Totals of a Group (or of the whole range)
+ */
+export interface ReportFigures {
+  total: number;
+  count: number;
+  average: number;        // Per expense
+  share: number;          // % of the range total
+}
+
+/**
+ * Report Group
+ */
+export interface ReportGroup extends ReportFigures {
+  key: string;            // Bucket key ("2024-03", ISO week, category ID...)
+  label: string;
+  startDate?: Date;       // Time groupings: first instant of the bucket in range
+  icon?: string;          // Category groupings
+  color?: string;
+  previous?: ReportFigures & { key: string };
+  change?: number;        // % change of total vs previous
+}
+
+/**
+ * Range Summary
+ */
+export interface ReportRange {
+  startDate: Date;
+  endDate: Date;
+  days: number;
+  total: number;
+  count: number;
+  average: number;
+  dailyAverage: number;
+}
+
+/**
+ * Expense Report
+ */
+export interface ExpenseReport {
+  currency: string;
+  timezone: string;
+  groupBy: ReportGroupBy;
+  current: ReportRange;
+  previous?: ReportRange;
+  change?: { total: number; count: number; average: number };
+  groups: ReportGroup[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAYS = 3660;          // ~10 years
+const MAX_BUCKETS = 1000;
+
+const TIME_FORMATS: Partial<Record<ReportGroupBy, string>> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+  year: '%Y'
+};
+
+const GROUP_FIELDS: Partial<Record<ReportGroupBy, string>> = {
+  category: '$categoryId',
+  paymentMethod: '$paymentMethod',
+  tag: '$tags',
+  payee: '$payeeId'
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile_banking: 'Mobile banking',
+  bank_transfer: 'Bank transfer',
+  other: 'Other'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const round = (value: number) => Math.round(value * 100) / 100;
+const percentChange = (current: number, previous: number) =>
+  previous > 0 ? round(((current - previous) / previous) * 100) : 0;
+
+/**
+ * Range as Calendar Labels (plain local Dates, both days included)
+ */
+interface DayRange {
+  first: Date;
+  last: Date;
+}
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const countDays = (range: DayRange) =>
+  Math.round((range.last.getTime() - range.first.getTime()) / DAY_MS) + 1;
+
+/**
+ * Time Bucket Key of a Calendar Day
+ *
+ * Same keys as $dateToString with TIME_FORMATS
+ */
+const timeKey = (groupBy: ReportGroupBy, date: Date): string => {
+  const year = date.getFullYear();
+
+  switch (groupBy) {
+    case 'year':
+      return String(year);
+    case 'month':
+      return `${year}-${pad(date.getMonth() + 1)}`;
+    case 'week': {
+      // ISO week: the week (Mon-Sun) belongs to the year of its Thursday
+      const thursday = addDays(date, 3 - ((date.getDay() + 6) % 7));
+      const january4 = new Date(thursday.getFullYear(), 0, 4);
+      const week = 1 + Math.round(
+        (thursday.getTime() - addDays(january4, 3 - ((january4.getDay() + 6) % 7)).getTime()) / (7 * DAY_MS)
+      );
+      return `${thursday.getFullYear()}-W${pad(week)}`;
+    }
+    default:
+      return `${year}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+};
+
+/**
+ * Parse a Range Boundary into a Calendar Day
+ *
+ * "YYYY-MM-DD" is taken as a calendar day; anything else as an
+ * instant, whose day in the timezone is used
+ */
+const toCalendarDay = (value: string | Date, timezone: string, field: string): Date => {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+    const date = new Date(year, month, day);
+
+    if (date.getMonth() !== month || date.getDate() !== day) {
+      throw new BadRequestError(`Invalid ${field}`);
+    }
+
+    return date;
+  }
+
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`Invalid ${field}`);
+  }
+
+  const parts = getZonedParts(date, timezone);
+  return new Date(parts.year, parts.month, parts.day);
+};
+
+/**
+ * Previous Equivalent Range
+ *
+ * Whole calendar or financial months → the same number of months
+ * before; anything else → the same number of days before
+ */
+const previousRange = (range: DayRange, monthStartDay: number): DayRange => {
+  const { first } = range;
+  const next = addDays(range.last, 1);
+  const months = (next.getFullYear() - first.getFullYear()) * 12 + next.getMonth() - first.getMonth();
+
+  for (const startDay of [monthStartDay, 1]) {
+    const isStart = (date: Date) =>
+      date.getDate() === periodStartDay(date.getFullYear(), date.getMonth(), startDay);
+
+    if (months > 0 && isStart(first) && isStart(next)) {
+      const year = first.getFullYear();
+      const month = first.getMonth() - months;
+
+      return {
+        first: new Date(year, month, periodStartDay(year, month, startDay)),
+        last: addDays(first, -1)
+      };
+    }
+  }
+
+  return {
+    first: addDays(first, -countDays(range)),
+    last: addDays(first, -1)
+  };
+};
+
+/**
+ * Figures of a Group
+ */
+const toFigures = (total: number, count: number, rangeTotal: number): ReportFigures => ({
+  total: round(total),
+  count,
+  average: count > 0 ? round(total / count) : 0,
+  share: rangeTotal > 0 ? round((total / rangeTotal) * 100) : 0
+});
+
+/**
+ * Aggregate One Range
+ *
+ * @returns Range total / count and raw totals by group key
+ */
+const aggregateRange = async (
+  baseQuery: any,
+  range: DayRange,
+  groupBy: ReportGroupBy,
+  timezone: string
+) => {
+  const startDate = zonedTime(timezone, range.first.getFullYear(), range.first.getMonth(), range.first.getDate());
+  const next = addDays(range.last, 1);
+  const endDate = new Date(zonedTime(timezone, next.getFullYear(), next.getMonth(), next.getDate()).getTime() - 1);
+
+  const format = TIME_FORMATS[groupBy];
+  const groupKey = format
+    ? { $dateToString: { format, date: '$date', timezone } }
+    : GROUP_FIELDS[groupBy];
+
+  const [result] = await Expense.aggregate([
+    { $match: { ...baseQuery, date: { $gte: startDate, $lte: endDate } } },
+    {
+      $facet: {
+        totals: [
+          { $group: { _id: null, total: { $sum: NET_AMOUNT }, count: { $sum: 1 } } }
+        ],
+        groups: [
+          ...(groupBy === 'tag'
+            ? [{ $unwind: { path: '$tags', preserveNullAndEmptyArrays: true } }]
+            : []),
+          { $group: { _id: groupKey, total: { $sum: NET_AMOUNT }, count: { $sum: 1 } } }
+        ]
+      }
+    }
+  ]);
+
+  const total: number = result.totals[0]?.total || 0;
+  const count: number = result.totals[0]?.count || 0;
+  const days = countDays(range);
+
+  const summary: ReportRange = {
+    startDate,
+    endDate,
+    days,
+    total: round(total),
+    count,
+    average: count > 0 ? round(total / count) : 0,
+    dailyAverage: round(total / days)
+  };
+
+  const byKey = new Map<string, { total: number; count: number }>(
+    result.groups.map((group: any) => [
+      group._id === null || group._id === undefined ? '' : group._id.toString(),
+      { total: group.total, count: group.count }
+    ])
+  );
+
+  return { summary, byKey };
+};
+
+/**
+ * Every Time Bucket in a Range, in Order
+ */
+const timeBuckets = (range: DayRange, groupBy: ReportGroupBy): Array<{ key: string; first: Date }> => {
+  const buckets: Array<{ key: string; first: Date }> = [];
+
+  for (let date = range.first; date <= range.last; date = addDays(date, 1)) {
+    const key = timeKey(groupBy, date);
+
+    if (buckets.length === 0 || buckets[buckets.length - 1].key !== key) {
+      buckets.push({ key, first: date });
+    }
+  }
+
+  return buckets;
+};
+
+/**
+ * Labels for Non-time Group Keys
+ */
+const describeGroups = async (
+  userId: string,
+  groupBy: ReportGroupBy,
+  keys: string[]
+): Promise<Map<string, { label: string; icon?: string; color?: string }>> => {
+  const labels = new Map<string, { label: string; icon?: string; color?: string }>();
+  const ids = keys
+    .filter(key => mongoose.Types.ObjectId.isValid(key))
+    .map(key => new mongoose.Types.ObjectId(key));
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  if (groupBy === 'category') {
+    const categories = await Category.find({ _id: { $in: ids }, userId: userObjectId })
+      .select('name icon color')
+      .lean();
+    categories.forEach(category => labels.set(category._id.toString(), {
+      label: category.name,
+      icon: category.icon,
+      color: category.color
+    }));
+  }
+
+  if (groupBy === 'payee') {
+    const payees = await Payee.find({ _id: { $in: ids }, userId: userObjectId }).select('name').lean();
+    payees.forEach(payee => labels.set(payee._id.toString(), { label: payee.name }));
+  }
+
+  keys.forEach(key => {
+    if (labels.has(key)) return;
+
+    if (groupBy === 'paymentMethod') {
+      labels.set(key, { label: PAYMENT_METHOD_LABELS[key] || key || 'Unknown' });
+    } else if (groupBy === 'tag') {
+      labels.set(key, { label: key || 'Untagged' });
+    } else if (groupBy === 'payee') {
+      labels.set(key, { label: key ? 'Unknown payee' : 'No payee' });
+    } else {
+      labels.set(key, { label: 'Uncategorized' });
+    }
+  });
+
+  return labels;
+};
+
+/**
+ * Get Expense Report
+ *
+ * @param userId - User ID
+ * @param options - Range, grouping, comparison and list filters
+ * @returns Range totals and one entry per group (see ReportGroup)
+ */
+export const getExpenseReport = async (
+  userId: string,
+  options: ReportOptions = {}
+): Promise<ExpenseReport> => {
+  const groupBy = options.groupBy || 'day';
+
+  if (!REPORT_GROUPS.includes(groupBy)) {
+    throw new BadRequestError(`groupBy must be one of: ${REPORT_GROUPS.join(', ')}`);
+  }
+
+  const [{ timezone, monthStartDay }, currency] = await Promise.all([
+    getUserCalendar(userId),
+    getUserBaseCurrency(userId)
+  ]);
+
+  // Default: the current financial month
+  const now = new Date();
+  const current: DayRange = {
+    first: toCalendarDay(options.startDate || startOfPeriod(now, timezone, monthStartDay), timezone, 'startDate'),
+    last: options.endDate
+      ? toCalendarDay(options.endDate, timezone, 'endDate')
+      : addDays(toCalendarDay(startOfPeriod(now, timezone, monthStartDay, 1), timezone, 'endDate'), -1)
+  };
+
+  if (current.last < current.first) {
+    throw new BadRequestError('endDate must be on or after startDate');
+  }
+
+  if (countDays(current) > MAX_DAYS) {
+    throw new BadRequestError('Report range cannot exceed 10 years');
+  }
+
+  const isTime = groupBy in TIME_FORMATS;
+  const buckets = isTime ? timeBuckets(current, groupBy) : [];
+
+  if (buckets.length > MAX_BUCKETS) {
+    throw new BadRequestError(`Too many ${groupBy} buckets; choose a shorter range or a wider grouping`);
+  }
+
+  // List filters apply; the report range replaces their dates
+  const { startDate: _startDate, endDate: _endDate, ...filters } = options.filters || {};
+  const baseQuery = await buildExpenseQuery(userId, filters);
+
+  const previous = options.compare ? previousRange(current, monthStartDay) : null;
+
+  const [thisRange, lastRange] = await Promise.all([
+    aggregateRange(baseQuery, current, groupBy, timezone),
+    previous ? aggregateRange(baseQuery, previous, groupBy, timezone) : Promise.resolve(null)
+  ]);
+
+  let groups: ReportGroup[];
+
+  if (isTime) {
+    // Buckets are compared by position (1st week vs 1st week...)
+    const previousBuckets = previous ? timeBuckets(previous, groupBy) : [];
+
+    groups = buckets.map((bucket, index) => {
+      const figures = thisRange.byKey.get(bucket.key) || { total: 0, count: 0 };
+      const group: ReportGroup = {
+        key: bucket.key,
+        label: bucket.key,
+        startDate: zonedTime(timezone, bucket.first.getFullYear(), bucket.first.getMonth(), bucket.first.getDate()),
+        ...toFigures(figures.total, figures.count, thisRange.summary.total)
+      };
+
+      const previousBucket = previousBuckets[index];
+      if (lastRange && previousBucket) {
+        const old = lastRange.byKey.get(previousBucket.key) || { total: 0, count: 0 };
+        group.previous = { key: previousBucket.key, ...toFigures(old.total, old.count, lastRange.summary.total) };
+        group.change = percentChange(group.total, group.previous.total);
+      }
+
+      return group;
+    });
+  } else {
+    // Groups that only had spending before are kept (dropped to zero)
+    const keys = Array.from(new Set([
+      ...thisRange.byKey.keys(),
+      ...(lastRange ? lastRange.byKey.keys() : [])
+    ]));
+    const labels = await describeGroups(userId, groupBy, keys);
+
+    groups = keys
+      .map(key => {
+        const figures = thisRange.byKey.get(key) || { total: 0, count: 0 };
+        const group: ReportGroup = {
+          key,
+          ...labels.get(key)!,
+          ...toFigures(figures.total, figures.count, thisRange.summary.total)
+        };
+
+        if (lastRange) {
+          const old = lastRange.byKey.get(key) || { total: 0, count: 0 };
+          group.previous = { key, ...toFigures(old.total, old.count, lastRange.summary.total) };
+          group.change = percentChange(group.total, group.previous.total);
+        }
+
+        return group;
+      })
+      .sort((a, b) => b.total - a.total || (b.previous?.total || 0) - (a.previous?.total || 0));
+  }
+
+  const report: ExpenseReport = {
+    currency,
+    timezone,
+    groupBy,
+    current: thisRange.summary,
+    groups
+  };
+
+  if (lastRange) {
+    report.previous = lastRange.summary;
+    report.change = {
+      total: percentChange(thisRange.summary.total, lastRange.summary.total),
+      count: percentChange(thisRange.summary.count, lastRange.summary.count),
+      average: percentChange(thisRange.summary.average, lastRange.summary.average)
+    };
+  }
+
+  return report;
+};
@@ -4,12 +4,22 @@
 
 import { Router } from 'express';
 import * as expenseController from './expense.controller';
+import * as receiptController from '../receipt/receipt.controller';
+import * as refundController from '../refund/refund.controller';
+import { createRefundSchema } from '../refund/refund.validator';
+import { RECEIPT_UPLOAD } from '../receipt/receipt.service';
+import { uploadFiles } from '../../shared/middlewares/upload.middleware';
 import { validate } from '../../shared/middlewares/validate.middleware';
 import { authMiddleware } from '../../shared/middlewares/auth.middleware';
 import {
   createExpenseSchema,
   updateExpenseSchema,
-  expenseQuerySchema
+  expenseQuerySchema,
+  bulkCreateExpenseSchema,
+  bulkUpdateExpenseSchema,
+  bulkDeleteExpenseSchema,
+  renameTagSchema,
+  mergeTagsSchema
 } from './expense.validator';
 
 const router = Router();
@@ -23,6 +33,67 @@ router.use(authMiddleware);
 router.get('/stats', expenseController.getExpenseStats);
 router.get('/daily', expenseController.getDailyExpenses);
 
+/**
+ * Reports: any range, any grouping, optional comparison (before /:id)
+ */
+router.get('/report', expenseController.getExpenseReport);
+
+/**
+ * Tags: usage, spending over time, rename / merge / delete (before /:id)
+ */
+router.get('/tags', expenseController.getExpenseTags);
+router.get('/tags/spending', expenseController.getTagSpending);
+
+router.post(
+  '/tags/merge',
+  validate(mergeTagsSchema),
+  expenseController.mergeExpenseTags
+);
+
+router.put(
+  '/tags/:tag',
+  validate(renameTagSchema),
+  expenseController.renameExpenseTag
+);
+
+router.delete(
+  '/tags/:tag',
+  expenseController.deleteExpenseTag
+);
+
+/**
+ * Export (CSV / XLSX / JSON) with the same filters as the list
+ */
+router.get('/export', expenseController.exportExpenses);
+
+/**
+ * Map queries (before /:id)
+ */
+router.get('/geo/near', expenseController.getExpensesNear);
+router.get('/geo/within', expenseController.getExpensesWithinBounds);
+router.get('/geo/heatmap', expenseController.getSpendingHeatmap);
+
+/**
+ * Bulk operations (before /:id)
+ */
+router.post(
+  '/bulk',
+  validate(bulkCreateExpenseSchema),
+  expenseController.bulkCreateExpenses
+);
+
+router.patch(
+  '/bulk',
+  validate(bulkUpdateExpenseSchema),
+  expenseController.bulkUpdateExpenses
+);
+
+router.post(
+  '/bulk/delete',
+  validate(bulkDeleteExpenseSchema),
+  expenseController.bulkDeleteExpenses
+);
+
 /**
  * CRUD routes
  */
@@ -54,4 +125,42 @@ router.delete(
   expenseController.deleteExpense
 );
 
+/**
+ * Receipts (multipart upload, field "files")
+ */
+router.post(
+  '/:id/receipts',
+  uploadFiles(RECEIPT_UPLOAD),
+  receiptController.uploadReceipts
+);
+
+router.get(
+  '/:id/receipts',
+  receiptController.getReceipts
+);
+
+router.delete(
+  '/:id/receipts/:receiptId',
+  receiptController.deleteReceipt
+);
+
+/**
+ * Refunds (full or partial, netted out of spending totals)
+ */
+router.post(
+  '/:id/refunds',
+  validate(createRefundSchema),
+  refundController.createRefund
+);
+
+router.get(
+  '/:id/refunds',
+  refundController.getRefunds
+);
+
+router.delete(
+  '/:id/refunds/:refundId',
+  refundController.deleteRefund
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * Expense Search
+ *
+ * Purpose: Full-text search over description, tags, location address
+ * and payee, ranked by relevance with highlighted snippets
+ *
+ * Key Concepts:
+ * 1. MongoDB text index on the expense (see expense.model) for
+ *    description / tags / address, with stemming ("groceries" finds "grocery")
+ * 2. Payees live in their own collection, so a matching payee (name or
+ *    alias) adds its expenses via payeeId
+ * 3. Query syntax is MongoDB's: "exact phrase", -excluded
+ * 4. Highlights are HTML-escaped with matches wrapped in <mark>
+ */
+
+import mongoose from 'mongoose';
+import Payee from '../payee/payee.model';
+import { escapeRegex } from '../../shared/utils/text.util';
+import { BadRequestError } from '../../shared/utils/error.util';
+
+const MAX_SEARCH_LENGTH = 100;
+const MAX_PAYEE_MATCHES = 50;
+const SNIPPET_CONTEXT = 50;    // Characters kept on each side of the first match
+
+/**
+ * Parsed Search Query
+ */
+export interface ParsedSearch {
+  text: string;          // Passed to $text as-is
+  terms: string[];       // Words to highlight
+  phrases: string[];     // "quoted phrases" to highlight
+}
+
+/**
+ * Highlighted Fields
+ */
+export interface SearchHighlights {
+  description?: string;
+  tags?: string[];
+  payee?: string;
+  address?: string;
+}
+
+/**
+ * Parse Search Query
+ *
+ * @param search - Raw search string
+ */
+export const parseSearch = (search: string): ParsedSearch => {
+  const text = search.trim();
+
+  if (text.length > MAX_SEARCH_LENGTH) {
+    throw new BadRequestError(`Search cannot exceed ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  const phrases = [...text.matchAll(/"([^"]+)"/g)].map(m => m[1].trim()).filter(Boolean);
+  const terms = text
+    .replace(/"[^"]*"/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0 && !word.startsWith('-'))
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(word => word.length > 1);
+
+  return { text, terms: [...new Set([...terms, ...phrases.flatMap(p => p.split(/\s+/))])], phrases };
+};
+
+/**
+ * Build Search Clause
+ *
+ * Merged into the expense query by buildExpenseQuery
+ *
+ * @param userId - User ID
+ * @param parsed - Parsed search query
+ * @returns Filter fragment ($text, or $text OR matching payee)
+ */
+export const buildSearchClause = async (
+  userId: string,
+  parsed: ParsedSearch
+): Promise<any> => {
+  const textClause = { $text: { $search: parsed.text } };
+
+  if (parsed.terms.length === 0) {
+    return textClause;
+  }
+
+  // Payee name / alias containing any search word
+  const pattern = new RegExp(parsed.terms.map(escapeRegex).join('|'), 'i');
+  const payees = await Payee.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    $or: [{ name: pattern }, { aliases: pattern }]
+  })
+    .select('_id')
+    .limit(MAX_PAYEE_MATCHES)
+    .lean();
+
+  if (payees.length === 0) {
+    return textClause;
+  }
+
+  return {
+    $or: [
+      textClause,
+      { payeeId: { $in: payees.map(payee => payee._id) } }
+    ]
+  };
+};
+
+/**
+ * Strip common English suffixes so highlights follow $text stemming
+ */
+const stem = (term: string): string => {
+  const stripped = term.toLowerCase().replace(/(ies|es|s|ing|ed|ly|y)$/, '');
+  return stripped.length >= 3 ? stripped : term.toLowerCase();
+};
+
+/**
+ * Build Highlight Regex
+ */
+const buildMatcher = (parsed: ParsedSearch): RegExp | null => {
+  const parts = [
+    ...parsed.phrases.map(escapeRegex),
+    ...parsed.terms.map(term => `${escapeRegex(stem(term))}[\\p{L}\\p{N}]*`)
+  ];
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${parts.join('|')})`, 'giu');
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Highlight One Value
+ *
+ * @returns Escaped snippet with <mark> tags, or null when nothing matched
+ */
+const highlight = (value: string | undefined, matcher: RegExp): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  const matches = [...value.matchAll(matcher)];
+  if (matches.length === 0) {
+    return null;
+  }
+
+  // Trim long values to a window around the first match
+  const first = matches[0].index!;
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(value.length, first + matches[0][0].length + SNIPPET_CONTEXT);
+
+  let snippet = '';
+  let cursor = start;
+
+  for (const match of matches) {
+    const matchStart = match.index!;
+    const matchEnd = matchStart + match[0].length;
+
+    if (matchStart < start || matchEnd > end) {
+      continue;
+    }
+
+    snippet += escapeHtml(value.slice(cursor, matchStart));
+    snippet += `<mark>${escapeHtml(match[0])}</mark>`;
+    cursor = matchEnd;
+  }
+
+  snippet += escapeHtml(value.slice(cursor, end));
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < value.length ? '…' : ''}`;
+};
+
+/**
+ * Highlight Search Matches on an Expense
+ *
+ * @param expense - Lean expense (payee populated)
+ * @param parsed - Parsed search query
+ */
+export const highlightExpense = (expense: any, parsed: ParsedSearch): SearchHighlights => {
+  const matcher = buildMatcher(parsed);
+  const highlights: SearchHighlights = {};
+
+  if (!matcher) {
+    return highlights;
+  }
+
+  const description = highlight(expense.description, matcher);
+  if (description) {
+    highlights.description = description;
+  }
+
+  const tags = (expense.tags || [])
+    .map((tag: string) => highlight(tag, matcher))
+    .filter((tag: string | null): tag is string => tag !== null);
+  if (tags.length > 0) {
+    highlights.tags = tags;
+  }
+
+  const payee = highlight(expense.payee?.name, matcher);
+  if (payee) {
+    highlights.payee = payee;
+  }
+
+  const address = highlight(expense.location?.address, matcher);
+  if (address) {
+    highlights.address = address;
+  }
+
+  return highlights;
+};
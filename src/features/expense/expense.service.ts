@@ -10,18 +10,38 @@
  * 4. Budget tracking
  */
 
-import Expense, { IExpense } from './expense.model';
-import Category from '../category/category.model';
+import Expense, { IExpense, NET_AMOUNT } from './expense.model';
+import Category, { ICategory } from '../category/category.model';
+import { rollUpCategoryTotals } from '../category/category.service';
 import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
 import mongoose from 'mongoose';
-import { PaginatedResponse } from '../../shared/types/common.types';
+import { PaginatedResponse, CursorPaginatedResponse } from '../../shared/types/common.types';
+import { decodeCursor, buildCursorFilter, toCursorPage } from '../../shared/utils/cursor.util';
+import { createSeriesFromExpense, stopSeriesForExpense } from '../recurring/recurring.service';
+import { getIncomeTotal, calculateSavingsRate } from '../income/income.service';
+import { toBaseCurrency, getUserBaseCurrency } from '../currency/currency.service';
+import { unlinkExpense } from '../split/split.service';
+import { deleteExpenseReceipts } from '../receipt/receipt.service';
+import { applyRulesToExpense, recordRuleHits } from '../rule/rule.service';
+import { getPayeeById, matchPayee } from '../payee/payee.service';
+import { resolveTransactionAccount, checkAccountPaymentMethod, ACCOUNT_PAYMENT_METHODS } from '../account/account.service';
+import { analyzeExpense, deleteExpenseAnomalies } from '../anomaly/anomaly.service';
+import { syncExpenseRefunds, ensureRefundsFit, deleteExpenseRefunds } from '../refund/refund.service';
+import { unlinkInstallmentExpenses } from '../installment/installment.service';
+import { getSpendingForecast } from '../forecast/forecast.service';
+import { getUserTimezone, getUserCalendar } from '../auth/auth.service';
+import { startOfDay, startOfPeriod, endOfPeriod } from '../../shared/utils/date.util';
+import { parseSearch, buildSearchClause, highlightExpense, SearchHighlights } from './expense.search';
 
 /**
  * Create Expense DTO
  */
 export interface CreateExpenseDTO {
-  categoryId: string;
-  amount: number;
+  categoryId?: string;   // Optional: filled by rules / payee / learned suggestions
+  payeeId?: string | null;   // Optional: matched from description when omitted
+  accountId?: string | null; // Optional: account the money came out of
+  amount: number;      // In `currency` (default: user's base currency)
+  currency?: string;
   description?: string;
   date?: Date;
   paymentMethod?: string;
@@ -51,30 +71,91 @@ export interface ExpenseFilters {
   page?: number;
   limit?: number;
   categoryId?: string;
+  payeeId?: string;
+  accountId?: string;
   startDate?: Date;
   endDate?: Date;
   minAmount?: number;
   maxAmount?: number;
   paymentMethod?: string;
-  tags?: string;
-  sortBy?: 'date' | 'amount' | 'createdAt';
+  tags?: string | string[];         // Comma-separated or repeated
+  tagMatch?: 'any' | 'all';         // Default: any
+  search?: string;     // Full-text (description, tags, payee, address)
+  sortBy?: 'date' | 'amount' | 'createdAt' | 'relevance';
   sortOrder?: 'asc' | 'desc';
 }
 
 /**
- * Create Expense
+ * Sortable fields (plus 'relevance' when searching in page mode)
+ */
+const SORT_FIELDS = ['date', 'amount', 'createdAt'];
+
+/**
+ * Prepared Expense
+ * 
+ * Validated document ready to insert, plus the rules that filled it
+ */
+export interface PreparedExpense {
+  doc: Record<string, any>;
+  matchedRuleIds: string[];
+}
+
+/**
+ * Prepare Expense for Insert
+ * 
+ * Everything createExpense does before writing: currency conversion,
+ * payee matching, rules and category ownership check.
+ * Shared with bulk create.
  * 
  * @param userId - User ID
  * @param data - Expense data
- * @returns Created expense with populated category
+ * @returns Document to insert
  */
-export const createExpense = async (
+export const prepareExpense = async (
   userId: string,
   data: CreateExpenseDTO
-): Promise<IExpense> => {
+): Promise<PreparedExpense> => {
+  const date = data.date || new Date();
+  
+  // Account: amount is in its currency; payment method follows its type
+  const account = data.accountId
+    ? await resolveTransactionAccount(userId, data.accountId, data.currency)
+    : null;
+  
+  if (account && data.paymentMethod) {
+    await checkAccountPaymentMethod(userId, account._id.toString(), data.paymentMethod);
+  }
+  
+  if (account) {
+    data = {
+      ...data,
+      currency: account.currency,
+      paymentMethod: data.paymentMethod ?? ACCOUNT_PAYMENT_METHODS[account.type]
+    };
+  }
+  
+  // Convert to base currency (keeps original currency & amount)
+  const converted = await toBaseCurrency(userId, data.amount, data.currency, date);
+  
+  // Explicit payee, or one whose name / alias appears in the description
+  const payee = data.payeeId
+    ? await getPayeeById(userId, data.payeeId)
+    : await matchPayee(userId, data.description);
+  
+  // Fill category / tags / payment method from rules (explicit values win)
+  const applied = await applyRulesToExpense(
+    userId,
+    { ...data, amount: converted.amount },
+    payee?.defaultCategoryId?.toString()
+  );
+  
+  if (!applied.categoryId) {
+    throw new BadRequestError('Category is required');
+  }
+  
   // Verify category exists and belongs to user
   const category = await Category.findOne({
-    _id: new mongoose.Types.ObjectId(data.categoryId),
+    _id: new mongoose.Types.ObjectId(applied.categoryId),
     userId: new mongoose.Types.ObjectId(userId)
   });
   
@@ -82,14 +163,52 @@ export const createExpense = async (
     throw new NotFoundError('Category not found');
   }
   
+  return {
+    doc: {
+      ...data,
+      ...converted,
+      userId: new mongoose.Types.ObjectId(userId),
+      categoryId: category._id,
+      payeeId: payee?._id ?? null,
+      accountId: account?._id ?? null,
+      paymentMethod: applied.paymentMethod,
+      tags: applied.tags,
+      date
+    },
+    matchedRuleIds: applied.matchedRuleIds
+  };
+};
+
+/**
+ * Create Expense
+ * 
+ * @param userId - User ID
+ * @param data - Expense data
+ * @returns Created expense with populated category
+ */
+export const createExpense = async (
+  userId: string,
+  data: CreateExpenseDTO
+): Promise<IExpense> => {
+  const prepared = await prepareExpense(userId, data);
+  
   // Create expense
-  const expense = await Expense.create({
-    ...data,
-    userId: new mongoose.Types.ObjectId(userId),
-    categoryId: new mongoose.Types.ObjectId(data.categoryId),
-    date: data.date || new Date()
+  const expense = await Expense.create(prepared.doc);
+  
+  recordRuleHits(prepared.matchedRuleIds).catch(err => {
+    console.error('Failed to record rule hits:', err);
   });
   
+  // Flag unusual amounts / duplicate charges (doesn't delay the response)
+  analyzeExpense(expense).catch(err => {
+    console.error('Failed to analyze expense:', err);
+  });
+  
+  // Recurring expense: this expense becomes the first occurrence of a series
+  if (expense.isRecurring) {
+    await createSeriesFromExpense(expense);
+  }
+  
   // Populate category details
   await expense.populate('category');
   
@@ -97,34 +216,54 @@ export const createExpense = async (
 };
 
 /**
- * Get Expenses with Filters & Pagination
+ * Amount Filter Value as a Number
+ */
+const toAmount = (value: number | string, name: string): number => {
+  const amount = Number(value);
+  
+  if (value === '' || isNaN(amount)) {
+    throw new BadRequestError(`${name} must be a number`);
+  }
+  
+  return amount;
+};
+
+/**
+ * ID Filter Value as an ObjectId
+ */
+const toFilterId = (value: string, name: string): mongoose.Types.ObjectId => {
+  if (!mongoose.Types.ObjectId.isValid(value)) {
+    throw new BadRequestError(`Invalid ${name}`);
+  }
+  
+  return new mongoose.Types.ObjectId(value);
+};
+
+/**
+ * Build Expense Query from Filters
  * 
- * This is the most complex function - handles:
- * 1. Multiple filters
- * 2. Pagination
- * 3. Sorting
- * 4. Category population
+ * Shared by the list endpoint and export so both return the same rows
  * 
  * @param userId - User ID
- * @param filters - Query filters
- * @returns Paginated expenses
+ * @param filters - Query filters (pagination & sort ignored)
+ * @returns MongoDB filter
  */
-export const getExpenses = async (
+export const buildExpenseQuery = async (
   userId: string,
   filters: ExpenseFilters
-): Promise<PaginatedResponse<IExpense>> => {
+): Promise<any> => {
   const {
-    page = 1,
-    limit = 20,
     categoryId,
+    payeeId,
+    accountId,
     startDate,
     endDate,
     minAmount,
     maxAmount,
     paymentMethod,
     tags,
-    sortBy = 'date',
-    sortOrder = 'desc'
+    tagMatch,
+    search
   } = filters;
   
   // Build query object
@@ -134,7 +273,17 @@ export const getExpenses = async (
   
   // Category filter
   if (categoryId) {
-    query.categoryId = new mongoose.Types.ObjectId(categoryId);
+    query.categoryId = toFilterId(categoryId, 'categoryId');
+  }
+  
+  // Payee filter
+  if (payeeId) {
+    query.payeeId = toFilterId(payeeId, 'payeeId');
+  }
+  
+  // Account filter
+  if (accountId) {
+    query.accountId = toFilterId(accountId, 'accountId');
   }
   
   // Date range filter
@@ -148,14 +297,15 @@ export const getExpenses = async (
     }
   }
   
-  // Amount range filter
+  // Amount range filter (query strings are converted: aggregate
+  // $match doesn't cast like find does)
   if (minAmount !== undefined || maxAmount !== undefined) {
     query.amount = {};
     if (minAmount !== undefined) {
-      query.amount.$gte = minAmount;
+      query.amount.$gte = toAmount(minAmount, 'minAmount');
     }
     if (maxAmount !== undefined) {
-      query.amount.$lte = maxAmount;
+      query.amount.$lte = toAmount(maxAmount, 'maxAmount');
     }
   }
   
@@ -164,23 +314,70 @@ export const getExpenses = async (
     query.paymentMethod = paymentMethod;
   }
   
-  // Tags filter (match any of provided tags)
+  // Tags filter (any of the provided tags, or all of them)
   if (tags) {
-    const tagArray = tags.split(',').map(t => t.trim());
-    query.tags = { $in: tagArray };
+    const tagArray = (Array.isArray(tags) ? tags : tags.split(','))
+      .map(t => t.trim())
+      .filter(Boolean);
+    
+    if (tagArray.length > 0) {
+      query.tags = tagMatch === 'all' ? { $all: tagArray } : { $in: tagArray };
+    }
   }
   
+  // Full-text search
+  if (search && search.trim()) {
+    Object.assign(query, await buildSearchClause(userId, parseSearch(search)));
+  }
+  
+  return query;
+};
+
+/**
+ * Get Expenses with Filters & Pagination
+ * 
+ * This is the most complex function - handles:
+ * 1. Multiple filters
+ * 2. Pagination
+ * 3. Sorting (by relevance when searching)
+ * 4. Category population
+ * 5. Search highlights (`score` + `highlights` on each expense)
+ * 
+ * @param userId - User ID
+ * @param filters - Query filters
+ * @returns Paginated expenses
+ */
+export const getExpenses = async (
+  userId: string,
+  filters: ExpenseFilters
+): Promise<PaginatedResponse<IExpense & { score?: number; highlights?: SearchHighlights }>> => {
+  const search = filters.search?.trim() ? parseSearch(filters.search) : null;
+  const {
+    page = 1,
+    limit = 20,
+    sortBy = search ? 'relevance' : 'date',
+    sortOrder = 'desc'
+  } = filters;
+  
+  const query = await buildExpenseQuery(userId, filters);
+  
   // Calculate pagination
   const skip = (page - 1) * limit;
   
-  // Sort order
+  // Sort order (relevance: best text match first, newest on ties)
   const sort: any = {};
-  sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+  if (sortBy === 'relevance' && search) {
+    sort.score = { $meta: 'textScore' };
+    sort.date = -1;
+  } else {
+    sort[sortBy === 'relevance' ? 'date' : sortBy] = sortOrder === 'asc' ? 1 : -1;
+  }
   
   // Execute queries in parallel for performance
   const [expenses, total] = await Promise.all([
-    Expense.find(query)
+    Expense.find(query, search ? { score: { $meta: 'textScore' } } : undefined)
       .populate('category')  // Get category details
+      .populate('payee', 'name')
       .sort(sort)
       .skip(skip)
       .limit(limit)
@@ -192,8 +389,12 @@ export const getExpenses = async (
   // Calculate pagination info
   const totalPages = Math.ceil(total / limit);
   
+  const data = search
+    ? expenses.map(expense => ({ ...expense, highlights: highlightExpense(expense, search) }))
+    : expenses;
+  
   return {
-    data: expenses as IExpense[],
+    data: data as Array<IExpense & { score?: number; highlights?: SearchHighlights }>,
     pagination: {
       page,
       limit,
@@ -205,6 +406,66 @@ export const getExpenses = async (
   };
 };
 
+/**
+ * Get Expenses by Cursor (infinite scroll)
+ * 
+ * Same filters and sort options as getExpenses, but pages continue
+ * after the last row seen, so expenses added while scrolling don't
+ * shift pages. No total count.
+ * 
+ * @param userId - User ID
+ * @param filters - Query filters (page ignored)
+ * @param cursor - nextCursor from the previous page (empty for the first page)
+ * @returns Cursor-paginated expenses
+ */
+export const getExpensesByCursor = async (
+  userId: string,
+  filters: ExpenseFilters,
+  cursor?: string
+): Promise<CursorPaginatedResponse<IExpense & { highlights?: SearchHighlights }>> => {
+  const search = filters.search?.trim() ? parseSearch(filters.search) : null;
+  const limit = Math.min(Number(filters.limit) || 20, 100);
+  const sortBy = filters.sortBy || 'date';
+  const direction = filters.sortOrder === 'asc' ? 1 : -1;
+  
+  if (sortBy === 'relevance') {
+    throw new BadRequestError('Relevance sort is not available with cursor pagination');
+  }
+  
+  if (!SORT_FIELDS.includes(sortBy)) {
+    throw new BadRequestError(`sortBy must be one of: ${SORT_FIELDS.join(', ')}`);
+  }
+  
+  const query = await buildExpenseQuery(userId, filters);
+  
+  if (cursor) {
+    // $and keeps the search $or (if any) intact
+    query.$and = [...(query.$and || []), buildCursorFilter(decodeCursor(cursor, sortBy), direction)];
+  }
+  
+  const expenses = await Expense.find(query)
+    .populate('category')
+    .populate('payee', 'name')
+    .sort({ [sortBy]: direction, _id: direction })
+    .limit(limit + 1)
+    .lean();
+  
+  const page = toCursorPage(expenses, limit, sortBy);
+  
+  const data = search
+    ? page.data.map(expense => ({ ...expense, highlights: highlightExpense(expense, search) }))
+    : page.data;
+  
+  return {
+    data: data as Array<IExpense & { highlights?: SearchHighlights }>,
+    pagination: {
+      limit,
+      nextCursor: page.nextCursor,
+      hasNext: page.hasNext
+    }
+  };
+};
+
 /**
  * Get Single Expense
  * 
@@ -219,7 +480,7 @@ export const getExpenseById = async (
   const expense = await Expense.findOne({
     _id: new mongoose.Types.ObjectId(expenseId),
     userId: new mongoose.Types.ObjectId(userId)
-  }).populate('category');
+  }).populate(['category', { path: 'payee', select: 'name' }, 'refunds']);
   
   if (!expense) {
     throw new NotFoundError('Expense not found');
@@ -263,10 +524,66 @@ export const updateExpense = async (
     }
   }
   
-  // Update fields
-  Object.assign(expense, data);
+  // If payee is being set, verify it belongs to user
+  if (data.payeeId) {
+    await getPayeeById(userId, data.payeeId);
+  }
   
+  // Account (new, or kept with a new currency): currencies must match
+  const accountId = data.accountId !== undefined ? data.accountId : expense.accountId?.toString();
+  if (accountId && (data.accountId !== undefined || data.currency !== undefined)) {
+    await resolveTransactionAccount(
+      userId,
+      accountId,
+      data.currency ?? expense.currency ?? await getUserBaseCurrency(userId)
+    );
+  }
+  
+  // Payment method has to fit the account type
+  if (accountId && data.paymentMethod) {
+    await checkAccountPaymentMethod(userId, accountId, data.paymentMethod);
+  }
+  
+  // Turning on recurrence needs an interval
+  if (data.isRecurring && !data.recurringConfig && !expense.recurringConfig?.interval) {
+    throw new BadRequestError('Recurring config is required for recurring expenses');
+  }
+  
+  // Refunds can't end up larger than the expense
+  await ensureRefundsFit(expense, data.amount, data.currency);
+
+  // Re-convert when amount, currency or date (rate date) changes
+  const needsConversion = data.amount !== undefined || data.currency !== undefined || data.date !== undefined;
+  const converted = needsConversion
+    ? await toBaseCurrency(
+        userId,
+        data.amount ?? expense.originalAmount ?? expense.amount,
+        data.currency ?? expense.currency,
+        data.date ?? expense.date
+      )
+    : {};
+
+  // Only the expense that started a series can stop it; materialized
+  // occurrences carry the series id too (and isRecurring = false)
+  const startedSeries = expense.isRecurring && Boolean(expense.recurringSeriesId);
+  
+  // Update fields
+  Object.assign(expense, data, converted);
+
   await expense.save();
+  
+  // Refunds follow the new rate / account
+  if (expense.refundedAmount) {
+    await syncExpenseRefunds(expense);
+  }
+
+  // Start or stop the recurring series when isRecurring is toggled
+  if (expense.isRecurring && !expense.recurringSeriesId) {
+    await createSeriesFromExpense(expense);
+  } else if (data.isRecurring === false && startedSeries) {
+    await stopSeriesForExpense(expense);
+  }
+  
   await expense.populate('category');
   
   return expense;
@@ -292,6 +609,18 @@ export const deleteExpense = async (
   }
   
   await expense.deleteOne();
+  
+  // Remove uploaded receipt files
+  await deleteExpenseReceipts(expense);
+  
+  // Shared debts stay; they just no longer point at this expense
+  await unlinkExpense(expenseId);
+  
+  await deleteExpenseAnomalies([expenseId]);
+  
+  await deleteExpenseRefunds([expenseId]);
+  
+  await unlinkInstallmentExpenses([expenseId]);
 };
 
 /**
@@ -300,20 +629,35 @@ export const deleteExpense = async (
  * Purpose: Analytics for dashboard
  * Uses MongoDB Aggregation Pipeline
  * 
+ * "Month" is the user's financial month (see User.monthStartDay)
+ * 
  * Returns:
  * - Total expenses (this month, last month, all time)
  * - Category-wise breakdown
  * - Daily average
  * - Spending trends
+ * - Income, net cash flow & savings rate (this month, last month)
+ * - Projected month total (see forecast.service)
  * 
  * @param userId - User ID
  * @returns Statistics object
  */
 export const getExpenseStats = async (userId: string) => {
+  // Financial month boundaries in the user's timezone
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
   const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
+  const startOfMonth = startOfPeriod(now, timezone, monthStartDay);
+  const startOfLastMonth = startOfPeriod(now, timezone, monthStartDay, -1);
+  const endOfLastMonth = endOfPeriod(now, timezone, monthStartDay, -1);
+  const endOfMonth = endOfPeriod(now, timezone, monthStartDay);
+  
+  // Income for the same months (for net cash flow)
+  const [incomeThisMonth, incomeLastMonth, currency, forecast] = await Promise.all([
+    getIncomeTotal(userId, startOfMonth, endOfMonth),
+    getIncomeTotal(userId, startOfLastMonth, new Date(startOfMonth.getTime() - 1)),
+    getUserBaseCurrency(userId),
+    getSpendingForecast(userId, 1)
+  ]);
   
   // Aggregation pipeline for statistics
   const stats = await Expense.aggregate([
@@ -330,13 +674,13 @@ export const getExpenseStats = async (userId: string) => {
         thisMonth: [
           {
             $match: {
-              date: { $gte: startOfMonth }
+              date: { $gte: startOfMonth, $lte: endOfMonth }
             }
           },
           {
             $group: {
               _id: null,
-              total: { $sum: '$amount' },
+              total: { $sum: NET_AMOUNT },
               count: { $sum: 1 }
             }
           }
@@ -355,50 +699,25 @@ export const getExpenseStats = async (userId: string) => {
           {
             $group: {
               _id: null,
-              total: { $sum: '$amount' },
+              total: { $sum: NET_AMOUNT },
               count: { $sum: 1 }
             }
           }
         ],
         
-        // Category breakdown (this month)
+        // Category breakdown (this month, rolled up below)
         categoryBreakdown: [
           {
             $match: {
-              date: { $gte: startOfMonth }
+              date: { $gte: startOfMonth, $lte: endOfMonth }
             }
           },
           {
             $group: {
               _id: '$categoryId',
-              total: { $sum: '$amount' },
+              total: { $sum: NET_AMOUNT },
               count: { $sum: 1 }
             }
-          },
-          {
-            $lookup: {
-              from: 'categories',
-              localField: '_id',
-              foreignField: '_id',
-              as: 'category'
-            }
-          },
-          {
-            $unwind: '$category'
-          },
-          {
-            $project: {
-              categoryId: '$_id',
-              categoryName: '$category.name',
-              categoryIcon: '$category.icon',
-              categoryColor: '$category.color',
-              categoryBudget: '$category.monthlyBudget',
-              total: 1,
-              count: 1
-            }
-          },
-          {
-            $sort: { total: -1 }
           }
         ],
         
@@ -407,7 +726,7 @@ export const getExpenseStats = async (userId: string) => {
           {
             $group: {
               _id: null,
-              total: { $sum: '$amount' },
+              total: { $sum: NET_AMOUNT },
               count: { $sum: 1 }
             }
           }
@@ -418,35 +737,60 @@ export const getExpenseStats = async (userId: string) => {
   
   const result = stats[0];
   
-  // Calculate percentages for category breakdown
+  // Calculate percentages for category breakdown: top-level categories
+  // include their subcategories (listed under them), and a parent's
+  // budget is compared with the rolled-up total
   const thisMonthTotal = result.thisMonth[0]?.total || 0;
-  const categoryBreakdown = result.categoryBreakdown.map((cat: any) => ({
-    ...cat,
-    percentage: thisMonthTotal > 0 ? (cat.total / thisMonthTotal) * 100 : 0,
-    budgetStatus: cat.categoryBudget
+  const toBreakdown = (category: ICategory, total: number, count: number) => ({
+    categoryId: category._id,
+    categoryName: category.name,
+    categoryIcon: category.icon,
+    categoryColor: category.color,
+    categoryBudget: category.monthlyBudget,
+    total,
+    count,
+    percentage: thisMonthTotal > 0 ? (total / thisMonthTotal) * 100 : 0,
+    budgetStatus: category.monthlyBudget
       ? {
-          budget: cat.categoryBudget,
-          spent: cat.total,
-          remaining: cat.categoryBudget - cat.total,
-          percentage: (cat.total / cat.categoryBudget) * 100
+          budget: category.monthlyBudget,
+          spent: total,
+          remaining: category.monthlyBudget - total,
+          percentage: (total / category.monthlyBudget) * 100
         }
       : null
-  }));
+  });
   
-  // Calculate daily average
-  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
-  const currentDay = now.getDate();
+  const categoryBreakdown = (await rollUpCategoryTotals(userId, result.categoryBreakdown))
+    .map(rollup => ({
+      ...toBreakdown(rollup.category, rollup.total, rollup.count),
+      subcategories: rollup.subcategories.map(sub => toBreakdown(sub.category, sub.total, sub.count))
+    }));
+  
+  // Calculate daily average (days elapsed in the period, today included)
+  const currentDay = Math.round(
+    (startOfDay(now, timezone).getTime() - startOfMonth.getTime()) / (24 * 60 * 60 * 1000)
+  ) + 1;
   const dailyAverage = thisMonthTotal / currentDay;
   
-  // Projected monthly total
-  const projectedMonthlyTotal = dailyAverage * daysInMonth;
+  const lastMonthTotal = result.lastMonth[0]?.total || 0;
   
   return {
+    currency,  // All totals are in the user's base currency
+    period: {
+      startDate: startOfMonth,
+      endDate: endOfMonth,
+      lastStartDate: startOfLastMonth,
+      lastEndDate: endOfLastMonth
+    },
     thisMonth: {
       total: result.thisMonth[0]?.total || 0,
       count: result.thisMonth[0]?.count || 0,
       average: dailyAverage,
-      projected: projectedMonthlyTotal
+      projected: forecast.currentMonth.projected,
+      projectedRange: {
+        low: forecast.currentMonth.low,
+        high: forecast.currentMonth.high
+      }
     },
     lastMonth: {
       total: result.lastMonth[0]?.total || 0,
@@ -461,6 +805,20 @@ export const getExpenseStats = async (userId: string) => {
       percentageChange: result.lastMonth[0]?.total
         ? ((thisMonthTotal - result.lastMonth[0].total) / result.lastMonth[0].total) * 100
         : 0
+    },
+    cashFlow: {
+      thisMonth: {
+        income: incomeThisMonth.total,
+        expenses: thisMonthTotal,
+        net: incomeThisMonth.total - thisMonthTotal,
+        savingsRate: calculateSavingsRate(incomeThisMonth.total, thisMonthTotal)
+      },
+      lastMonth: {
+        income: incomeLastMonth.total,
+        expenses: lastMonthTotal,
+        net: incomeLastMonth.total - lastMonthTotal,
+        savingsRate: calculateSavingsRate(incomeLastMonth.total, lastMonthTotal)
+      }
     }
   };
 };
@@ -476,8 +834,9 @@ export const getDailyExpenses = async (
   userId: string,
   days: number = 30
 ) => {
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  // Whole days in the user's timezone
+  const timezone = await getUserTimezone(userId);
+  const startDate = startOfDay(new Date(), timezone, -days);
   
   const dailyExpenses = await Expense.aggregate([
     {
@@ -491,10 +850,11 @@ export const getDailyExpenses = async (
         _id: {
           $dateToString: {
             format: '%Y-%m-%d',
-            date: '$date'
+            date: '$date',
+            timezone
           }
         },
-        total: { $sum: '$amount' },
+        total: { $sum: NET_AMOUNT },
         count: { $sum: 1 }
       }
     },
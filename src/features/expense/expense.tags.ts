@@ -0,0 +1,312 @@
+/**
+ * Expense Tags
+ *
+ * Purpose: Manage the free-form tags on expenses (usage, rename,
+ * merge, delete) and see spending per tag over time
+ *
+ * Key Concepts:
+ * 1. Tags only exist on expenses: a tag is gone once nothing uses it
+ * 2. Tags are exact strings ("Trip" and "trip" are two tags);
+ *    renaming onto a tag that already exists merges the two
+ * 3. Rename / merge / delete also update recurring series (future
+ *    occurrences) and rules that add the tag, so it doesn't come back.
+ *    Rule conditions follow renames but survive a delete (an emptied
+ *    condition would make the rule match every expense).
+ * 4. Spending per tag is the expense report, one tag at a time, so
+ *    ranges and buckets behave exactly like GET /api/expenses/report
+ */
+
+import mongoose from 'mongoose';
+import Expense, { NET_AMOUNT } from './expense.model';
+import RecurringSeries from '../recurring/recurring.model';
+import Rule from '../rule/rule.model';
+import { ExpenseFilters } from './expense.service';
+import { getExpenseReport } from './expense.report';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { escapeRegex } from '../../shared/utils/text.util';
+
+/**
+ * Tag with Usage
+ */
+export interface TagUsage {
+  tag: string;
+  count: number;          // Expenses with the tag
+  total: number;          // Their amount after refunds (base currency)
+  lastUsed: Date;
+}
+
+export const TAG_SPENDING_GROUPS = ['day', 'week', 'month', 'year'] as const;
+
+export type TagSpendingGroupBy = typeof TAG_SPENDING_GROUPS[number];
+
+/**
+ * Tag Spending Options
+ */
+export interface TagSpendingOptions {
+  tags?: string[];              // Default: the top tags in the range
+  startDate?: string | Date;    // Default: current financial month
+  endDate?: string | Date;
+  groupBy?: TagSpendingGroupBy; // Default: month
+  filters?: ExpenseFilters;     // Same filters as the list (dates and tags ignored)
+}
+
+/**
+ * Spending of One Tag in One Bucket
+ */
+export interface TagPeriod {
+  key: string;            // Same keys as the report ("2024-03", "2024-W09"...)
+  startDate?: Date;
+  total: number;
+  count: number;
+}
+
+/**
+ * Spending of One Tag over Time
+ */
+export interface TagSpending {
+  tag: string;
+  total: number;
+  count: number;
+  periods: TagPeriod[];
+}
+
+const TOP_TAGS = 5;
+const MAX_TAGS = 10;
+
+/**
+ * Clean Up a Tag Name
+ */
+const cleanTag = (tag: string): string => {
+  const cleaned = (tag || '').trim();
+
+  if (!cleaned) {
+    throw new BadRequestError('Tag cannot be empty');
+  }
+
+  return cleaned;
+};
+
+/**
+ * Replace Tags in One Array Field
+ *
+ * One pipeline update, so no document is ever left half-merged:
+ * sources are dropped and the target appended unless already there.
+ * Tags are wrapped in $literal (a tag may start with '$').
+ */
+const replaceTags = async (
+  model: mongoose.Model<any>,
+  userId: mongoose.Types.ObjectId,
+  field: string,
+  sources: string[],
+  target: string
+): Promise<number> => {
+  const current = `$${field}`;
+
+  const result = await model.updateMany(
+    { userId, [field]: { $in: sources } },
+    [
+      {
+        $set: {
+          [field]: {
+            $concatArrays: [
+              { $filter: { input: current, cond: { $not: [{ $in: ['$$this', { $literal: sources }] }] } } },
+              { $cond: [{ $in: [{ $literal: target }, current] }, [], { $literal: [target] }] }
+            ]
+          }
+        }
+      }
+    ],
+    { updatePipeline: true }
+  );
+
+  return result.matchedCount;
+};
+
+/**
+ * Get Expense Tags with Usage
+ *
+ * @param userId - User ID
+ * @param search - Only tags containing this (case-insensitive)
+ * @returns Tags, most used first
+ */
+export const getExpenseTags = async (userId: string, search?: string): Promise<TagUsage[]> => {
+  const tagMatch = search && search.trim()
+    ? { tags: { $regex: escapeRegex(search.trim()), $options: 'i' } }
+    : {};
+
+  const tags = await Expense.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId), ...tagMatch } },
+    { $unwind: '$tags' },
+    { $match: tagMatch },
+    {
+      $group: {
+        _id: '$tags',
+        count: { $sum: 1 },
+        total: { $sum: NET_AMOUNT },
+        lastUsed: { $max: '$date' }
+      }
+    },
+    { $sort: { count: -1, _id: 1 } }
+  ]);
+
+  return tags.map(tag => ({
+    tag: tag._id,
+    count: tag.count,
+    total: Math.round(tag.total * 100) / 100,
+    lastUsed: tag.lastUsed
+  }));
+};
+
+/**
+ * Merge Tags into One
+ *
+ * Every expense with any of `tags` gets `into` instead
+ * (`into` may be new or one of the existing tags)
+ *
+ * @param userId - User ID
+ * @param tags - Tags to merge
+ * @param into - Resulting tag
+ * @returns Resulting tag and number of expenses changed
+ */
+export const mergeExpenseTags = async (
+  userId: string,
+  tags: string[],
+  into: string
+): Promise<{ tag: string; updated: number }> => {
+  const target = cleanTag(into);
+  const sources = Array.from(new Set(tags.map(cleanTag))).filter(tag => tag !== target);
+
+  if (sources.length === 0) {
+    throw new BadRequestError('Nothing to merge');
+  }
+
+  const ownerId = new mongoose.Types.ObjectId(userId);
+
+  if (!(await Expense.exists({ userId: ownerId, tags: { $in: sources } }))) {
+    throw new NotFoundError('Tag not found');
+  }
+
+  const updated = await replaceTags(Expense, ownerId, 'tags', sources, target);
+
+  await replaceTags(RecurringSeries, ownerId, 'tags', sources, target);
+  await replaceTags(Rule, ownerId, 'actions.addTags', sources, target);
+  await replaceTags(Rule, ownerId, 'conditions.tags', sources, target);
+
+  return { tag: target, updated };
+};
+
+/**
+ * Rename Tag
+ *
+ * Renaming to a tag that already exists merges them
+ *
+ * @param userId - User ID
+ * @param tag - Current name
+ * @param name - New name
+ * @returns New name and number of expenses changed
+ */
+export const renameExpenseTag = async (
+  userId: string,
+  tag: string,
+  name: string
+): Promise<{ tag: string; updated: number }> => {
+  if (cleanTag(tag) === cleanTag(name)) {
+    throw new BadRequestError('New name is the same as the current one');
+  }
+
+  return mergeExpenseTags(userId, [tag], name);
+};
+
+/**
+ * Delete Tag Everywhere
+ *
+ * Expenses keep everything else; only the tag is removed
+ *
+ * @param userId - User ID
+ * @param tag - Tag to delete
+ * @returns Number of expenses changed
+ */
+export const deleteExpenseTag = async (
+  userId: string,
+  tag: string
+): Promise<{ updated: number }> => {
+  const ownerId = new mongoose.Types.ObjectId(userId);
+  const name = cleanTag(tag);
+
+  const result = await Expense.updateMany(
+    { userId: ownerId, tags: name },
+    { $pull: { tags: name } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new NotFoundError('Tag not found');
+  }
+
+  await RecurringSeries.updateMany({ userId: ownerId, tags: name }, { $pull: { tags: name } });
+  await Rule.updateMany({ userId: ownerId, 'actions.addTags': name }, { $pull: { 'actions.addTags': name } });
+
+  return { updated: result.matchedCount };
+};
+
+/**
+ * Get Spending per Tag over Time
+ *
+ * @param userId - User ID
+ * @param options - Tags, range, bucket size and list filters
+ * @returns One series per tag, every bucket in the range (zeros included)
+ */
+export const getTagSpending = async (
+  userId: string,
+  options: TagSpendingOptions = {}
+) => {
+  const groupBy = options.groupBy || 'month';
+
+  if (!TAG_SPENDING_GROUPS.includes(groupBy)) {
+    throw new BadRequestError(`groupBy must be one of: ${TAG_SPENDING_GROUPS.join(', ')}`);
+  }
+
+  const { tags: _tags, tagMatch: _tagMatch, ...filters } = options.filters || {};
+  const range = { startDate: options.startDate, endDate: options.endDate };
+
+  let tags = Array.from(new Set((options.tags || []).map(tag => tag.trim()).filter(Boolean)));
+
+  // Default: the most spent-on tags in the range
+  if (tags.length === 0) {
+    const byTag = await getExpenseReport(userId, { ...range, groupBy: 'tag', filters });
+
+    tags = byTag.groups
+      .filter(group => group.key !== '' && group.total > 0)
+      .slice(0, TOP_TAGS)
+      .map(group => group.key);
+  }
+
+  if (tags.length > MAX_TAGS) {
+    throw new BadRequestError(`Maximum ${MAX_TAGS} tags at a time`);
+  }
+
+  const reports = await Promise.all(tags.map(tag =>
+    getExpenseReport(userId, { ...range, groupBy, filters: { ...filters, tags: [tag] } })
+  ));
+
+  // Range and currency are the same in every report
+  const base = reports[0] || await getExpenseReport(userId, { ...range, groupBy, filters });
+
+  return {
+    currency: base.currency,
+    timezone: base.timezone,
+    groupBy,
+    startDate: base.current.startDate,
+    endDate: base.current.endDate,
+    tags: tags.map((tag, index): TagSpending => ({
+      tag,
+      total: reports[index].current.total,
+      count: reports[index].current.count,
+      periods: reports[index].groups.map(group => ({
+        key: group.key,
+        startDate: group.startDate,
+        total: group.total,
+        count: group.count
+      }))
+    }))
+  };
+};
@@ -3,16 +3,25 @@
  */
 
 import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
 
 /**
  * Create Expense Schema
  */
 export const createExpenseSchema = Joi.object({
+  // Optional: rules / learned suggestions pick one when omitted
   categoryId: Joi.string()
-    .required()
-    .messages({
-      'any.required': 'Category is required'
-    }),
+    .optional(),
+  
+  // Optional: matched from the description when omitted
+  payeeId: Joi.string()
+    .optional()
+    .allow(null),
+  
+  // Optional: amount is then in the account's currency
+  accountId: Joi.string()
+    .optional()
+    .allow(null),
   
   amount: Joi.number()
     .min(0.01)
@@ -24,6 +33,13 @@ export const createExpenseSchema = Joi.object({
       'any.required': 'Amount is required'
     }),
   
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+  
   description: Joi.string()
     .max(200)
     .trim()
@@ -81,7 +97,10 @@ export const createExpenseSchema = Joi.object({
  */
 export const updateExpenseSchema = Joi.object({
   categoryId: Joi.string().optional(),
+  payeeId: Joi.string().optional().allow(null),
+  accountId: Joi.string().optional().allow(null),
   amount: Joi.number().min(0.01).max(10000000).optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional(),
   description: Joi.string().max(200).trim().optional().allow(''),
   date: Joi.date().optional(),
   paymentMethod: Joi.string()
@@ -110,6 +129,8 @@ export const expenseQuerySchema = Joi.object({
   page: Joi.number().min(1).optional().default(1),
   limit: Joi.number().min(1).max(100).optional().default(20),
   categoryId: Joi.string().optional(),
+  payeeId: Joi.string().optional(),
+  accountId: Joi.string().optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional(),
   minAmount: Joi.number().min(0).optional(),
@@ -117,13 +138,120 @@ export const expenseQuerySchema = Joi.object({
   paymentMethod: Joi.string()
     .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
     .optional(),
-  tags: Joi.string().optional(),  // Comma-separated
+  tags: Joi.alternatives()
+    .try(Joi.string(), Joi.array().items(Joi.string()))
+    .optional(),  // Comma-separated or repeated
+  tagMatch: Joi.string().valid('any', 'all').optional().default('any'),
+  search: Joi.string().max(100).optional(),
   sortBy: Joi.string()
-    .valid('date', 'amount', 'createdAt')
+    .valid('date', 'amount', 'createdAt', 'relevance')
     .optional()
     .default('date'),
   sortOrder: Joi.string()
     .valid('asc', 'desc')
     .optional()
     .default('desc')
-});
\ No newline at end of file
+});
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+const bulkIds = Joi.array()
+  .items(objectId)
+  .min(1)
+  .max(500)
+  .unique()
+  .required()
+  .messages({
+    'array.min': 'At least one expense ID is required',
+    'array.max': 'Maximum 500 expenses per request',
+    'array.unique': 'Duplicate expense IDs',
+    'any.required': 'Expense IDs are required'
+  });
+
+/**
+ * Bulk Create Schema
+ * 
+ * Recurring expenses are created one at a time (they start a series)
+ */
+export const bulkCreateExpenseSchema = Joi.object({
+  expenses: Joi.array()
+    .items(createExpenseSchema.keys({
+      isRecurring: Joi.forbidden(),
+      recurringConfig: Joi.forbidden()
+    }))
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'array.min': 'At least one expense is required',
+      'array.max': 'Maximum 100 expenses per request'
+    }),
+  
+  atomic: Joi.boolean().default(false)
+});
+
+/**
+ * Bulk Update Schema
+ */
+export const bulkUpdateExpenseSchema = Joi.object({
+  ids: bulkIds,
+  categoryId: objectId.optional(),
+  paymentMethod: Joi.string()
+    .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
+    .optional(),
+  setTags: Joi.array().items(Joi.string().max(20)).max(10).optional(),
+  addTags: Joi.array().items(Joi.string().max(20)).min(1).max(10).optional(),
+  removeTags: Joi.array().items(Joi.string().max(20)).min(1).optional(),
+  atomic: Joi.boolean().default(false)
+})
+  .or('categoryId', 'paymentMethod', 'setTags', 'addTags', 'removeTags')
+  .without('setTags', ['addTags', 'removeTags'])
+  .messages({
+    'object.missing': 'Nothing to update',
+    'object.without': 'Use either setTags or addTags / removeTags'
+  });
+
+/**
+ * Bulk Delete Schema
+ */
+export const bulkDeleteExpenseSchema = Joi.object({
+  ids: bulkIds,
+  atomic: Joi.boolean().default(false)
+});
+
+const tagName = Joi.string()
+  .trim()
+  .min(1)
+  .max(20)
+  .messages({
+    'string.empty': 'Tag cannot be empty',
+    'string.max': 'Tag cannot exceed 20 characters'
+  });
+
+/**
+ * Rename Tag Schema
+ */
+export const renameTagSchema = Joi.object({
+  name: tagName.required()
+});
+
+/**
+ * Merge Tags Schema
+ */
+export const mergeTagsSchema = Joi.object({
+  tags: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .min(1)
+    .max(50)
+    .required()
+    .messages({
+      'array.min': 'At least one tag is required',
+      'any.required': 'Tags to merge are required'
+    }),
+
+  into: tagName.required()
+});
@@ -0,0 +1,31 @@
+/**
+ * Forecast Controller
+ */
+
+import { Request, Response } from 'express';
+import * as forecastService from './forecast.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Spending Forecast
+ *
+ * Route: GET /api/forecast?months=3
+ */
+export const getSpendingForecast = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const months = parseInt(req.query.months as string) || 3;
+
+  const forecast = await forecastService.getSpendingForecast(userId, months);
+
+  return sendSuccess(res, forecast);
+};
@@ -0,0 +1,26 @@
+/**
+ * Forecast Routes
+ *
+ * Purpose: Projected spending for this month and the next few
+ */
+
+import { Router } from 'express';
+import * as forecastController from './forecast.controller';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * All forecast routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * End-of-month and next months' spending per category
+ */
+router.get(
+  '/',
+  forecastController.getSpendingForecast
+);
+
+export default router;
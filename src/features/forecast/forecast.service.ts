@@ -0,0 +1,473 @@
+/**
+ * Forecast Service
+ *
+ * Purpose: Project spending for the rest of this month and the
+ * next few months, per category, with confidence bands
+ *
+ * Model (per category):
+ * 1. Level - recent daily spending (last 90 days) with seasonality
+ *    taken out
+ * 2. Seasonality - how each calendar month compared with the average
+ *    month over the last year (needs 12 full months; dampened)
+ * 3. Day pattern - weekday and day-of-month weights spread a month's
+ *    total over its days (weekend shopping, rent on the 1st)
+ * 4. Recurring series and installment plans - known upcoming
+ *    occurrences / installments are added as they are, and their
+ *    expenses are left out of the history above so they aren't
+ *    counted twice
+ *
+ * This month = spent so far + expected for the remaining days.
+ * Bands are an 80% interval from how much the category's monthly
+ * totals have varied (categories treated as independent).
+ *
+ * Days and months are the user's calendar (their timezone). "Month"
+ * means the financial month (see monthStartDay); seasonality is keyed
+ * by the calendar month it starts in. Internally a calendar day is a
+ * plain local Date used only as a label.
+ */
+
+import mongoose from 'mongoose';
+import Expense, { NET_AMOUNT } from '../expense/expense.model';
+import Category from '../category/category.model';
+import { getUpcomingOccurrences } from '../recurring/recurring.service';
+import { getUpcomingInstallments } from '../installment/installment.service';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getUserCalendar } from '../auth/auth.service';
+import { getZonedParts, zonedTime, periodStartDay } from '../../shared/utils/date.util';
+
+/**
+ * Projection with Confidence Band
+ */
+export interface ForecastBand {
+  projected: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Category Forecast (one month)
+ */
+export interface CategoryForecast extends ForecastBand {
+  categoryId: string;
+  categoryName: string;
+  categoryIcon?: string;
+  categoryColor?: string;
+  spent: number;          // Already spent (current month only)
+  recurring: number;      // Known recurring occurrences still to come
+}
+
+/**
+ * Month Forecast
+ */
+export interface MonthForecast extends ForecastBand {
+  month: string;          // YYYY-MM (calendar month it starts in)
+  startDate: Date;
+  endDate: Date;
+  spent: number;
+  recurring: number;
+  categories: CategoryForecast[];
+}
+
+/**
+ * Spending Forecast
+ */
+export interface SpendingForecast {
+  currency: string;
+  confidence: number;     // Band coverage (0.8 = 80%)
+  historyMonths: number;  // Full months of history behind the model
+  currentMonth: MonthForecast & { daysElapsed: number; daysInMonth: number };
+  nextMonths: MonthForecast[];
+}
+
+/**
+ * Fitted Category Model
+ */
+export interface CategoryModel {
+  level: number;          // Daily spending, seasonality removed
+  seasonal: number[];     // By calendar month (0 = January)
+  weekday: number[];      // By weekday (0 = Sunday)
+  dayOfMonth: number[];   // By day of month (index 1-31)
+  cv: number;             // Monthly variation (std / mean)
+}
+
+/**
+ * Financial Month as Calendar Labels (end = next start, exclusive)
+ */
+export interface Period {
+  start: Date;
+  end: Date;
+}
+
+const HISTORY_MONTHS = 24;
+const LEVEL_DAYS = 90;
+const SEASONAL_MIN_MONTHS = 12;
+const SEASONAL_DAMPING = 0.5;       // Keep half of last year's swing
+const WEEKDAY_PRIOR = 4;            // Pseudo-observations pulling weights toward 1
+const DAY_OF_MONTH_PRIOR = 1;
+const MIN_CV_MONTHS = 3;
+const DEFAULT_CV = 0.4;             // Used until there are enough full months
+const Z_80 = 1.2816;
+const DEFAULT_MONTHS = 3;
+const MAX_MONTHS = 6;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const monthKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Blend a Ratio toward 1 (little data → little effect)
+ */
+const shrink = (raw: number, observations: number, prior: number) => {
+  return (observations * raw + prior) / (observations + prior);
+};
+
+/**
+ * Days of a Period
+ */
+const periodDays = (period: Period): Date[] => {
+  const days: Date[] = [];
+  for (let date = new Date(period.start); date < period.end; date.setDate(date.getDate() + 1)) {
+    days.push(new Date(date));
+  }
+  return days;
+};
+
+/**
+ * Fit Category Model
+ *
+ * @param daily - Non-recurring spending by day key
+ * @param days - Observed days (first expense or 24 months ago → today)
+ * @param fullMonths - Complete financial months in the observed range, oldest first
+ */
+export const fitModel = (
+  daily: Map<string, number>,
+  days: Date[],
+  fullMonths: Period[]
+): CategoryModel => {
+  const spentOn = (date: Date) => daily.get(dayKey(date)) || 0;
+
+  // Monthly totals of the complete months
+  const monthTotals = fullMonths.map(period => ({
+    month: period.start.getMonth(),
+    total: periodDays(period).reduce((sum, date) => sum + spentOn(date), 0)
+  }));
+
+  // Seasonality from the last 12 full months
+  const seasonal = new Array(12).fill(1);
+  if (monthTotals.length >= SEASONAL_MIN_MONTHS) {
+    const lastYear = monthTotals.slice(-SEASONAL_MIN_MONTHS);
+    const mean = lastYear.reduce((sum, item) => sum + item.total, 0) / lastYear.length;
+
+    if (mean > 0) {
+      lastYear.forEach(item => {
+        seasonal[item.month] = clamp(1 + SEASONAL_DAMPING * (item.total / mean - 1), 0.5, 2);
+      });
+    }
+  }
+
+  // Level: recent daily spending divided by the season it happened in
+  const recent = days.slice(-LEVEL_DAYS);
+  const recentSpent = recent.reduce((sum, date) => sum + spentOn(date), 0);
+  const recentSeason = recent.reduce((sum, date) => sum + seasonal[date.getMonth()], 0);
+  const level = recentSeason > 0 ? recentSpent / recentSeason : 0;
+
+  // Weekday and day-of-month weights
+  const weekdaySums = new Array(7).fill(0);
+  const weekdayCounts = new Array(7).fill(0);
+  const domSums = new Array(32).fill(0);
+  const domCounts = new Array(32).fill(0);
+  let total = 0;
+
+  days.forEach(date => {
+    const amount = spentOn(date);
+    weekdaySums[date.getDay()] += amount;
+    weekdayCounts[date.getDay()]++;
+    domSums[date.getDate()] += amount;
+    domCounts[date.getDate()]++;
+    total += amount;
+  });
+
+  const dailyMean = days.length > 0 ? total / days.length : 0;
+  const weight = (sum: number, count: number, prior: number) =>
+    dailyMean > 0 && count > 0 ? shrink(sum / count / dailyMean, count, prior) : 1;
+
+  const weekday = weekdaySums.map((sum, index) => weight(sum, weekdayCounts[index], WEEKDAY_PRIOR));
+  const dayOfMonth = domSums.map((sum, index) => weight(sum, domCounts[index], DAY_OF_MONTH_PRIOR));
+
+  // Variation of (deseasonalized) monthly totals
+  let cv = DEFAULT_CV;
+  const recentMonths = monthTotals.slice(-12).map(item => item.total / seasonal[item.month]);
+  if (recentMonths.length >= MIN_CV_MONTHS) {
+    const mean = recentMonths.reduce((sum, value) => sum + value, 0) / recentMonths.length;
+    const variance = recentMonths.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (recentMonths.length - 1);
+    if (mean > 0) {
+      cv = clamp(Math.sqrt(variance) / mean, 0.1, 1.5);
+    }
+  }
+
+  return { level, seasonal, weekday, dayOfMonth, cv };
+};
+
+/**
+ * Expected Variable Spending for a Month
+ *
+ * @param after - Only count days after this one (null = whole month)
+ * @returns Expected amount, the month's full expected total and the
+ *          share of it still to come
+ */
+const expectMonth = (
+  model: CategoryModel,
+  period: Period,
+  after: Date | null = null
+): { expected: number; total: number; share: number } => {
+  const days = periodDays(period);
+  const total = model.level * days.length * model.seasonal[period.start.getMonth()];
+
+  if (total <= 0) {
+    return { expected: 0, total: 0, share: 0 };
+  }
+
+  let all = 0;
+  let remaining = 0;
+
+  days.forEach(date => {
+    const w = model.weekday[date.getDay()] * model.dayOfMonth[date.getDate()];
+    all += w;
+    if (!after || date > after) remaining += w;
+  });
+
+  const share = all > 0 ? remaining / all : 0;
+
+  return { expected: total * share, total, share };
+};
+
+/**
+ * Combine Category Forecasts into a Month
+ *
+ * @param parts - Category forecasts with the std. deviation of their variable part
+ */
+const combineMonth = (
+  period: Period,
+  timezone: string,
+  parts: Array<{ forecast: CategoryForecast; sd: number }>
+): MonthForecast => {
+  const { start, end } = period;
+  const fixed = parts.reduce((sum, p) => sum + p.forecast.spent + p.forecast.recurring, 0);
+  const projected = parts.reduce((sum, p) => sum + p.forecast.projected, 0);
+  const sd = Math.sqrt(parts.reduce((sum, p) => sum + p.sd ** 2, 0));
+  const variable = projected - fixed;
+
+  return {
+    month: monthKey(start),
+    startDate: zonedTime(timezone, start.getFullYear(), start.getMonth(), start.getDate()),
+    endDate: new Date(zonedTime(timezone, end.getFullYear(), end.getMonth(), end.getDate()).getTime() - 1),
+    projected: round(projected),
+    low: round(fixed + Math.max(0, variable - Z_80 * sd)),
+    high: round(projected + Z_80 * sd),
+    spent: round(parts.reduce((sum, p) => sum + p.forecast.spent, 0)),
+    recurring: round(parts.reduce((sum, p) => sum + p.forecast.recurring, 0)),
+    categories: parts
+      .map(p => p.forecast)
+      .filter(f => f.projected > 0)
+      .sort((a, b) => b.projected - a.projected)
+  };
+};
+
+/**
+ * Get Spending Forecast
+ *
+ * @param userId - User ID
+ * @param months - Months to project after the current one (default 3, max 6)
+ * @returns Current month (spent + remaining) and the following months,
+ *          in the user's base currency
+ */
+export const getSpendingForecast = async (
+  userId: string,
+  months: number = DEFAULT_MONTHS
+): Promise<SpendingForecast> => {
+  const horizon = clamp(Math.floor(months) || DEFAULT_MONTHS, 1, MAX_MONTHS);
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
+
+  // Calendar day of an instant, in the user's timezone
+  const toCalendar = (date: Date) => {
+    const parts = getZonedParts(date, timezone);
+    return new Date(parts.year, parts.month, parts.day);
+  };
+
+  // Instant a calendar day starts
+  const toInstant = (date: Date) => zonedTime(timezone, date.getFullYear(), date.getMonth(), date.getDate());
+
+  // Financial month starting in a calendar month
+  const periodAt = (year: number, month: number): Period => ({
+    start: new Date(year, month, periodStartDay(year, month, monthStartDay)),
+    end: new Date(year, month + 1, periodStartDay(year, month + 1, monthStartDay))
+  });
+
+  // Financial month containing a calendar day
+  const periodOf = (date: Date): Period => {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    return date.getDate() >= periodStartDay(year, month, monthStartDay)
+      ? periodAt(year, month)
+      : periodAt(year, month - 1);
+  };
+
+  const now = new Date();
+  const today = toCalendar(now);
+  const current = periodOf(today);
+  const year = current.start.getFullYear();
+  const month = current.start.getMonth();
+
+  // Query boundaries (instants)
+  const monthStartAt = toInstant(current.start);
+  const monthEndAt = new Date(toInstant(current.end).getTime() - 1);
+  const historyStartAt = toInstant(periodAt(year, month - HISTORY_MONTHS).start);
+  const horizonEndAt = new Date(toInstant(periodAt(year, month + horizon).end).getTime() - 1);
+  const horizonDays = Math.ceil((horizonEndAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+
+  const [history, thisMonth, firstExpense, categories, upcoming, installments, currency] = await Promise.all([
+    // Daily non-recurring spending per category
+    Expense.aggregate([
+      {
+        $match: {
+          userId: userObjectId,
+          date: { $gte: historyStartAt, $lte: now },
+          recurringSeriesId: null,
+          installmentPlanId: null
+        }
+      },
+      {
+        $group: {
+          _id: {
+            categoryId: '$categoryId',
+            day: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone } }
+          },
+          total: { $sum: NET_AMOUNT }
+        }
+      }
+    ]),
+    // Everything spent this month (recurring included)
+    Expense.aggregate([
+      {
+        $match: {
+          userId: userObjectId,
+          date: { $gte: monthStartAt, $lte: monthEndAt }
+        }
+      },
+      {
+        $group: {
+          _id: '$categoryId',
+          total: { $sum: NET_AMOUNT }
+        }
+      }
+    ]),
+    Expense.findOne({ userId: userObjectId, date: { $gte: historyStartAt } })
+      .sort({ date: 1 })
+      .select('date')
+      .lean(),
+    Category.find({ userId: userObjectId }).select('name icon color').lean(),
+    getUpcomingOccurrences(userId, horizonDays),
+    getUpcomingInstallments(userId, horizonDays),
+    getUserBaseCurrency(userId)
+  ]);
+
+  // Observed range: first expense (within the history window) → today
+  const firstDay = firstExpense ? toCalendar(firstExpense.date) : today;
+  const observedStart = firstDay < today ? firstDay : today;
+
+  const days: Date[] = [];
+  for (let date = new Date(observedStart); date <= today; date.setDate(date.getDate() + 1)) {
+    days.push(new Date(date));
+  }
+
+  const fullMonths: Period[] = [];
+  for (let offset = -HISTORY_MONTHS; offset < 0; offset++) {
+    const period = periodAt(year, month + offset);
+    if (period.start >= observedStart) fullMonths.push(period);
+  }
+
+  // Daily spending by category
+  const dailyByCategory = new Map<string, Map<string, number>>();
+  history.forEach(row => {
+    const id = row._id.categoryId.toString();
+    if (!dailyByCategory.has(id)) dailyByCategory.set(id, new Map());
+    dailyByCategory.get(id)!.set(row._id.day, row.total);
+  });
+
+  const spentByCategory = new Map<string, number>(
+    thisMonth.map(row => [row._id.toString(), row.total])
+  );
+
+  // Known recurring occurrences and installments by month and category
+  // (overdue ones not generated yet still land in the current month)
+  const currentKey = monthKey(current.start);
+  const recurringByMonth = new Map<string, Map<string, number>>();
+  [...upcoming.filter(occurrence => !occurrence.isSkipped), ...installments]
+    .filter(occurrence => occurrence.date <= horizonEndAt)
+    .forEach(occurrence => {
+      const occurrenceKey = monthKey(periodOf(toCalendar(occurrence.date)).start);
+      const key = occurrenceKey < currentKey ? currentKey : occurrenceKey;
+      if (!recurringByMonth.has(key)) recurringByMonth.set(key, new Map());
+      const byCategory = recurringByMonth.get(key)!;
+      byCategory.set(occurrence.categoryId, (byCategory.get(occurrence.categoryId) || 0) + occurrence.amount);
+    });
+
+  const models = new Map(categories.map(category => [
+    category._id.toString(),
+    fitModel(dailyByCategory.get(category._id.toString()) || new Map(), days, fullMonths)
+  ]));
+
+  const forecastMonth = (period: Period, isCurrent: boolean) => {
+    const recurring = recurringByMonth.get(monthKey(period.start));
+
+    return combineMonth(period, timezone, categories.map(category => {
+      const id = category._id.toString();
+      const model = models.get(id)!;
+      const spent = isCurrent ? spentByCategory.get(id) || 0 : 0;
+      const recurringAmount = recurring?.get(id) || 0;
+
+      const { expected, total, share } = expectMonth(model, period, isCurrent ? today : null);
+      // Fewer days left → less room for surprises
+      const sd = model.cv * total * Math.sqrt(share);
+
+      const fixed = spent + recurringAmount;
+
+      return {
+        sd,
+        forecast: {
+          categoryId: id,
+          categoryName: category.name,
+          categoryIcon: category.icon,
+          categoryColor: category.color,
+          spent: round(spent),
+          recurring: round(recurringAmount),
+          projected: round(fixed + expected),
+          low: round(fixed + Math.max(0, expected - Z_80 * sd)),
+          high: round(fixed + expected + Z_80 * sd)
+        }
+      };
+    }));
+  };
+
+  const nextMonths: MonthForecast[] = [];
+  for (let offset = 1; offset <= horizon; offset++) {
+    nextMonths.push(forecastMonth(periodAt(year, month + offset), false));
+  }
+
+  return {
+    currency,
+    confidence: 0.8,
+    historyMonths: fullMonths.length,
+    currentMonth: {
+      ...forecastMonth(current, true),
+      daysElapsed: daysBetween(current.start, today) + 1,
+      daysInMonth: daysBetween(current.start, current.end)
+    },
+    nextMonths
+  };
+};
@@ -0,0 +1,215 @@
+/**
+ * Import Controller
+ */
+
+import { Request, Response } from 'express';
+import * as importService from './import.service';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Preview Import
+ *
+ * Route: POST /api/imports/preview
+ * Body: { format, content, fileName?, profileId? | mapping?, saveProfileAs?, currency? }
+ */
+export const previewImport = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const preview = await importService.previewImport(userId, req.body);
+
+  return sendSuccess(
+    res,
+    preview,
+    `${preview.summary.totalRows} transaction(s) parsed, ${preview.summary.duplicates} possible duplicate(s)`,
+    201
+  );
+};
+
+/**
+ * Get Imports
+ *
+ * Route: GET /api/imports?page=1&limit=20
+ */
+export const getImports = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const result = await importService.getImports(userId, page, limit);
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Get Import (rows + summary)
+ *
+ * Route: GET /api/imports/:id
+ */
+export const getImportById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const importId = req.params.id;
+
+  const preview = await importService.getImportPreview(userId, importId);
+
+  return sendSuccess(res, preview);
+};
+
+/**
+ * Update Import Rows
+ *
+ * Route: PATCH /api/imports/:id/rows
+ * Body: { rows: [{ index, include?, categoryId? }] }
+ */
+export const updateImportRows = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const importId = req.params.id;
+
+  const preview = await importService.updateImportRows(userId, importId, req.body);
+
+  return sendSuccess(
+    res,
+    preview,
+    'Import updated successfully'
+  );
+};
+
+/**
+ * Commit Import
+ *
+ * Route: POST /api/imports/:id/commit
+ */
+export const commitImport = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const importId = req.params.id;
+
+  const result = await importService.commitImport(userId, importId);
+
+  return sendSuccess(
+    res,
+    result,
+    `${result.import.createdExpenses} expense(s) and ${result.import.createdIncomes} income(s) imported`
+  );
+};
+
+/**
+ * Rollback Import
+ *
+ * Route: POST /api/imports/:id/rollback
+ */
+export const rollbackImport = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const importId = req.params.id;
+
+  const result = await importService.rollbackImport(userId, importId);
+
+  return sendSuccess(
+    res,
+    result,
+    'Import rolled back successfully'
+  );
+};
+
+/**
+ * Discard Import
+ *
+ * Route: DELETE /api/imports/:id
+ */
+export const deleteImport = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const importId = req.params.id;
+
+  await importService.deleteImport(userId, importId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Import deleted successfully'
+  );
+};
+
+/**
+ * Get Import Profiles
+ *
+ * Route: GET /api/imports/profiles
+ */
+export const getProfiles = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const profiles = await importService.getProfiles(userId);
+
+  return sendSuccess(res, profiles);
+};
+
+/**
+ * Create Import Profile
+ *
+ * Route: POST /api/imports/profiles
+ */
+export const createProfile = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const profile = await importService.createProfile(userId, req.body);
+
+  return sendSuccess(
+    res,
+    profile,
+    'Import profile created successfully',
+    201
+  );
+};
+
+/**
+ * Update Import Profile
+ *
+ * Route: PUT /api/imports/profiles/:id
+ */
+export const updateProfile = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const profileId = req.params.id;
+
+  const profile = await importService.updateProfile(userId, profileId, req.body);
+
+  return sendSuccess(
+    res,
+    profile,
+    'Import profile updated successfully'
+  );
+};
+
+/**
+ * Delete Import Profile
+ *
+ * Route: DELETE /api/imports/profiles/:id
+ */
+export const deleteProfile = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const profileId = req.params.id;
+
+  await importService.deleteProfile(userId, profileId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Import profile deleted successfully'
+  );
+};
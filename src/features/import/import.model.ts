@@ -0,0 +1,284 @@
+/**
+ * Statement Import Models
+ *
+ * Purpose: Import bank / mobile-banking statements as expenses
+ *
+ * Models:
+ * 1. ImportProfile - Saved CSV column mapping (per bank)
+ * 2. ImportBatch - One uploaded file: parsed rows, duplicate
+ *    detection, category mapping and commit/rollback status
+ *
+ * Every expense created by an import carries the batch id
+ * (Expense.importId) so a bad import can be rolled back.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export type ImportFormat = 'csv' | 'ofx' | 'qif';
+
+export const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY'
+] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+/**
+ * CSV Column Mapping
+ *
+ * Column names refer to the CSV header (case-insensitive).
+ * Either `amountColumn` (signed) or `debitColumn`/`creditColumn`.
+ */
+export interface IColumnMapping {
+  delimiter: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  categoryColumn?: string;
+  referenceColumn?: string;
+  dateFormat: DateFormat;
+  negativeIsExpense: boolean;
+}
+
+/**
+ * Import Profile Interface
+ */
+export interface IImportProfile extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  mapping: IColumnMapping;
+  currency?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Import Row (embedded)
+ */
+export interface IImportRow {
+  index: number;
+  date: Date;
+  amount: number;
+  type: 'expense' | 'income';
+  description: string;
+  externalId?: string;
+  rawCategory?: string;
+  categoryId?: mongoose.Types.ObjectId | null;
+  categorySource?: 'rule' | 'file' | 'payee' | 'history' | 'default' | 'manual' | null;
+  payeeId?: mongoose.Types.ObjectId | null;
+  tags?: string[];                 // From matching rules
+  paymentMethod?: string;          // From matching rules
+  duplicateOf?: mongoose.Types.ObjectId | null;
+  duplicateScore: number;
+  include: boolean;
+  createdId?: mongoose.Types.ObjectId | null;
+}
+
+/**
+ * Import Batch Interface
+ */
+export interface IImportBatch extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  fileName?: string;
+  format: ImportFormat;
+  profileId?: mongoose.Types.ObjectId | null;
+  currency?: string;
+  status: 'preview' | 'committed' | 'rolled_back';
+  rows: IImportRow[];
+  parseErrors: Array<{ row: number; error: string }>;
+  createdExpenses: number;
+  createdIncomes: number;
+  committedAt?: Date | null;
+  rolledBackAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Column Mapping Schema (Embedded)
+ */
+const ColumnMappingSchema = new Schema<IColumnMapping>(
+  {
+    delimiter: { type: String, default: ',' },
+    dateColumn: { type: String, required: [true, 'Date column is required'] },
+    descriptionColumn: { type: String, required: [true, 'Description column is required'] },
+    amountColumn: { type: String },
+    debitColumn: { type: String },
+    creditColumn: { type: String },
+    categoryColumn: { type: String },
+    referenceColumn: { type: String },
+    dateFormat: { type: String, enum: DATE_FORMATS, default: 'YYYY-MM-DD' },
+    negativeIsExpense: { type: Boolean, default: true }
+  },
+  { _id: false }
+);
+
+/**
+ * Import Profile Schema
+ */
+const ImportProfileSchema = new Schema<IImportProfile>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Profile name is required'],
+      trim: true,
+      maxlength: [50, 'Profile name cannot exceed 50 characters']
+    },
+
+    mapping: {
+      type: ColumnMappingSchema,
+      required: true
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+ImportProfileSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+/**
+ * Import Row Schema (Embedded)
+ */
+const ImportRowSchema = new Schema<IImportRow>(
+  {
+    index: { type: Number, required: true },
+    date: { type: Date, required: true },
+    amount: { type: Number, required: true },
+    type: { type: String, enum: ['expense', 'income'], required: true },
+    description: { type: String, default: '' },
+    externalId: { type: String },
+    rawCategory: { type: String },
+    categoryId: { type: Schema.Types.ObjectId, ref: 'Category', default: null },
+    categorySource: {
+      type: String,
+      enum: ['rule', 'file', 'payee', 'history', 'default', 'manual', null],
+      default: null
+    },
+    payeeId: { type: Schema.Types.ObjectId, ref: 'Payee', default: null },
+    tags: { type: [String], default: undefined },
+    paymentMethod: { type: String },
+    duplicateOf: { type: Schema.Types.ObjectId, default: null },   // Expense or Income
+    duplicateScore: { type: Number, default: 0 },
+    include: { type: Boolean, default: true },
+    createdId: { type: Schema.Types.ObjectId, default: null }
+  },
+  { _id: false }
+);
+
+/**
+ * Import Batch Schema
+ */
+const ImportBatchSchema = new Schema<IImportBatch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    fileName: {
+      type: String,
+      trim: true
+    },
+
+    format: {
+      type: String,
+      enum: ['csv', 'ofx', 'qif'],
+      required: true
+    },
+
+    profileId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ImportProfile',
+      default: null
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    },
+
+    status: {
+      type: String,
+      enum: ['preview', 'committed', 'rolled_back'],
+      default: 'preview'
+    },
+
+    rows: {
+      type: [ImportRowSchema],
+      default: []
+    },
+
+    // Rows that could not be parsed (bad date / amount)
+    parseErrors: {
+      type: [{ row: Number, error: String, _id: false }],
+      default: []
+    },
+
+    createdExpenses: {
+      type: Number,
+      default: 0
+    },
+
+    createdIncomes: {
+      type: Number,
+      default: 0
+    },
+
+    committedAt: {
+      type: Date,
+      default: null
+    },
+
+    rolledBackAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+ImportBatchSchema.index({ userId: 1, createdAt: -1 });
+
+export const ImportProfile = mongoose.model<IImportProfile>('ImportProfile', ImportProfileSchema);
+
+const ImportBatch = mongoose.model<IImportBatch>('ImportBatch', ImportBatchSchema);
+
+export default ImportBatch;
@@ -0,0 +1,314 @@
+/**
+ * Statement Parsers
+ *
+ * Purpose: Turn raw statement files into uniform transaction rows
+ *
+ * Supported formats:
+ * 1. CSV - any bank export, described by a column mapping
+ * 2. OFX - <STMTTRN> blocks (SGML 1.x and XML 2.x)
+ * 3. QIF - D/T/P/M/L/N fields, records terminated by ^
+ *
+ * Amounts come out positive; the sign decides `type`
+ * (money out → expense, money in → income).
+ */
+
+import { parseCsvRecords } from '../../shared/utils/csv.util';
+import { IColumnMapping, DateFormat } from './import.model';
+
+/**
+ * Parsed Statement Row
+ */
+export interface ParsedRow {
+  index: number;
+  date: Date;
+  amount: number;
+  type: 'expense' | 'income';
+  description: string;
+  externalId?: string;
+  rawCategory?: string;
+}
+
+/**
+ * Parse Result
+ */
+export interface ParseResult {
+  rows: ParsedRow[];
+  errors: Array<{ row: number; error: string }>;
+  currency?: string;    // Declared by the file (OFX CURDEF)
+}
+
+/**
+ * Parse Amount
+ *
+ * Handles thousands separators, currency symbols,
+ * "(12.50)" and "12.50-" negatives
+ *
+ * @returns Signed number or NaN
+ */
+export const parseAmount = (value: string = ''): number => {
+  let text = value.trim();
+
+  if (!text) {
+    return NaN;
+  }
+
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const cleaned = text.replace(/[^0-9.\-]/g, '');
+  const amount = parseFloat(cleaned);
+
+  if (isNaN(amount)) {
+    return NaN;
+  }
+
+  return negative ? -Math.abs(amount) : amount;
+};
+
+/**
+ * Parse Date by Format
+ *
+ * Dates are taken as UTC midnight (statements have no time of day).
+ * Two-digit years are read as 20xx; QIF's "1/15'25" is accepted.
+ *
+ * @returns Date or null if invalid
+ */
+export const parseDate = (value: string = '', format: DateFormat = 'YYYY-MM-DD'): Date | null => {
+  const parts = value.trim().split(/[\/\-.' ]+/).filter(Boolean);
+
+  if (parts.length < 3) {
+    return null;
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case 'DD/MM/YYYY':
+    case 'DD-MM-YYYY':
+    case 'DD.MM.YYYY':
+      [day, month, year] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      [year, month, day] = parts.map(Number);
+  }
+
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject overflow (e.g. 31/02 → 3 March)
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+};
+
+/**
+ * Build Row from Signed Amount
+ */
+const toRow = (
+  index: number,
+  date: Date,
+  signedAmount: number,
+  description: string,
+  extra: { externalId?: string; rawCategory?: string; negativeIsExpense?: boolean } = {}
+): ParsedRow => {
+  const { negativeIsExpense = true, ...rest } = extra;
+  const isExpense = negativeIsExpense ? signedAmount < 0 : signedAmount > 0;
+
+  return {
+    index,
+    date,
+    amount: Math.round(Math.abs(signedAmount) * 100) / 100,
+    type: isExpense ? 'expense' : 'income',
+    description: description.trim().slice(0, 200),
+    ...rest
+  };
+};
+
+/**
+ * Parse CSV Statement
+ *
+ * @param content - Raw CSV content (first row is the header)
+ * @param mapping - Column mapping (saved profile or ad-hoc)
+ */
+export const parseCsvStatement = (content: string, mapping: IColumnMapping): ParseResult => {
+  const records = parseCsvRecords(content, mapping.delimiter || ',');
+  const rows: ParsedRow[] = [];
+  const errors: ParseResult['errors'] = [];
+
+  const column = (record: Record<string, string>, name?: string): string => {
+    return name ? record[name.trim().toLowerCase()] ?? '' : '';
+  };
+
+  records.forEach((record, i) => {
+    const rowNumber = i + 2;  // +1 header, +1 human numbering
+
+    const date = parseDate(column(record, mapping.dateColumn), mapping.dateFormat);
+    if (!date) {
+      errors.push({ row: rowNumber, error: 'Invalid date' });
+      return;
+    }
+
+    let signedAmount: number;
+
+    if (mapping.amountColumn) {
+      signedAmount = parseAmount(column(record, mapping.amountColumn));
+    } else {
+      // Separate debit / credit columns: debit is money out
+      const debit = parseAmount(column(record, mapping.debitColumn));
+      const credit = parseAmount(column(record, mapping.creditColumn));
+      signedAmount = !isNaN(debit) && debit !== 0 ? -Math.abs(debit) : Math.abs(credit);
+    }
+
+    if (isNaN(signedAmount) || signedAmount === 0) {
+      errors.push({ row: rowNumber, error: 'Invalid amount' });
+      return;
+    }
+
+    rows.push(toRow(rowNumber, date, signedAmount, column(record, mapping.descriptionColumn), {
+      externalId: column(record, mapping.referenceColumn) || undefined,
+      rawCategory: column(record, mapping.categoryColumn) || undefined,
+      negativeIsExpense: mapping.amountColumn ? mapping.negativeIsExpense : true
+    }));
+  });
+
+  return { rows, errors };
+};
+
+/**
+ * Read OFX Tag Value
+ *
+ * Works for SGML (<NAME>Shop) and XML (<NAME>Shop</NAME>)
+ */
+const readOfxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Parse OFX Statement
+ *
+ * DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][TZ]; only the date part is used.
+ */
+export const parseOfxStatement = (content: string): ParseResult => {
+  const rows: ParsedRow[] = [];
+  const errors: ParseResult['errors'] = [];
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  blocks.forEach((block, i) => {
+    const rowNumber = i + 1;
+    const posted = readOfxTag(block, 'DTPOSTED');
+    const date = posted.length >= 8
+      ? parseDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`)
+      : null;
+
+    if (!date) {
+      errors.push({ row: rowNumber, error: 'Invalid date' });
+      return;
+    }
+
+    const signedAmount = parseAmount(readOfxTag(block, 'TRNAMT'));
+    if (isNaN(signedAmount) || signedAmount === 0) {
+      errors.push({ row: rowNumber, error: 'Invalid amount' });
+      return;
+    }
+
+    const name = readOfxTag(block, 'NAME');
+    const memo = readOfxTag(block, 'MEMO');
+    const description = name && memo && memo !== name ? `${name} - ${memo}` : name || memo;
+
+    rows.push(toRow(rowNumber, date, signedAmount, description, {
+      externalId: readOfxTag(block, 'FITID') || undefined
+    }));
+  });
+
+  const currency = readOfxTag(content, 'CURDEF').toUpperCase() || undefined;
+
+  return { rows, errors, currency };
+};
+
+/**
+ * Parse QIF Statement
+ *
+ * @param content - Raw QIF content
+ * @param dateFormat - QIF dates are locale dependent (default: MM/DD/YYYY)
+ */
+export const parseQifStatement = (
+  content: string,
+  dateFormat: DateFormat = 'MM/DD/YYYY'
+): ParseResult => {
+  const rows: ParsedRow[] = [];
+  const errors: ParseResult['errors'] = [];
+  let fields: Record<string, string> = {};
+  let rowNumber = 0;
+
+  const flush = () => {
+    if (Object.keys(fields).length === 0) {
+      return;
+    }
+
+    rowNumber++;
+    const date = parseDate(fields.D, dateFormat);
+    const signedAmount = parseAmount(fields.T ?? fields.U);
+
+    if (!date) {
+      errors.push({ row: rowNumber, error: 'Invalid date' });
+    } else if (isNaN(signedAmount) || signedAmount === 0) {
+      errors.push({ row: rowNumber, error: 'Invalid amount' });
+    } else {
+      const description = fields.P && fields.M ? `${fields.P} - ${fields.M}` : fields.P || fields.M || '';
+
+      rows.push(toRow(rowNumber, date, signedAmount, description, {
+        externalId: fields.N || undefined,
+        rawCategory: fields.L ? fields.L.replace(/^\[|\]$/g, '') : undefined
+      }));
+    }
+
+    fields = {};
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+
+    if (!trimmed || trimmed.startsWith('!')) {
+      return;   // Blank line or header (!Type:Bank)
+    }
+
+    if (trimmed === '^') {
+      flush();
+      return;
+    }
+
+    const code = trimmed[0];
+    // Split lines (S/E/$) are ignored; the record total is imported
+    if (!(code in fields) && 'DTUPMLN'.includes(code)) {
+      fields[code] = trimmed.slice(1).trim();
+    }
+  });
+
+  flush();  // File without trailing ^
+
+  return { rows, errors };
+};
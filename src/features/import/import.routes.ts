@@ -0,0 +1,95 @@
+/**
+ * Import Routes
+ */
+
+import { Router } from 'express';
+import * as importController from './import.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  previewImportSchema,
+  updateImportRowsSchema,
+  createProfileSchema,
+  updateProfileSchema
+} from './import.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * Column mapping profiles (before /:id)
+ */
+router.get(
+  '/profiles',
+  importController.getProfiles
+);
+
+router.post(
+  '/profiles',
+  validate(createProfileSchema),
+  importController.createProfile
+);
+
+router.put(
+  '/profiles/:id',
+  validate(updateProfileSchema),
+  importController.updateProfile
+);
+
+router.delete(
+  '/profiles/:id',
+  importController.deleteProfile
+);
+
+/**
+ * Parse a statement file into a preview batch
+ */
+router.post(
+  '/preview',
+  validate(previewImportSchema),
+  importController.previewImport
+);
+
+/**
+ * Import history
+ */
+router.get(
+  '/',
+  importController.getImports
+);
+
+router.get(
+  '/:id',
+  importController.getImportById
+);
+
+/**
+ * Review rows (include/exclude, category) before commit
+ */
+router.patch(
+  '/:id/rows',
+  validate(updateImportRowsSchema),
+  importController.updateImportRows
+);
+
+/**
+ * Commit / rollback
+ */
+router.post(
+  '/:id/commit',
+  importController.commitImport
+);
+
+router.post(
+  '/:id/rollback',
+  importController.rollbackImport
+);
+
+router.delete(
+  '/:id',
+  importController.deleteImport
+);
+
+export default router;
@@ -0,0 +1,834 @@
+/**
+ * Import Service
+ *
+ * Purpose: Statement import workflow
+ *
+ * Flow:
+ * 1. Preview - parse file, map categories, flag duplicates (nothing saved
+ *    to expenses yet; the parsed batch is stored for review)
+ * 2. Review - client toggles rows / changes categories
+ * 3. Commit - all included rows inserted in one batch tagged with importId
+ * 4. Rollback - delete everything carrying the importId
+ *
+ * Duplicate Detection:
+ * - Same bank transaction id (FITID / reference) → duplicate
+ * - Otherwise same amount, date within ±2 days and similar description
+ */
+
+import mongoose from 'mongoose';
+import ImportBatch, {
+  ImportProfile,
+  IImportBatch,
+  IImportProfile,
+  IImportRow,
+  IColumnMapping,
+  ImportFormat
+} from './import.model';
+import {
+  ParseResult,
+  ParsedRow,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement
+} from './import.parser';
+import Expense, { IExpense } from '../expense/expense.model';
+import Income from '../income/income.model';
+import Category from '../category/category.model';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+import { toBaseCurrency } from '../currency/currency.service';
+import { deleteExpenseReceipts } from '../receipt/receipt.service';
+import { unlinkExpense } from '../split/split.service';
+import { analyzeExpense, deleteExpenseAnomalies } from '../anomaly/anomaly.service';
+import { deleteExpenseRefunds } from '../refund/refund.service';
+import { unlinkInstallmentExpenses } from '../installment/installment.service';
+import { getActiveRules, getCategorizationHistory } from '../rule/rule.service';
+import { buildPayeeMatcher } from '../payee/payee.service';
+import { applyRules, suggestFromHistory } from '../rule/rule.engine';
+import { NotFoundError, BadRequestError, ConflictError } from '../../shared/utils/error.util';
+import { runInTransaction } from '../../shared/utils/transaction.util';
+import { textSimilarity, normalizeText } from '../../shared/utils/text.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Preview Import DTO
+ */
+export interface PreviewImportDTO {
+  format: ImportFormat;
+  content: string;
+  fileName?: string;
+  profileId?: string;              // CSV: saved mapping
+  mapping?: IColumnMapping;        // CSV: ad-hoc mapping
+  saveProfileAs?: string;          // CSV: save ad-hoc mapping as a profile
+  currency?: string;               // Statement currency (default: profile / file / base)
+}
+
+/**
+ * Update Import Rows DTO
+ */
+export interface UpdateImportRowsDTO {
+  rows: Array<{
+    index: number;
+    include?: boolean;
+    categoryId?: string;
+  }>;
+}
+
+/**
+ * Import Profile DTO
+ */
+export interface ImportProfileDTO {
+  name: string;
+  mapping: IColumnMapping;
+  currency?: string;
+}
+
+/**
+ * Import Summary
+ */
+export interface ImportSummary {
+  totalRows: number;
+  expenses: number;
+  incomes: number;
+  duplicates: number;
+  included: number;
+  uncategorized: number;
+  errors: number;
+}
+
+/**
+ * Import Preview
+ */
+export interface ImportPreview {
+  import: IImportBatch;
+  summary: ImportSummary;
+}
+
+/**
+ * Limits & thresholds
+ */
+const MAX_ROWS = 5000;
+const DUPLICATE_WINDOW_DAYS = 2;
+const DUPLICATE_SIMILARITY = 0.5;
+const HISTORY_SIMILARITY = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Existing transaction (for duplicate detection)
+ */
+interface ExistingTransaction {
+  _id: mongoose.Types.ObjectId;
+  date: Date;
+  amount: number;
+  originalAmount?: number;
+  description?: string;
+  externalId?: string;
+}
+
+/**
+ * Summarize Batch
+ */
+const summarizeBatch = (batch: IImportBatch): ImportSummary => {
+  const rows = batch.rows;
+
+  return {
+    totalRows: rows.length,
+    expenses: rows.filter(row => row.type === 'expense').length,
+    incomes: rows.filter(row => row.type === 'income').length,
+    duplicates: rows.filter(row => row.duplicateOf).length,
+    included: rows.filter(row => row.include).length,
+    uncategorized: rows.filter(row => row.include && row.type === 'expense' && !row.categoryId).length,
+    errors: batch.parseErrors.length
+  };
+};
+
+/**
+ * Parse File by Format
+ */
+const parseStatement = (
+  format: ImportFormat,
+  content: string,
+  mapping?: IColumnMapping
+): ParseResult => {
+  switch (format) {
+    case 'csv':
+      if (!mapping) {
+        throw new BadRequestError('CSV import requires a column mapping or profile');
+      }
+      if (!mapping.amountColumn && !mapping.debitColumn && !mapping.creditColumn) {
+        throw new BadRequestError('Mapping needs an amount column or debit/credit columns');
+      }
+      return parseCsvStatement(content, mapping);
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'qif':
+      return parseQifStatement(content, mapping?.dateFormat);
+  }
+};
+
+/**
+ * Find Duplicate of a Parsed Row
+ *
+ * @returns Matching transaction id + score (1 = same bank id)
+ */
+const findDuplicate = (
+  row: ParsedRow,
+  existing: ExistingTransaction[]
+): { id: mongoose.Types.ObjectId; score: number } | null => {
+  if (row.externalId) {
+    const exact = existing.find(tx => tx.externalId === row.externalId);
+    if (exact) {
+      return { id: exact._id, score: 1 };
+    }
+  }
+
+  let best: { id: mongoose.Types.ObjectId; score: number } | null = null;
+
+  for (const tx of existing) {
+    const dayDiff = Math.abs(new Date(tx.date).getTime() - row.date.getTime()) / DAY_MS;
+    const amount = tx.originalAmount ?? tx.amount;
+
+    if (dayDiff > DUPLICATE_WINDOW_DAYS + 1 || Math.abs(amount - row.amount) >= 0.01) {
+      continue;
+    }
+
+    // Manually entered expenses often have no description
+    const similarity = tx.description
+      ? textSimilarity(tx.description, row.description)
+      : (dayDiff < 1 ? 1 : 0);
+
+    if (similarity >= DUPLICATE_SIMILARITY && (!best || similarity > best.score)) {
+      best = { id: tx._id, score: Math.round(similarity * 100) / 100 };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Load Existing Transactions around the Statement Period
+ */
+const loadExisting = async (
+  userId: string,
+  rows: ParsedRow[],
+  type: 'expense' | 'income'
+): Promise<ExistingTransaction[]> => {
+  const typed = rows.filter(row => row.type === type);
+
+  if (typed.length === 0) {
+    return [];
+  }
+
+  const times = typed.map(row => row.date.getTime());
+  const windowMs = (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS;
+  const query = {
+    userId: new mongoose.Types.ObjectId(userId),
+    $or: [
+      {
+        date: {
+          $gte: new Date(Math.min(...times) - windowMs),
+          $lte: new Date(Math.max(...times) + windowMs)
+        }
+      },
+      { externalId: { $in: typed.map(row => row.externalId).filter(Boolean) } }
+    ]
+  };
+  const fields = 'date amount originalAmount description externalId';
+
+  const docs = type === 'expense'
+    ? await Expense.find(query).select(fields).lean()
+    : await Income.find(query).select(fields).lean();
+
+  return docs as unknown as ExistingTransaction[];
+};
+
+/**
+ * Build Category Matcher
+ *
+ * Order: user's rules → category named in the file → matched payee's
+ * default category → category of a similar past expense → "Others"
+ * (or first category)
+ */
+const buildCategoryMatcher = async (userId: string) => {
+  const [categories, history, rules, matchPayee] = await Promise.all([
+    Category.find({ userId: new mongoose.Types.ObjectId(userId) }).sort({ order: 1 }).select('name').lean(),
+    getCategorizationHistory(userId),
+    getActiveRules(userId),
+    buildPayeeMatcher(userId)
+  ]);
+
+  const byName = new Map(categories.map(cat => [normalizeText(cat.name), cat._id]));
+  const fallback = categories.find(cat => cat.name.toLowerCase() === 'others') || categories[0];
+
+  return (row: ParsedRow): Pick<IImportRow, 'categoryId' | 'categorySource' | 'payeeId' | 'tags' | 'paymentMethod'> => {
+    const ruleResult = applyRules(rules, row);
+    const payee = matchPayee(row.description);
+    const extras = {
+      payeeId: payee?._id ?? null,
+      tags: ruleResult.addTags.length > 0 ? ruleResult.addTags : undefined,
+      paymentMethod: ruleResult.paymentMethod
+    };
+
+    if (ruleResult.categoryId) {
+      return { ...extras, categoryId: new mongoose.Types.ObjectId(ruleResult.categoryId), categorySource: 'rule' };
+    }
+
+    if (row.rawCategory) {
+      const match = byName.get(normalizeText(row.rawCategory));
+      if (match) {
+        return { ...extras, categoryId: match, categorySource: 'file' };
+      }
+    }
+
+    if (payee?.defaultCategoryId) {
+      return { ...extras, categoryId: payee.defaultCategoryId, categorySource: 'payee' };
+    }
+
+    const [best] = suggestFromHistory(history, row.description, HISTORY_SIMILARITY);
+    if (best) {
+      return { ...extras, categoryId: new mongoose.Types.ObjectId(best.categoryId), categorySource: 'history' };
+    }
+
+    return fallback
+      ? { ...extras, categoryId: fallback._id, categorySource: 'default' }
+      : { ...extras, categoryId: null, categorySource: null };
+  };
+};
+
+/**
+ * Preview Import
+ *
+ * Parses the file and stores a batch in `preview` status
+ *
+ * @param userId - User ID
+ * @param data - File content + format (+ mapping for CSV)
+ * @returns Batch with parsed rows and summary
+ */
+export const previewImport = async (
+  userId: string,
+  data: PreviewImportDTO
+): Promise<ImportPreview> => {
+  let mapping = data.mapping;
+  let profile: IImportProfile | null = null;
+
+  if (data.profileId) {
+    profile = await getProfileById(userId, data.profileId);
+    mapping = profile.mapping;
+  } else if (mapping && data.saveProfileAs) {
+    profile = await createProfile(userId, {
+      name: data.saveProfileAs,
+      mapping,
+      currency: data.currency
+    });
+  }
+
+  const parsed = parseStatement(data.format, data.content, mapping);
+
+  if (parsed.rows.length === 0) {
+    throw new BadRequestError(
+      parsed.errors.length > 0
+        ? `No valid transactions found (${parsed.errors.length} row(s) could not be read)`
+        : 'No transactions found in file'
+    );
+  }
+
+  if (parsed.rows.length > MAX_ROWS) {
+    throw new BadRequestError(`Too many transactions (maximum ${MAX_ROWS} per import)`);
+  }
+
+  const fileCurrency = parsed.currency && (SUPPORTED_CURRENCIES as readonly string[]).includes(parsed.currency)
+    ? parsed.currency
+    : undefined;
+
+  const [existingExpenses, existingIncomes, matchCategory] = await Promise.all([
+    loadExisting(userId, parsed.rows, 'expense'),
+    loadExisting(userId, parsed.rows, 'income'),
+    buildCategoryMatcher(userId)
+  ]);
+
+  const rows: IImportRow[] = parsed.rows.map(row => {
+    const duplicate = findDuplicate(
+      row,
+      row.type === 'expense' ? existingExpenses : existingIncomes
+    );
+
+    return {
+      ...row,
+      ...(row.type === 'expense'
+        ? matchCategory(row)
+        : { categoryId: null, categorySource: null }),
+      duplicateOf: duplicate?.id ?? null,
+      duplicateScore: duplicate?.score ?? 0,
+      include: !duplicate
+    };
+  });
+
+  const batch = await ImportBatch.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    fileName: data.fileName,
+    format: data.format,
+    profileId: profile?._id ?? null,
+    currency: data.currency || profile?.currency || fileCurrency,
+    rows,
+    parseErrors: parsed.errors
+  });
+
+  return {
+    import: batch,
+    summary: summarizeBatch(batch)
+  };
+};
+
+/**
+ * Get Imports (without rows)
+ *
+ * @param userId - User ID
+ * @param page - Page number
+ * @param limit - Items per page
+ * @returns Paginated import batches
+ */
+export const getImports = async (
+  userId: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<IImportBatch>> => {
+  const query = { userId: new mongoose.Types.ObjectId(userId) };
+  const skip = (page - 1) * limit;
+
+  const [imports, total] = await Promise.all([
+    ImportBatch.find(query)
+      .select('-rows')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+
+    ImportBatch.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: imports as IImportBatch[],
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Get Import Batch
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ * @returns Batch with rows
+ */
+export const getImportById = async (
+  userId: string,
+  importId: string
+): Promise<IImportBatch> => {
+  const batch = await ImportBatch.findOne({
+    _id: new mongoose.Types.ObjectId(importId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!batch) {
+    throw new NotFoundError('Import not found');
+  }
+
+  return batch;
+};
+
+/**
+ * Get Import Preview (batch + summary)
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ */
+export const getImportPreview = async (
+  userId: string,
+  importId: string
+): Promise<ImportPreview> => {
+  const batch = await getImportById(userId, importId);
+
+  return {
+    import: batch,
+    summary: summarizeBatch(batch)
+  };
+};
+
+/**
+ * Update Import Rows
+ *
+ * Purpose: Include/exclude rows and change categories before commit
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ * @param data - Row changes (by row index)
+ * @returns Updated preview
+ */
+export const updateImportRows = async (
+  userId: string,
+  importId: string,
+  data: UpdateImportRowsDTO
+): Promise<ImportPreview> => {
+  const batch = await getImportById(userId, importId);
+
+  if (batch.status !== 'preview') {
+    throw new BadRequestError('Only imports in preview can be edited');
+  }
+
+  // Verify all referenced categories belong to user
+  const categoryIds = [...new Set(data.rows.map(row => row.categoryId).filter(Boolean))] as string[];
+  if (categoryIds.length > 0) {
+    const count = await Category.countDocuments({
+      _id: { $in: categoryIds.map(id => new mongoose.Types.ObjectId(id)) },
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (count !== categoryIds.length) {
+      throw new NotFoundError('One or more categories not found');
+    }
+  }
+
+  for (const change of data.rows) {
+    const row = batch.rows.find(r => r.index === change.index);
+
+    if (!row) {
+      throw new BadRequestError(`Row ${change.index} not found in import`);
+    }
+
+    if (change.include !== undefined) {
+      row.include = change.include;
+    }
+
+    if (change.categoryId) {
+      row.categoryId = new mongoose.Types.ObjectId(change.categoryId);
+      row.categorySource = 'manual';
+    }
+  }
+
+  batch.markModified('rows');
+  await batch.save();
+
+  return {
+    import: batch,
+    summary: summarizeBatch(batch)
+  };
+};
+
+/**
+ * Commit Import
+ *
+ * All included rows are inserted together; if any insert fails,
+ * everything already written for this import is removed again.
+ * Imported expenses are then checked for anomalies like manual ones.
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ * @returns Committed batch with summary
+ */
+export const commitImport = async (
+  userId: string,
+  importId: string
+): Promise<ImportPreview> => {
+  const batch = await getImportById(userId, importId);
+
+  if (batch.status !== 'preview') {
+    throw new BadRequestError(`Import is already ${batch.status.replace('_', ' ')}`);
+  }
+
+  const included = batch.rows.filter(row => row.include);
+
+  if (included.length === 0) {
+    throw new BadRequestError('No rows selected for import');
+  }
+
+  if (included.some(row => row.type === 'expense' && !row.categoryId)) {
+    throw new BadRequestError('Every expense row needs a category before commit');
+  }
+
+  // Claim the batch so a double submit can't insert twice
+  const claimed = await ImportBatch.findOneAndUpdate(
+    { _id: batch._id, status: 'preview' },
+    { $set: { status: 'committed', committedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    throw new ConflictError('Import is already being committed');
+  }
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const common = (row: IImportRow) => ({
+    userId: userObjectId,
+    date: row.date,
+    description: row.description || undefined,
+    paymentMethod: 'bank_transfer',
+    externalId: row.externalId,
+    importId: batch._id
+  });
+
+  let created: IExpense[] = [];
+
+  try {
+    const expenseDocs = [];
+    const incomeDocs = [];
+
+    for (const row of included) {
+      const converted = await toBaseCurrency(userId, row.amount, batch.currency, row.date);
+
+      if (row.type === 'expense') {
+        expenseDocs.push({
+          ...common(row),
+          ...converted,
+          categoryId: row.categoryId,
+          payeeId: row.payeeId,
+          paymentMethod: row.paymentMethod || 'bank_transfer',
+          tags: row.tags
+        });
+      } else {
+        incomeDocs.push({ ...common(row), ...converted, source: 'other' });
+      }
+    }
+
+    const [expenses, incomes] = await Promise.all([
+      expenseDocs.length > 0 ? Expense.insertMany(expenseDocs, { ordered: true }) : [],
+      incomeDocs.length > 0 ? Income.insertMany(incomeDocs, { ordered: true }) : []
+    ]);
+
+    // Link rows to created documents (insertMany keeps order)
+    let expenseIndex = 0;
+    let incomeIndex = 0;
+    for (const row of included) {
+      row.createdId = row.type === 'expense'
+        ? expenses[expenseIndex++]._id
+        : incomes[incomeIndex++]._id;
+    }
+
+    batch.status = 'committed';
+    batch.committedAt = claimed.committedAt;
+    batch.createdExpenses = expenses.length;
+    batch.createdIncomes = incomes.length;
+    batch.markModified('rows');
+    await batch.save();
+
+    created = expenses;
+  } catch (error) {
+    // Compensate: remove partial inserts, back to preview
+    await Promise.all([
+      Expense.deleteMany({ userId: userObjectId, importId: batch._id }),
+      Income.deleteMany({ userId: userObjectId, importId: batch._id }),
+      ImportBatch.updateOne(
+        { _id: batch._id },
+        { $set: { status: 'preview', committedAt: null } }
+      )
+    ]);
+
+    throw error;
+  }
+
+  // Flags are stored but not pushed - one notification per row would be noise
+  (async () => {
+    for (const expense of created) {
+      await analyzeExpense(expense, { notify: false });
+    }
+  })().catch(err => {
+    console.error('Failed to analyze imported expenses:', err);
+  });
+
+  return {
+    import: batch,
+    summary: summarizeBatch(batch)
+  };
+};
+
+/**
+ * Rollback Import
+ *
+ * Deletes every expense / income created by the import. Their refunds,
+ * flags, split and installment links are cleaned up in the same
+ * transaction (like a bulk delete).
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ * @returns Deleted counts
+ */
+export const rollbackImport = async (
+  userId: string,
+  importId: string
+): Promise<{ deletedExpenses: number; deletedIncomes: number }> => {
+  const batch = await getImportById(userId, importId);
+
+  if (batch.status !== 'committed') {
+    throw new BadRequestError('Only committed imports can be rolled back');
+  }
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  // Receipts may have been attached after the import
+  // (files are removed once the rows are gone)
+  const expenses = await Expense.find({
+    userId: userObjectId,
+    importId: batch._id
+  }).select('_id receipts');
+  const expenseIds = expenses.map(expense => expense._id);
+
+  const result = await runInTransaction(async session => {
+    for (const expenseId of expenseIds) {
+      await unlinkExpense(expenseId.toString(), session);
+    }
+    await deleteExpenseAnomalies(expenseIds, session);
+    await deleteExpenseRefunds(expenseIds, session);
+    await unlinkInstallmentExpenses(expenseIds, session);
+
+    const deletedExpenses = await Expense.deleteMany(
+      { _id: { $in: expenseIds }, userId: userObjectId },
+      { session }
+    );
+    const deletedIncomes = await Income.deleteMany(
+      { userId: userObjectId, importId: batch._id },
+      { session }
+    );
+
+    batch.status = 'rolled_back';
+    batch.rolledBackAt = new Date();
+    await batch.save({ session });
+
+    return {
+      deletedExpenses: deletedExpenses.deletedCount,
+      deletedIncomes: deletedIncomes.deletedCount
+    };
+  });
+
+  await Promise.all(expenses.map(expense => deleteExpenseReceipts(expense)));
+
+  return result;
+};
+
+/**
+ * Discard Import Preview
+ *
+ * @param userId - User ID
+ * @param importId - Import batch ID
+ */
+export const deleteImport = async (
+  userId: string,
+  importId: string
+): Promise<void> => {
+  const batch = await getImportById(userId, importId);
+
+  if (batch.status === 'committed') {
+    throw new BadRequestError('Roll back the import before deleting it');
+  }
+
+  await batch.deleteOne();
+};
+
+/**
+ * Get Import Profiles
+ *
+ * @param userId - User ID
+ */
+export const getProfiles = async (userId: string): Promise<IImportProfile[]> => {
+  return ImportProfile.find({ userId: new mongoose.Types.ObjectId(userId) })
+    .sort({ name: 1 });
+};
+
+/**
+ * Get Import Profile
+ *
+ * @param userId - User ID
+ * @param profileId - Profile ID
+ */
+export const getProfileById = async (
+  userId: string,
+  profileId: string
+): Promise<IImportProfile> => {
+  const profile = await ImportProfile.findOne({
+    _id: new mongoose.Types.ObjectId(profileId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!profile) {
+    throw new NotFoundError('Import profile not found');
+  }
+
+  return profile;
+};
+
+/**
+ * Create Import Profile
+ *
+ * @param userId - User ID
+ * @param data - Name + column mapping
+ */
+export const createProfile = async (
+  userId: string,
+  data: ImportProfileDTO
+): Promise<IImportProfile> => {
+  const existing = await ImportProfile.findOne({
+    userId: new mongoose.Types.ObjectId(userId),
+    name: data.name
+  });
+
+  if (existing) {
+    throw new ConflictError('Import profile with this name already exists');
+  }
+
+  return ImportProfile.create({
+    ...data,
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+};
+
+/**
+ * Update Import Profile
+ *
+ * @param userId - User ID
+ * @param profileId - Profile ID
+ * @param data - Fields to update
+ */
+export const updateProfile = async (
+  userId: string,
+  profileId: string,
+  data: Partial<ImportProfileDTO>
+): Promise<IImportProfile> => {
+  const profile = await getProfileById(userId, profileId);
+
+  if (data.name && data.name !== profile.name) {
+    const existing = await ImportProfile.findOne({
+      userId: new mongoose.Types.ObjectId(userId),
+      name: data.name
+    });
+
+    if (existing) {
+      throw new ConflictError('Import profile with this name already exists');
+    }
+  }
+
+  Object.assign(profile, data);
+  await profile.save();
+
+  return profile;
+};
+
+/**
+ * Delete Import Profile
+ *
+ * @param userId - User ID
+ * @param profileId - Profile ID
+ */
+export const deleteProfile = async (
+  userId: string,
+  profileId: string
+): Promise<void> => {
+  const profile = await getProfileById(userId, profileId);
+
+  await profile.deleteOne();
+};
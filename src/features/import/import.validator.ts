@@ -0,0 +1,140 @@
+/**
+ * Import Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+import { DATE_FORMATS } from './import.model';
+
+/**
+ * Column Mapping Schema
+ */
+const columnMappingSchema = Joi.object({
+  delimiter: Joi.string()
+    .valid(',', ';', '\t', '|')
+    .default(','),
+
+  dateColumn: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': 'Date column is required'
+    }),
+
+  descriptionColumn: Joi.string()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': 'Description column is required'
+    }),
+
+  amountColumn: Joi.string().max(50).optional(),
+  debitColumn: Joi.string().max(50).optional(),
+  creditColumn: Joi.string().max(50).optional(),
+  categoryColumn: Joi.string().max(50).optional(),
+  referenceColumn: Joi.string().max(50).optional(),
+
+  dateFormat: Joi.string()
+    .valid(...DATE_FORMATS)
+    .default('YYYY-MM-DD')
+    .messages({
+      'any.only': 'Unsupported date format'
+    }),
+
+  negativeIsExpense: Joi.boolean().default(true)
+})
+  .or('amountColumn', 'debitColumn', 'creditColumn')
+  .messages({
+    'object.missing': 'Mapping needs an amount column or debit/credit columns'
+  });
+
+/**
+ * Preview Import Schema
+ */
+export const previewImportSchema = Joi.object({
+  format: Joi.string()
+    .valid('csv', 'ofx', 'qif')
+    .required()
+    .messages({
+      'any.only': 'Format must be csv, ofx or qif',
+      'any.required': 'Format is required'
+    }),
+
+  content: Joi.string()
+    .max(5 * 1024 * 1024)
+    .required()
+    .messages({
+      'string.max': 'File is too large',
+      'any.required': 'File content is required'
+    }),
+
+  fileName: Joi.string().max(255).optional(),
+
+  profileId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Invalid profile ID'
+    }),
+
+  mapping: columnMappingSchema.optional(),
+
+  saveProfileAs: Joi.string().trim().max(50).optional(),
+
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    })
+})
+  .oxor('profileId', 'mapping')
+  .with('saveProfileAs', 'mapping');
+
+/**
+ * Update Import Rows Schema
+ */
+export const updateImportRowsSchema = Joi.object({
+  rows: Joi.array()
+    .items(
+      Joi.object({
+        index: Joi.number().integer().min(0).required(),
+        include: Joi.boolean().optional(),
+        categoryId: Joi.string()
+          .pattern(/^[0-9a-fA-F]{24}$/)
+          .optional()
+          .messages({
+            'string.pattern.base': 'Invalid category ID'
+          })
+      }).or('include', 'categoryId')
+    )
+    .min(1)
+    .required()
+});
+
+/**
+ * Create Import Profile Schema
+ */
+export const createProfileSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': 'Profile name cannot exceed 50 characters',
+      'any.required': 'Profile name is required'
+    }),
+
+  mapping: columnMappingSchema.required(),
+
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional()
+});
+
+/**
+ * Update Import Profile Schema
+ */
+export const updateProfileSchema = Joi.object({
+  name: Joi.string().trim().max(50).optional(),
+  mapping: columnMappingSchema.optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional()
+}).min(1);
@@ -0,0 +1,124 @@
+/**
+ * Income Controller
+ */
+
+import { Request, Response } from 'express';
+import * as incomeService from './income.service';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Create Income
+ */
+export const createIncome = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const income = await incomeService.createIncome(userId, req.body);
+
+  return sendSuccess(
+    res,
+    income,
+    'Income created successfully',
+    201
+  );
+};
+
+/**
+ * Get Incomes (with filters & pagination)
+ */
+export const getIncomes = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await incomeService.getIncomes(userId, req.query);
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Get Single Income
+ */
+export const getIncomeById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const incomeId = req.params.id;
+
+  const income = await incomeService.getIncomeById(userId, incomeId);
+
+  return sendSuccess(res, income);
+};
+
+/**
+ * Update Income
+ */
+export const updateIncome = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const incomeId = req.params.id;
+
+  const income = await incomeService.updateIncome(userId, incomeId, req.body);
+
+  return sendSuccess(
+    res,
+    income,
+    'Income updated successfully'
+  );
+};
+
+/**
+ * Delete Income
+ */
+export const deleteIncome = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const incomeId = req.params.id;
+
+  await incomeService.deleteIncome(userId, incomeId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Income deleted successfully'
+  );
+};
+
+/**
+ * Get Income Sources
+ */
+export const getIncomeSources = async (_req: Request, res: Response): Promise<Response> => {
+  return sendSuccess(res, incomeService.getIncomeSources());
+};
+
+/**
+ * Get Income Statistics
+ */
+export const getIncomeStats = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const stats = await incomeService.getIncomeStats(userId);
+
+  return sendSuccess(res, stats);
+};
+
+/**
+ * Get Monthly Cash Flow
+ */
+export const getMonthlyCashFlow = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const months = parseInt(req.query.months as string) || 6;
+
+  const cashFlow = await incomeService.getMonthlyCashFlow(userId, Math.min(months, 24));
+
+  return sendSuccess(res, cashFlow);
+};
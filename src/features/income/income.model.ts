@@ -0,0 +1,161 @@
+/**
+ * Income Model
+ *
+ * Purpose: Track money coming in (the other side of expenses)
+ *
+ * Features:
+ * 1. Income sources (salary, freelance, gifts, ...)
+ * 2. Date / amount / payment method like expenses
+ * 3. Tags for better organization
+ * 4. Multi-currency (same rules as expenses)
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+/**
+ * Income Sources
+ */
+export const INCOME_SOURCES = [
+  'salary',
+  'freelance',
+  'business',
+  'investment',
+  'gift',
+  'rental',
+  'other'
+] as const;
+
+export type IncomeSource = typeof INCOME_SOURCES[number];
+
+/**
+ * Income Interface
+ */
+export interface IIncome extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  source: IncomeSource;
+  amount: number;
+  currency?: string;
+  originalAmount?: number;
+  exchangeRate?: number;
+  description?: string;
+  date: Date;
+  paymentMethod?: string;
+  accountId?: mongoose.Types.ObjectId | null;
+  tags: string[];
+  importId?: mongoose.Types.ObjectId | null;
+  externalId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Income Schema
+ */
+const IncomeSchema = new Schema<IIncome>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    source: {
+      type: String,
+      enum: INCOME_SOURCES,
+      required: [true, 'Source is required'],
+      default: 'other'
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0'],
+      max: [10000000, 'Amount too large']
+    },
+
+    // Original currency & amount (amount above is in base currency)
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    },
+
+    originalAmount: {
+      type: Number
+    },
+
+    exchangeRate: {
+      type: Number,
+      default: 1
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    date: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+
+    paymentMethod: {
+      type: String,
+      enum: ['cash', 'card', 'mobile_banking', 'bank_transfer', 'other'],
+      default: 'bank_transfer'
+    },
+
+    // Account the money went into (originalAmount, in its currency)
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      default: null
+    },
+
+    tags: {
+      type: [String],
+      default: []
+    },
+
+    // Set on income created by a statement import (rollback by batch)
+    importId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ImportBatch',
+      default: null,
+      index: true
+    },
+
+    externalId: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+/**
+ * Indexes for Performance
+ *
+ * - userId + date: Monthly totals and listing (most common query)
+ * - userId + source: Filter / group by source
+ * - userId + accountId + date: Account balances and history
+ */
+IncomeSchema.index({ userId: 1, date: -1 });
+IncomeSchema.index({ userId: 1, source: 1 });
+IncomeSchema.index({ userId: 1, accountId: 1, date: -1 });
+
+const Income = mongoose.model<IIncome>('Income', IncomeSchema);
+
+export default Income;
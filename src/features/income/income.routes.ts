@@ -0,0 +1,58 @@
+/**
+ * Income Routes
+ */
+
+import { Router } from 'express';
+import * as incomeController from './income.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createIncomeSchema,
+  updateIncomeSchema,
+  incomeQuerySchema
+} from './income.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * Sources & statistics routes (before /:id)
+ */
+router.get('/sources', incomeController.getIncomeSources);
+router.get('/stats', incomeController.getIncomeStats);
+router.get('/cash-flow', incomeController.getMonthlyCashFlow);
+
+/**
+ * CRUD routes
+ */
+router.post(
+  '/',
+  validate(createIncomeSchema),
+  incomeController.createIncome
+);
+
+router.get(
+  '/',
+  validate(incomeQuerySchema),
+  incomeController.getIncomes
+);
+
+router.get(
+  '/:id',
+  incomeController.getIncomeById
+);
+
+router.put(
+  '/:id',
+  validate(updateIncomeSchema),
+  incomeController.updateIncome
+);
+
+router.delete(
+  '/:id',
+  incomeController.deleteIncome
+);
+
+export default router;
@@ -0,0 +1,477 @@
+/**
+ * Income Service
+ *
+ * Purpose: Business logic for income tracking and cash flow
+ *
+ * Features:
+ * 1. CRUD with filtering & pagination (same shape as expenses)
+ * 2. Income totals per source
+ * 3. Net cash flow & savings rate per month
+ */
+
+import Income, { IIncome, IncomeSource, INCOME_SOURCES } from './income.model';
+import Expense, { NET_AMOUNT } from '../expense/expense.model';
+import { NotFoundError } from '../../shared/utils/error.util';
+import mongoose from 'mongoose';
+import { PaginatedResponse } from '../../shared/types/common.types';
+import { toBaseCurrency, getUserBaseCurrency } from '../currency/currency.service';
+import { getUserCalendar } from '../auth/auth.service';
+import { resolveTransactionAccount, ACCOUNT_PAYMENT_METHODS } from '../account/account.service';
+import { getZonedParts, startOfPeriod, endOfPeriod } from '../../shared/utils/date.util';
+
+/**
+ * Create Income DTO
+ */
+export interface CreateIncomeDTO {
+  source: IncomeSource;
+  amount: number;      // In `currency` (default: user's base currency)
+  currency?: string;
+  description?: string;
+  date?: Date;
+  paymentMethod?: string;
+  accountId?: string | null;   // Account the money went into
+  tags?: string[];
+}
+
+/**
+ * Update Income DTO
+ */
+export interface UpdateIncomeDTO extends Partial<CreateIncomeDTO> {}
+
+/**
+ * Income Query Filters
+ */
+export interface IncomeFilters {
+  page?: number;
+  limit?: number;
+  source?: string;
+  startDate?: Date;
+  endDate?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  paymentMethod?: string;
+  accountId?: string;
+  tags?: string;
+  sortBy?: 'date' | 'amount' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Monthly Cash Flow
+ */
+export interface MonthlyCashFlow {
+  month: string;  // YYYY-MM the financial month starts in
+  income: number;
+  expenses: number;
+  net: number;
+  savingsRate: number;
+}
+
+/**
+ * Source display info
+ */
+const SOURCE_INFO: Record<IncomeSource, { name: string; icon: string; color: string }> = {
+  salary: { name: 'Salary', icon: 'work', color: '#27AE60' },
+  freelance: { name: 'Freelance', icon: 'laptop', color: '#2980B9' },
+  business: { name: 'Business', icon: 'store', color: '#8E44AD' },
+  investment: { name: 'Investment', icon: 'trending-up', color: '#16A085' },
+  gift: { name: 'Gift', icon: 'card-giftcard', color: '#E67E22' },
+  rental: { name: 'Rental', icon: 'home', color: '#D35400' },
+  other: { name: 'Other', icon: 'attach-money', color: '#7F8C8D' }
+};
+
+/**
+ * Calculate Savings Rate
+ *
+ * Share of income that was not spent (can be negative)
+ */
+export const calculateSavingsRate = (income: number, expenses: number): number => {
+  if (income <= 0) return 0;
+  return Math.round(((income - expenses) / income) * 100 * 100) / 100;
+};
+
+/**
+ * Get Income Sources
+ *
+ * @returns Available sources with display info
+ */
+export const getIncomeSources = () => {
+  return INCOME_SOURCES.map(source => ({
+    source,
+    ...SOURCE_INFO[source]
+  }));
+};
+
+/**
+ * Create Income
+ *
+ * @param userId - User ID
+ * @param data - Income data
+ * @returns Created income
+ */
+export const createIncome = async (
+  userId: string,
+  data: CreateIncomeDTO
+): Promise<IIncome> => {
+  const date = data.date || new Date();
+
+  // Account: amount is in its currency; payment method follows its type
+  const account = data.accountId
+    ? await resolveTransactionAccount(userId, data.accountId, data.currency)
+    : null;
+
+  const converted = await toBaseCurrency(userId, data.amount, account?.currency ?? data.currency, date);
+
+  const income = await Income.create({
+    ...data,
+    ...converted,
+    userId: new mongoose.Types.ObjectId(userId),
+    accountId: account?._id ?? null,
+    ...(account && { paymentMethod: data.paymentMethod ?? ACCOUNT_PAYMENT_METHODS[account.type] }),
+    date
+  });
+
+  return income;
+};
+
+/**
+ * Get Incomes with Filters & Pagination
+ *
+ * Mirrors getExpenses so clients can share list/filter UI
+ *
+ * @param userId - User ID
+ * @param filters - Query filters
+ * @returns Paginated incomes
+ */
+export const getIncomes = async (
+  userId: string,
+  filters: IncomeFilters
+): Promise<PaginatedResponse<IIncome>> => {
+  const {
+    page = 1,
+    limit = 20,
+    source,
+    startDate,
+    endDate,
+    minAmount,
+    maxAmount,
+    paymentMethod,
+    accountId,
+    tags,
+    sortBy = 'date',
+    sortOrder = 'desc'
+  } = filters;
+
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId)
+  };
+
+  if (source) {
+    query.source = source;
+  }
+
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) {
+      query.date.$gte = new Date(startDate);
+    }
+    if (endDate) {
+      query.date.$lte = new Date(endDate);
+    }
+  }
+
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    query.amount = {};
+    if (minAmount !== undefined) {
+      query.amount.$gte = minAmount;
+    }
+    if (maxAmount !== undefined) {
+      query.amount.$lte = maxAmount;
+    }
+  }
+
+  if (paymentMethod) {
+    query.paymentMethod = paymentMethod;
+  }
+
+  if (accountId) {
+    query.accountId = new mongoose.Types.ObjectId(accountId);
+  }
+
+  // Tags filter (match any of provided tags)
+  if (tags) {
+    const tagArray = tags.split(',').map(t => t.trim());
+    query.tags = { $in: tagArray };
+  }
+
+  const skip = (page - 1) * limit;
+
+  const sort: any = {};
+  sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+
+  const [incomes, total] = await Promise.all([
+    Income.find(query)
+      .sort(sort)
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+
+    Income.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: incomes as IIncome[],
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Get Single Income
+ *
+ * @param userId - User ID
+ * @param incomeId - Income ID
+ * @returns Income
+ */
+export const getIncomeById = async (
+  userId: string,
+  incomeId: string
+): Promise<IIncome> => {
+  const income = await Income.findOne({
+    _id: new mongoose.Types.ObjectId(incomeId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!income) {
+    throw new NotFoundError('Income not found');
+  }
+
+  return income;
+};
+
+/**
+ * Update Income
+ *
+ * @param userId - User ID
+ * @param incomeId - Income ID
+ * @param data - Update data
+ * @returns Updated income
+ */
+export const updateIncome = async (
+  userId: string,
+  incomeId: string,
+  data: UpdateIncomeDTO
+): Promise<IIncome> => {
+  const income = await getIncomeById(userId, incomeId);
+
+  // Account (new, or kept with a new currency): currencies must match
+  const accountId = data.accountId !== undefined ? data.accountId : income.accountId?.toString();
+  if (accountId && (data.accountId !== undefined || data.currency !== undefined)) {
+    await resolveTransactionAccount(
+      userId,
+      accountId,
+      data.currency ?? income.currency ?? await getUserBaseCurrency(userId)
+    );
+  }
+
+  // Re-convert when amount, currency or date (rate date) changes
+  const needsConversion = data.amount !== undefined || data.currency !== undefined || data.date !== undefined;
+  const converted = needsConversion
+    ? await toBaseCurrency(
+        userId,
+        data.amount ?? income.originalAmount ?? income.amount,
+        data.currency ?? income.currency,
+        data.date ?? income.date
+      )
+    : {};
+
+  Object.assign(income, data, converted);
+  await income.save();
+
+  return income;
+};
+
+/**
+ * Delete Income
+ *
+ * @param userId - User ID
+ * @param incomeId - Income ID
+ */
+export const deleteIncome = async (
+  userId: string,
+  incomeId: string
+): Promise<void> => {
+  const income = await getIncomeById(userId, incomeId);
+
+  await income.deleteOne();
+};
+
+/**
+ * Get Income Total for a Date Range
+ *
+ * @param userId - User ID
+ * @param startDate - Range start (inclusive)
+ * @param endDate - Range end (inclusive)
+ * @returns Total and count
+ */
+export const getIncomeTotal = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<{ total: number; count: number }> => {
+  const result = await Income.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        date: { $gte: startDate, $lte: endDate }
+      }
+    },
+    {
+      $group: {
+        _id: null,
+        total: { $sum: '$amount' },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  return {
+    total: result[0]?.total || 0,
+    count: result[0]?.count || 0
+  };
+};
+
+/**
+ * Get Monthly Cash Flow
+ *
+ * Purpose: Income vs expenses for the last N financial months
+ * (oldest first), bucketed like the "this month" figures - a salary
+ * paid on the start day counts towards the month it starts
+ *
+ * @param userId - User ID
+ * @param months - Number of months including current (default: 6)
+ * @returns Monthly income, expenses, net and savings rate
+ */
+export const getMonthlyCashFlow = async (
+  userId: string,
+  months: number = 6
+): Promise<MonthlyCashFlow[]> => {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
+  const now = new Date();
+
+  // Start of each financial month, plus the start of the next one
+  const boundaries = Array.from({ length: months + 1 }, (_, i) =>
+    startOfPeriod(now, timezone, monthStartDay, i - (months - 1))
+  );
+
+  const groupByPeriod = [
+    {
+      $match: {
+        userId: userObjectId,
+        date: { $gte: boundaries[0], $lt: boundaries[months] }
+      }
+    },
+    {
+      $bucket: {
+        groupBy: '$date',
+        boundaries,
+        output: {
+          // Expenses net of refunds (income has none, so it's just amount)
+          total: { $sum: NET_AMOUNT }
+        }
+      }
+    }
+  ];
+
+  const [incomeByPeriod, expensesByPeriod] = await Promise.all([
+    Income.aggregate(groupByPeriod),
+    Expense.aggregate(groupByPeriod)
+  ]);
+
+  const incomeMap = new Map<number, number>(incomeByPeriod.map(p => [new Date(p._id).getTime(), p.total]));
+  const expenseMap = new Map<number, number>(expensesByPeriod.map(p => [new Date(p._id).getTime(), p.total]));
+
+  // Fill every month, even without transactions
+  return boundaries.slice(0, months).map(start => {
+    const { year, month } = getZonedParts(start, timezone);
+    const income = incomeMap.get(start.getTime()) || 0;
+    const expenses = expenseMap.get(start.getTime()) || 0;
+
+    return {
+      month: `${year}-${String(month + 1).padStart(2, '0')}`,
+      income,
+      expenses,
+      net: income - expenses,
+      savingsRate: calculateSavingsRate(income, expenses)
+    };
+  });
+};
+
+/**
+ * Get Income Statistics
+ *
+ * Returns:
+ * - This month / last month totals
+ * - Source breakdown (this month)
+ * - Monthly cash flow (last 6 months)
+ *
+ * @param userId - User ID
+ * @returns Statistics object
+ */
+export const getIncomeStats = async (userId: string) => {
+  // Financial month (user's start day) in the user's timezone
+  const { timezone, monthStartDay } = await getUserCalendar(userId);
+  const now = new Date();
+  const startOfMonth = startOfPeriod(now, timezone, monthStartDay);
+  const endOfMonth = endOfPeriod(now, timezone, monthStartDay);
+  const startOfLastMonth = startOfPeriod(now, timezone, monthStartDay, -1);
+  const endOfLastMonth = endOfPeriod(now, timezone, monthStartDay, -1);
+
+  const [thisMonth, lastMonth, sourceBreakdown, monthly, currency] = await Promise.all([
+    getIncomeTotal(userId, startOfMonth, endOfMonth),
+    getIncomeTotal(userId, startOfLastMonth, endOfLastMonth),
+    Income.aggregate([
+      {
+        $match: {
+          userId: new mongoose.Types.ObjectId(userId),
+          date: { $gte: startOfMonth, $lte: endOfMonth }
+        }
+      },
+      {
+        $group: {
+          _id: '$source',
+          total: { $sum: '$amount' },
+          count: { $sum: 1 }
+        }
+      },
+      {
+        $sort: { total: -1 }
+      }
+    ]),
+    getMonthlyCashFlow(userId, 6),
+    getUserBaseCurrency(userId)
+  ]);
+
+  return {
+    currency,
+    thisMonth,
+    lastMonth,
+    sourceBreakdown: sourceBreakdown.map(item => ({
+      source: item._id,
+      ...SOURCE_INFO[item._id as IncomeSource],
+      total: item.total,
+      count: item.count,
+      percentage: thisMonth.total > 0 ? (item.total / thisMonth.total) * 100 : 0
+    })),
+    monthly
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * Income Input Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+import { INCOME_SOURCES } from './income.model';
+
+/**
+ * Create Income Schema
+ */
+export const createIncomeSchema = Joi.object({
+  source: Joi.string()
+    .valid(...INCOME_SOURCES)
+    .required()
+    .messages({
+      'any.only': 'Invalid income source',
+      'any.required': 'Source is required'
+    }),
+
+  amount: Joi.number()
+    .min(0.01)
+    .max(10000000)
+    .required()
+    .messages({
+      'number.min': 'Amount must be greater than 0',
+      'number.max': 'Amount too large',
+      'any.required': 'Amount is required'
+    }),
+
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+
+  description: Joi.string()
+    .max(200)
+    .trim()
+    .optional()
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 200 characters'
+    }),
+
+  date: Joi.date()
+    .optional()
+    .default(() => new Date()),
+
+  paymentMethod: Joi.string()
+    .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
+    .optional(),
+
+  // Amount is in the account's currency
+  accountId: Joi.string()
+    .optional()
+    .allow(null),
+
+  tags: Joi.array()
+    .items(Joi.string().max(20))
+    .max(10)
+    .optional()
+    .messages({
+      'array.max': 'Maximum 10 tags allowed'
+    })
+});
+
+/**
+ * Update Income Schema
+ */
+export const updateIncomeSchema = Joi.object({
+  source: Joi.string().valid(...INCOME_SOURCES).optional(),
+  amount: Joi.number().min(0.01).max(10000000).optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional(),
+  description: Joi.string().max(200).trim().optional().allow(''),
+  date: Joi.date().optional(),
+  paymentMethod: Joi.string()
+    .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
+    .optional(),
+  accountId: Joi.string().optional().allow(null),
+  tags: Joi.array().items(Joi.string().max(20)).max(10).optional()
+}).min(1);
+
+/**
+ * Query/Filter Schema
+ */
+export const incomeQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional().default(1),
+  limit: Joi.number().min(1).max(100).optional().default(20),
+  source: Joi.string().valid(...INCOME_SOURCES).optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  minAmount: Joi.number().min(0).optional(),
+  maxAmount: Joi.number().optional(),
+  paymentMethod: Joi.string()
+    .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
+    .optional(),
+  accountId: Joi.string().optional(),
+  tags: Joi.string().optional(),  // Comma-separated
+  sortBy: Joi.string()
+    .valid('date', 'amount', 'createdAt')
+    .optional()
+    .default('date'),
+  sortOrder: Joi.string()
+    .valid('asc', 'desc')
+    .optional()
+    .default('desc')
+});
@@ -0,0 +1,140 @@
+/**
+ * Installment Plan Controller
+ */
+
+import { Request, Response } from 'express';
+import * as installmentService from './installment.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { BadRequestError } from '../../shared/utils/error.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Parse Installment Number from the Route
+ */
+const parseNumber = (req: Request): number => {
+  const number = parseInt(req.params.number);
+
+  if (!Number.isInteger(number) || number < 1) {
+    throw new BadRequestError('Invalid installment number');
+  }
+
+  return number;
+};
+
+/**
+ * Get Installment Plans
+ *
+ * Route: GET /api/installments?status=active|completed
+ */
+export const getInstallmentPlans = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plans = await installmentService.getInstallmentPlans(userId, req.query.status as string | undefined);
+
+  return sendSuccess(res, plans);
+};
+
+/**
+ * Get Single Installment Plan (with schedule)
+ *
+ * Route: GET /api/installments/:id
+ */
+export const getInstallmentPlanById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plan = await installmentService.getInstallmentPlanById(userId, req.params.id);
+
+  return sendSuccess(res, plan);
+};
+
+/**
+ * Create Installment Plan
+ *
+ * Route: POST /api/installments
+ * Body: { name, categoryId, principal, interestRate?, installmentCount, startDate, ... }
+ */
+export const createInstallmentPlan = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plan = await installmentService.createInstallmentPlan(userId, req.body);
+
+  return sendSuccess(
+    res,
+    plan,
+    'Installment plan created successfully',
+    201
+  );
+};
+
+/**
+ * Update Installment Plan
+ *
+ * Route: PUT /api/installments/:id
+ */
+export const updateInstallmentPlan = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plan = await installmentService.updateInstallmentPlan(userId, req.params.id, req.body);
+
+  return sendSuccess(res, plan, 'Installment plan updated successfully');
+};
+
+/**
+ * Delete Installment Plan (posted expenses are kept)
+ *
+ * Route: DELETE /api/installments/:id
+ */
+export const deleteInstallmentPlan = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await installmentService.deleteInstallmentPlan(userId, req.params.id);
+
+  return sendSuccess(res, null, 'Installment plan deleted successfully');
+};
+
+/**
+ * Mark Installment Paid
+ *
+ * Route: POST /api/installments/:id/installments/:number/pay
+ * Body: { paidAt? }
+ */
+export const payInstallment = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plan = await installmentService.payInstallment(
+    userId,
+    req.params.id,
+    parseNumber(req),
+    req.body.paidAt
+  );
+
+  return sendSuccess(res, plan, 'Installment marked as paid');
+};
+
+/**
+ * Mark Installment Unpaid
+ *
+ * Route: POST /api/installments/:id/installments/:number/unpay
+ */
+export const unpayInstallment = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const plan = await installmentService.unpayInstallment(userId, req.params.id, parseNumber(req));
+
+  return sendSuccess(res, plan, 'Installment marked as unpaid');
+};
@@ -0,0 +1,249 @@
+/**
+ * Installment Plan Model
+ *
+ * Purpose: Big purchases paid off monthly (card EMI, "phone over 12
+ * months"), so budgets see one installment a month instead of the
+ * whole price at once
+ *
+ * Key Concepts:
+ * 1. The plan holds the terms (principal, annual interest rate,
+ *    number of installments, first due date) and the full schedule,
+ *    computed once on create (standard EMI amortization)
+ * 2. Each installment becomes a normal expense on its due date
+ *    (Expense { installmentPlanId, installmentNumber } is unique)
+ * 3. Installment status:
+ *    - upcoming: not due yet, no expense
+ *    - due: expense posted, not marked paid
+ *    - paid: paid (auto-pay plans are paid as soon as they're posted)
+ * 4. Amounts are in the plan's currency
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export type InstallmentStatus = 'upcoming' | 'due' | 'paid';
+export type InstallmentPlanStatus = 'active' | 'completed';
+
+/**
+ * Installment (embedded)
+ */
+export interface IInstallment {
+  number: number;            // 1-based
+  dueDate: Date;
+  amount: number;            // principal + interest
+  principal: number;
+  interest: number;
+  balance: number;           // Principal still owed after this one
+  status: InstallmentStatus;
+  expenseId?: mongoose.Types.ObjectId | null;
+  paidAt?: Date | null;
+  remindedAt?: Date | null;
+}
+
+/**
+ * Installment Plan Interface
+ */
+export interface IInstallmentPlan extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  categoryId: mongoose.Types.ObjectId;
+  payeeId?: mongoose.Types.ObjectId | null;
+  accountId?: mongoose.Types.ObjectId | null;
+  paymentMethod: string;
+  tags: string[];
+  currency: string;
+  principal: number;
+  interestRate: number;
+  installmentCount: number;
+  startDate: Date;
+  installmentAmount: number;
+  totalInterest: number;
+  totalPayable: number;
+  autoPay: boolean;
+  reminderDays: number;
+  installments: IInstallment[];
+  status: InstallmentPlanStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Installment Schema (Embedded)
+ */
+const InstallmentSchema = new Schema<IInstallment>(
+  {
+    number: { type: Number, required: true },
+    dueDate: { type: Date, required: true },
+    amount: { type: Number, required: true },
+    principal: { type: Number, required: true },
+    interest: { type: Number, required: true },
+    balance: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ['upcoming', 'due', 'paid'],
+      default: 'upcoming'
+    },
+    expenseId: { type: Schema.Types.ObjectId, ref: 'Expense', default: null },
+    paidAt: { type: Date, default: null },
+    remindedAt: { type: Date, default: null }
+  },
+  { _id: false }
+);
+
+/**
+ * Installment Plan Schema
+ */
+const InstallmentPlanSchema = new Schema<IInstallmentPlan>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    // "iPhone 15 (EMI)": description of the generated expenses
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+
+    categoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      required: [true, 'Category is required']
+    },
+
+    payeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payee',
+      default: null
+    },
+
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      default: null
+    },
+
+    paymentMethod: {
+      type: String,
+      enum: ['cash', 'card', 'mobile_banking', 'bank_transfer', 'other'],
+      default: 'card'
+    },
+
+    tags: {
+      type: [String],
+      default: []
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true
+    },
+
+    principal: {
+      type: Number,
+      required: [true, 'Principal is required'],
+      min: [0.01, 'Principal must be greater than 0']
+    },
+
+    // Annual %, 0 for no-cost EMI
+    interestRate: {
+      type: Number,
+      min: [0, 'Interest rate cannot be negative'],
+      default: 0
+    },
+
+    installmentCount: {
+      type: Number,
+      required: [true, 'Number of installments is required'],
+      min: [2, 'At least 2 installments'],
+      max: [120, 'At most 120 installments']
+    },
+
+    // Due date of the first installment
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required']
+    },
+
+    // Monthly installment (the last one absorbs rounding)
+    installmentAmount: {
+      type: Number,
+      required: true
+    },
+
+    totalInterest: {
+      type: Number,
+      required: true
+    },
+
+    totalPayable: {
+      type: Number,
+      required: true
+    },
+
+    // Charged automatically (card EMI): paid as soon as it's due
+    autoPay: {
+      type: Boolean,
+      default: false
+    },
+
+    // Remind this many days before each due date (0 = off)
+    reminderDays: {
+      type: Number,
+      min: 0,
+      max: 30,
+      default: 3
+    },
+
+    installments: {
+      type: [InstallmentSchema],
+      default: []
+    },
+
+    status: {
+      type: String,
+      enum: ['active', 'completed'],
+      default: 'active'
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    },
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Virtual: category
+ */
+InstallmentPlanSchema.virtual('category', {
+  ref: 'Category',
+  localField: 'categoryId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Indexes
+ * - User's plans by status
+ * - Scheduler: active plans with installments not posted yet
+ */
+InstallmentPlanSchema.index({ userId: 1, status: 1, startDate: -1 });
+InstallmentPlanSchema.index({ status: 1, 'installments.status': 1, 'installments.dueDate': 1 });
+
+const InstallmentPlan = mongoose.model<IInstallmentPlan>('InstallmentPlan', InstallmentPlanSchema);
+
+export default InstallmentPlan;
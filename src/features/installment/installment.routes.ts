@@ -0,0 +1,68 @@
+/**
+ * Installment Plan Routes
+ *
+ * Purpose: EMI / installment purchases
+ */
+
+import { Router } from 'express';
+import * as installmentController from './installment.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createInstallmentPlanSchema,
+  updateInstallmentPlanSchema,
+  payInstallmentSchema
+} from './installment.validator';
+
+const router = Router();
+
+/**
+ * All installment routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Plans
+ */
+router.get(
+  '/',
+  installmentController.getInstallmentPlans
+);
+
+router.post(
+  '/',
+  validate(createInstallmentPlanSchema),
+  installmentController.createInstallmentPlan
+);
+
+router.get(
+  '/:id',
+  installmentController.getInstallmentPlanById
+);
+
+router.put(
+  '/:id',
+  validate(updateInstallmentPlanSchema),
+  installmentController.updateInstallmentPlan
+);
+
+router.delete(
+  '/:id',
+  installmentController.deleteInstallmentPlan
+);
+
+/**
+ * Paid / unpaid status of one installment
+ */
+router.post(
+  '/:id/installments/:number/pay',
+  validate(payInstallmentSchema),
+  installmentController.payInstallment
+);
+
+router.post(
+  '/:id/installments/:number/unpay',
+  installmentController.unpayInstallment
+);
+
+export default router;
@@ -0,0 +1,48 @@
+/**
+ * Installment Scheduler
+ *
+ * Purpose: Post installments as expenses when they come due and
+ * remind before each due date
+ */
+
+import { postAllDueInstallments, sendDueReminders } from './installment.service';
+
+/**
+ * Post Due Installments and Send Reminders
+ *
+ * Safe to run repeatedly - posting is idempotent and each
+ * installment is reminded once
+ */
+export const checkInstallments = async (): Promise<void> => {
+  try {
+    const posted = await postAllDueInstallments();
+    const reminded = await sendDueReminders();
+
+    if (posted > 0) {
+      console.log(`💳 Posted ${posted} installment(s)`);
+    }
+
+    if (reminded > 0) {
+      console.log(`💳 Sent ${reminded} installment reminder(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Installment check error:', error);
+  }
+};
+
+/**
+ * Start Installment Scheduler
+ *
+ * Checks every hour
+ */
+export const startInstallmentScheduler = (): void => {
+  console.log('💳 Installment scheduler started');
+
+  // Run immediately on start (catches up after downtime)
+  checkInstallments();
+
+  // Then run every hour
+  setInterval(() => {
+    checkInstallments();
+  }, 60 * 60 * 1000);  // 1 hour
+};
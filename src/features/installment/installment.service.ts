@@ -0,0 +1,649 @@
+/**
+ * Installment Plan Service
+ *
+ * Purpose: EMI / installment purchases - schedule, monthly expenses,
+ * remaining balance and reminders
+ *
+ * Key Concepts:
+ * 1. Schedule: standard EMI amortization. With monthly rate r,
+ *    EMI = P·r·(1+r)^n / ((1+r)^n − 1); each installment pays the
+ *    month's interest on what's still owed, the rest goes to principal.
+ *    0% interest splits the principal evenly. The last installment
+ *    absorbs rounding so principals add up exactly.
+ * 2. Due dates are monthly from the first one (31st → last day of
+ *    shorter months), same as monthly recurring series
+ * 3. On its due date each installment is posted as an expense, so it
+ *    counts against that month's budget. Posting is idempotent
+ *    (unique installmentPlanId + installmentNumber on Expense).
+ * 4. Paying early posts the expense right away, still dated on the
+ *    due date
+ * 5. Deleting a posted expense unlinks it; the installment is not
+ *    posted again
+ */
+
+import mongoose from 'mongoose';
+import InstallmentPlan, { IInstallmentPlan, IInstallment } from './installment.model';
+import Expense from '../expense/expense.model';
+import { getCategoryById } from '../category/category.service';
+import { getPayeeById } from '../payee/payee.service';
+import { resolveTransactionAccount, ACCOUNT_PAYMENT_METHODS } from '../account/account.service';
+import { getOccurrenceDate } from '../recurring/recurring.service';
+import { toBaseCurrency, getUserBaseCurrency } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import { sendInstallmentReminder } from '../notification/notification.service';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { startOfDay } from '../../shared/utils/date.util';
+
+/**
+ * Create Installment Plan DTO
+ */
+export interface CreateInstallmentPlanDTO {
+  name: string;
+  categoryId: string;
+  payeeId?: string | null;
+  accountId?: string | null;
+  paymentMethod?: string;
+  tags?: string[];
+  currency?: string;            // Default: account's, else base currency
+  principal: number;
+  interestRate?: number;        // Annual %, default 0
+  installmentCount: number;
+  startDate: Date;              // First due date
+  autoPay?: boolean;
+  reminderDays?: number;
+}
+
+/**
+ * Update Installment Plan DTO
+ *
+ * Terms (principal, rate, count, dates) can't change once the
+ * schedule exists; future installments use the new details
+ */
+export interface UpdateInstallmentPlanDTO {
+  name?: string;
+  categoryId?: string;
+  payeeId?: string | null;
+  paymentMethod?: string;
+  tags?: string[];
+  autoPay?: boolean;
+  reminderDays?: number;
+}
+
+/**
+ * Plan Progress
+ */
+export interface InstallmentSummary {
+  paidCount: number;
+  paidAmount: number;
+  remainingCount: number;
+  remainingAmount: number;       // Unpaid installments (principal + interest)
+  remainingPrincipal: number;    // Principal still owed
+  overdueCount: number;          // Posted but not paid
+  nextInstallment: IInstallment | null;
+}
+
+/**
+ * Upcoming Installment (not posted yet)
+ */
+export interface UpcomingInstallment {
+  planId: string;
+  number: number;
+  date: Date;
+  amount: number;                // Base currency (today's rate)
+  originalAmount: number;
+  currency: string;
+  description: string;
+  categoryId: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build the Amortization Schedule
+ *
+ * Due dates are monthly on the user's calendar (their timezone)
+ */
+const buildSchedule = (
+  principal: number,
+  interestRate: number,
+  count: number,
+  startDate: Date,
+  timezone: string
+) => {
+  const rate = interestRate / 12 / 100;
+  const installmentAmount = rate > 0
+    ? round(principal * rate * Math.pow(1 + rate, count) / (Math.pow(1 + rate, count) - 1))
+    : round(principal / count);
+
+  const installments: IInstallment[] = [];
+  let balance = principal;
+
+  for (let index = 0; index < count; index++) {
+    const interest = round(balance * rate);
+    const isLast = index === count - 1;
+    const principalPart = isLast ? round(balance) : Math.min(round(installmentAmount - interest), round(balance));
+
+    balance = round(balance - principalPart);
+
+    installments.push({
+      number: index + 1,
+      dueDate: getOccurrenceDate(startDate, 'monthly', index, timezone),
+      amount: round(principalPart + interest),
+      principal: principalPart,
+      interest,
+      balance,
+      status: 'upcoming',
+      expenseId: null,
+      paidAt: null,
+      remindedAt: null
+    });
+  }
+
+  const totalInterest = round(installments.reduce((sum, item) => sum + item.interest, 0));
+
+  return {
+    installmentAmount,
+    totalInterest,
+    totalPayable: round(principal + totalInterest),
+    installments
+  };
+};
+
+/**
+ * Progress of a Plan
+ */
+const summarize = (plan: IInstallmentPlan): InstallmentSummary => {
+  const paid = plan.installments.filter(item => item.status === 'paid');
+  const unpaid = plan.installments.filter(item => item.status !== 'paid');
+
+  return {
+    paidCount: paid.length,
+    paidAmount: round(paid.reduce((sum, item) => sum + item.amount, 0)),
+    remainingCount: unpaid.length,
+    remainingAmount: round(unpaid.reduce((sum, item) => sum + item.amount, 0)),
+    remainingPrincipal: round(unpaid.reduce((sum, item) => sum + item.principal, 0)),
+    overdueCount: unpaid.filter(item => item.status === 'due').length,
+    nextInstallment: unpaid[0] || null
+  };
+};
+
+/**
+ * Plan with Progress (API shape)
+ */
+const withSummary = (plan: IInstallmentPlan) => ({
+  ...plan.toJSON(),
+  summary: summarize(plan)
+});
+
+/**
+ * Get Plan (owned by user)
+ */
+const findUserPlan = async (userId: string, planId: string): Promise<IInstallmentPlan> => {
+  const plan = await InstallmentPlan.findOne({
+    _id: new mongoose.Types.ObjectId(planId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!plan) {
+    throw new NotFoundError('Installment plan not found');
+  }
+
+  return plan;
+};
+
+/**
+ * Find Installment by Number
+ */
+const findInstallment = (plan: IInstallmentPlan, number: number): IInstallment => {
+  const installment = plan.installments.find(item => item.number === number);
+
+  if (!installment) {
+    throw new NotFoundError('Installment not found');
+  }
+
+  return installment;
+};
+
+/**
+ * Mark Completed / Active from Installment Statuses
+ */
+const updatePlanStatus = (plan: IInstallmentPlan): void => {
+  plan.status = plan.installments.every(item => item.status === 'paid') ? 'completed' : 'active';
+};
+
+/**
+ * Post One Installment as an Expense
+ *
+ * Upsert on { installmentPlanId, installmentNumber }: posting twice
+ * returns the same expense. The upsert skips Expense's save hooks, so
+ * category ownership is checked here (plans carry no location, so the
+ * geo hook has nothing to derive).
+ */
+const postInstallment = async (plan: IInstallmentPlan, installment: IInstallment): Promise<void> => {
+  await getCategoryById(plan.userId.toString(), plan.categoryId.toString());
+
+  const converted = await toBaseCurrency(
+    plan.userId.toString(),
+    installment.amount,
+    plan.currency,
+    installment.dueDate
+  );
+
+  const expense = await Expense.findOneAndUpdate(
+    {
+      installmentPlanId: plan._id,
+      installmentNumber: installment.number
+    },
+    {
+      $setOnInsert: {
+        userId: plan.userId,
+        categoryId: plan.categoryId,
+        payeeId: plan.payeeId ?? null,
+        accountId: plan.accountId ?? null,
+        ...converted,
+        description: `${plan.name} (${installment.number}/${plan.installmentCount})`,
+        paymentMethod: plan.paymentMethod,
+        tags: plan.tags,
+        date: installment.dueDate,
+        isRecurring: false,
+        installmentPlanId: plan._id,
+        installmentNumber: installment.number
+      }
+    },
+    { upsert: true, new: true }
+  );
+
+  installment.expenseId = expense._id;
+  installment.status = 'due';
+};
+
+/**
+ * Post Due Installments of a Plan
+ *
+ * @param plan - Plan document
+ * @param until - Post installments due up to this date (default: now)
+ * @returns Number of installments posted
+ */
+export const postDueInstallments = async (
+  plan: IInstallmentPlan,
+  until: Date = new Date()
+): Promise<number> => {
+  let posted = 0;
+
+  for (const installment of plan.installments) {
+    if (installment.status !== 'upcoming' || installment.dueDate > until) {
+      continue;
+    }
+
+    await postInstallment(plan, installment);
+
+    if (plan.autoPay) {
+      installment.status = 'paid';
+      installment.paidAt = installment.dueDate;
+    }
+
+    posted++;
+  }
+
+  if (posted > 0) {
+    updatePlanStatus(plan);
+    plan.markModified('installments');
+    await plan.save();
+  }
+
+  return posted;
+};
+
+/**
+ * Post Due Installments of All Plans
+ *
+ * Called by the scheduler. Errors in one plan don't stop the others.
+ *
+ * @returns Total number of installments posted
+ */
+export const postAllDueInstallments = async (): Promise<number> => {
+  const now = new Date();
+
+  const plans = await InstallmentPlan.find({
+    status: 'active',
+    installments: { $elemMatch: { status: 'upcoming', dueDate: { $lte: now } } }
+  });
+
+  let total = 0;
+
+  for (const plan of plans) {
+    try {
+      total += await postDueInstallments(plan, now);
+    } catch (error) {
+      console.error(`❌ Failed to post installments of plan ${plan._id}:`, error);
+    }
+  }
+
+  return total;
+};
+
+/**
+ * Send Reminders for Upcoming Installments
+ *
+ * Once per installment, `reminderDays` calendar days before it's due
+ * (in the user's timezone)
+ *
+ * @returns Number of reminders sent
+ */
+export const sendDueReminders = async (): Promise<number> => {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + 31 * 24 * 60 * 60 * 1000);
+
+  const plans = await InstallmentPlan.find({
+    status: 'active',
+    reminderDays: { $gt: 0 },
+    installments: {
+      $elemMatch: { status: 'upcoming', remindedAt: null, dueDate: { $gt: now, $lte: horizon } }
+    }
+  });
+
+  let sent = 0;
+
+  for (const plan of plans) {
+    try {
+      const timezone = await getUserTimezone(plan.userId.toString());
+      const due = plan.installments.filter(item =>
+        item.status === 'upcoming' &&
+        !item.remindedAt &&
+        item.dueDate > now &&
+        startOfDay(item.dueDate, timezone, -plan.reminderDays) <= now
+      );
+
+      for (const installment of due) {
+        await sendInstallmentReminder(
+          plan.userId.toString(),
+          plan.name,
+          installment.number,
+          plan.installmentCount,
+          installment.amount,
+          plan.currency,
+          installment.dueDate,
+          timezone
+        );
+
+        installment.remindedAt = now;
+        sent++;
+      }
+
+      if (due.length > 0) {
+        plan.markModified('installments');
+        await plan.save();
+      }
+    } catch (error) {
+      console.error(`❌ Failed to send installment reminders for plan ${plan._id}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Create Installment Plan
+ *
+ * Installments already due (start date in the past) are posted
+ * right away
+ *
+ * @param userId - User ID
+ * @param data - Plan terms and expense details
+ * @returns Plan with schedule and progress
+ */
+export const createInstallmentPlan = async (userId: string, data: CreateInstallmentPlanDTO) => {
+  await getCategoryById(userId, data.categoryId);
+
+  if (data.payeeId) {
+    await getPayeeById(userId, data.payeeId);
+  }
+
+  const account = data.accountId
+    ? await resolveTransactionAccount(userId, data.accountId, data.currency)
+    : null;
+
+  const currency = account?.currency || data.currency || await getUserBaseCurrency(userId);
+  const interestRate = data.interestRate || 0;
+  const schedule = buildSchedule(
+    data.principal,
+    interestRate,
+    data.installmentCount,
+    new Date(data.startDate),
+    await getUserTimezone(userId)
+  );
+
+  const plan = await InstallmentPlan.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    name: data.name,
+    categoryId: new mongoose.Types.ObjectId(data.categoryId),
+    payeeId: data.payeeId ? new mongoose.Types.ObjectId(data.payeeId) : null,
+    accountId: account?._id ?? null,
+    paymentMethod: data.paymentMethod ?? (account ? ACCOUNT_PAYMENT_METHODS[account.type] : 'card'),
+    tags: data.tags || [],
+    currency,
+    principal: data.principal,
+    interestRate,
+    installmentCount: data.installmentCount,
+    startDate: new Date(data.startDate),
+    autoPay: data.autoPay ?? false,
+    reminderDays: data.reminderDays ?? 3,
+    ...schedule
+  });
+
+  await postDueInstallments(plan);
+
+  return withSummary(plan);
+};
+
+/**
+ * Get Installment Plans
+ *
+ * @param userId - User ID
+ * @param status - active | completed (default: all)
+ * @returns Plans with progress, newest first
+ */
+export const getInstallmentPlans = async (userId: string, status?: string) => {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (status) {
+    query.status = status;
+  }
+
+  const plans = await InstallmentPlan.find(query)
+    .populate('category', 'name icon color')
+    .sort({ status: 1, startDate: -1 });
+
+  return plans.map(withSummary);
+};
+
+/**
+ * Get Single Installment Plan
+ *
+ * @param userId - User ID
+ * @param planId - Plan ID
+ * @returns Plan with schedule and progress
+ */
+export const getInstallmentPlanById = async (userId: string, planId: string) => {
+  const plan = await findUserPlan(userId, planId);
+  await plan.populate('category', 'name icon color');
+
+  return withSummary(plan);
+};
+
+/**
+ * Update Installment Plan
+ *
+ * @param userId - User ID
+ * @param planId - Plan ID
+ * @param data - Details for installments not posted yet
+ * @returns Updated plan
+ */
+export const updateInstallmentPlan = async (
+  userId: string,
+  planId: string,
+  data: UpdateInstallmentPlanDTO
+) => {
+  const plan = await findUserPlan(userId, planId);
+
+  if (data.categoryId) {
+    await getCategoryById(userId, data.categoryId);
+  }
+
+  if (data.payeeId) {
+    await getPayeeById(userId, data.payeeId);
+  }
+
+  Object.assign(plan, data);
+  await plan.save();
+
+  return withSummary(plan);
+};
+
+/**
+ * Delete Installment Plan
+ *
+ * Posted expenses stay (the money was spent); they're only unlinked
+ *
+ * @param userId - User ID
+ * @param planId - Plan ID
+ */
+export const deleteInstallmentPlan = async (userId: string, planId: string): Promise<void> => {
+  const plan = await findUserPlan(userId, planId);
+
+  await Expense.updateMany(
+    { userId: plan.userId, installmentPlanId: plan._id },
+    { $set: { installmentPlanId: null, installmentNumber: null } }
+  );
+
+  await plan.deleteOne();
+};
+
+/**
+ * Mark Installment Paid
+ *
+ * Not posted yet (paying early) → posted now, dated on its due date
+ *
+ * @param userId - User ID
+ * @param planId - Plan ID
+ * @param number - Installment number (1-based)
+ * @param paidAt - When it was paid (default: now)
+ * @returns Updated plan
+ */
+export const payInstallment = async (
+  userId: string,
+  planId: string,
+  number: number,
+  paidAt?: Date
+) => {
+  const plan = await findUserPlan(userId, planId);
+  const installment = findInstallment(plan, number);
+
+  if (installment.status === 'paid') {
+    throw new BadRequestError('Installment is already paid');
+  }
+
+  if (installment.status === 'upcoming') {
+    await postInstallment(plan, installment);
+  }
+
+  installment.status = 'paid';
+  installment.paidAt = paidAt ? new Date(paidAt) : new Date();
+
+  updatePlanStatus(plan);
+  plan.markModified('installments');
+  await plan.save();
+
+  return withSummary(plan);
+};
+
+/**
+ * Mark Installment Unpaid (undo a payment)
+ *
+ * The posted expense stays: the installment is still owed that month
+ *
+ * @param userId - User ID
+ * @param planId - Plan ID
+ * @param number - Installment number (1-based)
+ * @returns Updated plan
+ */
+export const unpayInstallment = async (userId: string, planId: string, number: number) => {
+  const plan = await findUserPlan(userId, planId);
+  const installment = findInstallment(plan, number);
+
+  if (installment.status !== 'paid') {
+    throw new BadRequestError('Installment is not paid');
+  }
+
+  installment.status = 'due';
+  installment.paidAt = null;
+
+  updatePlanStatus(plan);
+  plan.markModified('installments');
+  await plan.save();
+
+  return withSummary(plan);
+};
+
+/**
+ * Get Upcoming Installments (not posted yet)
+ *
+ * Purpose: Known future spending for the forecast
+ *
+ * @param userId - User ID
+ * @param days - Look-ahead window
+ * @returns Installments, soonest first
+ */
+export const getUpcomingInstallments = async (
+  userId: string,
+  days: number = 30
+): Promise<UpcomingInstallment[]> => {
+  const until = new Date();
+  until.setDate(until.getDate() + days);
+
+  const plans = await InstallmentPlan.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    status: 'active',
+    installments: { $elemMatch: { status: 'upcoming', dueDate: { $lte: until } } }
+  });
+
+  const upcoming = await Promise.all(plans.map(async plan => {
+    const { exchangeRate } = await toBaseCurrency(userId, 1, plan.currency);
+
+    return plan.installments
+      .filter(item => item.status === 'upcoming' && item.dueDate <= until)
+      .map(item => ({
+        planId: plan._id.toString(),
+        number: item.number,
+        date: item.dueDate,
+        amount: round(item.amount * exchangeRate),
+        originalAmount: item.amount,
+        currency: plan.currency,
+        description: `${plan.name} (${item.number}/${plan.installmentCount})`,
+        categoryId: plan.categoryId.toString()
+      }));
+  }));
+
+  return upcoming.flat().sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Unlink Deleted Expenses from Their Installments
+ *
+ * The installment keeps its status and isn't posted again
+ *
+ * @param expenseIds - Expense IDs
+ * @param session - Optional transaction session
+ */
+export const unlinkInstallmentExpenses = async (
+  expenseIds: Array<string | mongoose.Types.ObjectId>,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const ids = expenseIds.map(id => new mongoose.Types.ObjectId(id));
+
+  await InstallmentPlan.updateMany(
+    { 'installments.expenseId': { $in: ids } },
+    { $set: { 'installments.$[item].expenseId': null } },
+    { arrayFilters: [{ 'item.expenseId': { $in: ids } }], session }
+  );
+};
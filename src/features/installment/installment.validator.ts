@@ -0,0 +1,99 @@
+/**
+ * Installment Plan Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+const paymentMethod = Joi.string()
+  .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other');
+
+/**
+ * Create Installment Plan Schema
+ */
+export const createInstallmentPlanSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'Name cannot exceed 100 characters',
+      'any.required': 'Name is required'
+    }),
+
+  categoryId: objectId.required().messages({
+    'any.required': 'Category is required'
+  }),
+
+  payeeId: objectId.optional().allow(null),
+  accountId: objectId.optional().allow(null),
+  paymentMethod: paymentMethod.optional(),
+  tags: Joi.array().items(Joi.string().max(20)).max(10).optional(),
+
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+
+  principal: Joi.number()
+    .positive()
+    .precision(2)
+    .max(100000000)
+    .required()
+    .messages({
+      'number.positive': 'Principal must be greater than 0',
+      'any.required': 'Principal is required'
+    }),
+
+  // Annual %
+  interestRate: Joi.number().min(0).max(100).optional(),
+
+  installmentCount: Joi.number()
+    .integer()
+    .min(2)
+    .max(120)
+    .required()
+    .messages({
+      'number.min': 'At least 2 installments',
+      'number.max': 'At most 120 installments',
+      'any.required': 'Number of installments is required'
+    }),
+
+  // First due date
+  startDate: Joi.date()
+    .required()
+    .messages({
+      'any.required': 'Start date is required'
+    }),
+
+  autoPay: Joi.boolean().optional(),
+  reminderDays: Joi.number().integer().min(0).max(30).optional()
+});
+
+/**
+ * Update Installment Plan Schema
+ */
+export const updateInstallmentPlanSchema = Joi.object({
+  name: Joi.string().trim().max(100).optional(),
+  categoryId: objectId.optional(),
+  payeeId: objectId.optional().allow(null),
+  paymentMethod: paymentMethod.optional(),
+  tags: Joi.array().items(Joi.string().max(20)).max(10).optional(),
+  autoPay: Joi.boolean().optional(),
+  reminderDays: Joi.number().integer().min(0).max(30).optional()
+}).min(1);
+
+/**
+ * Pay Installment Schema
+ */
+export const payInstallmentSchema = Joi.object({
+  paidAt: Joi.date().optional()
+});
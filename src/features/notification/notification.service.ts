@@ -8,6 +8,7 @@ import admin from 'firebase-admin';
 import { isFirebaseInitialized } from '../../config/firebase';
 import User from '../auth/auth.model';
 import mongoose from 'mongoose';
+import { DEFAULT_TIMEZONE, startOfDay } from '../../shared/utils/date.util';
 
 /**
  * Notification Types
@@ -19,7 +20,15 @@ export enum NotificationType {
   TASK_DUE_TODAY = 'task_due_today',
   SAVINGS_MILESTONE = 'savings_milestone',
   SAVINGS_COMPLETED = 'savings_completed',
-  CHAT_MESSAGE = 'chat_message'
+  CHAT_MESSAGE = 'chat_message',
+  SPLIT_ADDED = 'split_added',
+  SETTLEMENT_RECORDED = 'settlement_recorded',
+  EXPENSE_ANOMALY = 'expense_anomaly',
+  INSTALLMENT_REMINDER = 'installment_reminder',
+  DEBT_REQUEST = 'debt_request',
+  DEBT_RESPONSE = 'debt_response',
+  DEBT_REPAYMENT = 'debt_repayment',
+  DEBT_REMINDER = 'debt_reminder'
 }
 
 /**
@@ -166,25 +175,31 @@ export const sendBudgetAlert = async (
  * @param userId - User ID
  * @param taskTitle - Task title
  * @param dueDate - Due date
+ * @param timezone - User's timezone ("today" is a calendar day there)
  */
 export const sendTaskReminder = async (
   userId: string,
   taskTitle: string,
-  dueDate: Date
+  dueDate: Date,
+  timezone: string = DEFAULT_TIMEZONE
 ): Promise<void> => {
-  const now = new Date();
-  const hoursUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+  // Calendar days between today and the due date (round: DST days aren't 24h)
+  const days = Math.round(
+    (startOfDay(dueDate, timezone).getTime() - startOfDay(new Date(), timezone).getTime()) /
+    (1000 * 60 * 60 * 24)
+  );
   
   let type: NotificationType;
   let body: string;
   
-  if (hoursUntilDue <= 24) {
+  if (days <= 0) {
     type = NotificationType.TASK_DUE_TODAY;
     body = `🔔 Task due today: ${taskTitle}`;
   } else {
     type = NotificationType.TASK_REMINDER;
-    const days = Math.ceil(hoursUntilDue / 24);
-    body = `🔔 Reminder: ${taskTitle} - Due in ${days} days`;
+    body = days === 1
+      ? `🔔 Reminder: ${taskTitle} - Due tomorrow`
+      : `🔔 Reminder: ${taskTitle} - Due in ${days} days`;
   }
   
   await sendNotificationToUser(userId, {
@@ -260,4 +275,288 @@ export const sendChatNotification = async (
       senderName
     }
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Send Split Notification
+ * 
+ * @param userId - Participant user ID
+ * @param payerName - Who paid
+ * @param description - Split description
+ * @param shareAmount - Participant's share
+ * @param currency - Split currency
+ * @param splitId - Split ID
+ */
+export const sendSplitNotification = async (
+  userId: string,
+  payerName: string,
+  description: string,
+  shareAmount: number,
+  currency: string,
+  splitId: string
+): Promise<void> => {
+  await sendNotificationToUser(userId, {
+    type: NotificationType.SPLIT_ADDED,
+    title: 'New Split Expense',
+    body: `🧾 ${payerName} added you to "${description}" - your share: ${shareAmount.toFixed(2)} ${currency}`,
+    data: {
+      splitId,
+      payerName,
+      shareAmount: shareAmount.toString(),
+      currency
+    }
+  });
+};
+
+/**
+ * Send Settlement Notification
+ * 
+ * @param userId - Other party user ID
+ * @param fromName - Who paid back
+ * @param amount - Settled amount
+ * @param currency - Settlement currency
+ */
+export const sendSettlementNotification = async (
+  userId: string,
+  fromName: string,
+  amount: number,
+  currency: string
+): Promise<void> => {
+  await sendNotificationToUser(userId, {
+    type: NotificationType.SETTLEMENT_RECORDED,
+    title: 'Settlement Recorded',
+    body: `💸 ${fromName} settled ${amount.toFixed(2)} ${currency}`,
+    data: {
+      fromName,
+      amount: amount.toString(),
+      currency
+    }
+  });
+};
+
+/**
+ * Send Expense Anomaly Notification
+ * 
+ * @param userId - User ID
+ * @param description - Expense description
+ * @param reason - Why it was flagged
+ * @param expenseId - Expense ID
+ */
+export const sendAnomalyNotification = async (
+  userId: string,
+  description: string,
+  reason: string,
+  expenseId: string
+): Promise<void> => {
+  await sendNotificationToUser(userId, {
+    type: NotificationType.EXPENSE_ANOMALY,
+    title: 'Unusual Expense',
+    body: `🔍 ${description}: ${reason}`,
+    data: {
+      expenseId,
+      reason
+    }
+  });
+};
+
+/**
+ * Send Installment Reminder
+ * 
+ * @param userId - User ID
+ * @param planName - Installment plan name
+ * @param number - Installment number
+ * @param count - Number of installments
+ * @param amount - Installment amount
+ * @param currency - Plan currency
+ * @param dueDate - Due date
+ * @param timezone - User's timezone ("tomorrow" is a calendar day there)
+ */
+export const sendInstallmentReminder = async (
+  userId: string,
+  planName: string,
+  number: number,
+  count: number,
+  amount: number,
+  currency: string,
+  dueDate: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<void> => {
+  const days = Math.round(
+    (startOfDay(dueDate, timezone).getTime() - startOfDay(new Date(), timezone).getTime()) /
+    (1000 * 60 * 60 * 24)
+  );
+  
+  const when = days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+  
+  await sendNotificationToUser(userId, {
+    type: NotificationType.INSTALLMENT_REMINDER,
+    title: 'Installment Due',
+    body: `💳 ${planName}: installment ${number}/${count} of ${amount} ${currency} is due ${when}`,
+    data: {
+      planName,
+      number: number.toString(),
+      amount: amount.toString(),
+      currency,
+      dueDate: dueDate.toISOString()
+    }
+  });
+};
+
+/**
+ * Send Debt Confirmation Request
+ * 
+ * @param userId - Counterparty user ID
+ * @param fromName - Who recorded the debt
+ * @param direction - From the recipient's side ('lent': they lent it)
+ * @param amount - Debt amount
+ * @param currency - Debt currency
+ * @param debtId - Debt ID
+ */
+export const sendDebtRequest = async (
+  userId: string,
+  fromName: string,
+  direction: 'lent' | 'borrowed',
+  amount: number,
+  currency: string,
+  debtId: string
+): Promise<void> => {
+  const what = direction === 'lent'
+    ? `you lent them ${amount.toFixed(2)} ${currency}`
+    : `you borrowed ${amount.toFixed(2)} ${currency} from them`;
+
+  await sendNotificationToUser(userId, {
+    type: NotificationType.DEBT_REQUEST,
+    title: 'Confirm Debt',
+    body: `🤝 ${fromName} says ${what} - please confirm`,
+    data: {
+      debtId,
+      fromName,
+      direction,
+      amount: amount.toString(),
+      currency
+    }
+  });
+};
+
+/**
+ * Send Debt Confirmation Response
+ * 
+ * @param userId - User who recorded the debt
+ * @param byName - Counterparty who responded
+ * @param confirmed - Confirmed or rejected
+ * @param amount - Debt amount
+ * @param currency - Debt currency
+ * @param debtId - Debt ID
+ */
+export const sendDebtResponse = async (
+  userId: string,
+  byName: string,
+  confirmed: boolean,
+  amount: number,
+  currency: string,
+  debtId: string
+): Promise<void> => {
+  await sendNotificationToUser(userId, {
+    type: NotificationType.DEBT_RESPONSE,
+    title: confirmed ? 'Debt Confirmed' : 'Debt Rejected',
+    body: confirmed
+      ? `✅ ${byName} confirmed the debt of ${amount.toFixed(2)} ${currency}`
+      : `❌ ${byName} rejected the debt of ${amount.toFixed(2)} ${currency}`,
+    data: {
+      debtId,
+      byName,
+      confirmed: confirmed.toString(),
+      amount: amount.toString(),
+      currency
+    }
+  });
+};
+
+/**
+ * Send Debt Repayment Notification
+ * 
+ * @param userId - Other party user ID
+ * @param byName - Who recorded the repayment
+ * @param amount - Repaid amount
+ * @param outstanding - Still outstanding after it
+ * @param currency - Debt currency
+ * @param debtId - Debt ID
+ */
+export const sendDebtRepaymentNotification = async (
+  userId: string,
+  byName: string,
+  amount: number,
+  outstanding: number,
+  currency: string,
+  debtId: string
+): Promise<void> => {
+  const rest = outstanding > 0
+    ? `${outstanding.toFixed(2)} ${currency} outstanding`
+    : 'debt settled';
+
+  await sendNotificationToUser(userId, {
+    type: NotificationType.DEBT_REPAYMENT,
+    title: 'Repayment Recorded',
+    body: `💸 ${byName} recorded a repayment of ${amount.toFixed(2)} ${currency} (${rest})`,
+    data: {
+      debtId,
+      byName,
+      amount: amount.toString(),
+      outstanding: outstanding.toString(),
+      currency
+    }
+  });
+};
+
+/**
+ * Send Debt Reminder
+ * 
+ * @param userId - User ID
+ * @param personName - The other person
+ * @param direction - From the recipient's side ('lent': they owe the recipient)
+ * @param outstanding - Outstanding amount
+ * @param currency - Debt currency
+ * @param dueDate - Due date, if any
+ * @param debtId - Debt ID
+ * @param timezone - User's timezone ("tomorrow" is a calendar day there)
+ */
+export const sendDebtReminder = async (
+  userId: string,
+  personName: string,
+  direction: 'lent' | 'borrowed',
+  outstanding: number,
+  currency: string,
+  dueDate: Date | null,
+  debtId: string,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<void> => {
+  const owed = direction === 'lent'
+    ? `${personName} owes you ${outstanding.toFixed(2)} ${currency}`
+    : `You owe ${personName} ${outstanding.toFixed(2)} ${currency}`;
+
+  let when = '';
+  if (dueDate) {
+    const days = Math.round(
+      (startOfDay(dueDate, timezone).getTime() - startOfDay(new Date(), timezone).getTime()) /
+      (1000 * 60 * 60 * 24)
+    );
+
+    when = days < 0
+      ? ` - ${-days} day${days === -1 ? '' : 's'} overdue`
+      : days === 0 ? ' - due today' : days === 1 ? ' - due tomorrow' : ` - due in ${days} days`;
+  }
+
+  await sendNotificationToUser(userId, {
+    type: NotificationType.DEBT_REMINDER,
+    title: 'Debt Reminder',
+    body: `⏰ ${owed}${when}`,
+    data: {
+      debtId,
+      personName,
+      direction,
+      outstanding: outstanding.toString(),
+      currency,
+      ...(dueDate ? { dueDate: dueDate.toISOString() } : {})
+    }
+  });
+};
@@ -0,0 +1,148 @@
+/**
+ * Payee Controller
+ */
+
+import { Request, Response } from 'express';
+import * as payeeService from './payee.service';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Parse Date Range from Query
+ */
+const parseRange = (req: Request): payeeService.PayeeRange => ({
+  startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+  endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined
+});
+
+/**
+ * Get Payees
+ *
+ * Route: GET /api/payees?search=&includeArchived=false&page=1&limit=50
+ */
+export const getPayees = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const search = req.query.search as string | undefined;
+  const includeArchived = req.query.includeArchived === 'true';
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 50;
+
+  const result = await payeeService.getPayees(userId, search, includeArchived, page, limit);
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Get Single Payee
+ *
+ * Route: GET /api/payees/:id
+ */
+export const getPayeeById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const payee = await payeeService.getPayeeById(userId, req.params.id);
+
+  return sendSuccess(res, payee);
+};
+
+/**
+ * Create Payee
+ *
+ * Route: POST /api/payees
+ * Body: { name, aliases?, defaultCategoryId?, notes? }
+ */
+export const createPayee = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const payee = await payeeService.createPayee(userId, req.body);
+
+  return sendSuccess(
+    res,
+    payee,
+    'Payee created successfully',
+    201
+  );
+};
+
+/**
+ * Update Payee
+ *
+ * Route: PUT /api/payees/:id
+ */
+export const updatePayee = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const payee = await payeeService.updatePayee(userId, req.params.id, req.body);
+
+  return sendSuccess(res, payee, 'Payee updated successfully');
+};
+
+/**
+ * Delete Payee
+ *
+ * Route: DELETE /api/payees/:id
+ */
+export const deletePayee = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await payeeService.deletePayee(userId, req.params.id);
+
+  return sendSuccess(res, null, 'Payee deleted successfully');
+};
+
+/**
+ * Match Payees on Existing Expenses
+ *
+ * Route: POST /api/payees/match
+ * Body: { overwrite? }
+ */
+export const rematchPayees = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await payeeService.rematchPayees(userId, req.body.overwrite);
+
+  return sendSuccess(res, result, `${result.matched} expenses matched to payees`);
+};
+
+/**
+ * Get Payee Summary (top payees)
+ *
+ * Route: GET /api/payees/summary?startDate=&endDate=&limit=20
+ */
+export const getPayeeSummary = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  const summary = await payeeService.getPayeeSummary(userId, parseRange(req), limit);
+
+  return sendSuccess(res, summary);
+};
+
+/**
+ * Get Payee Analytics
+ *
+ * Route: GET /api/payees/:id/stats?startDate=&endDate=
+ */
+export const getPayeeStats = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const stats = await payeeService.getPayeeStats(userId, req.params.id, parseRange(req));
+
+  return sendSuccess(res, stats);
+};
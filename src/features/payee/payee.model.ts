@@ -0,0 +1,106 @@
+/**
+ * Payee Model
+ *
+ * Purpose: Merchants / people the user pays (e.g. "Shwapno")
+ *
+ * Expenses reference a payee via Expense.payeeId. New expenses are
+ * matched automatically when their description contains the payee
+ * name or one of its aliases ("SHWAPNO GULSHAN-2", "shwapno.com").
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Payee Interface
+ */
+export interface IPayee extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  aliases: string[];
+  defaultCategoryId?: mongoose.Types.ObjectId | null;
+  notes?: string;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Payee Schema
+ */
+const PayeeSchema = new Schema<IPayee>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Payee name is required'],
+      trim: true,
+      maxlength: [60, 'Payee name cannot exceed 60 characters']
+    },
+
+    // Alternative spellings matched against descriptions
+    aliases: {
+      type: [String],
+      default: []
+    },
+
+    // Used when an expense for this payee has no category
+    defaultCategoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null
+    },
+
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Notes cannot exceed 200 characters']
+    },
+
+    // Archived payees keep their history but are not auto-matched
+    isArchived: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    },
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Indexes
+ * - One payee per name per user (case-insensitive)
+ */
+PayeeSchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+/**
+ * Virtual: defaultCategory
+ */
+PayeeSchema.virtual('defaultCategory', {
+  ref: 'Category',
+  localField: 'defaultCategoryId',
+  foreignField: '_id',
+  justOne: true
+});
+
+const Payee = mongoose.model<IPayee>('Payee', PayeeSchema);
+
+export default Payee;
@@ -0,0 +1,92 @@
+/**
+ * Payee Routes
+ *
+ * Purpose: Define API endpoints for payees (merchants)
+ */
+
+import { Router } from 'express';
+import * as payeeController from './payee.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createPayeeSchema,
+  updatePayeeSchema,
+  rematchPayeesSchema
+} from './payee.validator';
+
+const router = Router();
+
+/**
+ * All payee routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Get all payees
+ */
+router.get(
+  '/',
+  payeeController.getPayees
+);
+
+/**
+ * Create payee
+ */
+router.post(
+  '/',
+  validate(createPayeeSchema),
+  payeeController.createPayee
+);
+
+/**
+ * Top payees by spending
+ * Note: Static routes must be before /:id
+ */
+router.get(
+  '/summary',
+  payeeController.getPayeeSummary
+);
+
+/**
+ * Match payees on existing expenses
+ */
+router.post(
+  '/match',
+  validate(rematchPayeesSchema),
+  payeeController.rematchPayees
+);
+
+/**
+ * Get single payee
+ */
+router.get(
+  '/:id',
+  payeeController.getPayeeById
+);
+
+/**
+ * Payee analytics
+ */
+router.get(
+  '/:id/stats',
+  payeeController.getPayeeStats
+);
+
+/**
+ * Update payee
+ */
+router.put(
+  '/:id',
+  validate(updatePayeeSchema),
+  payeeController.updatePayee
+);
+
+/**
+ * Delete payee
+ */
+router.delete(
+  '/:id',
+  payeeController.deletePayee
+);
+
+export default router;
@@ -0,0 +1,615 @@
+/**
+ * Payee Service
+ *
+ * Purpose: Manage payees, match them from descriptions and
+ * answer "how much did we spend at X"
+ *
+ * Matching:
+ * The payee name and every alias are normalized (see text.util) and
+ * looked up as whole words in the normalized description. The longest
+ * match wins, so "shwapno express" beats "shwapno".
+ */
+
+import mongoose from 'mongoose';
+import Payee, { IPayee } from './payee.model';
+import Expense, { NET_AMOUNT } from '../expense/expense.model';
+import Category from '../category/category.model';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import { NotFoundError, ConflictError } from '../../shared/utils/error.util';
+import { normalizeText, escapeRegex } from '../../shared/utils/text.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Create Payee DTO
+ */
+export interface CreatePayeeDTO {
+  name: string;
+  aliases?: string[];
+  defaultCategoryId?: string | null;
+  notes?: string;
+  isArchived?: boolean;
+}
+
+/**
+ * Update Payee DTO
+ */
+export interface UpdatePayeeDTO extends Partial<CreatePayeeDTO> {}
+
+/**
+ * Payee Analytics Range
+ */
+export interface PayeeRange {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Payee Matcher
+ */
+export type PayeeMatcher = (description?: string) => IPayee | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVG_DAYS_PER_MONTH = 30.44;
+const BATCH_SIZE = 500;
+
+/**
+ * Build Payee Matcher
+ *
+ * Loads the user's active payees once; use for bulk matching (imports)
+ *
+ * @param userId - User ID
+ */
+export const buildPayeeMatcher = async (userId: string): Promise<PayeeMatcher> => {
+  const payees = await Payee.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    isArchived: false
+  });
+
+  const patterns = payees
+    .flatMap(payee => [payee.name, ...payee.aliases].map(text => ({
+      pattern: normalizeText(text),
+      payee
+    })))
+    .filter(entry => entry.pattern.length > 0)
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+
+  return (description?: string): IPayee | null => {
+    if (!description) {
+      return null;
+    }
+
+    const haystack = ` ${normalizeText(description)} `;
+    const match = patterns.find(entry => haystack.includes(` ${entry.pattern} `));
+
+    return match ? match.payee : null;
+  };
+};
+
+/**
+ * Match Payee for a Description
+ *
+ * @param userId - User ID
+ * @param description - Expense description
+ * @returns Matching payee or null
+ */
+export const matchPayee = async (
+  userId: string,
+  description?: string
+): Promise<IPayee | null> => {
+  if (!description) {
+    return null;
+  }
+
+  const matcher = await buildPayeeMatcher(userId);
+
+  return matcher(description);
+};
+
+/**
+ * Verify Category Ownership
+ */
+const verifyCategory = async (userId: string, categoryId: string): Promise<void> => {
+  const category = await Category.findOne({
+    _id: new mongoose.Types.ObjectId(categoryId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!category) {
+    throw new NotFoundError('Category not found');
+  }
+};
+
+/**
+ * Ensure Name is Unused (case-insensitive)
+ */
+const ensureUniqueName = async (userId: string, name: string, excludeId?: string): Promise<void> => {
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId),
+    name: { $regex: new RegExp(`^${escapeRegex(name.trim())}$`, 'i') }
+  };
+
+  if (excludeId) {
+    query._id = { $ne: new mongoose.Types.ObjectId(excludeId) };
+  }
+
+  if (await Payee.exists(query)) {
+    throw new ConflictError('Payee with this name already exists');
+  }
+};
+
+/**
+ * Clean Aliases (trimmed, unique, not the name itself)
+ */
+const cleanAliases = (name: string, aliases: string[] = []): string[] => {
+  const seen = new Set([normalizeText(name)]);
+
+  return aliases
+    .map(alias => alias.trim())
+    .filter(alias => {
+      const key = normalizeText(alias);
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Get Payees
+ *
+ * @param userId - User ID
+ * @param search - Optional name/alias search
+ * @param includeArchived - Include archived payees
+ * @param page - Page number
+ * @param limit - Items per page
+ * @returns Paginated payees
+ */
+export const getPayees = async (
+  userId: string,
+  search?: string,
+  includeArchived: boolean = false,
+  page: number = 1,
+  limit: number = 50
+): Promise<PaginatedResponse<IPayee>> => {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (!includeArchived) {
+    query.isArchived = false;
+  }
+
+  if (search) {
+    const regex = new RegExp(escapeRegex(search.trim()), 'i');
+    query.$or = [{ name: regex }, { aliases: regex }];
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [payees, total] = await Promise.all([
+    Payee.find(query)
+      .populate('defaultCategory', 'name icon color')
+      .sort({ name: 1 })
+      .skip(skip)
+      .limit(limit),
+    Payee.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: payees,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Get Single Payee
+ *
+ * @param userId - User ID
+ * @param payeeId - Payee ID
+ */
+export const getPayeeById = async (userId: string, payeeId: string): Promise<IPayee> => {
+  const payee = await Payee.findOne({
+    _id: new mongoose.Types.ObjectId(payeeId),
+    userId: new mongoose.Types.ObjectId(userId)
+  }).populate('defaultCategory', 'name icon color');
+
+  if (!payee) {
+    throw new NotFoundError('Payee not found');
+  }
+
+  return payee;
+};
+
+/**
+ * Create Payee
+ *
+ * @param userId - User ID
+ * @param data - Payee data
+ */
+export const createPayee = async (userId: string, data: CreatePayeeDTO): Promise<IPayee> => {
+  await ensureUniqueName(userId, data.name);
+
+  if (data.defaultCategoryId) {
+    await verifyCategory(userId, data.defaultCategoryId);
+  }
+
+  const payee = await Payee.create({
+    ...data,
+    aliases: cleanAliases(data.name, data.aliases),
+    defaultCategoryId: data.defaultCategoryId
+      ? new mongoose.Types.ObjectId(data.defaultCategoryId)
+      : null,
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  await payee.populate('defaultCategory', 'name icon color');
+
+  return payee;
+};
+
+/**
+ * Update Payee
+ *
+ * @param userId - User ID
+ * @param payeeId - Payee ID
+ * @param data - Fields to update
+ */
+export const updatePayee = async (
+  userId: string,
+  payeeId: string,
+  data: UpdatePayeeDTO
+): Promise<IPayee> => {
+  const payee = await getPayeeById(userId, payeeId);
+
+  if (data.name && data.name !== payee.name) {
+    await ensureUniqueName(userId, data.name, payeeId);
+  }
+
+  if (data.defaultCategoryId) {
+    await verifyCategory(userId, data.defaultCategoryId);
+  }
+
+  payee.set({
+    ...data,
+    aliases: cleanAliases(data.name ?? payee.name, data.aliases ?? payee.aliases)
+  });
+  await payee.save();
+
+  await payee.populate('defaultCategory', 'name icon color');
+
+  return payee;
+};
+
+/**
+ * Delete Payee
+ *
+ * Expenses keep their description; only the link is removed
+ *
+ * @param userId - User ID
+ * @param payeeId - Payee ID
+ */
+export const deletePayee = async (userId: string, payeeId: string): Promise<void> => {
+  const payee = await getPayeeById(userId, payeeId);
+
+  await Expense.updateMany(
+    { userId: payee.userId, payeeId: payee._id },
+    { $set: { payeeId: null } }
+  );
+
+  await payee.deleteOne();
+};
+
+/**
+ * Match Payees on Existing Expenses
+ *
+ * Fills payeeId on expenses that don't have one yet
+ * (or on all expenses with `overwrite`).
+ *
+ * @param userId - User ID
+ * @param overwrite - Re-match expenses that already have a payee
+ * @returns Counts
+ */
+export const rematchPayees = async (
+  userId: string,
+  overwrite: boolean = false
+): Promise<{ scanned: number; matched: number }> => {
+  const matcher = await buildPayeeMatcher(userId);
+
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId),
+    description: { $nin: [null, ''] }
+  };
+
+  if (!overwrite) {
+    query.payeeId = null;
+  }
+
+  const cursor = Expense.find(query)
+    .select('description payeeId')
+    .lean()
+    .cursor({ batchSize: BATCH_SIZE });
+
+  let scanned = 0;
+  let matched = 0;
+  let bulkOps: any[] = [];
+
+  for await (const expense of cursor) {
+    scanned++;
+
+    const payee = matcher(expense.description);
+    if (!payee || payee._id.equals(expense.payeeId ?? undefined)) {
+      continue;
+    }
+
+    matched++;
+    bulkOps.push({
+      updateOne: {
+        filter: { _id: expense._id },
+        update: { $set: { payeeId: payee._id } }
+      }
+    });
+
+    if (bulkOps.length >= BATCH_SIZE) {
+      await Expense.bulkWrite(bulkOps);
+      bulkOps = [];
+    }
+  }
+
+  if (bulkOps.length > 0) {
+    await Expense.bulkWrite(bulkOps);
+  }
+
+  return { scanned, matched };
+};
+
+/**
+ * Build Date Match
+ */
+const dateMatch = (range: PayeeRange): any => {
+  if (!range.startDate && !range.endDate) {
+    return {};
+  }
+
+  const date: any = {};
+  if (range.startDate) date.$gte = new Date(range.startDate);
+  if (range.endDate) date.$lte = new Date(range.endDate);
+
+  return { date };
+};
+
+/**
+ * Get Payee Summary
+ *
+ * Purpose: Top payees by spending in a range
+ *
+ * @param userId - User ID
+ * @param range - Optional date range (default: all time)
+ * @param limit - Max payees (default: 20)
+ * @returns Payees with total, transactions, visits and average ticket
+ */
+export const getPayeeSummary = async (
+  userId: string,
+  range: PayeeRange,
+  limit: number = 20
+) => {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const timezone = await getUserTimezone(userId);
+
+  const [rows, unassigned, currency] = await Promise.all([
+    Expense.aggregate([
+      {
+        $match: {
+          userId: userObjectId,
+          payeeId: { $type: 'objectId' },
+          ...dateMatch(range)
+        }
+      },
+      {
+        $group: {
+          _id: '$payeeId',
+          total: { $sum: NET_AMOUNT },
+          transactions: { $sum: 1 },
+          days: { $addToSet: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone } } },
+          lastVisit: { $max: '$date' }
+        }
+      },
+      { $sort: { total: -1 } },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: 'payees',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'payee'
+        }
+      },
+      { $unwind: '$payee' },
+      {
+        $project: {
+          _id: 0,
+          payeeId: '$_id',
+          name: '$payee.name',
+          total: 1,
+          transactions: 1,
+          visits: { $size: '$days' },
+          averageTicket: { $divide: ['$total', '$transactions'] },
+          lastVisit: 1
+        }
+      }
+    ]),
+
+    Expense.aggregate([
+      { $match: { userId: userObjectId, payeeId: null, ...dateMatch(range) } },
+      { $group: { _id: null, total: { $sum: NET_AMOUNT }, transactions: { $sum: 1 } } }
+    ]),
+
+    getUserBaseCurrency(userId)
+  ]);
+
+  return {
+    currency,
+    range: {
+      startDate: range.startDate ?? null,
+      endDate: range.endDate ?? null
+    },
+    payees: rows.map(row => ({
+      ...row,
+      total: Math.round(row.total * 100) / 100,
+      averageTicket: Math.round(row.averageTicket * 100) / 100
+    })),
+    unassigned: {
+      total: Math.round((unassigned[0]?.total || 0) * 100) / 100,
+      transactions: unassigned[0]?.transactions || 0
+    }
+  };
+};
+
+/**
+ * Get Payee Analytics
+ *
+ * Visits are distinct days with spending (two receipts at the same
+ * shop on one day count as one visit).
+ *
+ * @param userId - User ID
+ * @param payeeId - Payee ID
+ * @param range - Optional date range (default: all time)
+ * @returns Totals, visit frequency, average ticket, monthly trend
+ *          and category breakdown
+ */
+export const getPayeeStats = async (
+  userId: string,
+  payeeId: string,
+  range: PayeeRange
+) => {
+  const payee = await getPayeeById(userId, payeeId);
+  const timezone = await getUserTimezone(userId);
+
+  const [result, currency] = await Promise.all([
+    Expense.aggregate([
+      {
+        $match: {
+          userId: new mongoose.Types.ObjectId(userId),
+          payeeId: payee._id,
+          ...dateMatch(range)
+        }
+      },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                total: { $sum: NET_AMOUNT },
+                transactions: { $sum: 1 },
+                minTicket: { $min: '$amount' },
+                maxTicket: { $max: '$amount' },
+                firstVisit: { $min: '$date' },
+                lastVisit: { $max: '$date' },
+                days: { $addToSet: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone } } }
+              }
+            }
+          ],
+          monthly: [
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m', date: '$date', timezone } },
+                total: { $sum: NET_AMOUNT },
+                transactions: { $sum: 1 }
+              }
+            },
+            { $sort: { _id: 1 } }
+          ],
+          byCategory: [
+            {
+              $group: {
+                _id: '$categoryId',
+                total: { $sum: NET_AMOUNT },
+                transactions: { $sum: 1 }
+              }
+            },
+            { $sort: { total: -1 } },
+            {
+              $lookup: {
+                from: 'categories',
+                localField: '_id',
+                foreignField: '_id',
+                as: 'category'
+              }
+            },
+            { $unwind: '$category' }
+          ]
+        }
+      }
+    ]),
+    getUserBaseCurrency(userId)
+  ]);
+
+  const facets = result[0];
+  const totals = facets.totals[0];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  if (!totals) {
+    return {
+      payee,
+      currency,
+      total: 0,
+      transactions: 0,
+      visits: 0,
+      averageTicket: 0,
+      minTicket: 0,
+      maxTicket: 0,
+      firstVisit: null,
+      lastVisit: null,
+      averageDaysBetweenVisits: null,
+      visitsPerMonth: 0,
+      monthly: [],
+      byCategory: []
+    };
+  }
+
+  const visits = totals.days.length;
+
+  // Frequency over the requested range (or the payee's active period)
+  const periodStart = range.startDate ? new Date(range.startDate) : totals.firstVisit;
+  const periodEnd = range.endDate ? new Date(range.endDate) : totals.lastVisit;
+  const periodDays = Math.max((periodEnd.getTime() - periodStart.getTime()) / DAY_MS, 1);
+
+  return {
+    payee,
+    currency,
+    total: round(totals.total),
+    transactions: totals.transactions,
+    visits,
+    averageTicket: round(totals.total / totals.transactions),
+    minTicket: round(totals.minTicket),
+    maxTicket: round(totals.maxTicket),
+    firstVisit: totals.firstVisit,
+    lastVisit: totals.lastVisit,
+    averageDaysBetweenVisits: visits > 1
+      ? round((totals.lastVisit.getTime() - totals.firstVisit.getTime()) / DAY_MS / (visits - 1))
+      : null,
+    visitsPerMonth: round(visits / Math.max(periodDays / AVG_DAYS_PER_MONTH, 1)),
+    monthly: facets.monthly.map((m: any) => ({
+      month: m._id,
+      total: round(m.total),
+      transactions: m.transactions
+    })),
+    byCategory: facets.byCategory.map((c: any) => ({
+      categoryId: c._id,
+      name: c.category.name,
+      icon: c.category.icon,
+      color: c.category.color,
+      total: round(c.total),
+      transactions: c.transactions
+    }))
+  };
+};
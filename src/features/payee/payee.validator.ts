@@ -0,0 +1,61 @@
+/**
+ * Payee Validators
+ */
+
+import Joi from 'joi';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+/**
+ * Create Payee Schema
+ */
+export const createPayeeSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(60)
+    .required()
+    .messages({
+      'string.max': 'Payee name cannot exceed 60 characters',
+      'any.required': 'Payee name is required'
+    }),
+
+  aliases: Joi.array()
+    .items(Joi.string().trim().min(2).max(60))
+    .max(20)
+    .optional()
+    .messages({
+      'array.max': 'Maximum 20 aliases allowed'
+    }),
+
+  defaultCategoryId: objectId.optional().allow(null),
+
+  notes: Joi.string()
+    .trim()
+    .max(200)
+    .optional()
+    .allow(''),
+
+  isArchived: Joi.boolean().optional()
+});
+
+/**
+ * Update Payee Schema
+ */
+export const updatePayeeSchema = Joi.object({
+  name: Joi.string().trim().max(60).optional(),
+  aliases: Joi.array().items(Joi.string().trim().min(2).max(60)).max(20).optional(),
+  defaultCategoryId: objectId.optional().allow(null),
+  notes: Joi.string().trim().max(200).optional().allow(''),
+  isArchived: Joi.boolean().optional()
+}).min(1);
+
+/**
+ * Re-match Payees Schema
+ */
+export const rematchPayeesSchema = Joi.object({
+  overwrite: Joi.boolean().default(false)
+});
@@ -0,0 +1,100 @@
+/**
+ * Receipt Controller
+ */
+
+import { Request, Response } from 'express';
+import * as receiptService from './receipt.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Upload Receipts
+ *
+ * Route: POST /api/expenses/:id/receipts
+ * Body: multipart/form-data, field "files" (images / PDFs)
+ */
+export const uploadReceipts = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const expenseId = req.params.id;
+  const files = (req.files as Express.Multer.File[]) || [];
+
+  const receipts = await receiptService.uploadReceipts(userId, expenseId, files);
+
+  return sendSuccess(
+    res,
+    receipts,
+    `${files.length} receipt(s) uploaded successfully`,
+    201
+  );
+};
+
+/**
+ * Get Receipts (with signed URLs)
+ *
+ * Route: GET /api/expenses/:id/receipts
+ */
+export const getReceipts = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const expenseId = req.params.id;
+
+  const receipts = await receiptService.getReceipts(userId, expenseId);
+
+  return sendSuccess(res, receipts);
+};
+
+/**
+ * Delete Receipt
+ *
+ * Route: DELETE /api/expenses/:id/receipts/:receiptId
+ */
+export const deleteReceipt = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const expenseId = req.params.id;
+  const receiptId = req.params.receiptId;
+
+  await receiptService.deleteReceipt(userId, expenseId, receiptId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Receipt deleted successfully'
+  );
+};
+
+/**
+ * Download Receipt (signed URL, no auth header)
+ *
+ * Route: GET /api/receipts/:token
+ */
+export const downloadReceipt = async (req: Request, res: Response): Promise<void> => {
+  const file = await receiptService.openReceipt(req.params.token);
+
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader(
+    'Content-Disposition',
+    `inline; filename="${encodeURIComponent(file.fileName)}"`
+  );
+  res.setHeader('Cache-Control', 'private, max-age=900');
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');  // <img> from the web app
+  if (file.size !== undefined) {
+    res.setHeader('Content-Length', file.size.toString());
+  }
+
+  file.stream.on('error', (error) => {
+    console.error('❌ Receipt download failed:', error);
+    res.destroy(error);
+  });
+
+  file.stream.pipe(res);
+};
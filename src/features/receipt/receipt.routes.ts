@@ -0,0 +1,21 @@
+/**
+ * Receipt Routes
+ *
+ * Upload / list / delete live under /api/expenses/:id/receipts
+ * (see expense.routes). This router only serves signed downloads.
+ */
+
+import { Router } from 'express';
+import * as receiptController from './receipt.controller';
+
+const router = Router();
+
+/**
+ * Signed download (token carries user, expense and receipt)
+ */
+router.get(
+  '/:token',
+  receiptController.downloadReceipt
+);
+
+export default router;
@@ -0,0 +1,304 @@
+/**
+ * Receipt Service
+ *
+ * Purpose: Store receipt images / PDFs for expenses
+ *
+ * Key Concepts:
+ * 1. Files go to the configured storage backend (local disk or S3)
+ * 2. Images get a small WebP thumbnail; PDFs don't
+ * 3. Downloads use short-lived signed URLs, issued only after the
+ *    ownership check, so they work in <img src> without auth headers
+ * 4. Deleting an expense deletes its files
+ */
+
+import path from 'path';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import Expense, { IExpense, IReceipt } from '../expense/expense.model';
+import { getStorage } from '../../shared/storage';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { generateDownloadToken, verifyDownloadToken } from '../../shared/utils/jwt.util';
+
+/**
+ * Upload limits (also used by the upload middleware)
+ */
+export const RECEIPT_UPLOAD = {
+  field: 'files',
+  maxFiles: 5,
+  maxFileSize: 10 * 1024 * 1024,   // 10MB
+  allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+};
+
+const MAX_RECEIPTS_PER_EXPENSE = 10;
+const THUMBNAIL_SIZE = 320;
+const URL_TTL = '15m';
+
+/**
+ * Receipt with download URLs
+ */
+export interface ReceiptWithUrls {
+  _id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * Receipt Download
+ */
+export interface ReceiptDownload {
+  stream: Readable;
+  contentType: string;
+  fileName: string;
+  size?: number;
+}
+
+/**
+ * Build Signed URL
+ */
+const buildUrl = (
+  userId: string,
+  expenseId: string,
+  receiptId: string,
+  variant: 'original' | 'thumbnail'
+): string => {
+  const token = generateDownloadToken(
+    { userId, expenseId, receiptId, variant },
+    URL_TTL
+  );
+
+  return `/api/receipts/${token}`;
+};
+
+/**
+ * Attach Download URLs
+ */
+const withUrls = (userId: string, expense: IExpense, receipt: IReceipt): ReceiptWithUrls => {
+  const expenseId = expense._id.toString();
+  const receiptId = receipt._id.toString();
+
+  return {
+    _id: receiptId,
+    fileName: receipt.fileName,
+    contentType: receipt.contentType,
+    size: receipt.size,
+    uploadedAt: receipt.uploadedAt,
+    url: buildUrl(userId, expenseId, receiptId, 'original'),
+    thumbnailUrl: receipt.thumbnailKey
+      ? buildUrl(userId, expenseId, receiptId, 'thumbnail')
+      : null
+  };
+};
+
+/**
+ * Find User's Expense
+ */
+const findExpense = async (userId: string, expenseId: string): Promise<IExpense> => {
+  const expense = await Expense.findOne({
+    _id: new mongoose.Types.ObjectId(expenseId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!expense) {
+    throw new NotFoundError('Expense not found');
+  }
+
+  return expense;
+};
+
+/**
+ * Delete Stored Files (best effort)
+ */
+const deleteFiles = async (keys: Array<string | null | undefined>): Promise<void> => {
+  const storage = getStorage();
+
+  await Promise.all(
+    keys
+      .filter((key): key is string => Boolean(key))
+      .map(key => storage.delete(key).catch(err => {
+        console.error(`Failed to delete file ${key}:`, err);
+      }))
+  );
+};
+
+/**
+ * Upload Receipts
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ * @param files - Uploaded files (multer memory storage)
+ * @returns All receipts of the expense with URLs
+ */
+export const uploadReceipts = async (
+  userId: string,
+  expenseId: string,
+  files: Express.Multer.File[]
+): Promise<ReceiptWithUrls[]> => {
+  if (!files || files.length === 0) {
+    throw new BadRequestError('No files uploaded');
+  }
+
+  const expense = await findExpense(userId, expenseId);
+
+  if (expense.receipts.length + files.length > MAX_RECEIPTS_PER_EXPENSE) {
+    throw new BadRequestError(`An expense can have at most ${MAX_RECEIPTS_PER_EXPENSE} receipts`);
+  }
+
+  const storage = getStorage();
+  const receipts: IReceipt[] = [];
+  const writtenKeys: string[] = [];
+
+  try {
+    for (const file of files) {
+      const receiptId = new mongoose.Types.ObjectId();
+      const ext = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '') ||
+        (file.mimetype === 'application/pdf' ? '.pdf' : '');
+      const baseKey = `receipts/${userId}/${expenseId}/${receiptId}`;
+
+      let thumbnailKey: string | null = null;
+
+      if (file.mimetype.startsWith('image/')) {
+        // Also verifies the file really is an image
+        const thumbnail = await sharp(file.buffer)
+          .rotate()   // Respect EXIF orientation (phone photos)
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 70 })
+          .toBuffer()
+          .catch(() => {
+            throw new BadRequestError(`${file.originalname} is not a valid image`);
+          });
+
+        thumbnailKey = `${baseKey}_thumb.webp`;
+        await storage.put(thumbnailKey, thumbnail, 'image/webp');
+        writtenKeys.push(thumbnailKey);
+      } else if (file.buffer.subarray(0, 5).toString() !== '%PDF-') {
+        throw new BadRequestError(`${file.originalname} is not a valid PDF`);
+      }
+
+      await storage.put(`${baseKey}${ext}`, file.buffer, file.mimetype);
+      writtenKeys.push(`${baseKey}${ext}`);
+
+      receipts.push({
+        _id: receiptId,
+        key: `${baseKey}${ext}`,
+        thumbnailKey,
+        fileName: file.originalname.slice(0, 255),
+        contentType: file.mimetype,
+        size: file.size,
+        uploadedAt: new Date()
+      });
+    }
+  } catch (error) {
+    // Don't leave orphaned files behind
+    await deleteFiles(writtenKeys);
+    throw error;
+  }
+
+  const updated = await Expense.findOneAndUpdate(
+    { _id: expense._id, userId: expense.userId },
+    { $push: { receipts: { $each: receipts } } },
+    { new: true }
+  );
+
+  if (!updated) {
+    // Expense deleted meanwhile
+    await deleteFiles(writtenKeys);
+    throw new NotFoundError('Expense not found');
+  }
+
+  return updated.receipts.map(receipt => withUrls(userId, updated, receipt));
+};
+
+/**
+ * Get Receipts (with fresh signed URLs)
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ */
+export const getReceipts = async (
+  userId: string,
+  expenseId: string
+): Promise<ReceiptWithUrls[]> => {
+  const expense = await findExpense(userId, expenseId);
+
+  return expense.receipts.map(receipt => withUrls(userId, expense, receipt));
+};
+
+/**
+ * Delete Receipt
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ * @param receiptId - Receipt ID
+ */
+export const deleteReceipt = async (
+  userId: string,
+  expenseId: string,
+  receiptId: string
+): Promise<void> => {
+  const expense = await findExpense(userId, expenseId);
+  const receipt = expense.receipts.find(r => r._id.toString() === receiptId);
+
+  if (!receipt) {
+    throw new NotFoundError('Receipt not found');
+  }
+
+  await Expense.updateOne(
+    { _id: expense._id },
+    { $pull: { receipts: { _id: receipt._id } } }
+  );
+
+  await deleteFiles([receipt.key, receipt.thumbnailKey]);
+};
+
+/**
+ * Delete All Receipt Files of an Expense
+ *
+ * Purpose: Cleanup when the expense itself is deleted
+ *
+ * @param expense - Expense being deleted
+ */
+export const deleteExpenseReceipts = async (expense: IExpense): Promise<void> => {
+  if (!expense.receipts || expense.receipts.length === 0) {
+    return;
+  }
+
+  await deleteFiles(expense.receipts.flatMap(r => [r.key, r.thumbnailKey]));
+};
+
+/**
+ * Open Receipt for Download
+ *
+ * Token was issued after an ownership check; ownership is checked
+ * again so revoked/deleted receipts stop working immediately.
+ *
+ * @param token - Signed download token
+ */
+export const openReceipt = async (token: string): Promise<ReceiptDownload> => {
+  const { userId, expenseId, receiptId, variant } = verifyDownloadToken(token);
+
+  const expense = await Expense.findOne({
+    _id: new mongoose.Types.ObjectId(expenseId),
+    userId: new mongoose.Types.ObjectId(userId)
+  }).select('receipts');
+
+  const receipt = expense?.receipts.find(r => r._id.toString() === receiptId);
+
+  if (!receipt) {
+    throw new NotFoundError('Receipt not found');
+  }
+
+  const isThumbnail = variant === 'thumbnail' && Boolean(receipt.thumbnailKey);
+  const file = await getStorage().get(isThumbnail ? receipt.thumbnailKey! : receipt.key);
+
+  return {
+    stream: file.stream,
+    contentType: isThumbnail ? 'image/webp' : receipt.contentType,
+    fileName: isThumbnail ? `${path.parse(receipt.fileName).name}_thumb.webp` : receipt.fileName,
+    size: file.size
+  };
+};
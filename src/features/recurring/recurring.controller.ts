@@ -0,0 +1,136 @@
+/**
+ * Recurring Expense Controller
+ */
+
+import { Request, Response } from 'express';
+import * as recurringService from './recurring.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get All Series
+ *
+ * Route: GET /api/recurring?includeStopped=true
+ */
+export const getSeries = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const includeStopped = req.query.includeStopped === 'true';  // Default false
+
+  const series = await recurringService.getSeries(userId, includeStopped);
+
+  return sendSuccess(res, series);
+};
+
+/**
+ * Get Upcoming Occurrences (all series)
+ *
+ * Route: GET /api/recurring/upcoming?days=30
+ */
+export const getUpcomingOccurrences = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const days = parseInt(req.query.days as string) || 30;
+
+  const occurrences = await recurringService.getUpcomingOccurrences(userId, days);
+
+  return sendSuccess(res, occurrences);
+};
+
+/**
+ * Get Single Series
+ *
+ * Route: GET /api/recurring/:id
+ */
+export const getSeriesById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const seriesId = req.params.id;
+
+  const result = await recurringService.getSeriesById(userId, seriesId);
+
+  return sendSuccess(res, result);
+};
+
+/**
+ * Get Upcoming Occurrences (single series)
+ *
+ * Route: GET /api/recurring/:id/upcoming?count=5
+ */
+export const getSeriesUpcoming = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const seriesId = req.params.id;
+  const count = parseInt(req.query.count as string) || 5;
+
+  const occurrences = await recurringService.getSeriesUpcoming(userId, seriesId, count);
+
+  return sendSuccess(res, occurrences);
+};
+
+/**
+ * Skip Occurrence
+ *
+ * Route: POST /api/recurring/:id/skip
+ * Body: { date }
+ */
+export const skipOccurrence = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const seriesId = req.params.id;
+
+  const series = await recurringService.skipOccurrence(userId, seriesId, req.body.date);
+
+  return sendSuccess(
+    res,
+    series,
+    'Occurrence skipped successfully'
+  );
+};
+
+/**
+ * Edit This and Following
+ *
+ * Route: PUT /api/recurring/:id/following
+ * Body: { fromDate, amount?, description?, categoryId?, ... }
+ */
+export const editThisAndFollowing = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const seriesId = req.params.id;
+
+  const series = await recurringService.editThisAndFollowing(userId, seriesId, req.body);
+
+  return sendSuccess(
+    res,
+    series,
+    'Recurring series updated successfully'
+  );
+};
+
+/**
+ * Stop Series
+ *
+ * Route: POST /api/recurring/:id/stop
+ */
+export const stopSeries = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const seriesId = req.params.id;
+
+  const series = await recurringService.stopSeries(userId, seriesId);
+
+  return sendSuccess(
+    res,
+    series,
+    'Recurring series stopped successfully'
+  );
+};
@@ -0,0 +1,199 @@
+/**
+ * Recurring Series Model
+ *
+ * Purpose: Template for expenses that repeat on a schedule
+ *
+ * Features:
+ * 1. Expense template (category, amount, description, etc.)
+ * 2. Interval + optional end date
+ * 3. Pointer to the next occurrence to materialize
+ * 4. Skipped occurrences
+ * 5. Stop / split ("this and following") support
+ *
+ * Each materialized occurrence is a normal Expense document
+ * with recurringSeriesId + occurrenceDate set.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export type RecurringInterval = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Recurring Series Interface
+ */
+export interface IRecurringSeries extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  categoryId: mongoose.Types.ObjectId;
+  amount: number;
+  currency?: string;
+  originalAmount?: number;
+  exchangeRate?: number;
+  description?: string;
+  paymentMethod?: string;
+  accountId?: mongoose.Types.ObjectId | null;
+  tags: string[];
+  interval: RecurringInterval;
+  startDate: Date;
+  endDate?: Date | null;
+  nextIndex: number;
+  nextOccurrence: Date;
+  skippedDates: Date[];
+  isActive: boolean;
+  stoppedAt?: Date | null;
+  previousSeriesId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Recurring Series Schema
+ */
+const RecurringSeriesSchema = new Schema<IRecurringSeries>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+
+    categoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      required: [true, 'Category is required']
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0'],
+      max: [10000000, 'Amount too large']
+    },
+
+    // Original currency & amount; each occurrence is converted at its own date
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    },
+
+    originalAmount: {
+      type: Number
+    },
+
+    exchangeRate: {
+      type: Number,
+      default: 1
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    paymentMethod: {
+      type: String,
+      enum: ['cash', 'card', 'mobile_banking', 'bank_transfer', 'other'],
+      default: 'cash'
+    },
+
+    // Occurrences are paid from this account
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      default: null
+    },
+
+    tags: {
+      type: [String],
+      default: []
+    },
+
+    interval: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly', 'yearly'],
+      required: true
+    },
+
+    startDate: {
+      type: Date,
+      required: true
+    },
+
+    endDate: {
+      type: Date,
+      default: null
+    },
+
+    // Index (0 = startDate) of the next occurrence to materialize
+    nextIndex: {
+      type: Number,
+      default: 1,
+      min: 0
+    },
+
+    nextOccurrence: {
+      type: Date,
+      required: true
+    },
+
+    skippedDates: {
+      type: [Date],
+      default: []
+    },
+
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+
+    stoppedAt: {
+      type: Date,
+      default: null
+    },
+
+    // Set when this series was split off by "edit this and following"
+    previousSeriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RecurringSeries',
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    },
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Virtual: category
+ */
+RecurringSeriesSchema.virtual('category', {
+  ref: 'Category',
+  localField: 'categoryId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Indexes
+ *
+ * - isActive + nextOccurrence: Scheduler looks up due series
+ * - userId + isActive: List user's series
+ */
+RecurringSeriesSchema.index({ isActive: 1, nextOccurrence: 1 });
+RecurringSeriesSchema.index({ userId: 1, isActive: 1 });
+
+const RecurringSeries = mongoose.model<IRecurringSeries>('RecurringSeries', RecurringSeriesSchema);
+
+export default RecurringSeries;
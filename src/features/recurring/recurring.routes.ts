@@ -0,0 +1,77 @@
+/**
+ * Recurring Expense Routes
+ */
+
+import { Router } from 'express';
+import * as recurringController from './recurring.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  skipOccurrenceSchema,
+  editFollowingSchema
+} from './recurring.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * Upcoming occurrences across all series (must be before /:id)
+ */
+router.get(
+  '/upcoming',
+  recurringController.getUpcomingOccurrences
+);
+
+/**
+ * Get all series
+ */
+router.get(
+  '/',
+  recurringController.getSeries
+);
+
+/**
+ * Get single series with its expenses
+ */
+router.get(
+  '/:id',
+  recurringController.getSeriesById
+);
+
+/**
+ * Upcoming occurrences of one series
+ */
+router.get(
+  '/:id/upcoming',
+  recurringController.getSeriesUpcoming
+);
+
+/**
+ * Skip one occurrence
+ */
+router.post(
+  '/:id/skip',
+  validate(skipOccurrenceSchema),
+  recurringController.skipOccurrence
+);
+
+/**
+ * Edit this and following occurrences
+ */
+router.put(
+  '/:id/following',
+  validate(editFollowingSchema),
+  recurringController.editThisAndFollowing
+);
+
+/**
+ * Stop series
+ */
+router.post(
+  '/:id/stop',
+  recurringController.stopSeries
+);
+
+export default router;
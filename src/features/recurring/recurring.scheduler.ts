@@ -0,0 +1,41 @@
+/**
+ * Recurring Expense Scheduler
+ *
+ * Purpose: Create expenses for recurring series when they come due
+ */
+
+import { materializeDueSeries } from './recurring.service';
+
+/**
+ * Check and Materialize Recurring Expenses
+ *
+ * Safe to run repeatedly - occurrences are idempotent
+ */
+export const checkRecurringExpenses = async (): Promise<void> => {
+  try {
+    const created = await materializeDueSeries();
+
+    if (created > 0) {
+      console.log(`🔁 Created ${created} recurring expense(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Recurring expense check error:', error);
+  }
+};
+
+/**
+ * Start Recurring Expense Scheduler
+ *
+ * Checks every hour
+ */
+export const startRecurringExpenseScheduler = (): void => {
+  console.log('🔁 Recurring expense scheduler started');
+
+  // Run immediately on start (catches up after downtime)
+  checkRecurringExpenses();
+
+  // Then run every hour
+  setInterval(() => {
+    checkRecurringExpenses();
+  }, 60 * 60 * 1000);  // 1 hour
+};
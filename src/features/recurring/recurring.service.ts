@@ -0,0 +1,711 @@
+/**
+ * Recurring Expense Service
+ *
+ * Purpose: Materialize recurring expenses from their series
+ *
+ * Key Concepts:
+ * 1. A series is a template + schedule (RecurringSeries model)
+ * 2. Occurrence N is startDate + N intervals (no drift on month ends),
+ *    counted on the user's calendar (their timezone)
+ * 3. Due occurrences become normal Expense documents
+ * 4. Expense { recurringSeriesId, occurrenceDate } is unique,
+ *    so materializing twice (restart, overlap) is a no-op
+ */
+
+import mongoose from 'mongoose';
+import RecurringSeries, { IRecurringSeries, RecurringInterval } from './recurring.model';
+import Expense, { IExpense } from '../expense/expense.model';
+import Category from '../category/category.model';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { toBaseCurrency, ConvertedAmount } from '../currency/currency.service';
+import { getUserTimezone } from '../auth/auth.service';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedParts,
+  zonedTime,
+  endOfDay,
+  formatDateKey
+} from '../../shared/utils/date.util';
+
+/**
+ * Edit "This and Following" DTO
+ */
+export interface EditFollowingDTO {
+  fromDate: Date;
+  categoryId?: string;
+  amount?: number;
+  description?: string;
+  paymentMethod?: string;
+  tags?: string[];
+  interval?: RecurringInterval;
+  endDate?: Date | null;
+}
+
+/**
+ * Upcoming Occurrence
+ */
+export interface UpcomingOccurrence {
+  seriesId: string;
+  date: Date;
+  amount: number;
+  description?: string;
+  categoryId: string;
+  isSkipped: boolean;
+}
+
+/**
+ * Safety cap for a single materialization run
+ * (e.g. a daily series started years ago)
+ */
+const MAX_OCCURRENCES_PER_RUN = 1000;
+
+/**
+ * Get Occurrence Date
+ *
+ * Always computed from the start date so monthly series that
+ * start on the 31st land on the last day of shorter months
+ * instead of drifting. Days and months are counted on the wall
+ * clock in the user's timezone (same time of day, DST-safe).
+ *
+ * @param startDate - Series start date (occurrence 0)
+ * @param interval - Repeat interval
+ * @param index - Occurrence index
+ * @param timezone - User's timezone
+ */
+export const getOccurrenceDate = (
+  startDate: Date,
+  interval: RecurringInterval,
+  index: number,
+  timezone: string = DEFAULT_TIMEZONE
+): Date => {
+  const start = getZonedParts(startDate, timezone);
+  let { year, month, day } = start;
+
+  switch (interval) {
+    case 'daily':
+      day += index;
+      break;
+
+    case 'weekly':
+      day += index * 7;
+      break;
+
+    case 'monthly':
+    case 'yearly': {
+      month += interval === 'monthly' ? index : index * 12;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      day = Math.min(day, daysInMonth);
+      break;
+    }
+  }
+
+  return zonedTime(
+    timezone,
+    year,
+    month,
+    day,
+    start.hour,
+    start.minute,
+    start.second,
+    startDate.getUTCMilliseconds()
+  );
+};
+
+/**
+ * Same calendar day check in the user's timezone (used to match
+ * user-supplied dates to occurrences)
+ */
+const isSameDay = (a: Date, b: Date, timezone: string): boolean => {
+  return formatDateKey(a, timezone) === formatDateKey(b, timezone);
+};
+
+/**
+ * Find occurrence index for a date
+ *
+ * @returns Index, or -1 if the date is not an occurrence of the series
+ */
+const findOccurrenceIndex = (series: IRecurringSeries, date: Date, timezone: string): number => {
+  if (date < series.startDate && !isSameDay(date, series.startDate, timezone)) {
+    return -1;
+  }
+
+  for (let index = 0; ; index++) {
+    const occurrence = getOccurrenceDate(series.startDate, series.interval, index, timezone);
+
+    if (isSameDay(occurrence, date, timezone)) {
+      return index;
+    }
+
+    if (occurrence > date) {
+      return -1;
+    }
+  }
+};
+
+const isSkipped = (series: IRecurringSeries, date: Date): boolean => {
+  return series.skippedDates.some(skipped => skipped.getTime() === date.getTime());
+};
+
+const isPastEnd = (series: IRecurringSeries, date: Date): boolean => {
+  return !!series.endDate && date > series.endDate;
+};
+
+/**
+ * Get Occurrence Amount
+ *
+ * Foreign-currency series are converted at each occurrence's date.
+ * If no rate is available the series' stored base amount is used.
+ */
+const getOccurrenceAmount = async (
+  series: IRecurringSeries,
+  date: Date
+): Promise<Partial<ConvertedAmount>> => {
+  const fallback: Partial<ConvertedAmount> = {
+    amount: series.amount,
+    originalAmount: series.originalAmount ?? series.amount,
+    exchangeRate: series.exchangeRate ?? 1
+  };
+
+  if (!series.currency || series.originalAmount === undefined) {
+    return fallback;
+  }
+
+  fallback.currency = series.currency;
+
+  try {
+    return await toBaseCurrency(series.userId.toString(), series.originalAmount, series.currency, date);
+  } catch (error) {
+    return fallback;
+  }
+};
+
+/**
+ * Materialize Series
+ *
+ * Creates Expense documents for every due occurrence of one series.
+ * Uses upsert on { recurringSeriesId, occurrenceDate } so a crash
+ * between creating the expense and saving the series pointer never
+ * produces duplicates.
+ *
+ * The upsert skips Expense's save hooks, so the category ownership
+ * check is done here: a series whose category was deleted is stopped.
+ * (The geo hook has nothing to derive - series carry no location.)
+ *
+ * @param series - Series document
+ * @param until - Materialize occurrences up to this date (default: now)
+ * @returns Number of expenses created
+ */
+export const materializeSeries = async (
+  series: IRecurringSeries,
+  until: Date = new Date()
+): Promise<number> => {
+  let created = 0;
+  let processed = 0;
+  const timezone = await getUserTimezone(series.userId.toString());
+
+  if (
+    series.isActive &&
+    series.nextOccurrence <= until &&
+    !(await Category.exists({ _id: series.categoryId, userId: series.userId }))
+  ) {
+    series.isActive = false;
+    series.stoppedAt = new Date();
+    await series.save();
+    return 0;
+  }
+
+  while (
+    series.isActive &&
+    series.nextOccurrence <= until &&
+    processed < MAX_OCCURRENCES_PER_RUN
+  ) {
+    const occurrenceDate = series.nextOccurrence;
+
+    if (isPastEnd(series, occurrenceDate)) {
+      series.isActive = false;
+      break;
+    }
+
+    if (!isSkipped(series, occurrenceDate)) {
+      const converted = await getOccurrenceAmount(series, occurrenceDate);
+
+      const result = await Expense.updateOne(
+        {
+          recurringSeriesId: series._id,
+          occurrenceDate
+        },
+        {
+          $setOnInsert: {
+            userId: series.userId,
+            categoryId: series.categoryId,
+            ...converted,
+            description: series.description,
+            paymentMethod: series.paymentMethod,
+            accountId: series.accountId ?? null,
+            tags: series.tags,
+            date: occurrenceDate,
+            isRecurring: false,
+            recurringSeriesId: series._id,
+            occurrenceDate
+          }
+        },
+        { upsert: true }
+      );
+
+      created += result.upsertedCount;
+    }
+
+    series.nextIndex += 1;
+    series.nextOccurrence = getOccurrenceDate(series.startDate, series.interval, series.nextIndex, timezone);
+    processed++;
+  }
+
+  if (series.isActive && isPastEnd(series, series.nextOccurrence)) {
+    series.isActive = false;
+  }
+
+  await series.save();
+
+  return created;
+};
+
+/**
+ * Materialize All Due Series
+ *
+ * Called by the scheduler. Errors in one series don't stop the others.
+ *
+ * @returns Total number of expenses created
+ */
+export const materializeDueSeries = async (): Promise<number> => {
+  const now = new Date();
+
+  const dueSeries = await RecurringSeries.find({
+    isActive: true,
+    nextOccurrence: { $lte: now }
+  });
+
+  let total = 0;
+
+  for (const series of dueSeries) {
+    try {
+      total += await materializeSeries(series, now);
+    } catch (error) {
+      console.error(`❌ Failed to materialize recurring series ${series._id}:`, error);
+    }
+  }
+
+  return total;
+};
+
+/**
+ * Create Series From Expense
+ *
+ * Purpose: Called when an expense is created/updated with isRecurring.
+ * The expense itself becomes occurrence 0 of the series.
+ *
+ * @param expense - Expense with recurringConfig
+ * @returns Created series
+ */
+export const createSeriesFromExpense = async (
+  expense: IExpense
+): Promise<IRecurringSeries> => {
+  if (!expense.recurringConfig?.interval) {
+    throw new BadRequestError('Recurring interval is required');
+  }
+
+  const { interval, endDate } = expense.recurringConfig;
+  const timezone = await getUserTimezone(expense.userId.toString());
+
+  const series = await RecurringSeries.create({
+    userId: expense.userId,
+    categoryId: expense.categoryId,
+    amount: expense.amount,
+    currency: expense.currency,
+    originalAmount: expense.originalAmount,
+    exchangeRate: expense.exchangeRate,
+    description: expense.description,
+    paymentMethod: expense.paymentMethod,
+    accountId: expense.accountId ?? null,
+    tags: expense.tags,
+    interval,
+    startDate: expense.date,
+    endDate: endDate || null,
+    nextIndex: 1,
+    nextOccurrence: getOccurrenceDate(expense.date, interval, 1, timezone)
+  });
+
+  expense.recurringSeriesId = series._id;
+  expense.occurrenceDate = expense.date;
+  await expense.save();
+
+  // Backdated series: catch up immediately instead of waiting for the scheduler
+  await materializeSeries(series);
+
+  return series;
+};
+
+/**
+ * Get Series (owned by user)
+ */
+const findUserSeries = async (
+  userId: string,
+  seriesId: string
+): Promise<IRecurringSeries> => {
+  const series = await RecurringSeries.findOne({
+    _id: new mongoose.Types.ObjectId(seriesId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!series) {
+    throw new NotFoundError('Recurring series not found');
+  }
+
+  return series;
+};
+
+/**
+ * Get All Series
+ *
+ * @param userId - User ID
+ * @param includeStopped - Include stopped/finished series (default: false)
+ * @returns Array of series
+ */
+export const getSeries = async (
+  userId: string,
+  includeStopped: boolean = false
+): Promise<IRecurringSeries[]> => {
+  const query: any = {
+    userId: new mongoose.Types.ObjectId(userId)
+  };
+
+  if (!includeStopped) {
+    query.isActive = true;
+  }
+
+  const series = await RecurringSeries.find(query)
+    .populate('category')
+    .sort({ nextOccurrence: 1 });
+
+  return series;
+};
+
+/**
+ * Get Single Series
+ *
+ * @param userId - User ID
+ * @param seriesId - Series ID
+ * @returns Series with its materialized expenses
+ */
+export const getSeriesById = async (
+  userId: string,
+  seriesId: string
+) => {
+  const series = await findUserSeries(userId, seriesId);
+  await series.populate('category');
+
+  const expenses = await Expense.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    recurringSeriesId: series._id
+  })
+    .sort({ occurrenceDate: -1 })
+    .lean();
+
+  return { series, expenses };
+};
+
+/**
+ * List Upcoming Occurrences for a Series
+ *
+ * @param series - Series document
+ * @param until - Last date to include
+ * @param limit - Max occurrences
+ * @param timezone - User's timezone
+ */
+const listUpcoming = (
+  series: IRecurringSeries,
+  until: Date | null,
+  limit: number,
+  timezone: string
+): UpcomingOccurrence[] => {
+  const occurrences: UpcomingOccurrence[] = [];
+
+  if (!series.isActive) {
+    return occurrences;
+  }
+
+  for (let index = series.nextIndex; occurrences.length < limit; index++) {
+    const date = getOccurrenceDate(series.startDate, series.interval, index, timezone);
+
+    if (isPastEnd(series, date) || (until && date > until)) {
+      break;
+    }
+
+    occurrences.push({
+      seriesId: series._id.toString(),
+      date,
+      amount: series.amount,
+      description: series.description,
+      categoryId: series.categoryId.toString(),
+      isSkipped: isSkipped(series, date)
+    });
+  }
+
+  return occurrences;
+};
+
+/**
+ * Get Upcoming Occurrences (single series)
+ *
+ * @param userId - User ID
+ * @param seriesId - Series ID
+ * @param count - Number of occurrences (default: 5)
+ */
+export const getSeriesUpcoming = async (
+  userId: string,
+  seriesId: string,
+  count: number = 5
+): Promise<UpcomingOccurrence[]> => {
+  const series = await findUserSeries(userId, seriesId);
+
+  return listUpcoming(series, null, count, await getUserTimezone(userId));
+};
+
+/**
+ * Get Upcoming Occurrences (all series)
+ *
+ * @param userId - User ID
+ * @param days - Look-ahead window in days, through the end of the
+ *   last day on the user's calendar (default: 30)
+ * @returns Occurrences sorted by date
+ */
+export const getUpcomingOccurrences = async (
+  userId: string,
+  days: number = 30
+): Promise<UpcomingOccurrence[]> => {
+  const timezone = await getUserTimezone(userId);
+  const until = endOfDay(new Date(), timezone, days);
+
+  const seriesList = await RecurringSeries.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    isActive: true,
+    nextOccurrence: { $lte: until }
+  });
+
+  const occurrences = seriesList.flatMap(series =>
+    listUpcoming(series, until, MAX_OCCURRENCES_PER_RUN, timezone)
+  );
+
+  return occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Skip Occurrence
+ *
+ * Future occurrence: recorded so it's never materialized.
+ * Already materialized occurrence: the generated expense is removed.
+ *
+ * @param userId - User ID
+ * @param seriesId - Series ID
+ * @param date - Occurrence date (matched by calendar day)
+ * @returns Updated series
+ */
+export const skipOccurrence = async (
+  userId: string,
+  seriesId: string,
+  date: Date
+): Promise<IRecurringSeries> => {
+  const series = await findUserSeries(userId, seriesId);
+  const timezone = await getUserTimezone(userId);
+
+  const index = findOccurrenceIndex(series, new Date(date), timezone);
+
+  if (index === -1) {
+    throw new BadRequestError('Date is not an occurrence of this series');
+  }
+
+  const occurrenceDate = getOccurrenceDate(series.startDate, series.interval, index, timezone);
+
+  if (isPastEnd(series, occurrenceDate)) {
+    throw new BadRequestError('Date is after the end of this series');
+  }
+
+  if (!isSkipped(series, occurrenceDate)) {
+    series.skippedDates.push(occurrenceDate);
+    await series.save();
+  }
+
+  await Expense.deleteOne({
+    recurringSeriesId: series._id,
+    occurrenceDate
+  });
+
+  return series;
+};
+
+/**
+ * Edit "This and Following"
+ *
+ * Flow:
+ * 1. End the current series just before fromDate
+ * 2. Start a new series at fromDate with the edited template
+ * 3. Move already-materialized occurrences from fromDate onwards
+ *    to the new series and apply the edits to them
+ *
+ * @param userId - User ID
+ * @param seriesId - Series ID
+ * @param data - fromDate + fields to change
+ * @returns New series
+ */
+export const editThisAndFollowing = async (
+  userId: string,
+  seriesId: string,
+  data: EditFollowingDTO
+): Promise<IRecurringSeries> => {
+  const series = await findUserSeries(userId, seriesId);
+
+  if (!series.isActive) {
+    throw new BadRequestError('Cannot edit a stopped series');
+  }
+
+  const timezone = await getUserTimezone(userId);
+  const index = findOccurrenceIndex(series, new Date(data.fromDate), timezone);
+
+  if (index === -1) {
+    throw new BadRequestError('Date is not an occurrence of this series');
+  }
+
+  const fromDate = getOccurrenceDate(series.startDate, series.interval, index, timezone);
+
+  if (data.categoryId && data.categoryId !== series.categoryId.toString()) {
+    const category = await Category.findOne({
+      _id: new mongoose.Types.ObjectId(data.categoryId),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+  }
+
+  const interval = data.interval || series.interval;
+  const endDate = data.endDate !== undefined ? data.endDate : series.endDate;
+
+  // New amount is in the series' currency
+  const converted: Partial<ConvertedAmount> = data.amount !== undefined
+    ? await toBaseCurrency(userId, data.amount, series.currency, fromDate)
+    : {};
+
+  const template = {
+    categoryId: data.categoryId
+      ? new mongoose.Types.ObjectId(data.categoryId)
+      : series.categoryId,
+    ...converted,
+    description: data.description ?? series.description,
+    paymentMethod: data.paymentMethod ?? series.paymentMethod,
+    tags: data.tags ?? series.tags
+  };
+
+  // First index of the new series that hasn't been materialized yet
+  let nextIndex = 0;
+  if (series.nextOccurrence > fromDate) {
+    while (getOccurrenceDate(fromDate, interval, nextIndex, timezone) < series.nextOccurrence) {
+      nextIndex++;
+    }
+  }
+
+  const newSeries = await RecurringSeries.create({
+    amount: series.amount,
+    currency: series.currency,
+    originalAmount: series.originalAmount,
+    exchangeRate: series.exchangeRate,
+    accountId: series.accountId ?? null,
+    ...template,
+    userId: series.userId,
+    interval,
+    startDate: fromDate,
+    endDate: endDate || null,
+    nextIndex,
+    nextOccurrence: getOccurrenceDate(fromDate, interval, nextIndex, timezone),
+    skippedDates: series.skippedDates.filter(skipped => skipped >= fromDate),
+    previousSeriesId: series._id
+  });
+
+  // Move materialized occurrences to the new series
+  const { amount, exchangeRate, ...sharedFields } = template;
+  const movedExpenses = await Expense.find({
+    recurringSeriesId: series._id,
+    occurrenceDate: { $gte: fromDate }
+  });
+
+  for (const expense of movedExpenses) {
+    const occurrenceAmount = data.amount !== undefined
+      ? await getOccurrenceAmount(newSeries, expense.occurrenceDate!)
+      : {};
+
+    Object.assign(expense, sharedFields, occurrenceAmount, {
+      recurringSeriesId: newSeries._id
+    });
+    await expense.save();
+  }
+
+  // Close the old series right before fromDate
+  series.endDate = new Date(fromDate.getTime() - 1);
+  series.isActive = false;
+  series.stoppedAt = new Date();
+  await series.save();
+
+  await materializeSeries(newSeries);
+
+  return newSeries;
+};
+
+/**
+ * Stop Series
+ *
+ * No more occurrences are generated. Already materialized expenses are kept.
+ *
+ * @param userId - User ID
+ * @param seriesId - Series ID
+ * @returns Stopped series
+ */
+export const stopSeries = async (
+  userId: string,
+  seriesId: string
+): Promise<IRecurringSeries> => {
+  const series = await findUserSeries(userId, seriesId);
+
+  if (!series.isActive) {
+    throw new BadRequestError('Series is already stopped');
+  }
+
+  series.isActive = false;
+  series.stoppedAt = new Date();
+  await series.save();
+
+  // Keep the originating expense in sync so it no longer shows as recurring
+  await Expense.updateMany(
+    { recurringSeriesId: series._id, isRecurring: true },
+    { $set: { isRecurring: false } }
+  );
+
+  return series;
+};
+
+/**
+ * Stop Series for Expense
+ *
+ * Purpose: Called when an expense that started a series is
+ * updated with isRecurring = false
+ *
+ * @param expense - Expense document
+ */
+export const stopSeriesForExpense = async (expense: IExpense): Promise<void> => {
+  if (!expense.recurringSeriesId) {
+    return;
+  }
+
+  await RecurringSeries.updateOne(
+    { _id: expense.recurringSeriesId, isActive: true },
+    { $set: { isActive: false, stoppedAt: new Date() } }
+  );
+};
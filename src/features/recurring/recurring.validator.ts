@@ -0,0 +1,38 @@
+/**
+ * Recurring Expense Validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Skip Occurrence Schema
+ */
+export const skipOccurrenceSchema = Joi.object({
+  date: Joi.date()
+    .required()
+    .messages({
+      'any.required': 'Occurrence date is required'
+    })
+});
+
+/**
+ * Edit This and Following Schema
+ */
+export const editFollowingSchema = Joi.object({
+  fromDate: Joi.date()
+    .required()
+    .messages({
+      'any.required': 'From date is required'
+    }),
+  categoryId: Joi.string().optional(),
+  amount: Joi.number().min(0.01).max(10000000).optional(),
+  description: Joi.string().max(200).trim().optional().allow(''),
+  paymentMethod: Joi.string()
+    .valid('cash', 'card', 'mobile_banking', 'bank_transfer', 'other')
+    .optional(),
+  tags: Joi.array().items(Joi.string().max(20)).max(10).optional(),
+  interval: Joi.string()
+    .valid('daily', 'weekly', 'monthly', 'yearly')
+    .optional(),
+  endDate: Joi.date().optional().allow(null)
+}).min(2);
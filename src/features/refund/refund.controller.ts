@@ -0,0 +1,64 @@
+/**
+ * Refund Controller
+ */
+
+import { Request, Response } from 'express';
+import * as refundService from './refund.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Refund an Expense (fully or partly)
+ *
+ * Route: POST /api/expenses/:id/refunds
+ * Body: { amount, date?, reason? } (amount in the expense's currency)
+ */
+export const createRefund = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const refund = await refundService.createRefund(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    refund,
+    'Refund recorded successfully',
+    201
+  );
+};
+
+/**
+ * Get Refunds of an Expense
+ *
+ * Route: GET /api/expenses/:id/refunds
+ */
+export const getRefunds = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await refundService.getRefunds(userId, req.params.id);
+
+  return sendSuccess(res, result);
+};
+
+/**
+ * Delete Refund
+ *
+ * Route: DELETE /api/expenses/:id/refunds/:refundId
+ */
+export const deleteRefund = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await refundService.deleteRefund(userId, req.params.id, req.params.refundId);
+
+  return sendSuccess(res, null, 'Refund deleted successfully');
+};
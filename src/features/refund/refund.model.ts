@@ -0,0 +1,112 @@
+/**
+ * Refund Model
+ *
+ * Purpose: Money given back for an expense (returned purchase,
+ * cancelled booking, partial refund)
+ *
+ * Key Concepts:
+ * 1. Always linked to the original expense, which keeps its amount;
+ *    several partial refunds can add up to at most that amount
+ * 2. `originalAmount` is in the expense's currency; `amount` is in the
+ *    base currency at the expense's rate, so a full refund nets the
+ *    expense to exactly zero
+ * 3. The expense's `refundedAmount` is the sum of `amount`
+ *    (denormalized so every spending total can net it cheaply)
+ * 4. Money goes back to the expense's account on the refund date
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Refund Interface
+ */
+export interface IRefund extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  expenseId: mongoose.Types.ObjectId;
+  accountId?: mongoose.Types.ObjectId | null;
+  amount: number;            // Base currency
+  originalAmount: number;    // Expense's currency
+  currency: string;
+  date: Date;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Refund Schema
+ */
+const RefundSchema = new Schema<IRefund>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    expenseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Expense',
+      required: true
+    },
+
+    // Copied from the expense: where the money comes back to
+    accountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      default: null
+    },
+
+    amount: {
+      type: Number,
+      required: true
+    },
+
+    originalAmount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    currency: {
+      type: String,
+      required: true
+    },
+
+    date: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+/**
+ * Indexes
+ * - Refunds of an expense
+ * - userId + accountId + date: Account balances and history
+ */
+RefundSchema.index({ expenseId: 1, date: 1 });
+RefundSchema.index({ userId: 1, accountId: 1, date: -1 });
+
+const Refund = mongoose.model<IRefund>('Refund', RefundSchema);
+
+export default Refund;
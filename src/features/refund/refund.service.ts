@@ -0,0 +1,273 @@
+/**
+ * Refund Service
+ *
+ * Purpose: Record refunds against expenses and keep the expense's
+ * refundedAmount in sync
+ *
+ * Key Concepts:
+ * 1. Refund amounts are entered in the expense's currency and can't
+ *    add up to more than the expense
+ * 2. Base amounts use the expense's own rate (amount / originalAmount),
+ *    so they follow the expense when it's edited or re-converted
+ * 3. Spending totals net refunds on the expense's date (the purchase
+ *    month's budget gets the money back); account balances get it
+ *    back on the refund date
+ */
+
+import mongoose from 'mongoose';
+import Refund, { IRefund } from './refund.model';
+import Expense, { IExpense } from '../expense/expense.model';
+import { getUserTimezone } from '../auth/auth.service';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { startOfDay } from '../../shared/utils/date.util';
+
+/**
+ * Create Refund DTO
+ */
+export interface CreateRefundDTO {
+  amount: number;       // In the expense's currency
+  date?: Date;          // Default: now
+  reason?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Expense Amount in Its Own Currency
+ */
+const originalOf = (expense: IExpense): number => expense.originalAmount ?? expense.amount;
+
+/**
+ * Base Currency per Unit of the Expense's Currency
+ */
+const rateOf = (expense: IExpense): number => {
+  const original = originalOf(expense);
+  return original > 0 ? expense.amount / original : 1;
+};
+
+/**
+ * Get Expense (owned by user)
+ */
+const findUserExpense = async (userId: string, expenseId: string): Promise<IExpense> => {
+  const expense = await Expense.findOne({
+    _id: new mongoose.Types.ObjectId(expenseId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!expense) {
+    throw new NotFoundError('Expense not found');
+  }
+
+  return expense;
+};
+
+/**
+ * Total Refunded in the Expense's Currency
+ */
+const sumRefunded = async (expenseId: mongoose.Types.ObjectId): Promise<number> => {
+  const [result] = await Refund.aggregate([
+    { $match: { expenseId } },
+    { $group: { _id: null, total: { $sum: '$originalAmount' } } }
+  ]);
+
+  return round(result?.total || 0);
+};
+
+/**
+ * Sync Refunds with Their Expense
+ *
+ * Recomputes base amounts at the expense's current rate, copies its
+ * account and stores the total as expense.refundedAmount
+ *
+ * Purpose: Called after refunds change and after the expense's
+ * amount, currency or account changes
+ *
+ * @param expense - Expense (saved)
+ */
+export const syncExpenseRefunds = async (expense: IExpense): Promise<void> => {
+  const refunds = await Refund.find({ expenseId: expense._id });
+  const rate = rateOf(expense);
+  const accountId = expense.accountId ?? null;
+
+  const ops = refunds
+    .filter(refund =>
+      refund.amount !== round(refund.originalAmount * rate) ||
+      String(refund.accountId ?? null) !== String(accountId)
+    )
+    .map(refund => ({
+      updateOne: {
+        filter: { _id: refund._id },
+        update: { $set: { amount: round(refund.originalAmount * rate), accountId } }
+      }
+    }));
+
+  if (ops.length > 0) {
+    await Refund.bulkWrite(ops);
+  }
+
+  // Fully refunded → exactly the expense amount (no rounding leftovers)
+  const refunded = round(refunds.reduce((sum, refund) => sum + refund.originalAmount, 0));
+  const refundedAmount = refunded >= originalOf(expense) ? expense.amount : round(refunded * rate);
+
+  if (expense.refundedAmount !== refundedAmount) {
+    await Expense.updateOne({ _id: expense._id }, { $set: { refundedAmount } });
+    expense.refundedAmount = refundedAmount;
+  }
+};
+
+/**
+ * Sync Refunds of All of a User's Expenses
+ *
+ * Purpose: After the base currency changes (expenses re-converted)
+ *
+ * @param userId - User ID
+ */
+export const syncUserRefunds = async (userId: string): Promise<void> => {
+  const expenseIds = await Refund.distinct('expenseId', {
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  const expenses = await Expense.find({ _id: { $in: expenseIds } });
+
+  for (const expense of expenses) {
+    await syncExpenseRefunds(expense);
+  }
+};
+
+/**
+ * Ensure an Expense Edit Leaves Room for Its Refunds
+ *
+ * @param expense - Expense before the edit
+ * @param amount - New amount (expense's currency), if changing
+ * @param currency - New currency, if changing
+ */
+export const ensureRefundsFit = async (
+  expense: IExpense,
+  amount?: number,
+  currency?: string
+): Promise<void> => {
+  if (!expense.refundedAmount) {
+    return;
+  }
+
+  if (currency !== undefined && currency !== expense.currency) {
+    throw new BadRequestError('Expense has refunds; delete them before changing its currency');
+  }
+
+  const refunded = await sumRefunded(expense._id);
+
+  if (amount !== undefined && amount < refunded) {
+    throw new BadRequestError(`Amount cannot be less than the ${refunded} ${expense.currency} already refunded`);
+  }
+};
+
+/**
+ * Create Refund
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ * @param data - Amount (expense's currency), date, reason
+ * @returns Created refund
+ */
+export const createRefund = async (
+  userId: string,
+  expenseId: string,
+  data: CreateRefundDTO
+): Promise<IRefund> => {
+  const expense = await findUserExpense(userId, expenseId);
+  const date = data.date ? new Date(data.date) : new Date();
+
+  const timezone = await getUserTimezone(userId);
+  if (date < startOfDay(expense.date, timezone)) {
+    throw new BadRequestError('Refund cannot be dated before the expense');
+  }
+
+  const remaining = round(originalOf(expense) - await sumRefunded(expense._id));
+
+  if (data.amount > remaining) {
+    throw new BadRequestError(
+      remaining > 0
+        ? `Refunds cannot exceed the expense; ${remaining} ${expense.currency} left to refund`
+        : 'Expense is already fully refunded'
+    );
+  }
+
+  const refund = await Refund.create({
+    userId: expense.userId,
+    expenseId: expense._id,
+    accountId: expense.accountId ?? null,
+    amount: round(data.amount * rateOf(expense)),
+    originalAmount: data.amount,
+    currency: expense.currency,
+    date,
+    reason: data.reason
+  });
+
+  await syncExpenseRefunds(expense);
+
+  return refund;
+};
+
+/**
+ * Get Refunds of an Expense
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ * @returns Original, refunded and net amounts with the refunds (oldest first)
+ */
+export const getRefunds = async (userId: string, expenseId: string) => {
+  const expense = await findUserExpense(userId, expenseId);
+  const refunds = await Refund.find({ expenseId: expense._id }).sort({ date: 1 });
+
+  return {
+    expenseId: expense._id,
+    currency: expense.currency,
+    originalAmount: originalOf(expense),
+    amount: expense.amount,
+    refundedAmount: expense.refundedAmount || 0,
+    netAmount: round(expense.amount - (expense.refundedAmount || 0)),
+    refunds
+  };
+};
+
+/**
+ * Delete Refund
+ *
+ * @param userId - User ID
+ * @param expenseId - Expense ID
+ * @param refundId - Refund ID
+ */
+export const deleteRefund = async (
+  userId: string,
+  expenseId: string,
+  refundId: string
+): Promise<void> => {
+  const expense = await findUserExpense(userId, expenseId);
+
+  const refund = await Refund.findOneAndDelete({
+    _id: new mongoose.Types.ObjectId(refundId),
+    expenseId: expense._id
+  });
+
+  if (!refund) {
+    throw new NotFoundError('Refund not found');
+  }
+
+  await syncExpenseRefunds(expense);
+};
+
+/**
+ * Delete Refunds of Deleted Expenses
+ *
+ * @param expenseIds - Expense IDs
+ * @param session - Optional transaction session
+ */
+export const deleteExpenseRefunds = async (
+  expenseIds: Array<string | mongoose.Types.ObjectId>,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  await Refund.deleteMany(
+    { expenseId: { $in: expenseIds.map(id => new mongoose.Types.ObjectId(id)) } },
+    { session }
+  );
+};
@@ -0,0 +1,28 @@
+/**
+ * Refund Validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Create Refund Schema
+ */
+export const createRefundSchema = Joi.object({
+  // In the expense's currency
+  amount: Joi.number()
+    .positive()
+    .precision(2)
+    .required()
+    .messages({
+      'number.positive': 'Amount must be greater than 0',
+      'any.required': 'Amount is required'
+    }),
+
+  date: Joi.date().optional(),
+
+  reason: Joi.string()
+    .trim()
+    .max(200)
+    .optional()
+    .allow('')
+});
@@ -0,0 +1,190 @@
+/**
+ * Rule Controller
+ */
+
+import { Request, Response } from 'express';
+import * as ruleService from './rule.service';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { BadRequestError } from '../../shared/utils/error.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Rules
+ *
+ * Route: GET /api/rules
+ */
+export const getRules = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rules = await ruleService.getRules(userId);
+
+  return sendSuccess(res, rules);
+};
+
+/**
+ * Get Single Rule
+ *
+ * Route: GET /api/rules/:id
+ */
+export const getRuleById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rule = await ruleService.getRuleById(userId, req.params.id);
+
+  return sendSuccess(res, rule);
+};
+
+/**
+ * Create Rule
+ *
+ * Route: POST /api/rules
+ */
+export const createRule = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rule = await ruleService.createRule(userId, req.body);
+
+  return sendSuccess(
+    res,
+    rule,
+    'Rule created successfully',
+    201
+  );
+};
+
+/**
+ * Update Rule
+ *
+ * Route: PUT /api/rules/:id
+ */
+export const updateRule = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const rule = await ruleService.updateRule(userId, req.params.id, req.body);
+
+  return sendSuccess(res, rule, 'Rule updated successfully');
+};
+
+/**
+ * Delete Rule
+ *
+ * Route: DELETE /api/rules/:id
+ */
+export const deleteRule = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await ruleService.deleteRule(userId, req.params.id);
+
+  return sendSuccess(res, null, 'Rule deleted successfully');
+};
+
+/**
+ * Reorder Rules
+ *
+ * Route: PUT /api/rules/reorder
+ * Body: { ruleIds: [...] } (evaluation order)
+ */
+export const reorderRules = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  await ruleService.reorderRules(userId, req.body.ruleIds);
+  const rules = await ruleService.getRules(userId);
+
+  return sendSuccess(res, rules, 'Rules reordered successfully');
+};
+
+/**
+ * Test Rule (dry-run)
+ *
+ * Route: POST /api/rules/test
+ * Body: rule definition
+ */
+export const testRule = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await ruleService.testRule(userId, req.body);
+
+  return sendSuccess(res, result);
+};
+
+/**
+ * Test Saved Rule (dry-run)
+ *
+ * Route: POST /api/rules/:id/test
+ */
+export const testSavedRule = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await ruleService.testSavedRule(userId, req.params.id);
+
+  return sendSuccess(res, result);
+};
+
+/**
+ * Re-apply Rules to Existing Expenses
+ *
+ * Route: POST /api/rules/apply
+ * Body: { startDate?, endDate?, categoryId?, dryRun? }
+ */
+export const reapplyRules = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await ruleService.reapplyRules(userId, req.body);
+
+  return sendSuccess(
+    res,
+    result,
+    result.dryRun ? 'Dry run complete' : `${result.updated} expenses updated`
+  );
+};
+
+/**
+ * Suggest Categories for a Description
+ *
+ * Route: GET /api/rules/suggest?description=uber%20trip
+ */
+export const suggestCategories = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const description = (req.query.description as string || '').trim();
+  const limit = Math.min(parseInt(req.query.limit as string) || 3, 10);
+
+  if (!description) {
+    throw new BadRequestError('Description is required');
+  }
+
+  const suggestions = await ruleService.suggestCategories(userId, description, limit);
+
+  return sendSuccess(res, suggestions);
+};
+
+/**
+ * Suggest New Rules (learned from history)
+ *
+ * Route: GET /api/rules/suggestions
+ */
+export const getRuleSuggestions = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const suggestions = await ruleService.getRuleSuggestions(userId);
+
+  return sendSuccess(res, suggestions);
+};
@@ -0,0 +1,253 @@
+/**
+ * Rule Engine
+ *
+ * Purpose: Pure matching logic (no database access), shared by
+ * expense creation, statement import, dry-runs and bulk re-apply
+ */
+
+import { IRuleConditions, IRuleActions } from './rule.model';
+import { textSimilarity, tokenize } from '../../shared/utils/text.util';
+
+/**
+ * What a rule looks at
+ */
+export interface RuleSubject {
+  description?: string;
+  amount: number;
+  paymentMethod?: string;
+  tags?: string[];
+  location?: {
+    latitude: number;
+    longitude: number;
+  } | null;
+}
+
+/**
+ * Minimal rule shape (saved rules and unsaved dry-run rules)
+ */
+export interface RuleLike {
+  _id?: { toString(): string };
+  priority?: number;
+  isActive?: boolean;
+  stopProcessing?: boolean;
+  conditions: IRuleConditions;
+  actions: IRuleActions;
+}
+
+/**
+ * Combined result of all matching rules
+ */
+export interface RuleResult {
+  categoryId?: string;
+  paymentMethod?: string;
+  addTags: string[];
+  matchedRuleIds: string[];
+}
+
+/**
+ * Category suggestion from history
+ */
+export interface CategorySuggestion {
+  categoryId: string;
+  score: number;     // 0 - 1
+  matches: number;   // Similar past expenses in this category
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Distance between two coordinates (haversine)
+ */
+export const distanceMeters = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Compiled regex cache (rules are evaluated many times in bulk runs)
+ */
+const regexCache = new Map<string, RegExp | null>();
+
+const compileRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+
+  return regexCache.get(pattern)!;
+};
+
+/**
+ * Does the Rule Match?
+ *
+ * Every condition that is set must match; a rule without
+ * conditions never matches.
+ */
+export const matchesRule = (conditions: IRuleConditions, subject: RuleSubject): boolean => {
+  let hasCondition = false;
+  const description = (subject.description || '').toLowerCase();
+
+  if (conditions.descriptionContains && conditions.descriptionContains.length > 0) {
+    hasCondition = true;
+    if (!conditions.descriptionContains.some(text => description.includes(text.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (conditions.descriptionRegex) {
+    hasCondition = true;
+    const regex = compileRegex(conditions.descriptionRegex);
+    if (!regex || !regex.test(subject.description || '')) {
+      return false;
+    }
+  }
+
+  if (conditions.minAmount !== undefined && conditions.minAmount !== null) {
+    hasCondition = true;
+    if (subject.amount < conditions.minAmount) {
+      return false;
+    }
+  }
+
+  if (conditions.maxAmount !== undefined && conditions.maxAmount !== null) {
+    hasCondition = true;
+    if (subject.amount > conditions.maxAmount) {
+      return false;
+    }
+  }
+
+  if (conditions.paymentMethods && conditions.paymentMethods.length > 0) {
+    hasCondition = true;
+    if (!subject.paymentMethod || !conditions.paymentMethods.includes(subject.paymentMethod)) {
+      return false;
+    }
+  }
+
+  if (conditions.tags && conditions.tags.length > 0) {
+    hasCondition = true;
+    const tags = (subject.tags || []).map(tag => tag.toLowerCase());
+    if (!conditions.tags.some(tag => tags.includes(tag.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (conditions.location) {
+    hasCondition = true;
+    if (
+      !subject.location ||
+      subject.location.latitude === undefined ||
+      distanceMeters(conditions.location, subject.location) > conditions.location.radiusMeters
+    ) {
+      return false;
+    }
+  }
+
+  return hasCondition;
+};
+
+/**
+ * Apply Rules
+ *
+ * Rules are evaluated by priority (ascending). The first matching rule
+ * that sets a category / payment method wins; tags accumulate.
+ *
+ * @param rules - Candidate rules (inactive ones are skipped)
+ * @param subject - Expense being categorized
+ */
+export const applyRules = (rules: RuleLike[], subject: RuleSubject): RuleResult => {
+  const result: RuleResult = { addTags: [], matchedRuleIds: [] };
+
+  const ordered = [...rules]
+    .filter(rule => rule.isActive !== false)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  for (const rule of ordered) {
+    if (!matchesRule(rule.conditions, subject)) {
+      continue;
+    }
+
+    if (rule._id) {
+      result.matchedRuleIds.push(rule._id.toString());
+    }
+
+    if (rule.actions.categoryId && !result.categoryId) {
+      result.categoryId = rule.actions.categoryId.toString();
+    }
+
+    if (rule.actions.paymentMethod && !result.paymentMethod) {
+      result.paymentMethod = rule.actions.paymentMethod;
+    }
+
+    for (const tag of rule.actions.addTags || []) {
+      if (!result.addTags.includes(tag)) {
+        result.addTags.push(tag);
+      }
+    }
+
+    if (rule.stopProcessing !== false) {
+      break;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Suggest Categories from History
+ *
+ * Scores each category by its most similar past description,
+ * with a small boost for categories that match repeatedly.
+ *
+ * @param history - Past expenses (description + categoryId)
+ * @param description - New description
+ * @param minSimilarity - Ignore weaker matches (default: 0.5)
+ * @returns Suggestions, best first
+ */
+export const suggestFromHistory = (
+  history: Array<{ description?: string; categoryId: { toString(): string } }>,
+  description: string,
+  minSimilarity: number = 0.5
+): CategorySuggestion[] => {
+  if (tokenize(description).length === 0) {
+    return [];
+  }
+
+  const byCategory = new Map<string, { best: number; matches: number }>();
+
+  for (const past of history) {
+    if (!past.description) {
+      continue;
+    }
+
+    const similarity = textSimilarity(past.description, description);
+    if (similarity < minSimilarity) {
+      continue;
+    }
+
+    const key = past.categoryId.toString();
+    const entry = byCategory.get(key) || { best: 0, matches: 0 };
+    entry.best = Math.max(entry.best, similarity);
+    entry.matches++;
+    byCategory.set(key, entry);
+  }
+
+  return [...byCategory]
+    .map(([categoryId, { best, matches }]) => ({
+      categoryId,
+      matches,
+      // Up to +0.1 for consistently used categories
+      score: Math.round(Math.min(1, best + Math.min(matches - 1, 5) * 0.02) * 100) / 100
+    }))
+    .sort((a, b) => b.score - a.score || b.matches - a.matches);
+};
@@ -0,0 +1,147 @@
+/**
+ * Categorization Rule Model
+ *
+ * Purpose: User-defined rules that fill in category, tags and
+ * payment method when an expense is created or imported
+ *
+ * Example:
+ * "description contains 'uber' or 'pathao'" → Transport, tag "ride"
+ *
+ * All set conditions must match (AND). Rules run in priority order
+ * (lower number first); `stopProcessing` ends evaluation after a match.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const PAYMENT_METHODS = ['cash', 'card', 'mobile_banking', 'bank_transfer', 'other'] as const;
+
+/**
+ * Rule Conditions
+ */
+export interface IRuleConditions {
+  descriptionContains?: string[];    // Any of (case-insensitive)
+  descriptionRegex?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  paymentMethods?: string[];         // Any of
+  tags?: string[];                   // Expense has any of
+  location?: {
+    latitude: number;
+    longitude: number;
+    radiusMeters: number;
+  };
+}
+
+/**
+ * Rule Actions
+ */
+export interface IRuleActions {
+  categoryId?: mongoose.Types.ObjectId;
+  addTags?: string[];
+  paymentMethod?: string;
+}
+
+/**
+ * Rule Interface
+ */
+export interface IRule extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  stopProcessing: boolean;
+  conditions: IRuleConditions;
+  actions: IRuleActions;
+  timesApplied: number;
+  lastAppliedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rule Schema
+ */
+const RuleSchema = new Schema<IRule>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Rule name is required'],
+      trim: true,
+      maxlength: [50, 'Rule name cannot exceed 50 characters']
+    },
+
+    priority: {
+      type: Number,
+      default: 0
+    },
+
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+
+    stopProcessing: {
+      type: Boolean,
+      default: true
+    },
+
+    conditions: {
+      descriptionContains: { type: [String], default: undefined },
+      descriptionRegex: { type: String },
+      minAmount: { type: Number },
+      maxAmount: { type: Number },
+      paymentMethods: { type: [String], enum: PAYMENT_METHODS, default: undefined },
+      tags: { type: [String], default: undefined },
+      location: {
+        type: new Schema(
+          {
+            latitude: { type: Number, required: true },
+            longitude: { type: Number, required: true },
+            radiusMeters: { type: Number, required: true, min: 10 }
+          },
+          { _id: false }
+        ),
+        default: undefined
+      }
+    },
+
+    actions: {
+      categoryId: { type: Schema.Types.ObjectId, ref: 'Category' },
+      addTags: { type: [String], default: undefined },
+      paymentMethod: { type: String, enum: PAYMENT_METHODS }
+    },
+
+    timesApplied: {
+      type: Number,
+      default: 0
+    },
+
+    lastAppliedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    }
+  }
+);
+
+RuleSchema.index({ userId: 1, priority: 1 });
+
+const Rule = mongoose.model<IRule>('Rule', RuleSchema);
+
+export default Rule;
@@ -0,0 +1,120 @@
+/**
+ * Rule Routes
+ *
+ * Purpose: Define API endpoints for auto-categorization rules
+ */
+
+import { Router } from 'express';
+import * as ruleController from './rule.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createRuleSchema,
+  updateRuleSchema,
+  testRuleSchema,
+  reorderRulesSchema,
+  reapplyRulesSchema
+} from './rule.validator';
+
+const router = Router();
+
+/**
+ * All rule routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Get all rules (evaluation order)
+ */
+router.get(
+  '/',
+  ruleController.getRules
+);
+
+/**
+ * Create rule
+ */
+router.post(
+  '/',
+  validate(createRuleSchema),
+  ruleController.createRule
+);
+
+/**
+ * Reorder rules
+ * Note: Static routes must be before /:id
+ */
+router.put(
+  '/reorder',
+  validate(reorderRulesSchema),
+  ruleController.reorderRules
+);
+
+/**
+ * Dry-run an unsaved rule against history
+ */
+router.post(
+  '/test',
+  validate(testRuleSchema),
+  ruleController.testRule
+);
+
+/**
+ * Re-apply rules to existing expenses
+ */
+router.post(
+  '/apply',
+  validate(reapplyRulesSchema),
+  ruleController.reapplyRules
+);
+
+/**
+ * Learned category suggestions for a description
+ */
+router.get(
+  '/suggest',
+  ruleController.suggestCategories
+);
+
+/**
+ * Learned rule suggestions
+ */
+router.get(
+  '/suggestions',
+  ruleController.getRuleSuggestions
+);
+
+/**
+ * Get single rule
+ */
+router.get(
+  '/:id',
+  ruleController.getRuleById
+);
+
+/**
+ * Update rule
+ */
+router.put(
+  '/:id',
+  validate(updateRuleSchema),
+  ruleController.updateRule
+);
+
+/**
+ * Delete rule
+ */
+router.delete(
+  '/:id',
+  ruleController.deleteRule
+);
+
+/**
+ * Dry-run a saved rule against history
+ */
+router.post(
+  '/:id/test',
+  ruleController.testSavedRule
+);
+
+export default router;
@@ -0,0 +1,661 @@
+/**
+ * Rule Service
+ *
+ * Purpose: Manage categorization rules and run them against expenses
+ *
+ * Where rules run:
+ * 1. createExpense - fills category / tags / payment method the user left out
+ * 2. Statement import - category mapping for parsed rows
+ * 3. Dry-run - "what would this rule do to my history?"
+ * 4. Bulk re-apply - rewrite existing expenses with the current rules
+ *
+ * Learned suggestions come from the user's own past categorizations
+ * of similar descriptions (no rule required).
+ */
+
+import mongoose from 'mongoose';
+import Rule, { IRule, IRuleConditions } from './rule.model';
+import { applyRules, suggestFromHistory, RuleLike, RuleSubject, CategorySuggestion } from './rule.engine';
+import Expense from '../expense/expense.model';
+import Category from '../category/category.model';
+import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
+import { tokenize } from '../../shared/utils/text.util';
+
+/**
+ * Create Rule DTO
+ */
+export interface CreateRuleDTO {
+  name: string;
+  priority?: number;
+  isActive?: boolean;
+  stopProcessing?: boolean;
+  conditions: IRuleConditions;
+  actions: {
+    categoryId?: string;
+    addTags?: string[];
+    paymentMethod?: string;
+  };
+}
+
+/**
+ * Update Rule DTO
+ */
+export interface UpdateRuleDTO extends Partial<CreateRuleDTO> {}
+
+/**
+ * Expense fields rules can fill in
+ */
+export interface RuleInput extends RuleSubject {
+  categoryId?: string;
+}
+
+/**
+ * Rule Application Result
+ */
+export interface AppliedRules {
+  categoryId?: string;
+  categorySource?: 'user' | 'rule' | 'payee' | 'suggestion';
+  paymentMethod?: string;
+  tags?: string[];
+  matchedRuleIds: string[];
+}
+
+/**
+ * Re-apply Options
+ */
+export interface ReapplyOptions {
+  startDate?: Date;
+  endDate?: Date;
+  categoryId?: string;     // Only expenses currently in this category
+  dryRun?: boolean;
+}
+
+/**
+ * Expense change preview (dry-run / re-apply)
+ */
+export interface RuleChange {
+  expenseId: string;
+  date: Date;
+  description?: string;
+  amount: number;
+  currentCategoryId: string;
+  newCategoryId?: string;
+  addTags: string[];
+  paymentMethod?: string;
+  matchedRuleIds: string[];
+}
+
+const HISTORY_LIMIT = 1000;
+const SAMPLE_LIMIT = 50;
+const BATCH_SIZE = 500;
+const SUGGESTION_MIN_SCORE = 0.6;
+const RULE_SUGGESTION_MIN_MATCHES = 3;
+const RULE_SUGGESTION_MIN_SHARE = 0.9;
+
+/**
+ * Validate Rule Content
+ *
+ * - At least one condition and one action
+ * - Regex compiles
+ * - Target category belongs to the user
+ */
+const validateRule = async (
+  userId: string,
+  conditions: IRuleConditions,
+  actions: CreateRuleDTO['actions']
+): Promise<void> => {
+  const hasCondition = Boolean(
+    conditions.descriptionContains?.length ||
+    conditions.descriptionRegex ||
+    conditions.minAmount !== undefined ||
+    conditions.maxAmount !== undefined ||
+    conditions.paymentMethods?.length ||
+    conditions.tags?.length ||
+    conditions.location
+  );
+
+  if (!hasCondition) {
+    throw new BadRequestError('A rule needs at least one condition');
+  }
+
+  if (!actions.categoryId && !actions.addTags?.length && !actions.paymentMethod) {
+    throw new BadRequestError('A rule needs at least one action');
+  }
+
+  if (conditions.descriptionRegex) {
+    try {
+      new RegExp(conditions.descriptionRegex, 'i');
+    } catch {
+      throw new BadRequestError('Invalid regular expression');
+    }
+  }
+
+  if (actions.categoryId) {
+    const category = await Category.findOne({
+      _id: new mongoose.Types.ObjectId(actions.categoryId),
+      userId: new mongoose.Types.ObjectId(userId)
+    });
+
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+  }
+};
+
+/**
+ * Get Active Rules (for evaluation)
+ *
+ * @param userId - User ID
+ */
+export const getActiveRules = async (userId: string): Promise<RuleLike[]> => {
+  return Rule.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    isActive: true
+  })
+    .sort({ priority: 1, createdAt: 1 })
+    .lean() as unknown as RuleLike[];
+};
+
+/**
+ * Record Rule Hits
+ *
+ * @param ruleIds - Matched rule IDs
+ */
+export const recordRuleHits = async (ruleIds: string[], count: number = 1): Promise<void> => {
+  if (ruleIds.length === 0) {
+    return;
+  }
+
+  await Rule.updateMany(
+    { _id: { $in: ruleIds.map(id => new mongoose.Types.ObjectId(id)) } },
+    { $inc: { timesApplied: count }, $set: { lastAppliedAt: new Date() } }
+  );
+};
+
+/**
+ * Load Categorization History
+ *
+ * Most recent expenses that have a description
+ */
+export const getCategorizationHistory = async (userId: string) => {
+  return Expense.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    description: { $nin: [null, ''] }
+  })
+    .sort({ date: -1 })
+    .limit(HISTORY_LIMIT)
+    .select('description categoryId')
+    .lean();
+};
+
+/**
+ * Suggest Categories for a Description
+ *
+ * @param userId - User ID
+ * @param description - Expense description
+ * @param limit - Max suggestions (default: 3)
+ * @returns Suggestions with category details
+ */
+export const suggestCategories = async (
+  userId: string,
+  description: string,
+  limit: number = 3
+) => {
+  const history = await getCategorizationHistory(userId);
+  const suggestions = suggestFromHistory(history, description).slice(0, limit);
+
+  const categories = await Category.find({
+    _id: { $in: suggestions.map(s => new mongoose.Types.ObjectId(s.categoryId)) }
+  }).select('name icon color').lean();
+
+  const byId = new Map(categories.map(cat => [cat._id.toString(), cat]));
+
+  return suggestions
+    .filter(s => byId.has(s.categoryId))
+    .map(s => ({ ...s, category: byId.get(s.categoryId) }));
+};
+
+/**
+ * Apply Rules to a New Expense
+ *
+ * Values the user gave explicitly always win; rules only fill gaps
+ * (tags are merged). Without a category, falls back to the payee's
+ * default category, then to the best learned suggestion.
+ *
+ * @param userId - User ID
+ * @param input - Expense fields as submitted
+ * @param payeeCategoryId - Default category of the expense's payee
+ */
+export const applyRulesToExpense = async (
+  userId: string,
+  input: RuleInput,
+  payeeCategoryId?: string
+): Promise<AppliedRules> => {
+  const rules = await getActiveRules(userId);
+  const result = applyRules(rules, input);
+
+  const applied: AppliedRules = {
+    categoryId: input.categoryId,
+    categorySource: input.categoryId ? 'user' : undefined,
+    paymentMethod: input.paymentMethod || result.paymentMethod,
+    tags: result.addTags.length > 0
+      ? [...new Set([...(input.tags || []), ...result.addTags])].slice(0, 10)
+      : input.tags,
+    matchedRuleIds: result.matchedRuleIds
+  };
+
+  if (!applied.categoryId && result.categoryId) {
+    applied.categoryId = result.categoryId;
+    applied.categorySource = 'rule';
+  }
+
+  if (!applied.categoryId && payeeCategoryId) {
+    applied.categoryId = payeeCategoryId;
+    applied.categorySource = 'payee';
+  }
+
+  if (!applied.categoryId && input.description) {
+    const [best] = suggestFromHistory(await getCategorizationHistory(userId), input.description);
+    if (best && best.score >= SUGGESTION_MIN_SCORE) {
+      applied.categoryId = best.categoryId;
+      applied.categorySource = 'suggestion';
+    }
+  }
+
+  return applied;
+};
+
+/**
+ * Get Rules
+ *
+ * @param userId - User ID
+ * @returns Rules in evaluation order
+ */
+export const getRules = async (userId: string): Promise<IRule[]> => {
+  return Rule.find({ userId: new mongoose.Types.ObjectId(userId) })
+    .sort({ priority: 1, createdAt: 1 });
+};
+
+/**
+ * Get Single Rule
+ *
+ * @param userId - User ID
+ * @param ruleId - Rule ID
+ */
+export const getRuleById = async (userId: string, ruleId: string): Promise<IRule> => {
+  const rule = await Rule.findOne({
+    _id: new mongoose.Types.ObjectId(ruleId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!rule) {
+    throw new NotFoundError('Rule not found');
+  }
+
+  return rule;
+};
+
+/**
+ * Create Rule
+ *
+ * New rules go last unless a priority is given
+ *
+ * @param userId - User ID
+ * @param data - Rule data
+ */
+export const createRule = async (userId: string, data: CreateRuleDTO): Promise<IRule> => {
+  await validateRule(userId, data.conditions, data.actions);
+
+  let priority = data.priority;
+  if (priority === undefined) {
+    const last = await Rule.findOne({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ priority: -1 })
+      .select('priority');
+    priority = last ? last.priority + 1 : 0;
+  }
+
+  return Rule.create({
+    ...data,
+    actions: {
+      ...data.actions,
+      categoryId: data.actions.categoryId
+        ? new mongoose.Types.ObjectId(data.actions.categoryId)
+        : undefined
+    },
+    priority,
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+};
+
+/**
+ * Update Rule
+ *
+ * @param userId - User ID
+ * @param ruleId - Rule ID
+ * @param data - Fields to update
+ */
+export const updateRule = async (
+  userId: string,
+  ruleId: string,
+  data: UpdateRuleDTO
+): Promise<IRule> => {
+  const rule = await getRuleById(userId, ruleId);
+
+  const ruleObject = rule.toObject();
+  await validateRule(
+    userId,
+    data.conditions ?? ruleObject.conditions,
+    data.actions ?? {
+      categoryId: ruleObject.actions.categoryId?.toString(),
+      addTags: ruleObject.actions.addTags,
+      paymentMethod: ruleObject.actions.paymentMethod
+    }
+  );
+
+  rule.set(data);
+  await rule.save();
+
+  return rule;
+};
+
+/**
+ * Delete Rule
+ *
+ * @param userId - User ID
+ * @param ruleId - Rule ID
+ */
+export const deleteRule = async (userId: string, ruleId: string): Promise<void> => {
+  const rule = await getRuleById(userId, ruleId);
+
+  await rule.deleteOne();
+};
+
+/**
+ * Reorder Rules
+ *
+ * @param userId - User ID
+ * @param ruleIds - Rule IDs in the new evaluation order
+ */
+export const reorderRules = async (userId: string, ruleIds: string[]): Promise<void> => {
+  const bulkOps = ruleIds.map((id, index) => ({
+    updateOne: {
+      filter: {
+        _id: new mongoose.Types.ObjectId(id),
+        userId: new mongoose.Types.ObjectId(userId)
+      },
+      update: { priority: index }
+    }
+  }));
+
+  await Rule.bulkWrite(bulkOps);
+};
+
+/**
+ * Compute Change for One Expense
+ */
+const computeChange = (rules: RuleLike[], expense: any): RuleChange | null => {
+  const result = applyRules(rules, expense);
+
+  if (result.matchedRuleIds.length === 0) {
+    return null;
+  }
+
+  const newCategoryId = result.categoryId && result.categoryId !== expense.categoryId.toString()
+    ? result.categoryId
+    : undefined;
+  const addTags = result.addTags.filter(tag => !(expense.tags || []).includes(tag));
+  const paymentMethod = result.paymentMethod && result.paymentMethod !== expense.paymentMethod
+    ? result.paymentMethod
+    : undefined;
+
+  return {
+    expenseId: expense._id.toString(),
+    date: expense.date,
+    description: expense.description,
+    amount: expense.amount,
+    currentCategoryId: expense.categoryId.toString(),
+    newCategoryId,
+    addTags,
+    paymentMethod,
+    matchedRuleIds: result.matchedRuleIds
+  };
+};
+
+const hasEffect = (change: RuleChange): boolean => {
+  return Boolean(change.newCategoryId || change.addTags.length > 0 || change.paymentMethod);
+};
+
+/**
+ * Test Rule against History (dry-run)
+ *
+ * Runs a rule in isolation over the most recent expenses; nothing is written
+ *
+ * @param userId - User ID
+ * @param data - Unsaved rule definition
+ * @returns Match counts and sample changes
+ */
+export const testRule = async (userId: string, data: CreateRuleDTO) => {
+  await validateRule(userId, data.conditions, data.actions);
+
+  const rule: RuleLike = {
+    _id: 'dry-run',
+    conditions: data.conditions,
+    actions: {
+      ...data.actions,
+      categoryId: data.actions.categoryId
+        ? new mongoose.Types.ObjectId(data.actions.categoryId)
+        : undefined
+    },
+    stopProcessing: true
+  };
+
+  const expenses = await Expense.find({ userId: new mongoose.Types.ObjectId(userId) })
+    .sort({ date: -1 })
+    .limit(HISTORY_LIMIT)
+    .select('description amount paymentMethod tags location categoryId date')
+    .lean();
+
+  let matched = 0;
+  let wouldChange = 0;
+  const samples: RuleChange[] = [];
+
+  for (const expense of expenses) {
+    const change = computeChange([rule], expense);
+    if (!change) {
+      continue;
+    }
+
+    matched++;
+    if (hasEffect(change)) {
+      wouldChange++;
+    }
+    if (samples.length < SAMPLE_LIMIT) {
+      samples.push(change);
+    }
+  }
+
+  return {
+    scanned: expenses.length,
+    matched,
+    wouldChange,
+    samples
+  };
+};
+
+/**
+ * Test Saved Rule against History (dry-run)
+ *
+ * @param userId - User ID
+ * @param ruleId - Rule ID
+ */
+export const testSavedRule = async (userId: string, ruleId: string) => {
+  const rule = (await getRuleById(userId, ruleId)).toObject();
+
+  return testRule(userId, {
+    name: rule.name,
+    conditions: rule.conditions,
+    actions: {
+      categoryId: rule.actions.categoryId?.toString(),
+      addTags: rule.actions.addTags,
+      paymentMethod: rule.actions.paymentMethod
+    }
+  });
+};
+
+/**
+ * Re-apply Rules to Existing Expenses
+ *
+ * Unlike creation, rules overwrite the category here (that's the point
+ * of re-applying after editing rules). Streams through matching
+ * expenses and writes in batches.
+ *
+ * @param userId - User ID
+ * @param options - Date range / category scope, dryRun
+ * @returns Counts and sample changes
+ */
+export const reapplyRules = async (userId: string, options: ReapplyOptions) => {
+  const rules = await getActiveRules(userId);
+
+  if (rules.length === 0) {
+    throw new BadRequestError('No active rules to apply');
+  }
+
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (options.startDate || options.endDate) {
+    query.date = {};
+    if (options.startDate) query.date.$gte = new Date(options.startDate);
+    if (options.endDate) query.date.$lte = new Date(options.endDate);
+  }
+
+  if (options.categoryId) {
+    query.categoryId = new mongoose.Types.ObjectId(options.categoryId);
+  }
+
+  const cursor = Expense.find(query)
+    .select('description amount paymentMethod tags location categoryId date')
+    .lean()
+    .cursor({ batchSize: BATCH_SIZE });
+
+  let scanned = 0;
+  let updated = 0;
+  const samples: RuleChange[] = [];
+  const hits = new Map<string, number>();
+  let bulkOps: any[] = [];
+
+  const flush = async () => {
+    if (bulkOps.length > 0 && !options.dryRun) {
+      await Expense.bulkWrite(bulkOps);
+    }
+    bulkOps = [];
+  };
+
+  for await (const expense of cursor) {
+    scanned++;
+
+    const change = computeChange(rules, expense);
+
+    if (!change || !hasEffect(change)) {
+      continue;
+    }
+
+    updated++;
+    change.matchedRuleIds.forEach(id => hits.set(id, (hits.get(id) || 0) + 1));
+
+    if (samples.length < SAMPLE_LIMIT) {
+      samples.push(change);
+    }
+
+    const update: any = {};
+    if (change.newCategoryId) update.$set = { categoryId: new mongoose.Types.ObjectId(change.newCategoryId) };
+    if (change.paymentMethod) update.$set = { ...update.$set, paymentMethod: change.paymentMethod };
+    if (change.addTags.length > 0) update.$addToSet = { tags: { $each: change.addTags } };
+
+    bulkOps.push({ updateOne: { filter: { _id: expense._id }, update } });
+
+    if (bulkOps.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  await flush();
+
+  if (!options.dryRun) {
+    await Promise.all([...hits].map(([ruleId, count]) => recordRuleHits([ruleId], count)));
+  }
+
+  return {
+    dryRun: Boolean(options.dryRun),
+    scanned,
+    updated,
+    samples
+  };
+};
+
+/**
+ * Suggest New Rules
+ *
+ * Finds words that (almost) always end up in the same category,
+ * e.g. "pathao" → Transport in 12/12 expenses, and aren't covered
+ * by an existing rule yet.
+ *
+ * @param userId - User ID
+ * @returns Candidate rules, strongest first
+ */
+export const getRuleSuggestions = async (userId: string) => {
+  const [history, rules] = await Promise.all([
+    getCategorizationHistory(userId),
+    Rule.find({ userId: new mongoose.Types.ObjectId(userId) }).select('conditions').lean()
+  ]);
+
+  const covered = new Set(
+    rules.flatMap(rule => (rule.conditions.descriptionContains || []).map(text => text.toLowerCase()))
+  );
+
+  // token → categoryId → count
+  const counts = new Map<string, Map<string, number>>();
+  for (const expense of history) {
+    for (const token of tokenize(expense.description)) {
+      if (token.length < 3 || covered.has(token)) {
+        continue;
+      }
+
+      const perCategory = counts.get(token) || new Map<string, number>();
+      const key = expense.categoryId.toString();
+      perCategory.set(key, (perCategory.get(key) || 0) + 1);
+      counts.set(token, perCategory);
+    }
+  }
+
+  const suggestions: Array<CategorySuggestion & { keyword: string }> = [];
+
+  for (const [keyword, perCategory] of counts) {
+    const total = [...perCategory.values()].reduce((sum, n) => sum + n, 0);
+    const [categoryId, matches] = [...perCategory].sort((a, b) => b[1] - a[1])[0];
+    const share = matches / total;
+
+    if (matches >= RULE_SUGGESTION_MIN_MATCHES && share >= RULE_SUGGESTION_MIN_SHARE) {
+      suggestions.push({ keyword, categoryId, matches, score: Math.round(share * 100) / 100 });
+    }
+  }
+
+  suggestions.sort((a, b) => b.matches - a.matches);
+
+  const top = suggestions.slice(0, 20);
+  const categories = await Category.find({
+    _id: { $in: top.map(s => new mongoose.Types.ObjectId(s.categoryId)) }
+  }).select('name icon color').lean();
+  const byId = new Map(categories.map(cat => [cat._id.toString(), cat]));
+
+  return top
+    .filter(s => byId.has(s.categoryId))
+    .map(s => ({
+      ...s,
+      category: byId.get(s.categoryId),
+      rule: {
+        name: `${s.keyword} → ${byId.get(s.categoryId)!.name}`,
+        conditions: { descriptionContains: [s.keyword] },
+        actions: { categoryId: s.categoryId }
+      }
+    }));
+};
@@ -0,0 +1,124 @@
+/**
+ * Rule Validators
+ */
+
+import Joi from 'joi';
+import { PAYMENT_METHODS } from './rule.model';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+const conditionsSchema = Joi.object({
+  descriptionContains: Joi.array()
+    .items(Joi.string().trim().min(1).max(50))
+    .max(20)
+    .optional(),
+
+  descriptionRegex: Joi.string()
+    .max(200)
+    .optional(),
+
+  minAmount: Joi.number().min(0).optional(),
+
+  maxAmount: Joi.number()
+    .min(Joi.ref('minAmount'))
+    .optional()
+    .messages({
+      'number.min': 'Maximum amount must not be below minimum amount'
+    }),
+
+  paymentMethods: Joi.array()
+    .items(Joi.string().valid(...PAYMENT_METHODS))
+    .optional(),
+
+  tags: Joi.array()
+    .items(Joi.string().max(20))
+    .max(10)
+    .optional(),
+
+  location: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+    radiusMeters: Joi.number().min(10).max(50000).required()
+  }).optional()
+});
+
+const actionsSchema = Joi.object({
+  categoryId: objectId.optional(),
+
+  addTags: Joi.array()
+    .items(Joi.string().max(20))
+    .max(10)
+    .optional(),
+
+  paymentMethod: Joi.string()
+    .valid(...PAYMENT_METHODS)
+    .optional()
+});
+
+/**
+ * Create Rule Schema
+ */
+export const createRuleSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': 'Rule name cannot exceed 50 characters',
+      'any.required': 'Rule name is required'
+    }),
+
+  priority: Joi.number().integer().min(0).optional(),
+
+  isActive: Joi.boolean().optional(),
+
+  stopProcessing: Joi.boolean().optional(),
+
+  conditions: conditionsSchema.required(),
+
+  actions: actionsSchema.required()
+});
+
+/**
+ * Update Rule Schema
+ */
+export const updateRuleSchema = Joi.object({
+  name: Joi.string().trim().max(50).optional(),
+  priority: Joi.number().integer().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+  stopProcessing: Joi.boolean().optional(),
+  conditions: conditionsSchema.optional(),
+  actions: actionsSchema.optional()
+}).min(1);
+
+/**
+ * Test Rule Schema (name not needed for a dry-run)
+ */
+export const testRuleSchema = createRuleSchema.keys({
+  name: Joi.string().trim().max(50).optional()
+});
+
+/**
+ * Reorder Rules Schema
+ */
+export const reorderRulesSchema = Joi.object({
+  ruleIds: Joi.array()
+    .items(objectId)
+    .min(1)
+    .unique()
+    .required()
+});
+
+/**
+ * Re-apply Rules Schema
+ */
+export const reapplyRulesSchema = Joi.object({
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().min(Joi.ref('startDate')).optional(),
+  categoryId: objectId.optional(),
+  dryRun: Joi.boolean().default(false)
+});
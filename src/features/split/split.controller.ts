@@ -0,0 +1,293 @@
+/**
+ * Split Controller
+ */
+
+import { Request, Response } from 'express';
+import * as splitService from './split.service';
+import { sendSuccess, sendPaginated } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Create Split
+ *
+ * Route: POST /api/splits
+ */
+export const createSplit = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const split = await splitService.createSplit(userId, req.body);
+
+  return sendSuccess(
+    res,
+    split,
+    'Split created successfully',
+    201
+  );
+};
+
+/**
+ * Get Splits
+ *
+ * Route: GET /api/splits?groupId=&page=1&limit=20
+ */
+export const getSplits = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.query.groupId as string | undefined;
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const result = await splitService.getSplits(userId, groupId, page, limit);
+
+  return sendPaginated(res, result);
+};
+
+/**
+ * Get Single Split
+ *
+ * Route: GET /api/splits/:id
+ */
+export const getSplitById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const splitId = req.params.id;
+
+  const split = await splitService.getSplitById(userId, splitId);
+
+  return sendSuccess(res, split);
+};
+
+/**
+ * Delete Split
+ *
+ * Route: DELETE /api/splits/:id
+ */
+export const deleteSplit = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const splitId = req.params.id;
+
+  await splitService.deleteSplit(userId, splitId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Split deleted successfully'
+  );
+};
+
+/**
+ * Get Balances with Everyone
+ *
+ * Route: GET /api/splits/balances
+ */
+export const getBalances = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const balances = await splitService.getBalances(userId);
+
+  return sendSuccess(res, balances);
+};
+
+/**
+ * Get Ledger with One User
+ *
+ * Route: GET /api/splits/balances/:userId
+ */
+export const getPairLedger = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const otherUserId = req.params.userId;
+
+  const ledger = await splitService.getPairLedger(userId, otherUserId);
+
+  return sendSuccess(res, ledger);
+};
+
+/**
+ * Record Settlement
+ *
+ * Route: POST /api/splits/settlements
+ */
+export const recordSettlement = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const settlement = await splitService.recordSettlement(userId, req.body);
+
+  return sendSuccess(
+    res,
+    settlement,
+    'Settlement recorded successfully',
+    201
+  );
+};
+
+/**
+ * Delete Settlement
+ *
+ * Route: DELETE /api/splits/settlements/:id
+ */
+export const deleteSettlement = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const settlementId = req.params.id;
+
+  await splitService.deleteSettlement(userId, settlementId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Settlement deleted successfully'
+  );
+};
+
+/**
+ * Get Groups
+ *
+ * Route: GET /api/splits/groups
+ */
+export const getGroups = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const groups = await splitService.getGroups(userId);
+
+  return sendSuccess(res, groups);
+};
+
+/**
+ * Create Group
+ *
+ * Route: POST /api/splits/groups
+ */
+export const createGroup = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const group = await splitService.createGroup(userId, req.body);
+
+  return sendSuccess(
+    res,
+    group,
+    'Group created successfully',
+    201
+  );
+};
+
+/**
+ * Get Single Group
+ *
+ * Route: GET /api/splits/groups/:id
+ */
+export const getGroupById = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+
+  const group = await splitService.getGroupById(userId, groupId);
+
+  return sendSuccess(res, group);
+};
+
+/**
+ * Update Group
+ *
+ * Route: PUT /api/splits/groups/:id
+ */
+export const updateGroup = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+
+  const group = await splitService.updateGroup(userId, groupId, req.body);
+
+  return sendSuccess(
+    res,
+    group,
+    'Group updated successfully'
+  );
+};
+
+/**
+ * Delete Group
+ *
+ * Route: DELETE /api/splits/groups/:id
+ */
+export const deleteGroup = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+
+  await splitService.deleteGroup(userId, groupId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Group deleted successfully'
+  );
+};
+
+/**
+ * Add Group Members
+ *
+ * Route: POST /api/splits/groups/:id/members
+ */
+export const addGroupMembers = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+
+  const group = await splitService.addGroupMembers(userId, groupId, req.body.memberIds);
+
+  return sendSuccess(
+    res,
+    group,
+    'Members added successfully'
+  );
+};
+
+/**
+ * Remove Group Member
+ *
+ * Route: DELETE /api/splits/groups/:id/members/:memberId
+ */
+export const removeGroupMember = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+  const memberId = req.params.memberId;
+
+  await splitService.removeGroupMember(userId, groupId, memberId);
+
+  return sendSuccess(
+    res,
+    null,
+    'Member removed successfully'
+  );
+};
+
+/**
+ * Get Group Balances & Settle-up Plan
+ *
+ * Route: GET /api/splits/groups/:id/balances
+ */
+export const getGroupBalances = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+  const groupId = req.params.id;
+
+  const balances = await splitService.getGroupBalances(userId, groupId);
+
+  return sendSuccess(res, balances);
+};
@@ -0,0 +1,279 @@
+/**
+ * Split Models
+ *
+ * Purpose: Share expenses between users and settle up
+ *
+ * Models:
+ * 1. SplitGroup - Named set of users (flat, trip, office lunch)
+ * 2. SplitExpense - One payment split into per-user shares
+ * 3. Settlement - Money paid back from one user to another
+ *
+ * Balances are never stored: they are derived from splits and
+ * settlements, so the ledger can't drift out of sync.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+export type SplitType = 'equal' | 'percentage' | 'exact';
+
+/**
+ * Split Group Interface
+ */
+export interface ISplitGroup extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  createdBy: mongoose.Types.ObjectId;
+  members: mongoose.Types.ObjectId[];
+  currency?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Share (embedded)
+ */
+export interface IShare {
+  userId: mongoose.Types.ObjectId;
+  amount: number;
+  percentage?: number;
+}
+
+/**
+ * Split Expense Interface
+ */
+export interface ISplitExpense extends Document {
+  _id: mongoose.Types.ObjectId;
+  payerId: mongoose.Types.ObjectId;
+  groupId?: mongoose.Types.ObjectId | null;
+  expenseId?: mongoose.Types.ObjectId | null;
+  description: string;
+  totalAmount: number;
+  currency: string;
+  splitType: SplitType;
+  shares: IShare[];
+  date: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Settlement Interface
+ */
+export interface ISettlement extends Document {
+  _id: mongoose.Types.ObjectId;
+  fromUserId: mongoose.Types.ObjectId;   // Who paid back
+  toUserId: mongoose.Types.ObjectId;     // Who received
+  groupId?: mongoose.Types.ObjectId | null;
+  amount: number;
+  currency: string;
+  note?: string;
+  date: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const toJSONOptions = {
+  transform: function(_doc: any, ret: any) {
+    const result = ret as any;
+    delete result.__v;
+    return result;
+  }
+};
+
+/**
+ * Split Group Schema
+ */
+const SplitGroupSchema = new Schema<ISplitGroup>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Group name is required'],
+      trim: true,
+      maxlength: [50, 'Group name cannot exceed 50 characters']
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    members: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: []
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+SplitGroupSchema.index({ members: 1 });
+
+/**
+ * Share Schema (Embedded)
+ */
+const ShareSchema = new Schema<IShare>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    amount: { type: Number, required: true, min: 0 },
+    percentage: { type: Number, min: 0, max: 100 }
+  },
+  { _id: false }
+);
+
+/**
+ * Split Expense Schema
+ */
+const SplitExpenseSchema = new Schema<ISplitExpense>(
+  {
+    payerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SplitGroup',
+      default: null
+    },
+
+    // Payer's own expense record (optional)
+    expenseId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Expense',
+      default: null
+    },
+
+    description: {
+      type: String,
+      required: [true, 'Description is required'],
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+
+    totalAmount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true
+    },
+
+    splitType: {
+      type: String,
+      enum: ['equal', 'percentage', 'exact'],
+      default: 'equal'
+    },
+
+    shares: {
+      type: [ShareSchema],
+      validate: {
+        validator: (shares: IShare[]) => shares.length >= 1,
+        message: 'At least one share is required'
+      }
+    },
+
+    date: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+/**
+ * Indexes
+ *
+ * - payerId / shares.userId: Everything a user is part of
+ * - groupId: Group ledger
+ */
+SplitExpenseSchema.index({ payerId: 1, date: -1 });
+SplitExpenseSchema.index({ 'shares.userId': 1, date: -1 });
+SplitExpenseSchema.index({ groupId: 1, date: -1 });
+SplitExpenseSchema.index({ expenseId: 1 }, { sparse: true });
+
+/**
+ * Settlement Schema
+ */
+const SettlementSchema = new Schema<ISettlement>(
+  {
+    fromUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    toUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    groupId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SplitGroup',
+      default: null
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be greater than 0']
+    },
+
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true
+    },
+
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Note cannot exceed 200 characters']
+    },
+
+    date: {
+      type: Date,
+      default: Date.now
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: toJSONOptions
+  }
+);
+
+SettlementSchema.index({ fromUserId: 1, toUserId: 1, date: -1 });
+SettlementSchema.index({ toUserId: 1, date: -1 });
+SettlementSchema.index({ groupId: 1, date: -1 });
+
+export const SplitGroup = mongoose.model<ISplitGroup>('SplitGroup', SplitGroupSchema);
+export const Settlement = mongoose.model<ISettlement>('Settlement', SettlementSchema);
+
+const SplitExpense = mongoose.model<ISplitExpense>('SplitExpense', SplitExpenseSchema);
+
+export default SplitExpense;
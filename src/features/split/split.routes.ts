@@ -0,0 +1,88 @@
+/**
+ * Split Routes
+ */
+
+import { Router } from 'express';
+import * as splitController from './split.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import {
+  createSplitSchema,
+  createGroupSchema,
+  updateGroupSchema,
+  addMembersSchema,
+  recordSettlementSchema
+} from './split.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * Balances (before /:id)
+ */
+router.get('/balances', splitController.getBalances);
+router.get('/balances/:userId', splitController.getPairLedger);
+
+/**
+ * Settlements
+ */
+router.post(
+  '/settlements',
+  validate(recordSettlementSchema),
+  splitController.recordSettlement
+);
+
+router.delete(
+  '/settlements/:id',
+  splitController.deleteSettlement
+);
+
+/**
+ * Groups
+ */
+router.get('/groups', splitController.getGroups);
+
+router.post(
+  '/groups',
+  validate(createGroupSchema),
+  splitController.createGroup
+);
+
+router.get('/groups/:id', splitController.getGroupById);
+router.get('/groups/:id/balances', splitController.getGroupBalances);
+
+router.put(
+  '/groups/:id',
+  validate(updateGroupSchema),
+  splitController.updateGroup
+);
+
+router.delete('/groups/:id', splitController.deleteGroup);
+
+router.post(
+  '/groups/:id/members',
+  validate(addMembersSchema),
+  splitController.addGroupMembers
+);
+
+router.delete(
+  '/groups/:id/members/:memberId',
+  splitController.removeGroupMember
+);
+
+/**
+ * Split CRUD
+ */
+router.post(
+  '/',
+  validate(createSplitSchema),
+  splitController.createSplit
+);
+
+router.get('/', splitController.getSplits);
+router.get('/:id', splitController.getSplitById);
+router.delete('/:id', splitController.deleteSplit);
+
+export default router;
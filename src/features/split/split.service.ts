@@ -0,0 +1,980 @@
+/**
+ * Split Service
+ *
+ * Purpose: Split expenses between users and settle up
+ *
+ * Ledger Rules:
+ * - A split creates one debt per share: share owner → payer
+ *   (the payer's own share is not a debt)
+ * - A settlement from A to B reduces what A owes B
+ * - Balances are computed per currency; amounts are never converted
+ *   between users (each may have a different base currency)
+ *
+ * Sign convention in responses: positive = they owe you
+ */
+
+import mongoose from 'mongoose';
+import SplitExpense, {
+  SplitGroup,
+  Settlement,
+  ISplitExpense,
+  ISplitGroup,
+  ISettlement,
+  IShare,
+  SplitType
+} from './split.model';
+import User from '../auth/auth.model';
+import Expense from '../expense/expense.model';
+import { getUserBaseCurrency } from '../currency/currency.service';
+import {
+  sendSplitNotification,
+  sendSettlementNotification
+} from '../notification/notification.service';
+import {
+  NotFoundError,
+  BadRequestError,
+  ForbiddenError
+} from '../../shared/utils/error.util';
+import { PaginatedResponse } from '../../shared/types/common.types';
+
+/**
+ * Share Input
+ */
+export interface ShareInput {
+  userId: string;
+  amount?: number;       // exact
+  percentage?: number;   // percentage
+}
+
+/**
+ * Create Split DTO
+ */
+export interface CreateSplitDTO {
+  description?: string;
+  totalAmount?: number;      // Default: linked expense amount
+  currency?: string;         // Default: expense / group / payer's base currency
+  splitType: SplitType;
+  participants: ShareInput[];
+  groupId?: string;
+  expenseId?: string;
+  date?: Date;
+}
+
+/**
+ * Create Group DTO
+ */
+export interface CreateGroupDTO {
+  name: string;
+  memberIds?: string[];
+  currency?: string;
+}
+
+/**
+ * Record Settlement DTO
+ *
+ * One side must be the current user (the other side defaults to them)
+ */
+export interface RecordSettlementDTO {
+  fromUserId?: string;
+  toUserId?: string;
+  amount: number;
+  currency?: string;
+  groupId?: string;
+  note?: string;
+  date?: Date;
+}
+
+/**
+ * Public user info
+ */
+export interface UserSummary {
+  _id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+/**
+ * Balance with one other user
+ */
+export interface PairBalance {
+  user: UserSummary | null;
+  currency: string;
+  amount: number;           // > 0: they owe you, < 0: you owe them
+}
+
+/**
+ * Suggested transfer (debt simplification)
+ */
+export interface Transfer {
+  from: UserSummary | null;
+  to: UserSummary | null;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Directed debt (debtor owes creditor)
+ */
+interface DebtEdge {
+  debtor: string;
+  creditor: string;
+  currency: string;
+  amount: number;
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const toObjectId = (id: string) => new mongoose.Types.ObjectId(id);
+
+/**
+ * Calculate Shares
+ *
+ * - equal: total / n, leftover cents go to the first participants
+ * - percentage: must add up to 100, rounding difference to the first share
+ * - exact: must add up to the total
+ */
+export const calculateShares = (
+  totalAmount: number,
+  splitType: SplitType,
+  participants: ShareInput[]
+): Array<{ userId: string; amount: number; percentage?: number }> => {
+  if (participants.length === 0) {
+    throw new BadRequestError('At least one participant is required');
+  }
+
+  const ids = participants.map(p => p.userId);
+  if (new Set(ids).size !== ids.length) {
+    throw new BadRequestError('Each participant can only appear once');
+  }
+
+  const totalCents = Math.round(totalAmount * 100);
+
+  switch (splitType) {
+    case 'equal': {
+      const baseCents = Math.floor(totalCents / participants.length);
+      const leftover = totalCents - baseCents * participants.length;
+
+      return participants.map((p, index) => ({
+        userId: p.userId,
+        amount: (baseCents + (index < leftover ? 1 : 0)) / 100
+      }));
+    }
+
+    case 'percentage': {
+      const totalPercentage = participants.reduce((sum, p) => sum + (p.percentage ?? 0), 0);
+      if (Math.abs(totalPercentage - 100) > 0.01) {
+        throw new BadRequestError('Percentages must add up to 100');
+      }
+
+      const shares = participants.map(p => ({
+        userId: p.userId,
+        percentage: p.percentage ?? 0,
+        amount: Math.round(totalCents * (p.percentage ?? 0) / 100) / 100
+      }));
+
+      const diffCents = totalCents - shares.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+      shares[0].amount = (Math.round(shares[0].amount * 100) + diffCents) / 100;
+
+      return shares;
+    }
+
+    case 'exact': {
+      const sumCents = participants.reduce((sum, p) => sum + Math.round((p.amount ?? 0) * 100), 0);
+      if (sumCents !== totalCents) {
+        throw new BadRequestError('Share amounts must add up to the total amount');
+      }
+
+      return participants.map(p => ({
+        userId: p.userId,
+        amount: roundAmount(p.amount ?? 0)
+      }));
+    }
+  }
+};
+
+/**
+ * Load Public User Info
+ */
+const loadUsers = async (ids: string[]): Promise<Map<string, UserSummary>> => {
+  const unique = [...new Set(ids)];
+  const users = await User.find({ _id: { $in: unique.map(toObjectId) } })
+    .select('name email avatar')
+    .lean();
+
+  return new Map(users.map(user => [
+    user._id.toString(),
+    {
+      _id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar
+    }
+  ]));
+};
+
+/**
+ * Verify Users Exist
+ */
+const assertUsersExist = async (ids: string[]): Promise<void> => {
+  const unique = [...new Set(ids)];
+  const count = await User.countDocuments({ _id: { $in: unique.map(toObjectId) } });
+
+  if (count !== unique.length) {
+    throw new NotFoundError('One or more users not found');
+  }
+};
+
+/**
+ * Aggregate Debts
+ *
+ * @param splitMatch - Which splits count
+ * @param settlementMatch - Which settlements count
+ * @returns Directed debts summed per (debtor, creditor, currency)
+ */
+const aggregateDebts = async (
+  splitMatch: Record<string, any>,
+  settlementMatch: Record<string, any>
+): Promise<DebtEdge[]> => {
+  const [splitDebts, settlements] = await Promise.all([
+    SplitExpense.aggregate([
+      { $match: splitMatch },
+      { $unwind: '$shares' },
+      { $match: { $expr: { $ne: ['$shares.userId', '$payerId'] } } },
+      {
+        $group: {
+          _id: { debtor: '$shares.userId', creditor: '$payerId', currency: '$currency' },
+          amount: { $sum: '$shares.amount' }
+        }
+      }
+    ]),
+
+    // Settlement from A to B == B now "owes" A that much back
+    Settlement.aggregate([
+      { $match: settlementMatch },
+      {
+        $group: {
+          _id: { debtor: '$toUserId', creditor: '$fromUserId', currency: '$currency' },
+          amount: { $sum: '$amount' }
+        }
+      }
+    ])
+  ]);
+
+  return [...splitDebts, ...settlements].map(item => ({
+    debtor: item._id.debtor.toString(),
+    creditor: item._id.creditor.toString(),
+    currency: item._id.currency,
+    amount: item.amount
+  }));
+};
+
+/**
+ * Net Balance per Member (per currency)
+ *
+ * @returns currency → userId → net (> 0: is owed money)
+ */
+const netByMember = (edges: DebtEdge[]): Map<string, Map<string, number>> => {
+  const result = new Map<string, Map<string, number>>();
+
+  for (const edge of edges) {
+    const nets = result.get(edge.currency) || new Map<string, number>();
+    nets.set(edge.creditor, (nets.get(edge.creditor) || 0) + edge.amount);
+    nets.set(edge.debtor, (nets.get(edge.debtor) || 0) - edge.amount);
+    result.set(edge.currency, nets);
+  }
+
+  return result;
+};
+
+/**
+ * Simplify Debts
+ *
+ * Greedy: repeatedly match the biggest debtor with the biggest creditor.
+ * Produces at most n-1 transfers per currency.
+ */
+export const simplifyDebts = (
+  nets: Map<string, Map<string, number>>
+): Array<{ from: string; to: string; amount: number; currency: string }> => {
+  const transfers: Array<{ from: string; to: string; amount: number; currency: string }> = [];
+
+  for (const [currency, members] of nets) {
+    const creditors = [...members]
+      .filter(([, net]) => net > 0.005)
+      .map(([id, net]) => ({ id, amount: roundAmount(net) }));
+    const debtors = [...members]
+      .filter(([, net]) => net < -0.005)
+      .map(([id, net]) => ({ id, amount: roundAmount(-net) }));
+
+    while (creditors.length > 0 && debtors.length > 0) {
+      creditors.sort((a, b) => b.amount - a.amount);
+      debtors.sort((a, b) => b.amount - a.amount);
+
+      const creditor = creditors[0];
+      const debtor = debtors[0];
+      const amount = roundAmount(Math.min(creditor.amount, debtor.amount));
+
+      if (amount >= 0.01) {
+        transfers.push({ from: debtor.id, to: creditor.id, amount, currency });
+      }
+
+      creditor.amount = roundAmount(creditor.amount - amount);
+      debtor.amount = roundAmount(debtor.amount - amount);
+
+      if (creditor.amount < 0.01) creditors.shift();
+      if (debtor.amount < 0.01) debtors.shift();
+    }
+  }
+
+  return transfers;
+};
+
+/**
+ * Get Group (member access)
+ *
+ * @param userId - User ID
+ * @param groupId - Group ID
+ */
+export const getGroupById = async (
+  userId: string,
+  groupId: string
+): Promise<ISplitGroup> => {
+  const group = await SplitGroup.findOne({
+    _id: toObjectId(groupId),
+    members: toObjectId(userId)
+  }).populate('members', 'name email avatar');
+
+  if (!group) {
+    throw new NotFoundError('Group not found');
+  }
+
+  return group;
+};
+
+/**
+ * Get User's Groups
+ *
+ * @param userId - User ID
+ */
+export const getGroups = async (userId: string): Promise<ISplitGroup[]> => {
+  return SplitGroup.find({ members: toObjectId(userId) })
+    .populate('members', 'name email avatar')
+    .sort({ updatedAt: -1 });
+};
+
+/**
+ * Create Group
+ *
+ * Creator is always a member
+ *
+ * @param userId - User ID
+ * @param data - Name, members, currency
+ */
+export const createGroup = async (
+  userId: string,
+  data: CreateGroupDTO
+): Promise<ISplitGroup> => {
+  const memberIds = [...new Set([userId, ...(data.memberIds || [])])];
+
+  await assertUsersExist(memberIds);
+
+  const group = await SplitGroup.create({
+    name: data.name,
+    currency: data.currency,
+    createdBy: toObjectId(userId),
+    members: memberIds.map(toObjectId)
+  });
+
+  await group.populate('members', 'name email avatar');
+
+  return group;
+};
+
+/**
+ * Update Group (name / currency)
+ *
+ * @param userId - User ID (member)
+ * @param groupId - Group ID
+ * @param data - Fields to update
+ */
+export const updateGroup = async (
+  userId: string,
+  groupId: string,
+  data: Partial<Omit<CreateGroupDTO, 'memberIds'>>
+): Promise<ISplitGroup> => {
+  const group = await getGroupById(userId, groupId);
+
+  Object.assign(group, data);
+  await group.save();
+
+  return group;
+};
+
+/**
+ * Add Group Members
+ *
+ * @param userId - User ID (member)
+ * @param groupId - Group ID
+ * @param memberIds - Users to add
+ */
+export const addGroupMembers = async (
+  userId: string,
+  groupId: string,
+  memberIds: string[]
+): Promise<ISplitGroup> => {
+  await getGroupById(userId, groupId);
+  await assertUsersExist(memberIds);
+
+  await SplitGroup.updateOne(
+    { _id: toObjectId(groupId) },
+    { $addToSet: { members: { $each: memberIds.map(toObjectId) } } }
+  );
+
+  return getGroupById(userId, groupId);
+};
+
+/**
+ * Remove Group Member
+ *
+ * Members can leave; the creator can remove anyone.
+ * Only allowed once the member's group balance is settled.
+ *
+ * @param userId - User ID
+ * @param groupId - Group ID
+ * @param memberId - Member to remove
+ */
+export const removeGroupMember = async (
+  userId: string,
+  groupId: string,
+  memberId: string
+): Promise<void> => {
+  const group = await getGroupById(userId, groupId);
+
+  if (memberId !== userId && group.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the group creator can remove other members');
+  }
+
+  const nets = netByMember(await aggregateDebts(
+    { groupId: group._id },
+    { groupId: group._id }
+  ));
+
+  for (const [currency, members] of nets) {
+    if (Math.abs(members.get(memberId) || 0) >= 0.01) {
+      throw new BadRequestError(`Member has an unsettled balance in ${currency}`);
+    }
+  }
+
+  await SplitGroup.updateOne(
+    { _id: group._id },
+    { $pull: { members: toObjectId(memberId) } }
+  );
+};
+
+/**
+ * Delete Group
+ *
+ * Creator only, and only when everyone is settled up
+ *
+ * @param userId - User ID
+ * @param groupId - Group ID
+ */
+export const deleteGroup = async (
+  userId: string,
+  groupId: string
+): Promise<void> => {
+  const group = await getGroupById(userId, groupId);
+
+  if (group.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the group creator can delete the group');
+  }
+
+  const transfers = simplifyDebts(netByMember(await aggregateDebts(
+    { groupId: group._id },
+    { groupId: group._id }
+  )));
+
+  if (transfers.length > 0) {
+    throw new BadRequestError('Settle all group balances before deleting the group');
+  }
+
+  await Promise.all([
+    SplitExpense.deleteMany({ groupId: group._id }),
+    Settlement.deleteMany({ groupId: group._id }),
+    group.deleteOne()
+  ]);
+};
+
+/**
+ * Create Split
+ *
+ * Payer is the current user. Participants may include the payer
+ * (their own share) and are notified by push.
+ *
+ * @param userId - Payer user ID
+ * @param data - Split data
+ * @returns Created split
+ */
+export const createSplit = async (
+  userId: string,
+  data: CreateSplitDTO
+): Promise<ISplitExpense> => {
+  let totalAmount = data.totalAmount;
+  let currency = data.currency;
+  let description = data.description;
+  let date = data.date;
+
+  // Split an existing expense of the payer
+  if (data.expenseId) {
+    const expense = await Expense.findOne({
+      _id: toObjectId(data.expenseId),
+      userId: toObjectId(userId)
+    });
+
+    if (!expense) {
+      throw new NotFoundError('Expense not found');
+    }
+
+    totalAmount = totalAmount ?? expense.originalAmount ?? expense.amount;
+    currency = currency ?? expense.currency;
+    description = description ?? expense.description;
+    date = date ?? expense.date;
+  }
+
+  if (!totalAmount) {
+    throw new BadRequestError('Amount is required');
+  }
+
+  if (!description) {
+    throw new BadRequestError('Description is required');
+  }
+
+  const participantIds = data.participants.map(p => p.userId);
+  await assertUsersExist(participantIds);
+
+  let group: ISplitGroup | null = null;
+  if (data.groupId) {
+    group = await getGroupById(userId, data.groupId);
+
+    const memberIds = new Set(group.members.map((m: any) => (m._id ?? m).toString()));
+    if (participantIds.some(id => !memberIds.has(id))) {
+      throw new BadRequestError('All participants must be members of the group');
+    }
+  }
+
+  const shares = calculateShares(totalAmount, data.splitType, data.participants);
+
+  const split = await SplitExpense.create({
+    payerId: toObjectId(userId),
+    groupId: group?._id ?? null,
+    expenseId: data.expenseId ? toObjectId(data.expenseId) : null,
+    description,
+    totalAmount: roundAmount(totalAmount),
+    currency: currency || group?.currency || await getUserBaseCurrency(userId),
+    splitType: data.splitType,
+    shares: shares.map(share => ({ ...share, userId: toObjectId(share.userId) })),
+    date: date || new Date()
+  });
+
+  // Notify participants (not the payer)
+  const payer = await User.findById(userId).select('name');
+  for (const share of split.shares) {
+    if (share.userId.toString() !== userId) {
+      sendSplitNotification(
+        share.userId.toString(),
+        payer?.name || 'Someone',
+        split.description,
+        share.amount,
+        split.currency,
+        split._id.toString()
+      ).catch(err => {
+        console.error('Failed to send split notification:', err);
+      });
+    }
+  }
+
+  return split;
+};
+
+/**
+ * Get Splits (paid by or shared with the user)
+ *
+ * @param userId - User ID
+ * @param groupId - Optional group filter
+ * @param page - Page number
+ * @param limit - Items per page
+ */
+export const getSplits = async (
+  userId: string,
+  groupId?: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<ISplitExpense>> => {
+  const query: any = {
+    $or: [
+      { payerId: toObjectId(userId) },
+      { 'shares.userId': toObjectId(userId) }
+    ]
+  };
+
+  if (groupId) {
+    query.groupId = toObjectId(groupId);
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [splits, total] = await Promise.all([
+    SplitExpense.find(query)
+      .populate('payerId', 'name email avatar')
+      .populate('shares.userId', 'name email avatar')
+      .sort({ date: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+
+    SplitExpense.countDocuments(query)
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: splits as ISplitExpense[],
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
+
+/**
+ * Get Single Split (payer or participant)
+ *
+ * @param userId - User ID
+ * @param splitId - Split ID
+ */
+export const getSplitById = async (
+  userId: string,
+  splitId: string
+): Promise<ISplitExpense> => {
+  const split = await SplitExpense.findOne({
+    _id: toObjectId(splitId),
+    $or: [
+      { payerId: toObjectId(userId) },
+      { 'shares.userId': toObjectId(userId) }
+    ]
+  })
+    .populate('payerId', 'name email avatar')
+    .populate('shares.userId', 'name email avatar');
+
+  if (!split) {
+    throw new NotFoundError('Split not found');
+  }
+
+  return split;
+};
+
+/**
+ * Delete Split (payer only)
+ *
+ * @param userId - User ID
+ * @param splitId - Split ID
+ */
+export const deleteSplit = async (
+  userId: string,
+  splitId: string
+): Promise<void> => {
+  const split = await SplitExpense.findOne({ _id: toObjectId(splitId) });
+
+  if (!split) {
+    throw new NotFoundError('Split not found');
+  }
+
+  if (split.payerId.toString() !== userId) {
+    throw new ForbiddenError('Only the payer can delete a split');
+  }
+
+  await split.deleteOne();
+};
+
+/**
+ * Record Settlement
+ *
+ * @param userId - User ID (must be one side)
+ * @param data - Settlement data
+ * @returns Created settlement
+ */
+export const recordSettlement = async (
+  userId: string,
+  data: RecordSettlementDTO
+): Promise<ISettlement> => {
+  const fromUserId = data.fromUserId || userId;
+  const toUserId = data.toUserId || userId;
+
+  if (fromUserId !== userId && toUserId !== userId) {
+    throw new ForbiddenError('You can only record settlements you are part of');
+  }
+
+  if (fromUserId === toUserId) {
+    throw new BadRequestError('Cannot settle with yourself');
+  }
+
+  const otherUserId = fromUserId === userId ? toUserId : fromUserId;
+  await assertUsersExist([otherUserId]);
+
+  let group: ISplitGroup | null = null;
+  if (data.groupId) {
+    group = await getGroupById(userId, data.groupId);
+
+    if (!group.members.some((m: any) => (m._id ?? m).toString() === otherUserId)) {
+      throw new BadRequestError('Both users must be members of the group');
+    }
+  }
+
+  const settlement = await Settlement.create({
+    fromUserId: toObjectId(fromUserId),
+    toUserId: toObjectId(toUserId),
+    groupId: group?._id ?? null,
+    amount: roundAmount(data.amount),
+    currency: data.currency || group?.currency || await getUserBaseCurrency(userId),
+    note: data.note,
+    date: data.date || new Date(),
+    createdBy: toObjectId(userId)
+  });
+
+  const creator = await User.findById(fromUserId).select('name');
+  sendSettlementNotification(
+    otherUserId,
+    creator?.name || 'Someone',
+    settlement.amount,
+    settlement.currency
+  ).catch(err => {
+    console.error('Failed to send settlement notification:', err);
+  });
+
+  return settlement;
+};
+
+/**
+ * Delete Settlement (creator only)
+ *
+ * @param userId - User ID
+ * @param settlementId - Settlement ID
+ */
+export const deleteSettlement = async (
+  userId: string,
+  settlementId: string
+): Promise<void> => {
+  const settlement = await Settlement.findOne({ _id: toObjectId(settlementId) });
+
+  if (!settlement) {
+    throw new NotFoundError('Settlement not found');
+  }
+
+  if (settlement.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the user who recorded it can delete a settlement');
+  }
+
+  await settlement.deleteOne();
+};
+
+/**
+ * Get Balances with Everyone
+ *
+ * @param userId - User ID
+ * @returns Per-user balances + totals per currency
+ */
+export const getBalances = async (userId: string) => {
+  const me = toObjectId(userId);
+
+  const edges = await aggregateDebts(
+    { $or: [{ payerId: me }, { 'shares.userId': me }] },
+    { $or: [{ fromUserId: me }, { toUserId: me }] }
+  );
+
+  // other|currency → amount (> 0: they owe me)
+  const balances = new Map<string, number>();
+  for (const edge of edges) {
+    let other: string;
+    let delta: number;
+
+    if (edge.creditor === userId) {
+      other = edge.debtor;
+      delta = edge.amount;
+    } else if (edge.debtor === userId) {
+      other = edge.creditor;
+      delta = -edge.amount;
+    } else {
+      continue;   // Debt between two other participants
+    }
+
+    const key = `${other}|${edge.currency}`;
+    balances.set(key, (balances.get(key) || 0) + delta);
+  }
+
+  const users = await loadUsers([...balances.keys()].map(key => key.split('|')[0]));
+
+  const result: PairBalance[] = [];
+  const totals: Record<string, { owedToYou: number; youOwe: number; net: number }> = {};
+
+  for (const [key, value] of balances) {
+    const amount = roundAmount(value);
+    if (Math.abs(amount) < 0.01) {
+      continue;
+    }
+
+    const [otherId, currency] = key.split('|');
+    result.push({ user: users.get(otherId) || null, currency, amount });
+
+    const total = totals[currency] || { owedToYou: 0, youOwe: 0, net: 0 };
+    if (amount > 0) {
+      total.owedToYou = roundAmount(total.owedToYou + amount);
+    } else {
+      total.youOwe = roundAmount(total.youOwe - amount);
+    }
+    total.net = roundAmount(total.owedToYou - total.youOwe);
+    totals[currency] = total;
+  }
+
+  result.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  return {
+    balances: result,
+    totals
+  };
+};
+
+/**
+ * Get Ledger with One User
+ *
+ * Chronological splits & settlements with running balance
+ *
+ * @param userId - User ID
+ * @param otherUserId - Other user ID
+ */
+export const getPairLedger = async (userId: string, otherUserId: string) => {
+  const users = await loadUsers([otherUserId]);
+  if (!users.has(otherUserId)) {
+    throw new NotFoundError('User not found');
+  }
+
+  const me = toObjectId(userId);
+  const other = toObjectId(otherUserId);
+
+  const [splits, settlements] = await Promise.all([
+    SplitExpense.find({
+      $or: [
+        { payerId: me, 'shares.userId': other },
+        { payerId: other, 'shares.userId': me }
+      ]
+    }).sort({ date: 1 }).lean(),
+
+    Settlement.find({
+      $or: [
+        { fromUserId: me, toUserId: other },
+        { fromUserId: other, toUserId: me }
+      ]
+    }).sort({ date: 1 }).lean()
+  ]);
+
+  const entries = [
+    ...splits.map(split => {
+      const iPaid = split.payerId.toString() === userId;
+      const debtorId = iPaid ? otherUserId : userId;
+      const share = split.shares.find((s: IShare) => s.userId.toString() === debtorId);
+
+      return {
+        type: 'split' as const,
+        id: split._id.toString(),
+        date: split.date,
+        description: split.description,
+        currency: split.currency,
+        amount: iPaid ? (share?.amount || 0) : -(share?.amount || 0)
+      };
+    }),
+    ...settlements.map(settlement => ({
+      type: 'settlement' as const,
+      id: settlement._id.toString(),
+      date: settlement.date,
+      description: settlement.note || 'Settlement',
+      currency: settlement.currency,
+      amount: settlement.fromUserId.toString() === userId ? settlement.amount : -settlement.amount
+    }))
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Running balance per currency
+  const running: Record<string, number> = {};
+  const ledger = entries.map(entry => {
+    running[entry.currency] = roundAmount((running[entry.currency] || 0) + entry.amount);
+    return { ...entry, balance: running[entry.currency] };
+  });
+
+  return {
+    user: users.get(otherUserId),
+    entries: ledger,
+    balances: running
+  };
+};
+
+/**
+ * Get Group Balances
+ *
+ * @param userId - User ID (member)
+ * @param groupId - Group ID
+ * @returns Net per member + simplified transfers to settle everyone
+ */
+export const getGroupBalances = async (userId: string, groupId: string) => {
+  const group = await getGroupById(userId, groupId);
+
+  const nets = netByMember(await aggregateDebts(
+    { groupId: group._id },
+    { groupId: group._id }
+  ));
+
+  const transfers = simplifyDebts(nets);
+
+  const memberIds = group.members.map((m: any) => (m._id ?? m).toString());
+  const allIds = [...memberIds, ...transfers.flatMap(t => [t.from, t.to])];
+  const users = await loadUsers(allIds);
+
+  const members = [...nets].flatMap(([currency, balances]) =>
+    [...balances]
+      .map(([id, net]) => ({ user: users.get(id) || null, currency, amount: roundAmount(net) }))
+      .filter(balance => Math.abs(balance.amount) >= 0.01)
+  );
+
+  const suggested: Transfer[] = transfers.map(t => ({
+    from: users.get(t.from) || null,
+    to: users.get(t.to) || null,
+    amount: t.amount,
+    currency: t.currency
+  }));
+
+  return {
+    group: { _id: group._id, name: group.name },
+    members,
+    transfers: suggested
+  };
+};
+
+/**
+ * Unlink Splits from a Deleted Expense
+ *
+ * The debts remain; only the reference to the payer's expense goes
+ *
+ * @param expenseId - Deleted expense ID
+ * @param session - Optional transaction session
+ */
+export const unlinkExpense = async (
+  expenseId: string,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  await SplitExpense.updateMany(
+    { expenseId: toObjectId(expenseId) },
+    { $set: { expenseId: null } },
+    { session }
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * Split Validators
+ */
+
+import Joi from 'joi';
+import { SUPPORTED_CURRENCIES } from '../currency/currency.model';
+
+const objectId = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({
+    'string.pattern.base': 'Invalid ID'
+  });
+
+/**
+ * Create Split Schema
+ */
+export const createSplitSchema = Joi.object({
+  description: Joi.string()
+    .trim()
+    .max(200)
+    .optional()
+    .messages({
+      'string.max': 'Description cannot exceed 200 characters'
+    }),
+
+  totalAmount: Joi.number()
+    .min(0.01)
+    .max(10000000)
+    .optional()
+    .messages({
+      'number.min': 'Amount must be greater than 0',
+      'number.max': 'Amount too large'
+    }),
+
+  currency: Joi.string()
+    .valid(...SUPPORTED_CURRENCIES)
+    .optional()
+    .messages({
+      'any.only': 'Unsupported currency'
+    }),
+
+  splitType: Joi.string()
+    .valid('equal', 'percentage', 'exact')
+    .default('equal'),
+
+  participants: Joi.array()
+    .items(
+      Joi.object({
+        userId: objectId.required(),
+        amount: Joi.number().min(0).when('....splitType', {
+          is: 'exact',
+          then: Joi.required()
+        }),
+        percentage: Joi.number().min(0).max(100).when('....splitType', {
+          is: 'percentage',
+          then: Joi.required()
+        })
+      })
+    )
+    .min(1)
+    .max(50)
+    .required()
+    .messages({
+      'array.min': 'At least one participant is required',
+      'any.required': 'Participants are required'
+    }),
+
+  groupId: objectId.optional(),
+
+  expenseId: objectId.optional(),
+
+  date: Joi.date().optional()
+})
+  .or('totalAmount', 'expenseId')
+  .or('description', 'expenseId')
+  .messages({
+    'object.missing': 'Amount and description are required unless splitting an expense'
+  });
+
+/**
+ * Create Group Schema
+ */
+export const createGroupSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'string.max': 'Group name cannot exceed 50 characters',
+      'any.required': 'Group name is required'
+    }),
+
+  memberIds: Joi.array()
+    .items(objectId)
+    .max(50)
+    .optional(),
+
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional()
+});
+
+/**
+ * Update Group Schema
+ */
+export const updateGroupSchema = Joi.object({
+  name: Joi.string().trim().max(50).optional(),
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional()
+}).min(1);
+
+/**
+ * Add Members Schema
+ */
+export const addMembersSchema = Joi.object({
+  memberIds: Joi.array()
+    .items(objectId)
+    .min(1)
+    .max(50)
+    .required()
+});
+
+/**
+ * Record Settlement Schema
+ */
+export const recordSettlementSchema = Joi.object({
+  fromUserId: objectId.optional(),
+  toUserId: objectId.optional(),
+
+  amount: Joi.number()
+    .min(0.01)
+    .max(10000000)
+    .required()
+    .messages({
+      'number.min': 'Amount must be greater than 0',
+      'any.required': 'Amount is required'
+    }),
+
+  currency: Joi.string().valid(...SUPPORTED_CURRENCIES).optional(),
+  groupId: objectId.optional(),
+  note: Joi.string().trim().max(200).optional().allow(''),
+  date: Joi.date().optional()
+})
+  .xor('fromUserId', 'toUserId')
+  .messages({
+    'object.xor': 'Provide either fromUserId (they paid you) or toUserId (you paid them)',
+    'object.missing': 'Provide either fromUserId (they paid you) or toUserId (you paid them)'
+  });
@@ -0,0 +1,86 @@
+/**
+ * Subscription Controller
+ */
+
+import { Request, Response } from 'express';
+import * as subscriptionService from './subscription.service';
+import { SubscriptionStatus } from './subscription.model';
+import { sendSuccess } from '../../shared/utils/response.util';
+import { Types } from 'mongoose';
+
+interface AuthRequest extends Request {
+  user?: {
+    userId: Types.ObjectId;
+    email: string;
+    name: string;
+  };
+}
+
+/**
+ * Get Subscriptions
+ *
+ * Route: GET /api/subscriptions?status=detected|confirmed|dismissed
+ */
+export const getSubscriptions = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const subscriptions = await subscriptionService.getSubscriptions(
+    userId,
+    req.query.status as SubscriptionStatus | undefined
+  );
+
+  return sendSuccess(res, subscriptions);
+};
+
+/**
+ * Scan Expense History Now
+ *
+ * Route: POST /api/subscriptions/scan
+ */
+export const detectSubscriptions = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const subscriptions = await subscriptionService.detectSubscriptions(userId);
+
+  return sendSuccess(
+    res,
+    subscriptions,
+    `Found ${subscriptions.length} possible subscription(s)`
+  );
+};
+
+/**
+ * Confirm Subscription (creates a recurring series)
+ *
+ * Route: POST /api/subscriptions/:id/confirm
+ * Body: { endDate? }
+ */
+export const confirmSubscription = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const result = await subscriptionService.confirmSubscription(userId, req.params.id, req.body);
+
+  return sendSuccess(
+    res,
+    result,
+    'Subscription confirmed as a recurring expense',
+    201
+  );
+};
+
+/**
+ * Dismiss Subscription
+ *
+ * Route: POST /api/subscriptions/:id/dismiss
+ */
+export const dismissSubscription = async (req: Request, res: Response): Promise<Response> => {
+  const authReq = req as AuthRequest;
+  const userId = authReq.user!.userId.toString();
+
+  const subscription = await subscriptionService.dismissSubscription(userId, req.params.id);
+
+  return sendSuccess(res, subscription, 'Subscription dismissed');
+};
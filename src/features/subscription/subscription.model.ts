@@ -0,0 +1,193 @@
+/**
+ * Subscription Model
+ *
+ * Purpose: Repeating charges found in expense history that the user
+ * never marked as recurring (Netflix, gym, mobile packages)
+ *
+ * Lifecycle:
+ * 1. detected - found by a scan, waiting for the user
+ * 2. confirmed - turned into a recurring series (seriesId)
+ * 3. dismissed - not a subscription; later scans leave it alone
+ *
+ * One detection per user per signature (payee, or description +
+ * currency), so re-scanning updates it instead of adding another.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { RecurringInterval } from '../recurring/recurring.model';
+
+export type SubscriptionStatus = 'detected' | 'confirmed' | 'dismissed';
+
+/**
+ * Subscription Interface
+ */
+export interface ISubscription extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  signature: string;
+  description: string;
+  payeeId?: mongoose.Types.ObjectId | null;
+  categoryId: mongoose.Types.ObjectId;
+  currency: string;
+  interval: RecurringInterval;
+  averageAmount: number;
+  lastAmount: number;
+  expenseIds: mongoose.Types.ObjectId[];
+  occurrences: number;
+  firstDate: Date;
+  lastDate: Date;
+  nextExpectedDate: Date;
+  confidence: number;
+  status: SubscriptionStatus;
+  seriesId?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Subscription Schema
+ */
+const SubscriptionSchema = new Schema<ISubscription>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+
+    // "payee:<id>:<currency>" or "text:<normalized description>:<currency>"
+    signature: {
+      type: String,
+      required: true
+    },
+
+    // Description of the latest charge
+    description: {
+      type: String,
+      trim: true,
+      default: ''
+    },
+
+    payeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payee',
+      default: null
+    },
+
+    // Category of the latest charge
+    categoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      required: true
+    },
+
+    // Charges are compared in their original currency
+    currency: {
+      type: String,
+      required: true
+    },
+
+    interval: {
+      type: String,
+      enum: ['weekly', 'monthly', 'yearly'],
+      required: true
+    },
+
+    averageAmount: {
+      type: Number,
+      required: true
+    },
+
+    lastAmount: {
+      type: Number,
+      required: true
+    },
+
+    // Charges that make up the pattern, oldest first
+    expenseIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Expense' }],
+      default: []
+    },
+
+    occurrences: {
+      type: Number,
+      required: true
+    },
+
+    firstDate: {
+      type: Date,
+      required: true
+    },
+
+    lastDate: {
+      type: Date,
+      required: true
+    },
+
+    nextExpectedDate: {
+      type: Date,
+      required: true
+    },
+
+    // 0-1: how regular the timing and amounts are
+    confidence: {
+      type: Number,
+      min: 0,
+      max: 1,
+      required: true
+    },
+
+    status: {
+      type: String,
+      enum: ['detected', 'confirmed', 'dismissed'],
+      default: 'detected'
+    },
+
+    // Set on confirm
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RecurringSeries',
+      default: null
+    },
+
+    reviewedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(_doc, ret) {
+        const result = ret as any;
+        delete result.__v;
+        return result;
+      }
+    },
+    toObject: { virtuals: true }
+  }
+);
+
+/**
+ * Virtual: category
+ */
+SubscriptionSchema.virtual('category', {
+  ref: 'Category',
+  localField: 'categoryId',
+  foreignField: '_id',
+  justOne: true
+});
+
+/**
+ * Indexes
+ * - One detection per signature (re-scans update it)
+ * - Listing by status, next charge first
+ */
+SubscriptionSchema.index({ userId: 1, signature: 1 }, { unique: true });
+SubscriptionSchema.index({ userId: 1, status: 1, nextExpectedDate: 1 });
+
+const Subscription = mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
+
+export default Subscription;
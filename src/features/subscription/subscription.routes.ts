@@ -0,0 +1,54 @@
+/**
+ * Subscription Routes
+ *
+ * Purpose: Review repeating charges found in expense history
+ */
+
+import { Router } from 'express';
+import * as subscriptionController from './subscription.controller';
+import { validate } from '../../shared/middlewares/validate.middleware';
+import { authMiddleware } from '../../shared/middlewares/auth.middleware';
+import { confirmSubscriptionSchema } from './subscription.validator';
+
+const router = Router();
+
+/**
+ * All subscription routes require authentication
+ */
+router.use(authMiddleware);
+
+/**
+ * Get detected subscriptions
+ */
+router.get(
+  '/',
+  subscriptionController.getSubscriptions
+);
+
+/**
+ * Scan expense history now
+ * Note: Static routes must be before /:id
+ */
+router.post(
+  '/scan',
+  subscriptionController.detectSubscriptions
+);
+
+/**
+ * Confirm → recurring series
+ */
+router.post(
+  '/:id/confirm',
+  validate(confirmSubscriptionSchema),
+  subscriptionController.confirmSubscription
+);
+
+/**
+ * Not a subscription
+ */
+router.post(
+  '/:id/dismiss',
+  subscriptionController.dismissSubscription
+);
+
+export default router;
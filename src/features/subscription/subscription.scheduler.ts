@@ -0,0 +1,41 @@
+/**
+ * Subscription Detection Scheduler
+ *
+ * Purpose: Look for new repeating charges in recently active users'
+ * expense history
+ */
+
+import { detectAllSubscriptions } from './subscription.service';
+
+/**
+ * Scan Active Users
+ */
+export const checkSubscriptions = async (): Promise<void> => {
+  try {
+    const users = await detectAllSubscriptions();
+
+    if (users > 0) {
+      console.log(`🔎 Scanned ${users} user(s) for subscriptions`);
+    }
+  } catch (error) {
+    console.error('❌ Subscription detection error:', error);
+  }
+};
+
+/**
+ * Start Subscription Detection Scheduler
+ *
+ * Scans once a day (the first scan runs an hour after start, so
+ * restarts don't trigger a full scan each time)
+ */
+export const startSubscriptionScheduler = (): void => {
+  console.log('🔎 Subscription detection scheduler started');
+
+  setInterval(() => {
+    checkSubscriptions();
+  }, 24 * 60 * 60 * 1000);  // 24 hours
+
+  setTimeout(() => {
+    checkSubscriptions();
+  }, 60 * 60 * 1000);  // 1 hour
+};
@@ -0,0 +1,433 @@
+/**
+ * Subscription Service
+ *
+ * Purpose: Find charges that repeat on a schedule and let the user
+ * turn them into recurring series
+ *
+ * Detection:
+ * 1. Group expenses not already in a recurring series by payee, or
+ *    by similar description when there's no payee (same currency)
+ * 2. Keep the charges close to the group's typical amount (±20%),
+ *    so other purchases at the same merchant don't break the pattern
+ * 3. The median gap between charges picks the interval (weekly /
+ *    monthly / yearly); most gaps must fit it
+ * 4. Patterns that stopped (next charge long overdue) and ones an
+ *    active recurring series already covers are skipped
+ *
+ * Scans run daily for active users and on demand.
+ */
+
+import mongoose from 'mongoose';
+import Subscription, { ISubscription, SubscriptionStatus } from './subscription.model';
+import Expense from '../expense/expense.model';
+import RecurringSeries, { IRecurringSeries, RecurringInterval } from '../recurring/recurring.model';
+import { createSeriesFromExpense, getOccurrenceDate } from '../recurring/recurring.service';
+import { getUserTimezone } from '../auth/auth.service';
+import { NotFoundError, BadRequestError, ConflictError } from '../../shared/utils/error.util';
+import { normalizeText, textSimilarity } from '../../shared/utils/text.util';
+
+/**
+ * Confirm Subscription DTO
+ */
+export interface ConfirmSubscriptionDTO {
+  endDate?: Date | null;
+}
+
+/**
+ * Interval Rule
+ */
+interface IntervalRule {
+  interval: RecurringInterval;
+  minGap: number;        // Days between charges
+  maxGap: number;
+  minCharges: number;
+  graceDays: number;     // Overdue by more → the subscription stopped
+}
+
+const INTERVAL_RULES: IntervalRule[] = [
+  { interval: 'weekly', minGap: 6, maxGap: 8, minCharges: 4, graceDays: 4 },
+  { interval: 'monthly', minGap: 27, maxGap: 34, minCharges: 3, graceDays: 10 },
+  { interval: 'yearly', minGap: 350, maxGap: 380, minCharges: 2, graceDays: 30 }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_MONTHS = 18;
+const MIN_SIMILARITY = 0.75;     // Descriptions that count as the same merchant
+const AMOUNT_TOLERANCE = 0.2;    // ±20% of the typical amount
+const MIN_REGULARITY = 0.75;     // Share of gaps that must fit the interval
+const ACTIVE_USER_DAYS = 45;
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * One Charge (lean expense)
+ */
+export interface Charge {
+  _id: mongoose.Types.ObjectId;
+  date: Date;
+  amount: number;        // Original currency
+  currency: string;
+  description: string;
+  payeeId?: mongoose.Types.ObjectId | null;
+  categoryId: mongoose.Types.ObjectId;
+}
+
+/**
+ * Charges Grouped by Merchant
+ */
+interface ChargeGroup {
+  signature: string;
+  text: string;
+  currency: string;
+  charges: Charge[];
+}
+
+/**
+ * Detected Pattern
+ */
+export interface Pattern {
+  interval: RecurringInterval;
+  charges: Charge[];
+  nextExpectedDate: Date;
+  confidence: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Group Charges by Payee or Similar Description
+ *
+ * @param charges - Oldest first
+ */
+const groupCharges = (charges: Charge[]): ChargeGroup[] => {
+  const groups = new Map<string, ChargeGroup>();
+  const textGroups: ChargeGroup[] = [];
+
+  charges.forEach(charge => {
+    if (charge.payeeId) {
+      const signature = `payee:${charge.payeeId}:${charge.currency}`;
+      if (!groups.has(signature)) {
+        groups.set(signature, { signature, text: '', currency: charge.currency, charges: [] });
+      }
+      groups.get(signature)!.charges.push(charge);
+      return;
+    }
+
+    const text = normalizeText(charge.description);
+    if (text.length < 3) return;     // "" / "bkash" noise isn't a merchant
+
+    let group = textGroups.find(candidate =>
+      candidate.currency === charge.currency && textSimilarity(candidate.text, text) >= MIN_SIMILARITY
+    );
+
+    if (!group) {
+      group = { signature: `text:${text}:${charge.currency}`, text, currency: charge.currency, charges: [] };
+      textGroups.push(group);
+    }
+
+    group.charges.push(charge);
+  });
+
+  return [...groups.values(), ...textGroups];
+};
+
+/**
+ * Find a Regular Pattern in a Group
+ *
+ * @param charges - Oldest first
+ * @param timezone - User's timezone (next expected date)
+ * @returns Pattern, or null when the charges aren't regular (or stopped)
+ */
+export const findPattern = (charges: Charge[], now: Date, timezone: string): Pattern | null => {
+  if (charges.length < 2) return null;
+
+  const typical = median(charges.map(charge => charge.amount));
+  const similar = charges.filter(charge => Math.abs(charge.amount - typical) <= typical * AMOUNT_TOLERANCE);
+
+  // Same-day repeats (split payments, duplicates) count once
+  const series: Charge[] = [];
+  similar.forEach(charge => {
+    const last = series[series.length - 1];
+    if (!last || charge.date.getTime() - last.date.getTime() >= DAY_MS / 2) {
+      series.push(charge);
+    }
+  });
+
+  if (series.length < 2) return null;
+
+  const gaps = series.slice(1).map((charge, index) =>
+    (charge.date.getTime() - series[index].date.getTime()) / DAY_MS
+  );
+  const typicalGap = median(gaps);
+
+  const rule = INTERVAL_RULES.find(candidate =>
+    typicalGap >= candidate.minGap && typicalGap <= candidate.maxGap
+  );
+
+  if (!rule || series.length < rule.minCharges) return null;
+
+  const regularity = gaps.filter(gap => gap >= rule.minGap && gap <= rule.maxGap).length / gaps.length;
+  if (regularity < MIN_REGULARITY) return null;
+
+  const last = series[series.length - 1];
+  const nextExpectedDate = getOccurrenceDate(last.date, rule.interval, 1, timezone);
+
+  if (nextExpectedDate.getTime() + rule.graceDays * DAY_MS < now.getTime()) return null;
+
+  return {
+    interval: rule.interval,
+    charges: series,
+    nextExpectedDate,
+    confidence: round(regularity * (similar.length / charges.length))
+  };
+};
+
+/**
+ * Already Covered by an Active Recurring Series?
+ */
+const isCovered = (group: ChargeGroup, pattern: Pattern, seriesList: IRecurringSeries[]): boolean => {
+  const last = pattern.charges[pattern.charges.length - 1];
+
+  return seriesList.some(series =>
+    series.interval === pattern.interval &&
+    (series.currency || group.currency) === group.currency &&
+    textSimilarity(series.description, last.description) >= MIN_SIMILARITY
+  );
+};
+
+/**
+ * Scan Expense History for Subscriptions
+ *
+ * Updates open detections, adds new ones and drops open ones that no
+ * longer look regular. Confirmed and dismissed ones are left alone.
+ *
+ * @param userId - User ID
+ * @returns Open detections after the scan
+ */
+export const detectSubscriptions = async (userId: string): Promise<ISubscription[]> => {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const now = new Date();
+  const since = new Date(now);
+  since.setMonth(since.getMonth() - HISTORY_MONTHS);
+
+  const [expenses, seriesList, existing, timezone] = await Promise.all([
+    Expense.find({
+      userId: userObjectId,
+      date: { $gte: since, $lte: now },
+      recurringSeriesId: null,
+      installmentPlanId: null
+    })
+      .select('date amount originalAmount currency description payeeId categoryId')
+      .sort({ date: 1 })
+      .lean(),
+    RecurringSeries.find({ userId: userObjectId, isActive: true }),
+    Subscription.find({ userId: userObjectId }).select('signature status').lean(),
+    getUserTimezone(userId)
+  ]);
+
+  const charges: Charge[] = expenses.map(expense => ({
+    _id: expense._id,
+    date: expense.date,
+    amount: expense.originalAmount ?? expense.amount,
+    currency: expense.currency || '',
+    description: expense.description || '',
+    payeeId: expense.payeeId,
+    categoryId: expense.categoryId
+  }));
+
+  const statusBySignature = new Map(existing.map(item => [item.signature, item.status]));
+  const found = new Set<string>();
+
+  for (const group of groupCharges(charges)) {
+    const pattern = findPattern(group.charges, now, timezone);
+
+    if (!pattern || isCovered(group, pattern, seriesList)) continue;
+
+    found.add(group.signature);
+
+    // The user already decided
+    if (statusBySignature.has(group.signature) && statusBySignature.get(group.signature) !== 'detected') {
+      continue;
+    }
+
+    const last = pattern.charges[pattern.charges.length - 1];
+
+    await Subscription.updateOne(
+      { userId: userObjectId, signature: group.signature },
+      {
+        $set: {
+          description: last.description,
+          payeeId: last.payeeId || null,
+          categoryId: last.categoryId,
+          currency: group.currency,
+          interval: pattern.interval,
+          averageAmount: round(pattern.charges.reduce((sum, charge) => sum + charge.amount, 0) / pattern.charges.length),
+          lastAmount: last.amount,
+          expenseIds: pattern.charges.map(charge => charge._id),
+          occurrences: pattern.charges.length,
+          firstDate: pattern.charges[0].date,
+          lastDate: last.date,
+          nextExpectedDate: pattern.nextExpectedDate,
+          confidence: pattern.confidence
+        },
+        $setOnInsert: { status: 'detected' }
+      },
+      { upsert: true }
+    );
+  }
+
+  // Open detections that no longer look like subscriptions
+  await Subscription.deleteMany({
+    userId: userObjectId,
+    status: 'detected',
+    signature: { $nin: Array.from(found) }
+  });
+
+  return getSubscriptions(userId, 'detected');
+};
+
+/**
+ * Scan All Active Users
+ *
+ * Called by the scheduler. Errors for one user don't stop the others.
+ *
+ * @returns Number of users scanned
+ */
+export const detectAllSubscriptions = async (): Promise<number> => {
+  const userIds = await Expense.distinct('userId', {
+    date: { $gte: new Date(Date.now() - ACTIVE_USER_DAYS * DAY_MS) }
+  });
+
+  for (const userId of userIds) {
+    try {
+      await detectSubscriptions(userId.toString());
+    } catch (error) {
+      console.error(`❌ Failed to detect subscriptions for user ${userId}:`, error);
+    }
+  }
+
+  return userIds.length;
+};
+
+/**
+ * Get Subscriptions
+ *
+ * @param userId - User ID
+ * @param status - Filter by status (default: all)
+ * @returns Detections, next expected charge first
+ */
+export const getSubscriptions = async (
+  userId: string,
+  status?: SubscriptionStatus
+): Promise<ISubscription[]> => {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+
+  if (status) {
+    query.status = status;
+  }
+
+  return Subscription.find(query)
+    .populate('category', 'name icon color')
+    .sort({ nextExpectedDate: 1 });
+};
+
+/**
+ * Get Subscription (owned by user)
+ */
+const findUserSubscription = async (
+  userId: string,
+  subscriptionId: string
+): Promise<ISubscription> => {
+  const subscription = await Subscription.findOne({
+    _id: new mongoose.Types.ObjectId(subscriptionId),
+    userId: new mongoose.Types.ObjectId(userId)
+  });
+
+  if (!subscription) {
+    throw new NotFoundError('Subscription not found');
+  }
+
+  return subscription;
+};
+
+/**
+ * Confirm Subscription
+ *
+ * The latest charge becomes occurrence 0 of a new recurring series
+ * (same as marking it isRecurring); future charges are then created
+ * by the scheduler.
+ *
+ * @param userId - User ID
+ * @param subscriptionId - Subscription ID
+ * @param data - Optional end date of the series
+ * @returns Confirmed subscription and the created series
+ */
+export const confirmSubscription = async (
+  userId: string,
+  subscriptionId: string,
+  data: ConfirmSubscriptionDTO = {}
+): Promise<{ subscription: ISubscription; series: IRecurringSeries }> => {
+  const subscription = await findUserSubscription(userId, subscriptionId);
+
+  if (subscription.status === 'confirmed') {
+    throw new ConflictError('Subscription already confirmed');
+  }
+
+  const expense = await Expense.findOne({
+    _id: { $in: subscription.expenseIds },
+    userId: new mongoose.Types.ObjectId(userId)
+  }).sort({ date: -1 });
+
+  if (!expense) {
+    throw new BadRequestError('The charges of this subscription no longer exist');
+  }
+
+  if (expense.recurringSeriesId) {
+    throw new ConflictError('The latest charge already belongs to a recurring series');
+  }
+
+  expense.isRecurring = true;
+  expense.recurringConfig = {
+    interval: subscription.interval,
+    endDate: data.endDate || undefined
+  };
+
+  const series = await createSeriesFromExpense(expense);
+
+  subscription.status = 'confirmed';
+  subscription.seriesId = series._id;
+  subscription.reviewedAt = new Date();
+  await subscription.save();
+
+  return { subscription, series };
+};
+
+/**
+ * Dismiss Subscription
+ *
+ * Later scans keep it dismissed
+ *
+ * @param userId - User ID
+ * @param subscriptionId - Subscription ID
+ * @returns Dismissed subscription
+ */
+export const dismissSubscription = async (
+  userId: string,
+  subscriptionId: string
+): Promise<ISubscription> => {
+  const subscription = await findUserSubscription(userId, subscriptionId);
+
+  if (subscription.status === 'confirmed') {
+    throw new ConflictError('Confirmed subscriptions are managed as recurring series');
+  }
+
+  subscription.status = 'dismissed';
+  subscription.reviewedAt = new Date();
+  await subscription.save();
+
+  return subscription;
+};
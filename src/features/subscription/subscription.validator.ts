@@ -0,0 +1,12 @@
+/**
+ * Subscription Validators
+ */
+
+import Joi from 'joi';
+
+/**
+ * Confirm Subscription Schema
+ */
+export const confirmSubscriptionSchema = Joi.object({
+  endDate: Joi.date().optional().allow(null)
+});
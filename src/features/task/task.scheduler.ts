@@ -5,6 +5,7 @@
  */
 
 import Task from './task.model';
+import { IUser } from '../auth/auth.model';
 import { sendTaskReminder } from '../notification/notification.service';
 
 /**
@@ -22,16 +23,20 @@ export const checkTaskReminders = async (): Promise<void> => {
       'reminder.sent': false,
       'reminder.time': { $lte: now },
       status: { $in: ['todo', 'in_progress'] }
-    }).populate('userId', 'deviceTokens');
+    }).populate('userId', 'deviceTokens timezone');
     
     console.log(`📋 Found ${tasks.length} task(s) with due reminders`);
     
     for (const task of tasks) {
-      if (task.userId && task.dueDate) {
+      // Populated: userId holds the user document
+      const user = task.userId as unknown as IUser | null;
+      
+      if (user && task.dueDate) {
         await sendTaskReminder(
-          task.userId.toString(),
+          user._id.toString(),
           task.title,
-          task.dueDate
+          task.dueDate,
+          user.timezone
         );
         
         // Mark reminder as sent
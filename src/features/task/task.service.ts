@@ -5,6 +5,8 @@
 import Task, { ITask } from './task.model';
 import { NotFoundError, BadRequestError } from '../../shared/utils/error.util';
 import mongoose from 'mongoose';
+import { getUserTimezone } from '../auth/auth.service';
+import { startOfDay } from '../../shared/utils/date.util';
 
 /**
  * Create Task DTO
@@ -87,10 +89,10 @@ export const getTasks = async (
   
   // Due date filter
   if (filters.dueDate) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    // "Today" in the user's timezone
+    const timezone = await getUserTimezone(userId);
+    const today = startOfDay(new Date(), timezone);
+    const tomorrow = startOfDay(new Date(), timezone, 1);
     
     switch (filters.dueDate) {
       case 'today':
@@ -317,11 +319,16 @@ export const deleteSubtask = async (
  * Get Task Statistics
  */
 export const getTaskStats = async (userId: string) => {
-  const tasks = await Task.find({
-    userId: new mongoose.Types.ObjectId(userId)
-  });
+  const [tasks, timezone] = await Promise.all([
+    Task.find({
+      userId: new mongoose.Types.ObjectId(userId)
+    }),
+    getUserTimezone(userId)
+  ]);
   
   const now = new Date();
+  const today = startOfDay(now, timezone);
+  const tomorrow = startOfDay(now, timezone, 1);
   
   const stats = {
     total: tasks.length,
@@ -337,10 +344,6 @@ export const getTaskStats = async (userId: string) => {
     ).length,
     dueToday: tasks.filter(t => {
       if (!t.dueDate) return false;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
       return t.dueDate >= today && t.dueDate < tomorrow;
     }).length
   };
@@ -13,6 +13,20 @@ import noteRoutes from '../features/note/note.routes';
 import chatRoutes from '../features/chat/chat.routes';
 import bazarRoutes from '../features/bazar/bazar.routes';
 import dashboardRoutes from '../features/dashboard/dashboard.routes';
+import recurringRoutes from '../features/recurring/recurring.routes';
+import incomeRoutes from '../features/income/income.routes';
+import currencyRoutes from '../features/currency/currency.routes';
+import importRoutes from '../features/import/import.routes';
+import splitRoutes from '../features/split/split.routes';
+import receiptRoutes from '../features/receipt/receipt.routes';
+import ruleRoutes from '../features/rule/rule.routes';
+import payeeRoutes from '../features/payee/payee.routes';
+import anomalyRoutes from '../features/anomaly/anomaly.routes';
+import forecastRoutes from '../features/forecast/forecast.routes';
+import subscriptionRoutes from '../features/subscription/subscription.routes';
+import accountRoutes from '../features/account/account.routes';
+import installmentRoutes from '../features/installment/installment.routes';
+import debtRoutes from '../features/debt/debt.routes';
 
 
 const router = Router();
@@ -26,6 +40,9 @@ router.use('/categories', categoryRoutes);
 // Expense routes
 router.use('/expenses', expenseRoutes);
 
+// Income routes
+router.use('/income', incomeRoutes);
+
 // Budget routes
 router.use('/budget', budgetRoutes);
 
@@ -47,6 +64,45 @@ router.use('/bazar', bazarRoutes);
 // Dashboard routes
 router.use('/dashboard', dashboardRoutes);
 
+// Recurring expense routes
+router.use('/recurring', recurringRoutes);
+
+// Currency & exchange rate routes
+router.use('/currency', currencyRoutes);
+
+// Statement import routes
+router.use('/imports', importRoutes);
+
+// Split expenses & settle-up routes
+router.use('/splits', splitRoutes);
+
+// Receipt downloads (signed URLs)
+router.use('/receipts', receiptRoutes);
+
+// Auto-categorization rules
+router.use('/rules', ruleRoutes);
+
+// Payee (merchant) routes
+router.use('/payees', payeeRoutes);
+
+// Unusual expense flags
+router.use('/anomalies', anomalyRoutes);
+
+// Spending forecast
+router.use('/forecast', forecastRoutes);
+
+// Detected subscriptions (repeating charges)
+router.use('/subscriptions', subscriptionRoutes);
+
+// Accounts / wallets, transfers & reconciliation
+router.use('/accounts', accountRoutes);
+
+// Installment / EMI plans
+router.use('/installments', installmentRoutes);
+
+// Personal loans (lend / borrow)
+router.use('/debts', debtRoutes);
+
 
 // API info
 router.get('/', (_req, res) => {
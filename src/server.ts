@@ -26,6 +26,11 @@ import { requestLogger } from './shared/middlewares/logger.middleware';
 import { errorHandler, notFoundHandler } from './shared/middlewares/error.middleware';
 import { initializeSocketServer } from './socket/socket.server';
 import { startTaskReminderScheduler } from './features/task/task.scheduler';
+import { startRecurringExpenseScheduler } from './features/recurring/recurring.scheduler';
+import { startSubscriptionScheduler } from './features/subscription/subscription.scheduler';
+import { startInstallmentScheduler } from './features/installment/installment.scheduler';
+import { startDebtReminderScheduler } from './features/debt/debt.scheduler';
+import { backfillGeoPoints } from './features/expense/expense.geo';
 // Import routes
 import apiRoutes from './routes';  // ← Add this
 
@@ -126,6 +131,18 @@ const startServer = async (): Promise<void> => {
     initializeFirebase(); 
     // ✅ Start task reminder scheduler
     startTaskReminderScheduler();
+    // Start recurring expense scheduler
+    startRecurringExpenseScheduler();
+    // Daily scan for repeating charges not marked recurring
+    startSubscriptionScheduler();
+    // Post due installments (EMI) and remind before due dates
+    startInstallmentScheduler();
+    // Remind lenders / borrowers before debts are due
+    startDebtReminderScheduler();
+    // Map queries need the GeoJSON point on older expenses too
+    backfillGeoPoints()
+      .then(count => count > 0 && console.log(`📍 Added map points to ${count} expenses`))
+      .catch(err => console.error('Failed to backfill expense map points:', err));
     //  httpServer.listen(env.PORT, () => {
     //   console.log(`🚀 Server running on port ${env.PORT}`);
     //   console.log(`📡 Socket.io ready for connections`);
@@ -141,6 +158,7 @@ const startServer = async (): Promise<void> => {
       console.log(`🚀 Server running on port ${env.PORT}`);
       console.log(`📡 Socket.io ready for connections`);
       console.log(`⏰ Task scheduler running`)
+      console.log(`🔁 Recurring expense scheduler running`)
     });
     
   } catch (error) {
@@ -26,6 +26,14 @@ interface EnvConfig {
   JWT_EXPIRES_IN: string;
   JWT_REFRESH_EXPIRES_IN: string;
   ALLOWED_ORIGINS: string[];
+  STORAGE_DRIVER: 'local' | 's3';
+  STORAGE_LOCAL_DIR: string;
+  S3_ENDPOINT?: string;
+  S3_REGION: string;
+  S3_BUCKET: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  S3_FORCE_PATH_STYLE: boolean;
 }
 
 /**
@@ -54,7 +62,17 @@ const getEnvConfig = (): EnvConfig => {
     JWT_SECRET: process.env.JWT_SECRET!,
     JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
     JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
-    ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000']
+    ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
+    
+    // File storage (receipts): local disk or any S3-compatible service (AWS, MinIO)
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    S3_ENDPOINT: process.env.S3_ENDPOINT,                // e.g. http://localhost:9000 for MinIO
+    S3_REGION: process.env.S3_REGION || 'us-east-1',
+    S3_BUCKET: process.env.S3_BUCKET || 'lifetrack-receipts',
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true'   // Required by MinIO
   };
 };
 
@@ -0,0 +1,63 @@
+/**
+ * Upload Middleware
+ * 
+ * Purpose: Parse multipart/form-data file uploads (multer, in memory)
+ * Files are validated here and handed to services as buffers;
+ * services decide where they are stored.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { BadRequestError } from '../utils/error.util';
+
+/**
+ * Upload Options
+ */
+export interface UploadOptions {
+  field: string;
+  maxFiles: number;
+  maxFileSize: number;         // Bytes
+  allowedTypes: string[];      // MIME types
+}
+
+/**
+ * Accept Multiple Files from One Field
+ * 
+ * Usage:
+ * router.post('/:id/receipts', uploadFiles({ field: 'files', ... }), controller)
+ * 
+ * @param options - Field name & limits
+ * @returns Express middleware (req.files = Express.Multer.File[])
+ */
+export const uploadFiles = (options: UploadOptions) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: options.maxFileSize,
+      files: options.maxFiles
+    },
+    fileFilter: (_req, file, callback) => {
+      if (!options.allowedTypes.includes(file.mimetype)) {
+        callback(new BadRequestError(`Unsupported file type: ${file.mimetype}`));
+        return;
+      }
+      callback(null, true);
+    }
+  }).array(options.field, options.maxFiles);
+  
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const messages: Record<string, string> = {
+          LIMIT_FILE_SIZE: `File too large (max ${Math.round(options.maxFileSize / (1024 * 1024))}MB)`,
+          LIMIT_FILE_COUNT: `Too many files (max ${options.maxFiles})`,
+          LIMIT_UNEXPECTED_FILE: `Unexpected field (use "${options.field}")`
+        };
+        
+        return next(new BadRequestError(messages[error.code] || error.message));
+      }
+      
+      next(error);
+    });
+  };
+};
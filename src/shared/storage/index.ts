@@ -0,0 +1,47 @@
+/**
+ * File Storage
+ *
+ * Purpose: Pick the storage backend from STORAGE_DRIVER
+ *
+ * Usage:
+ * const storage = getStorage();
+ * await storage.put('receipts/123/file.jpg', buffer, 'image/jpeg');
+ */
+
+import { env } from '../config/env.config';
+import { StorageDriver } from './storage.types';
+import { LocalStorage } from './local.storage';
+import { S3Storage } from './s3.storage';
+
+export * from './storage.types';
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Get Storage Driver (singleton)
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    storage = env.STORAGE_DRIVER === 's3'
+      ? new S3Storage({
+          bucket: env.S3_BUCKET,
+          region: env.S3_REGION,
+          endpoint: env.S3_ENDPOINT,
+          accessKeyId: env.S3_ACCESS_KEY_ID,
+          secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+          forcePathStyle: env.S3_FORCE_PATH_STYLE
+        })
+      : new LocalStorage(env.STORAGE_LOCAL_DIR);
+  }
+
+  return storage;
+};
+
+/**
+ * Replace Storage Driver
+ *
+ * Purpose: Plug in another backend (or a fake one) at startup
+ */
+export const setStorage = (driver: StorageDriver): void => {
+  storage = driver;
+};
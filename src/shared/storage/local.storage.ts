@@ -0,0 +1,62 @@
+/**
+ * Local Disk Storage
+ *
+ * Purpose: Development / single-server deployments
+ * Files live under STORAGE_LOCAL_DIR (default: ./uploads)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { StorageDriver, StoredObject } from './storage.types';
+import { NotFoundError, BadRequestError } from '../utils/error.util';
+
+export class LocalStorage implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolve key inside root (blocks ../ traversal)
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new BadRequestError('Invalid storage key');
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+
+    try {
+      const stat = await fs.promises.stat(filePath);
+
+      return {
+        stream: fs.createReadStream(filePath),
+        size: stat.size
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundError('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * S3-Compatible Storage
+ *
+ * Purpose: Production storage on AWS S3 or any S3-compatible
+ * service. For a local MinIO:
+ *   STORAGE_DRIVER=s3
+ *   S3_ENDPOINT=http://localhost:9000
+ *   S3_FORCE_PATH_STYLE=true
+ *   S3_ACCESS_KEY_ID=minioadmin  S3_SECRET_ACCESS_KEY=minioadmin
+ */
+
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { StorageDriver, StoredObject } from './storage.types';
+import { NotFoundError } from '../utils/error.util';
+
+/**
+ * S3 Storage Options
+ */
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+export class S3Storage implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      // Fall back to the default AWS credential chain when keys aren't set
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey
+          }
+        : undefined
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key
+      }));
+
+      return {
+        stream: result.Body as Readable,
+        contentType: result.ContentType,
+        size: result.ContentLength
+      };
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+        throw new NotFoundError('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 DeleteObject succeeds for missing keys
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key
+    }));
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Storage Types
+ *
+ * Purpose: Contract every file storage backend implements
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Stored Object Info
+ */
+export interface StoredObject {
+  stream: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+/**
+ * Storage Driver
+ *
+ * Keys are relative paths like "receipts/<userId>/<file>"
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Save a file (overwrites existing key)
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a file
+   *
+   * @throws NotFoundError if the key doesn't exist
+   */
+  get(key: string): Promise<StoredObject>;
+
+  /**
+   * Delete a file (missing keys are ignored)
+   */
+  delete(key: string): Promise<void>;
+}
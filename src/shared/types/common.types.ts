@@ -43,6 +43,20 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Cursor-Paginated Response (infinite scroll)
+ * 
+ * Pass pagination.nextCursor back as ?cursor= for the next page
+ */
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasNext: boolean;
+  };
+}
+
 /**
  * MongoDB Document with timestamps
  */
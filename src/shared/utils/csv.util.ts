@@ -0,0 +1,134 @@
+/**
+ * CSV Utility Functions
+ *
+ * Purpose: Minimal RFC 4180 CSV parsing (quoted fields, escaped quotes,
+ * CRLF / LF line endings) without pulling in a dependency
+ */
+
+/**
+ * Parse CSV Text into Rows
+ *
+ * @param text - Raw CSV content
+ * @param delimiter - Field delimiter (default: ',')
+ * @returns Array of rows, each an array of fields (empty lines skipped)
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM (Excel exports)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      field = '';
+      if (row.some(value => value.trim() !== '')) {
+        rows.push(row);
+      }
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without trailing newline
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) {
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV Text into Records
+ *
+ * First row is the header. Header names are trimmed and lower-cased.
+ *
+ * @param text - Raw CSV content
+ * @param delimiter - Field delimiter (default: ',')
+ * @returns Array of { header: value } objects
+ */
+export const parseCsvRecords = (
+  text: string,
+  delimiter: string = ','
+): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text, delimiter);
+
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(key => key.trim().toLowerCase());
+
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+/**
+ * Format One CSV Line
+ *
+ * Quotes fields containing the delimiter, quotes or line breaks.
+ * Fields starting with = + - @ are prefixed with ' so spreadsheets
+ * don't evaluate them as formulas.
+ *
+ * @param values - Field values (null/undefined → empty)
+ * @param delimiter - Field delimiter (default: ',')
+ * @returns CSV line terminated by CRLF
+ */
+export const toCsvLine = (
+  values: Array<string | number | boolean | null | undefined>,
+  delimiter: string = ','
+): string => {
+  return values
+    .map(value => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+
+      let field = String(value);
+
+      if (typeof value === 'string' && /^[=+\-@]/.test(field)) {
+        field = `'${field}`;
+      }
+
+      if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+        field = `"${field.replace(/"/g, '""')}"`;
+      }
+
+      return field;
+    })
+    .join(delimiter) + '\r\n';
+};
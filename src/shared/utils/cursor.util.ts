@@ -0,0 +1,131 @@
+/**
+ * Cursor Pagination Utility Functions
+ *
+ * Purpose: Keyset ("seek") pagination for infinite scroll
+ *
+ * Why not skip/limit?
+ * - skip gets slower the deeper you page
+ * - rows inserted while scrolling shift every page → duplicates / gaps
+ *
+ * A cursor remembers the sort value and _id of the last row returned;
+ * the next page starts strictly after it. _id breaks ties between rows
+ * with the same sort value (e.g. several expenses on one date).
+ *
+ * Cursors are opaque to clients (base64url JSON).
+ */
+
+import mongoose from 'mongoose';
+import { BadRequestError } from './error.util';
+
+/**
+ * Decoded Cursor
+ */
+export interface Cursor {
+  field: string;                   // Sort field the cursor belongs to
+  value: Date | number | string;
+  id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Encode Cursor from the Last Row of a Page
+ *
+ * @param field - Sort field
+ * @param row - Last row (must have the sort field and _id)
+ */
+export const encodeCursor = (field: string, row: any): string => {
+  const value = row[field];
+  const payload = {
+    f: field,
+    t: value instanceof Date ? 'd' : typeof value === 'number' ? 'n' : 's',
+    v: value instanceof Date ? value.toISOString() : value,
+    i: row._id.toString()
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode Cursor
+ *
+ * @param cursor - Opaque cursor from a previous page
+ * @param field - Sort field of the current request
+ * @throws BadRequestError if malformed or issued for another sort
+ */
+export const decodeCursor = (cursor: string, field: string): Cursor => {
+  let payload: any;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  if (
+    !payload ||
+    typeof payload.f !== 'string' ||
+    !mongoose.Types.ObjectId.isValid(payload.i) ||
+    !['d', 'n', 's'].includes(payload.t)
+  ) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  if (payload.f !== field) {
+    throw new BadRequestError('Cursor does not match the requested sort order');
+  }
+
+  const value = payload.t === 'd' ? new Date(payload.v) : payload.t === 'n' ? Number(payload.v) : String(payload.v);
+
+  if (value instanceof Date ? isNaN(value.getTime()) : payload.t === 'n' && isNaN(value as number)) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  return {
+    field: payload.f,
+    value,
+    id: new mongoose.Types.ObjectId(payload.i as string)
+  };
+};
+
+/**
+ * Build Filter for Rows After the Cursor
+ *
+ * @param cursor - Decoded cursor
+ * @param direction - Sort direction (1 asc, -1 desc)
+ * @returns Filter to AND with the list query
+ */
+export const buildCursorFilter = (cursor: Cursor, direction: 1 | -1): any => {
+  const op = direction === 1 ? '$gt' : '$lt';
+
+  return {
+    $or: [
+      { [cursor.field]: { [op]: cursor.value } },
+      { [cursor.field]: cursor.value, _id: { [op]: cursor.id } }
+    ]
+  };
+};
+
+/**
+ * Build Cursor Page
+ *
+ * Reads limit + 1 rows to know whether there is a next page,
+ * without counting.
+ *
+ * @param rows - Rows fetched with limit + 1
+ * @param limit - Page size
+ * @param field - Sort field
+ * @returns Page rows and the cursor for the next page
+ */
+export const toCursorPage = <T>(
+  rows: T[],
+  limit: number,
+  field: string
+): { data: T[]; nextCursor: string | null; hasNext: boolean } => {
+  const hasNext = rows.length > limit;
+  const data = hasNext ? rows.slice(0, limit) : rows;
+
+  return {
+    data,
+    nextCursor: hasNext ? encodeCursor(field, data[data.length - 1]) : null,
+    hasNext
+  };
+};
@@ -0,0 +1,215 @@
+/**
+ * Date Utility Functions
+ *
+ * Purpose: Day / month boundaries in a user's timezone
+ *
+ * Why?
+ * The server's clock zone says nothing about the user: an expense at
+ * 23:30 in Dhaka is already "tomorrow" in UTC. Every range ("today",
+ * "this month") is computed from the wall-clock calendar in the user's
+ * IANA timezone and turned back into exact instants for queries.
+ *
+ * Aggregations should pass the same timezone to $dateToString.
+ *
+ * Financial months ("periods") may start on any day, e.g. the 25th
+ * for a salary that arrives then. Day 1 is the calendar month.
+ */
+
+/**
+ * Default Timezone (matches the default currency, BDT)
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Dhaka';
+
+/**
+ * Wall-clock Parts of an Instant
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;      // 0-11 (like Date)
+  day: number;
+  weekday: number;    // 0 = Sunday
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Check IANA Timezone Name
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get Wall-clock Parts in a Timezone
+ */
+export const getZonedParts = (date: Date, timezone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  getFormatter(timezone)
+    .formatToParts(date)
+    .forEach(part => { parts[part.type] = part.value; });
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+};
+
+/**
+ * Offset of a Timezone from UTC at an Instant (ms)
+ */
+const getOffset = (timestamp: number, timezone: string): number => {
+  const p = getZonedParts(new Date(timestamp), timezone);
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+/**
+ * Instant of a Wall-clock Time in a Timezone
+ *
+ * Out-of-range values roll over like Date (month 12 → January of
+ * next year, day 0 → last day of previous month).
+ *
+ * Example: zonedTime('Asia/Dhaka', 2024, 0, 1) → 2023-12-31T18:00:00Z
+ */
+export const zonedTime = (
+  timezone: string,
+  year: number,
+  month: number,
+  day: number = 1,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0,
+  ms: number = 0
+): Date => {
+  const wallClock = Date.UTC(year, month, day, hour, minute, second, ms);
+
+  // Offset can differ on the two sides of a DST change; re-check once
+  const offset = getOffset(wallClock, timezone);
+  const corrected = getOffset(wallClock - offset, timezone);
+
+  return new Date(wallClock - corrected);
+};
+
+/**
+ * Start of the Day Containing an Instant
+ *
+ * @param offsetDays - Days to move (-1 = yesterday, 1 = tomorrow)
+ */
+export const startOfDay = (date: Date, timezone: string, offsetDays: number = 0): Date => {
+  const p = getZonedParts(date, timezone);
+  return zonedTime(timezone, p.year, p.month, p.day + offsetDays);
+};
+
+/**
+ * End of the Day Containing an Instant (last millisecond)
+ */
+export const endOfDay = (date: Date, timezone: string, offsetDays: number = 0): Date => {
+  return new Date(startOfDay(date, timezone, offsetDays + 1).getTime() - 1);
+};
+
+/**
+ * Start of the Calendar Month Containing an Instant
+ *
+ * @param offsetMonths - Months to move (-1 = last month)
+ */
+export const startOfMonth = (date: Date, timezone: string, offsetMonths: number = 0): Date => {
+  const p = getZonedParts(date, timezone);
+  return zonedTime(timezone, p.year, p.month + offsetMonths, 1);
+};
+
+/**
+ * End of the Calendar Month Containing an Instant (last millisecond)
+ */
+export const endOfMonth = (date: Date, timezone: string, offsetMonths: number = 0): Date => {
+  return new Date(startOfMonth(date, timezone, offsetMonths + 1).getTime() - 1);
+};
+
+/**
+ * Format as YYYY-MM-DD in a Timezone
+ *
+ * Same keys as $dateToString { format: '%Y-%m-%d', timezone }
+ */
+export const formatDateKey = (date: Date, timezone: string): string => {
+  const p = getZonedParts(date, timezone);
+  return `${p.year}-${String(p.month + 1).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+/**
+ * Start Day of a Financial Month in a Given Calendar Month
+ *
+ * Start days past the end of a short month clamp to its last day
+ * (31 → 30 April, 28/29 February)
+ *
+ * @param month - 0-11; out-of-range values roll over like Date
+ */
+export const periodStartDay = (year: number, month: number, startDay: number): number => {
+  return Math.min(startDay, new Date(Date.UTC(year, month + 1, 0)).getUTCDate());
+};
+
+/**
+ * Start of the Financial Month Containing an Instant
+ *
+ * @param startDay - Day the financial month starts (1-31)
+ * @param offsetPeriods - Periods to move (-1 = last period)
+ */
+export const startOfPeriod = (
+  date: Date,
+  timezone: string,
+  startDay: number = 1,
+  offsetPeriods: number = 0
+): Date => {
+  const p = getZonedParts(date, timezone);
+
+  // Before this month's start day → still in the period that began last month
+  const month = p.month + offsetPeriods - (p.day < periodStartDay(p.year, p.month, startDay) ? 1 : 0);
+
+  return zonedTime(timezone, p.year, month, periodStartDay(p.year, month, startDay));
+};
+
+/**
+ * End of the Financial Month Containing an Instant (last millisecond)
+ */
+export const endOfPeriod = (
+  date: Date,
+  timezone: string,
+  startDay: number = 1,
+  offsetPeriods: number = 0
+): Date => {
+  return new Date(startOfPeriod(date, timezone, startDay, offsetPeriods + 1).getTime() - 1);
+};
@@ -79,4 +79,37 @@ export const generateTokenPair = (payload: TokenPayload) => {
     accessToken: generateAccessToken(payload),
     refreshToken: generateRefreshToken(payload)
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Generate Download Token
+ * 
+ * Short-lived token embedded in file URLs (e.g. <img src>) so downloads
+ * work without an Authorization header. Different audience, so it can
+ * never be used as an access token.
+ * 
+ * @param payload - What the token grants access to
+ * @param expiresIn - Lifetime (default: 15 minutes)
+ */
+export const generateDownloadToken = (
+  payload: Record<string, string>,
+  expiresIn: string = '15m'
+): string => {
+  const options: any = {
+    expiresIn,
+    issuer: 'lifetrack-api',
+    audience: 'lifetrack-download'
+  };
+
+  return jwt.sign(payload, env.JWT_SECRET, options);
+};
+
+/**
+ * Verify Download Token
+ */
+export const verifyDownloadToken = (token: string): any => {
+  return jwt.verify(token, env.JWT_SECRET, {
+    issuer: 'lifetrack-api',
+    audience: 'lifetrack-download'
+  });
+};
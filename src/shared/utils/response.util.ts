@@ -6,7 +6,7 @@
  */
 
 import { Response } from 'express';
-import { ApiResponse, PaginatedResponse } from '../types/common.types';
+import { ApiResponse, PaginatedResponse, CursorPaginatedResponse } from '../types/common.types';
 
 /**
  * Success Response
@@ -63,7 +63,7 @@ export const sendError = (
  */
 export const sendPaginated = <T>(
   res: Response,
-  data: PaginatedResponse<T>,
+  data: PaginatedResponse<T> | CursorPaginatedResponse<T>,
   message?: string
 ): Response => {
   const response = {
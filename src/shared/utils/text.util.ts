@@ -0,0 +1,64 @@
+/**
+ * Text Utility Functions
+ *
+ * Purpose: Normalize and compare free-text descriptions
+ * (bank statement lines, expense descriptions, payee names)
+ */
+
+/**
+ * Normalize Text
+ *
+ * Lower-case, strip punctuation and number-only tokens, collapse spaces
+ *
+ * Example: "POS  PURCHASE - SHWAPNO #123" → "pos purchase shwapno"
+ */
+export const normalizeText = (text: string = ''): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0980-\u09ff\s]/g, ' ')   // Keep Latin, digits, Bangla
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !/^\d+$/.test(token))
+    .join(' ');
+};
+
+/**
+ * Tokenize Text
+ *
+ * @returns Unique normalized tokens
+ */
+export const tokenize = (text: string = ''): string[] => {
+  const normalized = normalizeText(text);
+  return normalized ? [...new Set(normalized.split(' '))] : [];
+};
+
+/**
+ * Text Similarity (Dice coefficient over tokens)
+ *
+ * @returns 0 (nothing in common) to 1 (same tokens)
+ */
+export const textSimilarity = (a: string = '', b: string = ''): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  if (tokensA.length === 0 && tokensB.length === 0) {
+    return 1;
+  }
+
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const setB = new Set(tokensB);
+  const common = tokensA.filter(token => setB.has(token)).length;
+
+  return (2 * common) / (tokensA.length + tokensB.length);
+};
+
+/**
+ * Escape Regular Expression
+ *
+ * Purpose: Use user input safely inside new RegExp()
+ */
+export const escapeRegex = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
@@ -0,0 +1,44 @@
+/**
+ * Transaction Utility Functions
+ *
+ * Purpose: Run several writes all-or-nothing
+ *
+ * Note: MongoDB transactions need a replica set (or mongos).
+ * A standalone server rejects them; that is reported as a
+ * BadRequestError instead of a 500.
+ */
+
+import mongoose, { ClientSession } from 'mongoose';
+import { BadRequestError } from './error.util';
+
+/**
+ * Run in Transaction
+ *
+ * Commits when `fn` resolves, aborts when it throws
+ * (retries transient errors via withTransaction).
+ *
+ * @param fn - Writes to run; pass the session to every operation
+ * @returns Result of fn
+ */
+export const runInTransaction = async <T>(
+  fn: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+  const session = await mongoose.startSession();
+
+  try {
+    let result!: T;
+
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+
+    return result;
+  } catch (error: any) {
+    if (error?.code === 20 || /replica set|mongos/i.test(error?.message || '')) {
+      throw new BadRequestError('This operation requires MongoDB to run as a replica set');
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+};
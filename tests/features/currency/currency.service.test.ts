@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import Income from '../../../src/features/income/income.model';
+import RecurringSeries from '../../../src/features/recurring/recurring.model';
+import Category from '../../../src/features/category/category.model';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import * as refundService from '../../../src/features/refund/refund.service';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+const leanFind = (docs: unknown[]) => ({
+  select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(docs) })
+}) as any;
+
+/**
+ * Stored values after the rebase, by document id
+ */
+const written = (model: { bulkWrite: unknown }): Record<string, Record<string, unknown>> => {
+  const ops = (model.bulkWrite as jest.Mock).mock.calls.flatMap(call => call[0]);
+  return Object.fromEntries(ops.map(op => [op.updateOne.filter._id.toString(), op.updateOne.update.$set]));
+};
+
+describe('rebaseUserAmounts', () => {
+  let rates: Record<string, number>;
+  const usdExpense = { _id: new mongoose.Types.ObjectId(), amount: 1100, currency: 'USD', originalAmount: 10, date: new Date('2024-05-01') };
+  const legacyExpense = { _id: new mongoose.Types.ObjectId(), amount: 1000, date: new Date('2024-05-02') };
+  const income = { _id: new mongoose.Types.ObjectId(), amount: 50000, currency: 'BDT', originalAmount: 50000, date: new Date('2024-05-03') };
+  const category = { _id: new mongoose.Types.ObjectId(), monthlyBudget: 20000 };
+
+  beforeEach(() => {
+    rates = { 'USD:EUR': 0.9, 'BDT:EUR': 0.0077 };
+    jest.spyOn(Expense, 'find').mockReturnValue(leanFind([usdExpense, legacyExpense]));
+    jest.spyOn(Income, 'find').mockReturnValue(leanFind([income]));
+    jest.spyOn(RecurringSeries, 'find').mockReturnValue(leanFind([]));
+    jest.spyOn(Category, 'find').mockReturnValue(leanFind([category]));
+    jest.spyOn(Expense, 'bulkWrite').mockResolvedValue({} as any);
+    jest.spyOn(Income, 'bulkWrite').mockResolvedValue({} as any);
+    jest.spyOn(RecurringSeries, 'bulkWrite').mockResolvedValue({} as any);
+    jest.spyOn(Category, 'bulkWrite').mockResolvedValue({} as any);
+    jest.spyOn(refundService, 'syncUserRefunds').mockResolvedValue(undefined as any);
+    jest.spyOn(currencyService, 'getExchangeRate').mockImplementation(async (_userId, from, to) => {
+      const rate = rates[`${from}:${to}`];
+      if (rate === undefined) throw new Error(`No exchange rate available for ${from} → ${to}`);
+      return rate;
+    });
+  });
+
+  it('re-converts every amount from its original currency', async () => {
+    await currencyService.rebaseUserAmounts(userId, 'BDT', 'EUR');
+
+    expect(written(Expense)[usdExpense._id.toString()])
+      .toEqual({ currency: 'USD', originalAmount: 10, exchangeRate: 0.9, amount: 9 });
+    expect(written(Income)[income._id.toString()])
+      .toEqual({ currency: 'BDT', originalAmount: 50000, exchangeRate: 0.0077, amount: 385 });
+    expect(written(Category)[category._id.toString()]).toEqual({ monthlyBudget: 154 });
+    expect(refundService.syncUserRefunds).toHaveBeenCalledWith(userId);
+  });
+
+  it('treats amounts without a currency as the old base currency', async () => {
+    await currencyService.rebaseUserAmounts(userId, 'BDT', 'EUR');
+
+    expect(written(Expense)[legacyExpense._id.toString()])
+      .toEqual({ currency: 'BDT', originalAmount: 1000, exchangeRate: 0.0077, amount: 7.7 });
+  });
+
+  it('writes nothing when a rate is missing', async () => {
+    delete rates['USD:EUR'];
+
+    await expect(currencyService.rebaseUserAmounts(userId, 'BDT', 'EUR'))
+      .rejects.toThrow('No exchange rate available for USD → EUR');
+    expect(Expense.bulkWrite).not.toHaveBeenCalled();
+    expect(Income.bulkWrite).not.toHaveBeenCalled();
+    expect(Category.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the base currency is unchanged', async () => {
+    await currencyService.rebaseUserAmounts(userId, 'BDT', 'BDT');
+
+    expect(Expense.find).not.toHaveBeenCalled();
+    expect(Expense.bulkWrite).not.toHaveBeenCalled();
+  });
+});
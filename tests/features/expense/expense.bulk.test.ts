@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import Account from '../../../src/features/account/account.model';
+import * as splitService from '../../../src/features/split/split.service';
+import * as anomalyService from '../../../src/features/anomaly/anomaly.service';
+import * as refundService from '../../../src/features/refund/refund.service';
+import * as installmentService from '../../../src/features/installment/installment.service';
+import * as receiptService from '../../../src/features/receipt/receipt.service';
+import { bulkUpdateExpenses, bulkDeleteExpenses } from '../../../src/features/expense/expense.bulk';
+
+const session = { id: 'session' };
+
+jest.mock('../../../src/shared/utils/transaction.util', () => ({
+  runInTransaction: jest.fn((fn: (session: unknown) => unknown) => fn(session))
+}));
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+const expense = (tags: string[], accountId: mongoose.Types.ObjectId | null = null) => ({
+  _id: new mongoose.Types.ObjectId(),
+  tags,
+  accountId
+});
+
+describe('bulkUpdateExpenses', () => {
+  let updateMany: jest.SpyInstance;
+
+  beforeEach(() => {
+    updateMany = jest.spyOn(Expense, 'updateMany').mockResolvedValue({} as any);
+  });
+
+  // Expenses that were written
+  const updatedIds = () => updateMany.mock.calls.flatMap(([filter]) => filter._id.$in);
+
+  describe('addTags', () => {
+    const full = expense(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i']);
+    const light = expense(['a']);
+    const ids = [full._id.toString(), light._id.toString()];
+
+    beforeEach(() => {
+      jest.spyOn(Expense, 'find').mockResolvedValue([full, light] as any);
+    });
+
+    it('rejects expenses that would go over 10 tags', async () => {
+      const result = await bulkUpdateExpenses(userId, { ids, addTags: ['x', 'y'] });
+
+      expect(result.results).toEqual([
+        { index: 0, id: ids[0], success: false, error: 'Maximum 10 tags allowed' },
+        { index: 1, id: ids[1], success: true }
+      ]);
+      expect(updatedIds()).toEqual([light._id]);
+    });
+
+    it('counts tags that are already present or removed in the same request', async () => {
+      const result = await bulkUpdateExpenses(userId, { ids, addTags: ['a', 'x', 'y'], removeTags: ['b'] });
+
+      expect(result.failed).toBe(0);
+    });
+
+    it('rejects the whole request in atomic mode', async () => {
+      await expect(bulkUpdateExpenses(userId, { ids, addTags: ['x', 'y'], atomic: true }))
+        .rejects.toThrow('No expenses were updated');
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('paymentMethod', () => {
+    const cashAccount = {
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Wallet',
+      type: 'cash'
+    };
+    const fromCash = expense([], cashAccount._id);
+    const noAccount = expense([]);
+    const ids = [fromCash._id.toString(), noAccount._id.toString()];
+
+    beforeEach(() => {
+      jest.spyOn(Expense, 'find').mockResolvedValue([fromCash, noAccount] as any);
+      jest.spyOn(Account, 'findOne').mockResolvedValue(cashAccount as any);
+    });
+
+    it('rejects methods that do not fit the expense account', async () => {
+      const result = await bulkUpdateExpenses(userId, { ids, paymentMethod: 'card' });
+
+      expect(result.results[0]).toEqual({
+        index: 0,
+        id: ids[0],
+        success: false,
+        error: 'Wallet is a cash account; payment method must be cash'
+      });
+      expect(result.results[1].success).toBe(true);
+      expect(updatedIds()).toEqual([noAccount._id]);
+    });
+
+    it('accepts the account method', async () => {
+      const result = await bulkUpdateExpenses(userId, { ids, paymentMethod: 'cash' });
+
+      expect(result.failed).toBe(0);
+    });
+  });
+});
+
+describe('bulkDeleteExpenses (atomic)', () => {
+  const expenses = [expense(['a']), expense([])];
+  const ids = expenses.map(e => e._id.toString());
+
+  let cleanup: jest.SpyInstance[];
+  let deleteReceipts: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Expense, 'find').mockResolvedValue(expenses as any);
+    jest.spyOn(Expense, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any);
+    deleteReceipts = jest.spyOn(receiptService, 'deleteExpenseReceipts').mockResolvedValue();
+    cleanup = [
+      jest.spyOn(splitService, 'unlinkExpense').mockResolvedValue(),
+      jest.spyOn(anomalyService, 'deleteExpenseAnomalies').mockResolvedValue(),
+      jest.spyOn(refundService, 'deleteExpenseRefunds').mockResolvedValue(),
+      jest.spyOn(installmentService, 'unlinkInstallmentExpenses').mockResolvedValue()
+    ];
+  });
+
+  it('cleans up refunds, flags, splits and installments inside the transaction', async () => {
+    const result = await bulkDeleteExpenses(userId, ids, true);
+
+    expect(result.succeeded).toBe(2);
+    for (const spy of cleanup) {
+      expect(spy).toHaveBeenCalled();
+      expect(spy.mock.calls.every(call => call[call.length - 1] === session)).toBe(true);
+    }
+    expect(Expense.deleteMany).toHaveBeenCalledWith(expect.anything(), { session });
+    expect(deleteReceipts).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails the request and keeps receipts when the cleanup fails', async () => {
+    (refundService.deleteExpenseRefunds as unknown as jest.SpyInstance).mockRejectedValue(new Error('write conflict'));
+
+    await expect(bulkDeleteExpenses(userId, ids, true)).rejects.toThrow('write conflict');
+    expect(Expense.deleteMany).not.toHaveBeenCalled();
+    expect(deleteReceipts).not.toHaveBeenCalled();
+  });
+});
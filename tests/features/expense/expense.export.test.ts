@@ -0,0 +1,71 @@
+import { PassThrough } from 'stream';
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import Category from '../../../src/features/category/category.model';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import { exportExpenses } from '../../../src/features/expense/expense.export';
+import { BadRequestError } from '../../../src/shared/utils/error.util';
+
+const userId = new mongoose.Types.ObjectId().toString();
+const categoryId = new mongoose.Types.ObjectId();
+
+const collect = (stream: PassThrough): string[] => {
+  const chunks: string[] = [];
+  stream.on('data', chunk => chunks.push(chunk.toString()));
+  return chunks;
+};
+
+describe('exportExpenses', () => {
+  beforeEach(() => {
+    jest.spyOn(currencyService, 'getUserBaseCurrency').mockResolvedValue('BDT');
+    jest.spyOn(Category, 'find').mockReturnValue({
+      select: () => ({ lean: async () => [{ _id: categoryId, name: 'Food' }] })
+    } as any);
+  });
+
+  it.each([
+    ['a non-numeric amount', { minAmount: 'abc' }],
+    ['a malformed category id', { categoryId: 'not-an-id' }],
+    ['an over-long search', { search: 'x'.repeat(101) }]
+  ])('rejects %s before writing anything', async (_name, filters) => {
+    const stream = new PassThrough();
+    const written = collect(stream);
+
+    await expect(exportExpenses(userId, stream, { format: 'csv', timezone: 'UTC', filters: filters as any }))
+      .rejects.toBeInstanceOf(BadRequestError);
+    expect(written).toEqual([]);
+  });
+
+  it('streams matching expenses as CSV', async () => {
+    const rows = [{
+      date: new Date('2024-03-05T10:00:00Z'),
+      categoryId,
+      description: 'Lunch, with "friends"',
+      amount: 250,
+      paymentMethod: 'cash',
+      tags: ['work', 'team']
+    }];
+    jest.spyOn(Expense, 'find').mockReturnValue({
+      sort: () => ({ select: () => ({ lean: () => ({
+        cursor: () => Object.assign(
+          (async function* () { yield* rows; })(),
+          { close: jest.fn() }
+        )
+      }) }) })
+    } as any);
+
+    const stream = new PassThrough();
+    const written = collect(stream);
+
+    await exportExpenses(userId, stream, { format: 'csv', timezone: 'UTC', filters: {} });
+
+    const output = written.join('');
+    expect(output.startsWith('\ufeff')).toBe(true);
+
+    const lines = output.slice(1).trim().split(/\r?\n/);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^Date,Category,Description,Amount/);
+    expect(lines[1]).toContain('2024-03-05,Food,"Lunch, with ""friends""",250,BDT');
+    expect(lines[1]).toContain('work;team');
+  });
+});
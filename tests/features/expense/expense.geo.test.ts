@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import { getSpendingHeatmap } from '../../../src/features/expense/expense.geo';
+import { aggregateInMemory } from '../../helpers/aggregation';
+
+const userId = new mongoose.Types.ObjectId().toString();
+const bounds = { south: 23, west: 90, north: 24, east: 91 };
+
+describe('getSpendingHeatmap', () => {
+  beforeEach(() => {
+    jest.spyOn(currencyService, 'getUserBaseCurrency').mockResolvedValue('BDT');
+  });
+
+  const at = (longitude: number, latitude: number) => ({ type: 'Point', coordinates: [longitude, latitude] });
+
+  it('sums spending net of refunds', async () => {
+    jest.spyOn(Expense, 'aggregate').mockImplementation(aggregateInMemory([
+      { geo: at(90.05, 23.05), amount: 500, refundedAmount: 200 },
+      { geo: at(90.06, 23.04), amount: 300 },
+      { geo: at(90.95, 23.95), amount: 100, refundedAmount: 0 }
+    ]) as any);
+
+    const heatmap = await getSpendingHeatmap(userId, bounds, {}, 10);
+
+    expect(heatmap.total).toBe(700);
+    expect(heatmap.cells.map(cell => ({ ...cell.bounds, total: cell.total, count: cell.count }))).toEqual([
+      { south: 23, west: 90, north: 23.1, east: 90.1, total: 600, count: 2 },
+      { south: 23.9, west: 90.9, north: 24, east: 91, total: 100, count: 1 }
+    ]);
+  });
+
+  it('places fully refunded cells by their gross amount', async () => {
+    jest.spyOn(Expense, 'aggregate').mockImplementation(aggregateInMemory([
+      { geo: at(90.05, 23.05), amount: 100, refundedAmount: 100 }
+    ]) as any);
+
+    const heatmap = await getSpendingHeatmap(userId, bounds, {}, 10);
+
+    expect(heatmap.cells[0]).toMatchObject({
+      total: 0,
+      center: { latitude: 23.05, longitude: 90.05 }
+    });
+  });
+});
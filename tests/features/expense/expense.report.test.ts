@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import * as authService from '../../../src/features/auth/auth.service';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import { getExpenseReport } from '../../../src/features/expense/expense.report';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('getExpenseReport', () => {
+  beforeEach(() => {
+    jest.spyOn(authService, 'getUserCalendar').mockResolvedValue({ timezone: 'UTC', monthStartDay: 1 } as any);
+    jest.spyOn(currencyService, 'getUserBaseCurrency').mockResolvedValue('BDT');
+  });
+
+  it('accepts amount filters from the query string', async () => {
+    jest.spyOn(Expense, 'aggregate').mockResolvedValue([{ totals: [], groups: [] }] as any);
+
+    const report = await getExpenseReport(userId, {
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      groupBy: 'week',
+      filters: { minAmount: '50', maxAmount: '200.5' } as any
+    });
+
+    expect(report.groupBy).toBe('week');
+  });
+
+  it('rejects amount filters that are not numbers', async () => {
+    const aggregate = jest.spyOn(Expense, 'aggregate');
+
+    await expect(getExpenseReport(userId, { filters: { minAmount: 'abc' } as any }))
+      .rejects.toThrow('minAmount must be a number');
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import * as recurringService from '../../../src/features/recurring/recurring.service';
+import * as refundService from '../../../src/features/refund/refund.service';
+import { buildExpenseQuery, getExpensesByCursor, updateExpense } from '../../../src/features/expense/expense.service';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('buildExpenseQuery', () => {
+  it('converts amount filters from the query string to numbers', async () => {
+    const query = await buildExpenseQuery(userId, { minAmount: '50', maxAmount: '200.5' } as any);
+
+    expect(query.amount).toEqual({ $gte: 50, $lte: 200.5 });
+  });
+
+  it('rejects amount filters that are not numbers', async () => {
+    await expect(buildExpenseQuery(userId, { minAmount: '' } as any))
+      .rejects.toThrow('minAmount must be a number');
+  });
+});
+
+describe('getExpensesByCursor', () => {
+  it('rejects sort fields that page mode does not offer', async () => {
+    const find = jest.spyOn(Expense, 'find');
+
+    await expect(getExpensesByCursor(userId, { sortBy: 'userId' as any }, ''))
+      .rejects.toThrow('sortBy must be one of: date, amount, createdAt');
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('rejects relevance sort', async () => {
+    await expect(getExpensesByCursor(userId, { sortBy: 'relevance' }, ''))
+      .rejects.toThrow('Relevance sort is not available with cursor pagination');
+  });
+});
+
+describe('updateExpense', () => {
+  const seriesId = new mongoose.Types.ObjectId();
+
+  const stored = (isRecurring: boolean) => ({
+    _id: new mongoose.Types.ObjectId(),
+    userId: new mongoose.Types.ObjectId(userId),
+    categoryId: new mongoose.Types.ObjectId(),
+    description: 'Rent',
+    isRecurring,
+    recurringSeriesId: seriesId,
+    recurringConfig: { interval: 'monthly' },
+    refundedAmount: 0,
+    save: jest.fn(),
+    populate: jest.fn()
+  });
+
+  let stopSeries: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(refundService, 'ensureRefundsFit').mockResolvedValue();
+    stopSeries = jest.spyOn(recurringService, 'stopSeriesForExpense').mockResolvedValue();
+  });
+
+  it('keeps the series running when one occurrence is edited', async () => {
+    const occurrence = stored(false);
+    jest.spyOn(Expense, 'findOne').mockResolvedValue(occurrence as any);
+
+    await updateExpense(userId, occurrence._id.toString(), { description: 'Rent (May)', isRecurring: false });
+
+    expect(occurrence.description).toBe('Rent (May)');
+    expect(occurrence.save).toHaveBeenCalled();
+    expect(stopSeries).not.toHaveBeenCalled();
+  });
+
+  it('stops the series when the expense that started it is no longer recurring', async () => {
+    const origin = stored(true);
+    jest.spyOn(Expense, 'findOne').mockResolvedValue(origin as any);
+
+    await updateExpense(userId, origin._id.toString(), { isRecurring: false });
+
+    expect(stopSeries).toHaveBeenCalledWith(origin);
+  });
+});
@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import RecurringSeries from '../../../src/features/recurring/recurring.model';
+import Rule from '../../../src/features/rule/rule.model';
+import * as authService from '../../../src/features/auth/auth.service';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import { mergeExpenseTags, getTagSpending } from '../../../src/features/expense/expense.tags';
+import { applyUpdate } from '../../helpers/aggregation';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('mergeExpenseTags', () => {
+  beforeEach(() => {
+    jest.spyOn(Expense, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() } as any);
+    jest.spyOn(Expense, 'updateMany').mockResolvedValue({ matchedCount: 3 } as any);
+    jest.spyOn(RecurringSeries, 'updateMany').mockResolvedValue({ matchedCount: 0 } as any);
+    jest.spyOn(Rule, 'updateMany').mockResolvedValue({ matchedCount: 0 } as any);
+  });
+
+  const updatesOf = (model: { updateMany: unknown }) =>
+    (model.updateMany as jest.Mock).mock.calls.map(([, pipeline]) => pipeline);
+
+  it('replaces the merged tags without duplicating the target', async () => {
+    const result = await mergeExpenseTags(userId, ['Trip', 'travel'], 'travel');
+
+    expect(result).toEqual({ tag: 'travel', updated: 3 });
+
+    const [update] = updatesOf(Expense);
+    expect(applyUpdate(update, { tags: ['food', 'Trip'] }).tags).toEqual(['food', 'travel']);
+    expect(applyUpdate(update, { tags: ['Trip', 'travel'] }).tags).toEqual(['travel']);
+  });
+
+  it('treats tag names as text, not field paths', async () => {
+    await mergeExpenseTags(userId, ['$vip'], '$travel');
+
+    const [update] = updatesOf(Expense);
+    expect(applyUpdate(update, { tags: ['$vip', 'food'] }).tags).toEqual(['food', '$travel']);
+  });
+
+  it('updates each collection in one round trip', async () => {
+    await mergeExpenseTags(userId, ['Trip'], 'travel');
+
+    expect(Expense.updateMany).toHaveBeenCalledTimes(1);
+    expect(RecurringSeries.updateMany).toHaveBeenCalledTimes(1);
+    expect(Rule.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('merges the tags that rules add and match on', async () => {
+    await mergeExpenseTags(userId, ['Trip'], 'travel');
+
+    const rule = { actions: { addTags: ['Trip'] }, conditions: { tags: ['Trip', 'work'] } };
+    const merged = updatesOf(Rule).reduce((doc, update) => applyUpdate(update, doc), rule);
+
+    expect(merged).toEqual({ actions: { addTags: ['travel'] }, conditions: { tags: ['work', 'travel'] } });
+  });
+});
+
+describe('getTagSpending', () => {
+  beforeEach(() => {
+    jest.spyOn(authService, 'getUserCalendar').mockResolvedValue({ timezone: 'UTC', monthStartDay: 1 } as any);
+    jest.spyOn(currencyService, 'getUserBaseCurrency').mockResolvedValue('BDT');
+  });
+
+  it('accepts amount filters from the query string', async () => {
+    jest.spyOn(Expense, 'aggregate').mockResolvedValue([{ totals: [], groups: [] }] as any);
+
+    const spending = await getTagSpending(userId, {
+      tags: ['trip'],
+      startDate: '2024-01-01',
+      endDate: '2024-06-30',
+      filters: { minAmount: '10', maxAmount: '500' } as any
+    });
+
+    expect(spending.groupBy).toBe('month');
+  });
+
+  it('rejects amount filters that are not numbers', async () => {
+    const aggregate = jest.spyOn(Expense, 'aggregate');
+
+    await expect(getTagSpending(userId, { tags: ['trip'], filters: { maxAmount: 'lots' } as any }))
+      .rejects.toThrow('maxAmount must be a number');
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { fitModel, Period } from '../../../src/features/forecast/forecast.service';
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysFrom = (start: Date, end: Date): Date[] => {
+  const days: Date[] = [];
+  for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+    days.push(new Date(date));
+  }
+  return days;
+};
+
+const calendarMonths = (start: Date, count: number): Period[] =>
+  Array.from({ length: count }, (_, index) => ({
+    start: new Date(start.getFullYear(), start.getMonth() + index, 1),
+    end: new Date(start.getFullYear(), start.getMonth() + index + 1, 1)
+  }));
+
+const spending = (days: Date[], amountOn: (date: Date) => number) =>
+  new Map(days.map(date => [dayKey(date), amountOn(date)]));
+
+describe('fitModel', () => {
+  // Jan 2023 → 15 Mar 2024: 14 full months
+  const days = daysFrom(new Date(2023, 0, 1), new Date(2024, 2, 15));
+  const fullMonths = calendarMonths(new Date(2023, 0, 1), 14);
+
+  it('learns the daily level of steady spending', () => {
+    const model = fitModel(spending(days, () => 100), days, fullMonths);
+
+    expect(model.level).toBeGreaterThan(98);
+    expect(model.level).toBeLessThan(102);
+    expect(model.weekday).toEqual(new Array(7).fill(1));
+    expect(model.cv).toBe(0.1);
+  });
+
+  it('picks up a month that is spent more heavily every year, dampened', () => {
+    const model = fitModel(spending(days, date => (date.getMonth() === 11 ? 300 : 100)), days, fullMonths);
+
+    expect(model.seasonal[11]).toBeCloseTo(1.8, 1);
+    expect(model.seasonal[5]).toBeLessThan(1);
+  });
+
+  it('weights the weekdays money is actually spent on', () => {
+    const model = fitModel(spending(days, date => (date.getDay() === 6 ? 700 : 0)), days, fullMonths);
+
+    expect(model.weekday[6]).toBeGreaterThan(6);
+    expect(model.weekday[1]).toBeLessThan(0.1);
+  });
+
+  it('falls back to no seasonality and the default variation with little history', () => {
+    const recent = daysFrom(new Date(2024, 0, 1), new Date(2024, 2, 15));
+    const model = fitModel(
+      spending(recent, date => (date.getMonth() === 0 ? 50 : 150)),
+      recent,
+      calendarMonths(new Date(2024, 0, 1), 2)
+    );
+
+    expect(model.seasonal).toEqual(new Array(12).fill(1));
+    expect(model.cv).toBe(0.4);
+  });
+});
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import ImportBatch from '../../../src/features/import/import.model';
+import Expense from '../../../src/features/expense/expense.model';
+import Income from '../../../src/features/income/income.model';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import * as anomalyService from '../../../src/features/anomaly/anomaly.service';
+import * as splitService from '../../../src/features/split/split.service';
+import * as refundService from '../../../src/features/refund/refund.service';
+import * as installmentService from '../../../src/features/installment/installment.service';
+import * as receiptService from '../../../src/features/receipt/receipt.service';
+import { commitImport, rollbackImport } from '../../../src/features/import/import.service';
+
+const session = { id: 'session' };
+
+jest.mock('../../../src/shared/utils/transaction.util', () => ({
+  runInTransaction: jest.fn((fn: (session: unknown) => unknown) => fn(session))
+}));
+
+const userId = new mongoose.Types.ObjectId().toString();
+const importId = new mongoose.Types.ObjectId();
+
+describe('commitImport', () => {
+  const row = (index: number, type: 'expense' | 'income') => ({
+    index,
+    type,
+    date: new Date('2024-05-01'),
+    amount: 100,
+    description: `Row ${index}`,
+    categoryId: type === 'expense' ? new mongoose.Types.ObjectId() : null,
+    duplicateScore: 0,
+    include: true
+  });
+
+  it('analyzes the imported expenses without notifying', async () => {
+    const batch = {
+      _id: importId,
+      status: 'preview',
+      currency: 'BDT',
+      rows: [row(0, 'expense'), row(1, 'income'), row(2, 'expense')],
+      parseErrors: [],
+      markModified: jest.fn(),
+      save: jest.fn()
+    };
+    const inserted = [{ _id: new mongoose.Types.ObjectId() }, { _id: new mongoose.Types.ObjectId() }];
+
+    jest.spyOn(ImportBatch, 'findOne').mockResolvedValue(batch as any);
+    jest.spyOn(ImportBatch, 'findOneAndUpdate').mockResolvedValue({ committedAt: new Date() } as any);
+    jest.spyOn(currencyService, 'toBaseCurrency').mockImplementation(async (_userId, amount) => ({ amount } as any));
+    jest.spyOn(Expense, 'insertMany').mockResolvedValue(inserted as any);
+    jest.spyOn(Income, 'insertMany').mockResolvedValue([{ _id: new mongoose.Types.ObjectId() }] as any);
+    const analyzeExpense = jest.spyOn(anomalyService, 'analyzeExpense').mockResolvedValue([]);
+
+    await commitImport(userId, importId.toString());
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(batch.status).toBe('committed');
+    expect(analyzeExpense.mock.calls).toEqual([
+      [inserted[0], { notify: false }],
+      [inserted[1], { notify: false }]
+    ]);
+  });
+});
+
+describe('rollbackImport', () => {
+  const expenseIds = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+  let batch: { _id: mongoose.Types.ObjectId; status: string; save: jest.Mock };
+  let cleanup: jest.SpyInstance[];
+  let deleteReceipts: jest.SpyInstance;
+
+  beforeEach(() => {
+    batch = { _id: importId, status: 'committed', save: jest.fn() };
+
+    jest.spyOn(ImportBatch, 'findOne').mockResolvedValue(batch as any);
+    jest.spyOn(Expense, 'find').mockReturnValue({
+      select: jest.fn().mockResolvedValue(expenseIds.map(_id => ({ _id, receipts: [] })))
+    } as any);
+    jest.spyOn(Expense, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any);
+    jest.spyOn(Income, 'deleteMany').mockResolvedValue({ deletedCount: 1 } as any);
+    deleteReceipts = jest.spyOn(receiptService, 'deleteExpenseReceipts').mockResolvedValue();
+    cleanup = [
+      jest.spyOn(splitService, 'unlinkExpense').mockResolvedValue(),
+      jest.spyOn(anomalyService, 'deleteExpenseAnomalies').mockResolvedValue(),
+      jest.spyOn(refundService, 'deleteExpenseRefunds').mockResolvedValue(),
+      jest.spyOn(installmentService, 'unlinkInstallmentExpenses').mockResolvedValue()
+    ];
+  });
+
+  it('cleans up refunds, anomaly flags, splits and installments before deleting the expenses', async () => {
+    const result = await rollbackImport(userId, importId.toString());
+
+    expect(result).toEqual({ deletedExpenses: 2, deletedIncomes: 1 });
+
+    expect(splitService.unlinkExpense).toHaveBeenCalledTimes(expenseIds.length);
+    expect(anomalyService.deleteExpenseAnomalies).toHaveBeenCalledWith(expenseIds, session);
+    expect(refundService.deleteExpenseRefunds).toHaveBeenCalledWith(expenseIds, session);
+    expect(installmentService.unlinkInstallmentExpenses).toHaveBeenCalledWith(expenseIds, session);
+    for (const spy of cleanup) {
+      expect(spy.mock.calls.every(call => call[call.length - 1] === session)).toBe(true);
+    }
+
+    const lastCleanup = Math.max(...cleanup.flatMap(spy => spy.mock.invocationCallOrder));
+    expect((Expense.deleteMany as jest.Mock).mock.invocationCallOrder[0]).toBeGreaterThan(lastCleanup);
+
+    expect(batch.status).toBe('rolled_back');
+    expect(batch.save).toHaveBeenCalledWith({ session });
+    expect(deleteReceipts).toHaveBeenCalledTimes(expenseIds.length);
+  });
+
+  it('rejects imports that are not committed', async () => {
+    batch.status = 'preview';
+
+    await expect(rollbackImport(userId, importId.toString()))
+      .rejects.toThrow('Only committed imports can be rolled back');
+    expect(Expense.deleteMany).not.toHaveBeenCalled();
+    expect(deleteReceipts).not.toHaveBeenCalled();
+  });
+});
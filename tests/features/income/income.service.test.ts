@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import Income from '../../../src/features/income/income.model';
+import Expense from '../../../src/features/expense/expense.model';
+import * as authService from '../../../src/features/auth/auth.service';
+import { getMonthlyCashFlow } from '../../../src/features/income/income.service';
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+/**
+ * Stand-in for Model.aggregate over in-memory rows
+ * (date-range $match and date $bucket summing the net amount)
+ */
+const aggregateOver = (rows: Array<{ date: string; amount: number }>) => async (pipeline: any[]) => {
+  const { $gte, $lt } = pipeline.find(stage => stage.$match).$match.date;
+  const { boundaries } = pipeline.find(stage => stage.$bucket).$bucket;
+  const buckets = new Map<number, number>();
+
+  for (const row of rows) {
+    const date = new Date(row.date);
+    if (date < $gte || date >= $lt) continue;
+
+    const start: Date = boundaries.filter((boundary: Date) => boundary <= date).pop();
+    buckets.set(start.getTime(), (buckets.get(start.getTime()) || 0) + row.amount);
+  }
+
+  return [...buckets].map(([start, total]) => ({ _id: new Date(start), total }));
+};
+
+describe('getMonthlyCashFlow', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('buckets by financial month when the month starts on the 25th', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-26T06:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.spyOn(authService, 'getUserCalendar').mockResolvedValue({ timezone: 'UTC', monthStartDay: 25 });
+
+    jest.spyOn(Income, 'aggregate').mockImplementation(aggregateOver([
+      { date: '2024-03-30T10:00:00.000Z', amount: 999 },   // Before the range
+      { date: '2024-04-25T10:00:00.000Z', amount: 50000 },
+      { date: '2024-05-25T10:00:00.000Z', amount: 52000 }
+    ]) as any);
+    jest.spyOn(Expense, 'aggregate').mockImplementation(aggregateOver([
+      { date: '2024-05-10T10:00:00.000Z', amount: 20000 },
+      { date: '2024-05-24T23:00:00.000Z', amount: 5000 },
+      { date: '2024-05-26T01:00:00.000Z', amount: 1300 }
+    ]) as any);
+
+    const cashFlow = await getMonthlyCashFlow(userId, 2);
+
+    expect(cashFlow).toEqual([
+      { month: '2024-04', income: 50000, expenses: 25000, net: 25000, savingsRate: 50 },
+      { month: '2024-05', income: 52000, expenses: 1300, net: 50700, savingsRate: expect.any(Number) }
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import Expense from '../../../src/features/expense/expense.model';
+import Category from '../../../src/features/category/category.model';
+import * as currencyService from '../../../src/features/currency/currency.service';
+import { postDueInstallments } from '../../../src/features/installment/installment.service';
+
+const plan = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+  categoryId: new mongoose.Types.ObjectId(),
+  name: 'Phone',
+  currency: 'BDT',
+  installmentCount: 3,
+  autoPay: false,
+  installments: [
+    { number: 1, amount: 5000, dueDate: new Date('2024-01-10'), status: 'upcoming' },
+    { number: 2, amount: 5000, dueDate: new Date('2024-02-10'), status: 'upcoming' },
+    { number: 3, amount: 5000, dueDate: new Date('2024-03-10'), status: 'upcoming' }
+  ],
+  markModified: jest.fn(),
+  save: jest.fn()
+});
+
+describe('postDueInstallments', () => {
+  beforeEach(() => {
+    jest.spyOn(currencyService, 'toBaseCurrency').mockImplementation(async (_userId, amount) => ({ amount } as any));
+  });
+
+  it('posts installments that are due as expenses', async () => {
+    const installmentPlan = plan();
+    jest.spyOn(Category, 'findOne').mockResolvedValue({ _id: installmentPlan.categoryId } as any);
+    jest.spyOn(Expense, 'findOneAndUpdate').mockImplementation((() => Promise.resolve({ _id: new mongoose.Types.ObjectId() })) as any);
+
+    const posted = await postDueInstallments(installmentPlan as any, new Date('2024-02-15'));
+
+    expect(posted).toBe(2);
+    expect(installmentPlan.installments.map(item => item.status)).toEqual(['due', 'due', 'upcoming']);
+  });
+
+  it('refuses to post into a category the user no longer has', async () => {
+    const installmentPlan = plan();
+    jest.spyOn(Category, 'findOne').mockResolvedValue(null);
+    const upsert = jest.spyOn(Expense, 'findOneAndUpdate');
+
+    await expect(postDueInstallments(installmentPlan as any, new Date('2024-02-15')))
+      .rejects.toThrow('Category not found');
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import RecurringSeries from '../../../src/features/recurring/recurring.model';
+import Expense from '../../../src/features/expense/expense.model';
+import Category from '../../../src/features/category/category.model';
+import { getUserTimezone } from '../../../src/features/auth/auth.service';
+import { getOccurrenceDate, skipOccurrence, getUpcomingOccurrences, materializeSeries } from '../../../src/features/recurring/recurring.service';
+
+jest.mock('../../../src/features/auth/auth.service', () => ({
+  getUserTimezone: jest.fn()
+}));
+
+const userId = new mongoose.Types.ObjectId().toString();
+const seriesId = new mongoose.Types.ObjectId().toString();
+
+describe('getOccurrenceDate', () => {
+  // 31 Jan 2024, 00:30 in Dhaka (UTC+6) - still 30 Jan on the server
+  const startDate = new Date('2024-01-30T18:30:00.000Z');
+
+  it('counts months on the user calendar, not the server calendar', () => {
+    expect(getOccurrenceDate(startDate, 'monthly', 1, 'Asia/Dhaka'))
+      .toEqual(new Date('2024-02-28T18:30:00.000Z'));  // 29 Feb, 00:30 local
+    expect(getOccurrenceDate(startDate, 'monthly', 2, 'Asia/Dhaka'))
+      .toEqual(new Date('2024-03-30T18:30:00.000Z'));  // 31 Mar, 00:30 local
+  });
+
+  it('keeps the local time of day across a DST change', () => {
+    // 9 Mar 2024, 09:00 in New York (EST, UTC-5); DST starts 10 Mar
+    const start = new Date('2024-03-09T14:00:00.000Z');
+
+    expect(getOccurrenceDate(start, 'daily', 2, 'America/New_York'))
+      .toEqual(new Date('2024-03-11T13:00:00.000Z'));  // 09:00 EDT
+  });
+
+  it('clamps yearly series that start on 29 Feb', () => {
+    const start = new Date('2024-02-29T06:00:00.000Z');
+
+    expect(getOccurrenceDate(start, 'yearly', 1, 'UTC'))
+      .toEqual(new Date('2025-02-28T06:00:00.000Z'));
+  });
+});
+
+describe('skipOccurrence', () => {
+  it('matches the requested day in the user timezone', async () => {
+    const series = {
+      _id: new mongoose.Types.ObjectId(seriesId),
+      startDate: new Date('2024-01-30T18:30:00.000Z'),
+      interval: 'monthly',
+      skippedDates: [] as Date[],
+      endDate: null,
+      save: jest.fn()
+    };
+
+    (getUserTimezone as jest.Mock).mockResolvedValue('Asia/Dhaka');
+    jest.spyOn(RecurringSeries, 'findOne').mockResolvedValue(series as any);
+    const deleteOne = jest.spyOn(Expense, 'deleteOne').mockResolvedValue({} as any);
+
+    await skipOccurrence(userId, seriesId, new Date('2024-02-29'));
+
+    const occurrenceDate = new Date('2024-02-28T18:30:00.000Z');
+    expect(series.skippedDates).toEqual([occurrenceDate]);
+    expect(series.save).toHaveBeenCalled();
+    expect(deleteOne).toHaveBeenCalledWith({ recurringSeriesId: series._id, occurrenceDate });
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('looks ahead by days on the user calendar', async () => {
+    // 11 May 2024, 02:00 in Dhaka - still 10 May on the server
+    jest.useFakeTimers({ now: new Date('2024-05-10T20:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+
+    const series = {
+      _id: new mongoose.Types.ObjectId(seriesId),
+      startDate: new Date('2024-05-11T03:00:00.000Z'),  // 09:00 local
+      interval: 'daily',
+      nextIndex: 0,
+      isActive: true,
+      endDate: null,
+      skippedDates: [],
+      amount: 100,
+      description: 'Lunch',
+      categoryId: new mongoose.Types.ObjectId()
+    };
+
+    (getUserTimezone as jest.Mock).mockResolvedValue('Asia/Dhaka');
+    jest.spyOn(RecurringSeries, 'find').mockResolvedValue([series] as any);
+
+    const occurrences = await getUpcomingOccurrences(userId, 1);
+
+    // Today and tomorrow (11 and 12 May local), not 13 May
+    expect(occurrences.map(o => o.date)).toEqual([
+      new Date('2024-05-11T03:00:00.000Z'),
+      new Date('2024-05-12T03:00:00.000Z')
+    ]);
+  });
+});
+
+describe('materializeSeries', () => {
+  const dueSeries = () => ({
+    _id: new mongoose.Types.ObjectId(seriesId),
+    userId: new mongoose.Types.ObjectId(userId),
+    categoryId: new mongoose.Types.ObjectId(),
+    startDate: new Date('2024-01-01T03:00:00.000Z'),
+    interval: 'monthly',
+    nextIndex: 1,
+    nextOccurrence: new Date('2024-02-01T03:00:00.000Z'),
+    isActive: true,
+    endDate: null,
+    skippedDates: [],
+    amount: 15000,
+    save: jest.fn()
+  });
+
+  beforeEach(() => {
+    (getUserTimezone as jest.Mock).mockResolvedValue('UTC');
+  });
+
+  it('creates the due occurrences', async () => {
+    const series = dueSeries();
+    jest.spyOn(Category, 'exists').mockResolvedValue({ _id: series.categoryId } as any);
+    const upsert = jest.spyOn(Expense, 'updateOne').mockResolvedValue({ upsertedCount: 1 } as any);
+
+    const created = await materializeSeries(series as any, new Date('2024-03-15T00:00:00.000Z'));
+
+    expect(created).toBe(2);
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(series.nextOccurrence).toEqual(new Date('2024-04-01T03:00:00.000Z'));
+    expect(series.isActive).toBe(true);
+  });
+
+  it('stops a series whose category was deleted instead of creating expenses', async () => {
+    const series = dueSeries();
+    jest.spyOn(Category, 'exists').mockResolvedValue(null);
+    const upsert = jest.spyOn(Expense, 'updateOne');
+
+    const created = await materializeSeries(series as any, new Date('2024-03-15T00:00:00.000Z'));
+
+    expect(created).toBe(0);
+    expect(upsert).not.toHaveBeenCalled();
+    expect(series.isActive).toBe(false);
+    expect(series.save).toHaveBeenCalled();
+  });
+});
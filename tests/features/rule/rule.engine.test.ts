@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import { applyRules, matchesRule, suggestFromHistory, RuleLike } from '../../../src/features/rule/rule.engine';
+
+const transport = new mongoose.Types.ObjectId();
+const food = new mongoose.Types.ObjectId();
+
+const rule = (id: string, overrides: Partial<RuleLike>): RuleLike => ({
+  _id: id,
+  conditions: {},
+  actions: {},
+  ...overrides
+});
+
+describe('matchesRule', () => {
+  it('requires every condition that is set', () => {
+    const conditions = { descriptionContains: ['uber'], maxAmount: 500 };
+
+    expect(matchesRule(conditions, { description: 'UBER trip', amount: 300 })).toBe(true);
+    expect(matchesRule(conditions, { description: 'UBER trip', amount: 800 })).toBe(false);
+    expect(matchesRule(conditions, { description: 'Bus fare', amount: 300 })).toBe(false);
+  });
+
+  it('never matches a rule without conditions', () => {
+    expect(matchesRule({}, { description: 'Anything', amount: 100 })).toBe(false);
+  });
+
+  it('treats an invalid regex as no match', () => {
+    expect(matchesRule({ descriptionRegex: '(' }, { description: '(', amount: 1 })).toBe(false);
+  });
+
+  it('matches locations within the radius', () => {
+    const conditions = { location: { latitude: 23.7808, longitude: 90.4067, radiusMeters: 200 } };
+
+    expect(matchesRule(conditions, { amount: 1, location: { latitude: 23.7815, longitude: 90.4070 } })).toBe(true);
+    expect(matchesRule(conditions, { amount: 1, location: { latitude: 23.8103, longitude: 90.4125 } })).toBe(false);
+    expect(matchesRule(conditions, { amount: 1, location: null })).toBe(false);
+  });
+});
+
+describe('applyRules', () => {
+  const subject = { description: 'Uber ride home', amount: 250, tags: ['Work'] };
+
+  it('lets the first matching rule by priority set the category', () => {
+    const result = applyRules([
+      rule('late', { priority: 5, stopProcessing: false, conditions: { descriptionContains: ['ride'] }, actions: { categoryId: food } }),
+      rule('early', { priority: 1, stopProcessing: false, conditions: { descriptionContains: ['uber'] }, actions: { categoryId: transport } })
+    ], subject);
+
+    expect(result.categoryId).toBe(transport.toString());
+    expect(result.matchedRuleIds).toEqual(['early', 'late']);
+  });
+
+  it('accumulates tags until a rule stops processing', () => {
+    const result = applyRules([
+      rule('first', { priority: 1, stopProcessing: false, conditions: { tags: ['work'] }, actions: { addTags: ['reimbursable'] } }),
+      rule('second', { priority: 2, conditions: { minAmount: 100 }, actions: { addTags: ['ride', 'reimbursable'] } }),
+      rule('third', { priority: 3, conditions: { minAmount: 100 }, actions: { addTags: ['never'] } })
+    ], subject);
+
+    expect(result.addTags).toEqual(['reimbursable', 'ride']);
+    expect(result.matchedRuleIds).toEqual(['first', 'second']);
+  });
+
+  it('skips inactive rules', () => {
+    const result = applyRules([
+      rule('off', { isActive: false, conditions: { descriptionContains: ['uber'] }, actions: { categoryId: food } })
+    ], subject);
+
+    expect(result).toEqual({ addTags: [], matchedRuleIds: [] });
+  });
+});
+
+describe('suggestFromHistory', () => {
+  const history = [
+    { description: 'Uber ride home', categoryId: transport },
+    { description: 'Uber ride office', categoryId: transport },
+    { description: 'Pathao food order', categoryId: food }
+  ];
+
+  it('scores categories by their closest past description', () => {
+    expect(suggestFromHistory(history, 'Uber ride')).toEqual([
+      { categoryId: transport.toString(), matches: 2, score: 0.82 }
+    ]);
+  });
+
+  it('returns nothing for descriptions without words', () => {
+    expect(suggestFromHistory(history, '1234 ##')).toEqual([]);
+  });
+});
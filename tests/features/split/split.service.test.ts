@@ -0,0 +1,42 @@
+import { simplifyDebts } from '../../../src/features/split/split.service';
+
+const nets = (byCurrency: Record<string, Record<string, number>>) =>
+  new Map(Object.entries(byCurrency).map(([currency, members]) => [currency, new Map(Object.entries(members))]));
+
+describe('simplifyDebts', () => {
+  it('collapses a chain of debts into one transfer', () => {
+    // alice owes bob 100, bob owes carol 100
+    expect(simplifyDebts(nets({ BDT: { alice: -100, bob: 0, carol: 100 } }))).toEqual([
+      { from: 'alice', to: 'carol', amount: 100, currency: 'BDT' }
+    ]);
+  });
+
+  it('settles everyone with at most n-1 transfers', () => {
+    const transfers = simplifyDebts(nets({ BDT: { alice: 90, bob: -30, carol: -60, dave: 0 } }));
+
+    expect(transfers).toEqual([
+      { from: 'carol', to: 'alice', amount: 60, currency: 'BDT' },
+      { from: 'bob', to: 'alice', amount: 30, currency: 'BDT' }
+    ]);
+  });
+
+  it('keeps currencies apart', () => {
+    const transfers = simplifyDebts(nets({
+      BDT: { alice: 50, bob: -50 },
+      USD: { alice: -10, bob: 10 }
+    }));
+
+    expect(transfers).toEqual([
+      { from: 'bob', to: 'alice', amount: 50, currency: 'BDT' },
+      { from: 'alice', to: 'bob', amount: 10, currency: 'USD' }
+    ]);
+  });
+
+  it('ignores rounding leftovers below a cent', () => {
+    // 100 split three ways leaves a fraction of a cent behind
+    const transfers = simplifyDebts(nets({ BDT: { alice: 66.67, bob: -33.333, carol: -33.333 } }));
+
+    expect(transfers.map(transfer => transfer.amount)).toEqual([33.33, 33.33]);
+    expect(transfers.every(transfer => transfer.to === 'alice')).toBe(true);
+  });
+});
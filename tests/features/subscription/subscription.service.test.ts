@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import { findPattern } from '../../../src/features/subscription/subscription.service';
+
+const categoryId = new mongoose.Types.ObjectId();
+
+const charge = (date: string, amount: number) => ({
+  _id: new mongoose.Types.ObjectId(),
+  date: new Date(date),
+  amount,
+  currency: 'BDT',
+  description: 'Netflix subscription',
+  categoryId
+});
+
+describe('findPattern', () => {
+  const monthly = [
+    charge('2024-01-05T10:00:00.000Z', 800),
+    charge('2024-02-05T10:00:00.000Z', 800),
+    charge('2024-03-05T10:00:00.000Z', 800),
+    charge('2024-04-05T10:00:00.000Z', 800)
+  ];
+
+  it('recognizes a monthly charge and expects the next one', () => {
+    const pattern = findPattern(monthly, new Date('2024-04-20T00:00:00.000Z'), 'UTC');
+
+    expect(pattern).toMatchObject({
+      interval: 'monthly',
+      nextExpectedDate: new Date('2024-05-05T10:00:00.000Z'),
+      confidence: 1
+    });
+    expect(pattern!.charges).toHaveLength(4);
+  });
+
+  it('ignores other purchases from the same merchant, with lower confidence', () => {
+    const withPurchase = [...monthly.slice(0, 2), charge('2024-02-20T10:00:00.000Z', 5000), ...monthly.slice(2)];
+    const pattern = findPattern(withPurchase, new Date('2024-04-20T00:00:00.000Z'), 'UTC');
+
+    expect(pattern!.interval).toBe('monthly');
+    expect(pattern!.charges).toHaveLength(4);
+    expect(pattern!.confidence).toBe(0.8);
+  });
+
+  it('counts same-day repeats once', () => {
+    const withDuplicate = [...monthly, charge('2024-04-05T10:05:00.000Z', 800)];
+    const pattern = findPattern(withDuplicate, new Date('2024-04-20T00:00:00.000Z'), 'UTC');
+
+    expect(pattern!.charges).toEqual(monthly);
+  });
+
+  it('drops patterns whose next charge is long overdue', () => {
+    expect(findPattern(monthly, new Date('2024-06-01T00:00:00.000Z'), 'UTC')).toBeNull();
+  });
+
+  it('rejects charges without a regular interval', () => {
+    const irregular = [
+      charge('2024-01-05T10:00:00.000Z', 800),
+      charge('2024-01-20T10:00:00.000Z', 800),
+      charge('2024-03-02T10:00:00.000Z', 800),
+      charge('2024-03-12T10:00:00.000Z', 800)
+    ];
+
+    expect(findPattern(irregular, new Date('2024-03-20T00:00:00.000Z'), 'UTC')).toBeNull();
+  });
+});
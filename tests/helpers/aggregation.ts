@@ -0,0 +1,119 @@
+/**
+ * In-memory stand-ins for the aggregation expressions the services use,
+ * so tests can check what a pipeline does to documents instead of how
+ * it is written
+ */
+
+type Doc = Record<string, any>;
+
+const getPath = (doc: Doc, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc as any);
+
+const OPERATORS: Record<string, (args: any[]) => any> = {
+  $concatArrays: args => args.flat(),
+  $cond: ([condition, then, otherwise]) => (condition ? then : otherwise),
+  $in: ([value, array]) => (array || []).includes(value),
+  $not: ([value]) => !value,
+  $lt: ([a, b]) => a < b,
+  $add: args => args.reduce((sum, value) => sum + value, 0),
+  $subtract: ([a, b]) => a - b,
+  $multiply: args => args.reduce((product, value) => product * value, 1),
+  $divide: ([a, b]) => a / b,
+  $floor: ([value]) => Math.floor(value),
+  $min: args => Math.min(...args),
+  $ifNull: ([value, fallback]) => value ?? fallback,
+  $arrayElemAt: ([array, index]) => array[index]
+};
+
+/**
+ * Evaluate an Aggregation Expression against a Document
+ */
+export const evaluate = (expression: any, doc: Doc, vars: Doc = {}): any => {
+  if (typeof expression === 'string' && expression.startsWith('$$')) {
+    return getPath(vars, expression.slice(2));
+  }
+
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return getPath(doc, expression.slice(1));
+  }
+
+  if (Array.isArray(expression)) {
+    return expression.map(item => evaluate(item, doc, vars));
+  }
+
+  if (expression === null || typeof expression !== 'object' || expression instanceof Date) {
+    return expression;
+  }
+
+  const [operator, args] = Object.entries(expression)[0] as [string, any];
+
+  if (operator === '$literal') {
+    return args;
+  }
+
+  if (operator === '$filter') {
+    return (evaluate(args.input, doc, vars) || []).filter((item: unknown) =>
+      evaluate(args.cond, doc, { ...vars, this: item })
+    );
+  }
+
+  if (OPERATORS[operator]) {
+    const values = evaluate(Array.isArray(args) ? args : [args], doc, vars);
+    return OPERATORS[operator](values);
+  }
+
+  return Object.fromEntries(Object.entries(expression).map(([key, value]) => [key, evaluate(value, doc, vars)]));
+};
+
+/**
+ * Apply a Pipeline Update ($set stages) to a Document
+ */
+export const applyUpdate = (pipeline: Doc[], doc: Doc): Doc => {
+  return pipeline.reduce((current, stage) => {
+    const next = structuredClone(current);
+
+    for (const [path, expression] of Object.entries(stage.$set)) {
+      const keys = path.split('.');
+      const parent = keys.slice(0, -1).reduce((value, key) => (value[key] ??= {}), next);
+      parent[keys[keys.length - 1]] = evaluate(expression, current);
+    }
+
+    return next;
+  }, doc);
+};
+
+/**
+ * Run the $group and $sort Stages of a Pipeline over Documents
+ * ($match is left to the caller: pass only the documents it keeps)
+ */
+export const aggregateInMemory = (docs: Doc[]) => async (pipeline: Doc[]) => {
+  let rows = docs;
+
+  for (const stage of pipeline) {
+    if (stage.$group) {
+      const { _id, ...fields } = stage.$group;
+      const groups = new Map<string, Doc>();
+
+      for (const doc of rows) {
+        const key = evaluate(_id, doc);
+        const id = JSON.stringify(key);
+        const group = groups.get(id) || { _id: key };
+
+        for (const [field, accumulator] of Object.entries<any>(fields)) {
+          group[field] = (group[field] || 0) + evaluate(accumulator.$sum, doc);
+        }
+
+        groups.set(id, group);
+      }
+
+      rows = [...groups.values()];
+    }
+
+    if (stage.$sort) {
+      const [[field, order]] = Object.entries<number>(stage.$sort);
+      rows = [...rows].sort((a, b) => (a[field] - b[field]) * order);
+    }
+  }
+
+  return rows;
+};
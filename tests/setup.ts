@@ -0,0 +1,17 @@
+/**
+ * Test Setup
+ *
+ * Required env for src/shared/config/env.config.ts, and a fixed
+ * server timezone so date tests don't depend on the machine
+ */
+
+process.env.TZ = 'UTC';
+process.env.MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/lifetrack-test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+// No service account in tests - push notifications stay off
+jest.mock('../src/config/firebase', () => ({
+  initializeFirebase: jest.fn(),
+  getFirebaseAdmin: jest.fn(),
+  isFirebaseInitialized: jest.fn(() => false)
+}));